@@ -7,10 +7,11 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { env } from '../config/index.js';
+import { withCassette } from '../tools/cassette.js';
 import { toolDefinitions as googleAdsTools, toolHandlers as googleAdsHandlers } from '../tools/google-ads.js';
-import { getMCP, shutdownMCP } from '../tools/mcp-bridge.js';
+import { acquireMCP } from '../tools/mcp-bridge.js';
 
-const client = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
+const client = withCassette(new Anthropic({ apiKey: env.ANTHROPIC_API_KEY }));
 
 const AD_COPY_TESTER_SYSTEM_PROMPT = `You are an Ad Copy Testing specialist for Google Ads. Your job is to:
 
@@ -174,7 +175,8 @@ export async function createAdVariation(
 ): Promise<{ success: boolean; result: any }> {
   console.log(`${dryRun ? '🧪 DRY RUN:' : '🚀 LIVE:'} Creating ad variation...`);
 
-  const mcp = await getMCP();
+  const lease = await acquireMCP();
+  const mcp = lease.bridge;
   const customerId = env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID;
 
   try {
@@ -209,7 +211,7 @@ export async function createAdVariation(
       result: result.data?.[0] || result,
     };
   } finally {
-    await shutdownMCP();
+    lease.release();
   }
 }
 
@@ -0,0 +1,739 @@
+/**
+ * Google Ads Editor CSV
+ *
+ * Converts campaign specs (or the operations built from them) to the CSV
+ * format Google Ads Editor imports (Account → Import → From file), and
+ * Editor exports back into specs the builder can deploy or the model can
+ * work from.
+ *
+ * One row per entity, as Editor writes them:
+ * - campaign rows: budget, networks and bid strategy
+ * - ad group rows
+ * - keyword rows (and campaign negatives, Criterion Type "Campaign Negative …")
+ * - responsive search ad rows (Headline 1-15, Description 1-4 with their pinned
+ *   positions, paths, final URL - insertion syntax like {KeyWord:...} is the same in Editor)
+ * - location rows (name or radius, with bid modifier)
+ *
+ * Assets, ad schedules, device modifiers and negative lists have no rows
+ * here - editorCsvOmissions() lists what an export leaves out. Imported
+ * specs never carry ids (they belong to the exporting account), so
+ * applying one creates a new campaign.
+ */
+
+import { readFileSync } from 'fs';
+import { enums } from 'google-ads-api';
+import {
+  parseAdTextAssets,
+  validateCampaignSpec,
+  type AdSpec,
+  type CampaignSpec,
+  type EntityStatus,
+  type KeywordSpec,
+  type TargetImpressionShareSpec,
+} from './campaign-builder-agent.js';
+import { assetPin, assetText, type DescriptionSpec, type HeadlineSpec } from '../tools/ad-strength.js';
+import type { NegativeKeywordSpec } from '../tools/negative-keywords.js';
+import type { GeoResolution, LocationSpec, ProximityTarget } from '../tools/geo-targets.js';
+
+type EditorRow = Record<string, string>;
+
+/** Campaign fields that fit on an Editor campaign row */
+type CampaignSettings = Pick<
+  CampaignSpec,
+  'name' | 'status' | 'dailyBudget' | 'biddingStrategy' | 'targetCpa' | 'targetRoas'
+  | 'targetImpressionShare' | 'portfolio' | 'networks'
+>;
+
+export interface EditorCsvImport {
+  specs: CampaignSpec[];
+  /** Rows (or campaigns) that have no place in a campaign spec */
+  skipped: string[];
+}
+
+// ============================================================
+// EDITOR VOCABULARY
+// ============================================================
+
+const MAX_HEADLINES = 15;
+const MAX_DESCRIPTIONS = 4;
+
+export const EDITOR_COLUMNS = [
+  'Campaign', 'Campaign Type', 'Networks', 'Budget', 'Budget type',
+  'Bid Strategy Type', 'Bid Strategy Name', 'Target CPA', 'Target ROAS',
+  'Target impression share', 'Target impression share location', 'Maximum CPC bid limit',
+  'Campaign Status', 'Ad Group', 'Ad Group Status',
+  'Keyword', 'Criterion Type',
+  'Location', 'Location ID', 'Radius', 'Unit', 'Bid Modifier',
+  'Ad type',
+  ...Array.from({ length: MAX_HEADLINES }, (_, i) => [`Headline ${i + 1}`, `Headline ${i + 1} position`]).flat(),
+  ...Array.from({ length: MAX_DESCRIPTIONS }, (_, i) => [`Description ${i + 1}`, `Description ${i + 1} position`]).flat(),
+  'Path 1', 'Path 2', 'Final URL',
+  'Status',
+];
+
+const BID_STRATEGY_NAMES: Record<CampaignSpec['biddingStrategy'], string> = {
+  MAXIMIZE_CONVERSIONS: 'Maximize conversions',
+  MAXIMIZE_CLICKS: 'Maximize clicks',
+  TARGET_CPA: 'Target CPA',
+  TARGET_ROAS: 'Target ROAS',
+  MAXIMIZE_CONVERSION_VALUE: 'Maximize conversion value',
+  TARGET_IMPRESSION_SHARE: 'Target impression share',
+  MANUAL_CPC: 'Manual CPC',
+};
+
+const NETWORK_NAMES: Record<CampaignSpec['networks'], string> = {
+  SEARCH_ONLY: 'Google search',
+  SEARCH_AND_PARTNERS: 'Google search;Search Partners',
+  SEARCH_AND_DISPLAY: 'Google search;Search Partners;Display Network',
+};
+
+const IMPRESSION_SHARE_LOCATION_NAMES: Record<TargetImpressionShareSpec['location'], string> = {
+  ANYWHERE_ON_PAGE: 'Anywhere on results page',
+  TOP_OF_PAGE: 'Top of results page',
+  ABSOLUTE_TOP_OF_PAGE: 'Absolute top of results page',
+};
+
+const MATCH_TYPE_NAMES: Record<KeywordSpec['matchType'], string> = {
+  EXACT: 'Exact',
+  PHRASE: 'Phrase',
+  BROAD: 'Broad',
+};
+
+const STATUS_NAMES: Record<EntityStatus, string> = {
+  ENABLED: 'Enabled',
+  PAUSED: 'Paused',
+};
+
+const RSA_AD_TYPE = 'Responsive search ad';
+
+/** Reverse lookup of an Editor display name (case-insensitive) */
+function fromEditorName<T extends string>(names: Record<T, string>, value: string): T | undefined {
+  const wanted = value.trim().toLowerCase();
+  return (Object.keys(names) as T[]).find(key => names[key].toLowerCase() === wanted);
+}
+
+// ============================================================
+// CSV TEXT
+// ============================================================
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCsv(rows: EditorRow[]): string {
+  const lines = [EDITOR_COLUMNS.map(escapeField).join(',')];
+  for (const row of rows) {
+    lines.push(EDITOR_COLUMNS.map(column => escapeField(row[column] ?? '')).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV (or the tab-separated text Editor exports) into rows of fields
+ */
+function parseDelimited(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = firstLine.includes('\t') ? '\t' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Read an Editor file - Editor's own exports are UTF-16 with a byte order mark
+ */
+export function readEditorCsvFile(path: string): string {
+  const buffer = readFileSync(path);
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  return buffer.toString('utf-8').replace(/^\uFEFF/, '');
+}
+
+// ============================================================
+// FORMATTING
+// ============================================================
+
+function money(dollars: number): string {
+  return dollars.toFixed(2);
+}
+
+function percent(fraction: number): string {
+  return `${Math.round(fraction * 10000) / 100}%`;
+}
+
+/** 1.2 → "+20%", 0 → "-100%" */
+function bidAdjustment(modifier: number): string {
+  const change = Math.round((modifier - 1) * 10000) / 100;
+  return `${change >= 0 ? '+' : ''}${change}%`;
+}
+
+function campaignRow(settings: CampaignSettings): EditorRow {
+  const row: EditorRow = {
+    'Campaign': settings.name,
+    'Campaign Type': 'Search',
+    'Networks': NETWORK_NAMES[settings.networks],
+    'Budget': money(settings.dailyBudget),
+    'Budget type': 'Daily',
+    'Bid Strategy Type': BID_STRATEGY_NAMES[settings.biddingStrategy],
+    // New campaigns are always created paused
+    'Campaign Status': STATUS_NAMES[settings.status ?? 'PAUSED'],
+  };
+  if (settings.portfolio) row['Bid Strategy Name'] = settings.portfolio.name;
+  if (settings.targetCpa) row['Target CPA'] = money(settings.targetCpa);
+  if (settings.targetRoas) row['Target ROAS'] = percent(settings.targetRoas);
+  if (settings.targetImpressionShare) {
+    const target = settings.targetImpressionShare;
+    row['Target impression share'] = percent(target.share);
+    row['Target impression share location'] = IMPRESSION_SHARE_LOCATION_NAMES[target.location];
+    row['Maximum CPC bid limit'] = money(target.maxCpcBid);
+  }
+  return row;
+}
+
+function adGroupRow(campaign: string, name: string, status?: EntityStatus): EditorRow {
+  return {
+    'Campaign': campaign,
+    'Ad Group': name,
+    'Ad Group Status': STATUS_NAMES[status ?? 'ENABLED'],
+  };
+}
+
+function keywordRow(campaign: string, adGroup: string, keyword: KeywordSpec): EditorRow {
+  return {
+    'Campaign': campaign,
+    'Ad Group': adGroup,
+    'Keyword': keyword.text,
+    'Criterion Type': MATCH_TYPE_NAMES[keyword.matchType],
+    'Status': 'Enabled',
+  };
+}
+
+function campaignNegativeRow(campaign: string, negative: NegativeKeywordSpec): EditorRow {
+  return {
+    'Campaign': campaign,
+    'Keyword': negative.text,
+    'Criterion Type': `Campaign Negative ${MATCH_TYPE_NAMES[negative.matchType]}`,
+  };
+}
+
+function adRow(campaign: string, adGroup: string, ad: AdSpec): EditorRow {
+  const row: EditorRow = {
+    'Campaign': campaign,
+    'Ad Group': adGroup,
+    'Ad type': RSA_AD_TYPE,
+    'Final URL': ad.finalUrl,
+    'Status': STATUS_NAMES[ad.status ?? 'ENABLED'],
+  };
+  const addAssets = (prefix: string, assets: Array<HeadlineSpec | DescriptionSpec>) => {
+    assets.forEach((asset, i) => {
+      row[`${prefix} ${i + 1}`] = assetText(asset);
+      const pin = assetPin(asset);
+      if (pin) row[`${prefix} ${i + 1} position`] = String(pin);
+    });
+  };
+  addAssets('Headline', ad.headlines);
+  addAssets('Description', ad.descriptions);
+  if (ad.path1) row['Path 1'] = ad.path1;
+  if (ad.path2) row['Path 2'] = ad.path2;
+  return row;
+}
+
+function locationRow(campaign: string, location: LocationSpec): EditorRow {
+  const row: EditorRow = { 'Campaign': campaign };
+
+  if (typeof location === 'string') {
+    row['Location'] = location;
+  } else if ('radius' in location) {
+    row['Location'] = typeof location.address === 'string'
+      ? location.address
+      : location.address
+      ? [location.address.street, location.address.city, location.address.state, location.address.postalCode]
+          .filter(Boolean).join(', ')
+      : `(${location.latitude}, ${location.longitude})`;
+    row['Radius'] = String(location.radius);
+    row['Unit'] = location.units === 'KILOMETERS' ? 'km' : 'mi';
+  } else {
+    row['Location'] = location.name;
+  }
+
+  if (typeof location !== 'string' && location.bidModifier !== undefined) {
+    row['Bid Modifier'] = bidAdjustment(location.bidModifier);
+  }
+  return row;
+}
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+/**
+ * Campaign specs as a Google Ads Editor CSV
+ */
+export function campaignSpecsToEditorCsv(specs: CampaignSpec | CampaignSpec[]): string {
+  const rows: EditorRow[] = [];
+
+  for (const spec of Array.isArray(specs) ? specs : [specs]) {
+    rows.push(campaignRow(spec));
+    for (const location of spec.locations) {
+      rows.push(locationRow(spec.name, location));
+    }
+    for (const negative of spec.negativeKeywords || []) {
+      rows.push(campaignNegativeRow(spec.name, negative));
+    }
+    for (const adGroup of spec.adGroups) {
+      rows.push(adGroupRow(spec.name, adGroup.name, adGroup.status));
+      for (const keyword of adGroup.keywords) {
+        rows.push(keywordRow(spec.name, adGroup.name, keyword));
+      }
+      for (const ad of adGroup.ads) {
+        rows.push(adRow(spec.name, adGroup.name, ad));
+      }
+    }
+  }
+
+  return formatCsv(rows);
+}
+
+/**
+ * Parts of a spec an Editor CSV can't carry
+ */
+export function editorCsvOmissions(spec: CampaignSpec): string[] {
+  const omitted: string[] = [];
+  if (spec.assets || spec.adGroups.some(ag => ag.assets)) omitted.push('assets');
+  if (spec.adSchedule?.length) omitted.push('ad schedule');
+  if (spec.deviceBidModifiers) omitted.push('device bid modifiers');
+  if (spec.sharedNegativeLists?.length || spec.standardNegatives !== false) omitted.push('negative keyword lists');
+  return omitted;
+}
+
+/**
+ * Bidding fields of a campaign (or portfolio strategy) create, as spec fields
+ */
+function biddingFromScheme(resource: any): Pick<CampaignSettings, 'biddingStrategy' | 'targetCpa' | 'targetRoas' | 'targetImpressionShare'> {
+  const dollars = (micros?: number) => (micros ? micros / 1_000_000 : undefined);
+
+  if (resource.maximize_conversions) {
+    return { biddingStrategy: 'MAXIMIZE_CONVERSIONS', targetCpa: dollars(resource.maximize_conversions.target_cpa_micros) };
+  }
+  if (resource.target_spend) return { biddingStrategy: 'MAXIMIZE_CLICKS' };
+  if (resource.target_cpa) {
+    return { biddingStrategy: 'TARGET_CPA', targetCpa: dollars(resource.target_cpa.target_cpa_micros) };
+  }
+  if (resource.target_roas) return { biddingStrategy: 'TARGET_ROAS', targetRoas: resource.target_roas.target_roas };
+  if (resource.maximize_conversion_value) {
+    return { biddingStrategy: 'MAXIMIZE_CONVERSION_VALUE', targetRoas: resource.maximize_conversion_value.target_roas };
+  }
+  if (resource.target_impression_share) {
+    const scheme = resource.target_impression_share;
+    return {
+      biddingStrategy: 'TARGET_IMPRESSION_SHARE',
+      targetImpressionShare: {
+        location: enums.TargetImpressionShareLocation[scheme.location] as TargetImpressionShareSpec['location'],
+        share: scheme.location_fraction_micros / 1_000_000,
+        maxCpcBid: scheme.cpc_bid_ceiling_micros / 1_000_000,
+      },
+    };
+  }
+  return { biddingStrategy: 'MANUAL_CPC' };
+}
+
+function networksFromSettings(settings: any): CampaignSpec['networks'] {
+  if (settings?.target_content_network) return 'SEARCH_AND_DISPLAY';
+  if (settings?.target_search_network) return 'SEARCH_AND_PARTNERS';
+  return 'SEARCH_ONLY';
+}
+
+function proximityLocation(proximity: ProximityTarget): LocationSpec {
+  const units = proximity.radius_units === 3 ? 'KILOMETERS' : 'MILES';
+  if (proximity.address) {
+    const a = proximity.address;
+    return {
+      radius: proximity.radius,
+      units,
+      address: { street: a.street_address, city: a.city_name, state: a.province_code, postalCode: a.postal_code },
+    };
+  }
+  return {
+    radius: proximity.radius,
+    units,
+    latitude: proximity.geo_point!.latitude_in_micro_degrees / 1_000_000,
+    longitude: proximity.geo_point!.longitude_in_micro_degrees / 1_000_000,
+  };
+}
+
+/**
+ * Operations from buildCampaignOperations as a Google Ads Editor CSV
+ *
+ * Pass the resolved locations (CampaignBuilderResult.locations) to name
+ * location rows; otherwise they carry only the geo target id.
+ */
+export function operationsToEditorCsv(operations: any[], locations: GeoResolution[] = []): string {
+  const creates = operations.filter(op => op.operation === 'create');
+  const byResource = (entity: string) => new Map<string, any>(
+    creates.filter(op => op.entity === entity).map(op => [op.resource.resource_name, op.resource])
+  );
+  const budgets = byResource('campaign_budget');
+  const strategies = byResource('bidding_strategy');
+  const campaigns = byResource('campaign');
+  const adGroups = byResource('ad_group');
+  const geoNames = new Map(
+    locations.filter(l => l.geoTarget).map(l => [`geoTargetConstants/${l.geoTarget!.id}`, l.geoTarget!.canonicalName])
+  );
+
+  const campaignName = (resource?: string) => (resource && campaigns.get(resource)?.name) ?? resource ?? '';
+  const adGroupName = (resource: string) => adGroups.get(resource)?.name ?? resource;
+  const matchType = (value: number) => enums.KeywordMatchType[value] as KeywordSpec['matchType'];
+  const status = (value: number): EntityStatus => (value === 3 ? 'PAUSED' : 'ENABLED');
+
+  const rows: EditorRow[] = [];
+  for (const op of creates) {
+    const resource = op.resource;
+
+    switch (op.entity) {
+      case 'campaign': {
+        const strategy = resource.bidding_strategy ? strategies.get(resource.bidding_strategy) : undefined;
+        rows.push(campaignRow({
+          name: resource.name,
+          status: status(resource.status),
+          dailyBudget: (budgets.get(resource.campaign_budget)?.amount_micros ?? 0) / 1_000_000,
+          ...biddingFromScheme(strategy ?? resource),
+          ...(resource.bidding_strategy && {
+            portfolio: { name: strategy?.name ?? resource.bidding_strategy, resourceName: resource.bidding_strategy },
+          }),
+          networks: networksFromSettings(resource.network_settings),
+        }));
+        break;
+      }
+      case 'campaign_criterion': {
+        const campaign = campaignName(resource.campaign);
+        if (resource.keyword && resource.negative) {
+          rows.push(campaignNegativeRow(campaign, { text: resource.keyword.text, matchType: matchType(resource.keyword.match_type) }));
+        } else if (resource.location || resource.proximity) {
+          const row: EditorRow = resource.location
+            ? { 'Campaign': campaign, 'Location': geoNames.get(resource.location.geo_target_constant) ?? '' }
+            : locationRow(campaign, proximityLocation(resource.proximity));
+          if (resource.location) row['Location ID'] = resource.location.geo_target_constant.split('/').pop()!;
+          if (resource.bid_modifier !== undefined) row['Bid Modifier'] = bidAdjustment(resource.bid_modifier);
+          rows.push(row);
+        }
+        break;
+      }
+      case 'ad_group':
+        rows.push(adGroupRow(campaignName(resource.campaign), resource.name, status(resource.status)));
+        break;
+      case 'ad_group_criterion':
+        if (resource.keyword && !resource.negative) {
+          const adGroup = adGroups.get(resource.ad_group);
+          rows.push(keywordRow(campaignName(adGroup?.campaign), adGroupName(resource.ad_group), {
+            text: resource.keyword.text,
+            matchType: matchType(resource.keyword.match_type),
+          }));
+        }
+        break;
+      case 'ad_group_ad': {
+        const rsa = resource.ad?.responsive_search_ad;
+        if (!rsa) break;
+        const adGroup = adGroups.get(resource.ad_group);
+        rows.push(adRow(campaignName(adGroup?.campaign), adGroupName(resource.ad_group), {
+          status: status(resource.status),
+          headlines: parseAdTextAssets(rsa.headlines),
+          descriptions: parseAdTextAssets(rsa.descriptions),
+          finalUrl: resource.ad.final_urls[0],
+          path1: rsa.path1,
+          path2: rsa.path2,
+        }));
+        break;
+      }
+    }
+  }
+
+  return formatCsv(rows);
+}
+
+// ============================================================
+// IMPORT
+// ============================================================
+
+function parseNumber(value: string, label: string): number {
+  const number = Number(value.replace(/[$,%\s]/g, ''));
+  if (!Number.isFinite(number)) {
+    throw new Error(`${label}: "${value}" is not a number`);
+  }
+  return number;
+}
+
+/** "400%" → 4 */
+function parsePercent(value: string, label: string): number {
+  return parseNumber(value, label) / 100;
+}
+
+/** "+20%" → 1.2, "-100%" → 0; a bare number is already a modifier */
+function parseBidModifier(value: string, label: string): number {
+  return value.includes('%')
+    ? Math.round((1 + parsePercent(value, label)) * 10000) / 10000
+    : parseNumber(value, label);
+}
+
+/**
+ * Keyword text and match type - Criterion Type wins, otherwise
+ * [exact] / "phrase" notation, otherwise broad
+ */
+function parseKeyword(text: string, criterionType: string): { text: string; matchType: KeywordSpec['matchType'] } {
+  const trimmed = text.trim();
+  const notation: KeywordSpec['matchType'] = /^\[.*\]$/.test(trimmed)
+    ? 'EXACT'
+    : /^".*"$/.test(trimmed) ? 'PHRASE' : 'BROAD';
+  const bare = notation === 'BROAD' ? trimmed : trimmed.slice(1, -1).trim();
+  const named = fromEditorName(MATCH_TYPE_NAMES, criterionType.replace(/^(campaign\s+)?negative\s+/i, ''));
+  return { text: bare, matchType: named ?? notation };
+}
+
+function parseLocation(row: (column: string) => string, label: string): LocationSpec {
+  const name = row('Location');
+  if (!name) {
+    throw new Error(`${label}: location rows need a Location name (a Location ID alone can't be resolved)`);
+  }
+
+  const bidModifier = row('Bid Modifier') ? parseBidModifier(row('Bid Modifier'), label) : undefined;
+  if (row('Radius')) {
+    const coordinates = name.match(/^\(?\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*\)?$/);
+    return {
+      radius: parseNumber(row('Radius'), label),
+      units: /^k/i.test(row('Unit')) ? 'KILOMETERS' : 'MILES',
+      ...(coordinates
+        ? { latitude: Number(coordinates[1]), longitude: Number(coordinates[2]) }
+        : { address: name }),
+      ...(bidModifier !== undefined && { bidModifier }),
+    };
+  }
+  return bidModifier !== undefined ? { name, bidModifier } : name;
+}
+
+/**
+ * Read Google Ads Editor CSV text into campaign specs
+ *
+ * Every spec is checked with validateCampaignSpec; a campaign that fails
+ * throws with its name and the problem.
+ */
+export function editorCsvToCampaignSpecs(text: string, source = 'CSV'): EditorCsvImport {
+  const [header, ...records] = parseDelimited(text);
+  if (!header) {
+    throw new Error(`${source} is empty`);
+  }
+
+  const normalize = (column: string) => column.trim().toLowerCase().replace(/\s+/g, ' ');
+  const columns = new Map(header.map((column, index) => [normalize(column), index]));
+  if (!columns.has('campaign')) {
+    throw new Error(`${source} has no Campaign column - is it a Google Ads Editor export?`);
+  }
+
+  interface Draft {
+    settings: Partial<CampaignSettings>;
+    type?: string;
+    locations: LocationSpec[];
+    negatives: NegativeKeywordSpec[];
+    adGroups: Map<string, CampaignSpec['adGroups'][number]>;
+  }
+  const drafts = new Map<string, Draft>();
+  const skipped: string[] = [];
+
+  records.forEach((record, index) => {
+    const label = `${source} row ${index + 2}`;
+    const row = (column: string) => (record[columns.get(normalize(column)) ?? -1] ?? '').trim();
+
+    const campaign = row('Campaign');
+    if (!campaign) {
+      skipped.push(`${label}: no campaign (account-level rows aren't part of a campaign spec)`);
+      return;
+    }
+    if (/^removed$/i.test(row('Status')) || /^removed$/i.test(row('Ad Group Status'))) {
+      skipped.push(`${label}: removed`);
+      return;
+    }
+
+    let draft = drafts.get(campaign);
+    if (!draft) {
+      draft = { settings: { name: campaign }, locations: [], negatives: [], adGroups: new Map() };
+      drafts.set(campaign, draft);
+    }
+    const adGroupName = row('Ad Group');
+    const adGroup = () => {
+      let entry = draft!.adGroups.get(adGroupName);
+      if (!entry) {
+        entry = { name: adGroupName, keywords: [], ads: [] };
+        draft!.adGroups.set(adGroupName, entry);
+      }
+      return entry;
+    };
+    const status = (column: string) => fromEditorName(STATUS_NAMES, row(column));
+
+    const adGroupStatus = status('Ad Group Status');
+    if (adGroupName && adGroupStatus) {
+      adGroup().status = adGroupStatus;
+    }
+
+    // Keywords and campaign negatives
+    if (row('Keyword')) {
+      const keyword = parseKeyword(row('Keyword'), row('Criterion Type'));
+      if (/^campaign\s+negative/i.test(row('Criterion Type'))) {
+        draft.negatives.push(keyword);
+      } else if (/negative/i.test(row('Criterion Type'))) {
+        skipped.push(`${label}: ad group negative "${keyword.text}" (campaign specs only have campaign negatives)`);
+      } else if (adGroupName) {
+        adGroup().keywords.push(keyword);
+      } else {
+        skipped.push(`${label}: keyword "${keyword.text}" has no ad group`);
+      }
+      return;
+    }
+
+    // Ads
+    if (row('Ad type')) {
+      if (!/^responsive search ad$/i.test(row('Ad type'))) {
+        skipped.push(`${label}: ${row('Ad type')} (only responsive search ads are supported)`);
+        return;
+      }
+      if (!row('Final URL')) {
+        throw new Error(`${label}: responsive search ad has no Final URL`);
+      }
+      // Pinned positions come as "1" or "Headline 1"
+      const collect = <T extends HeadlineSpec | DescriptionSpec>(prefix: string, count: number) =>
+        Array.from({ length: count }, (_, i) => {
+          const text = row(`${prefix} ${i + 1}`);
+          const pin = row(`${prefix} ${i + 1} position`).match(/\d/)?.[0];
+          return pin ? { text, pinnedTo: Number(pin) } : text;
+        }).filter(asset => assetText(asset)) as T[];
+      const adStatus = status('Status');
+      adGroup().ads.push({
+        ...(adStatus && { status: adStatus }),
+        headlines: collect<HeadlineSpec>('Headline', MAX_HEADLINES),
+        descriptions: collect<DescriptionSpec>('Description', MAX_DESCRIPTIONS),
+        finalUrl: row('Final URL'),
+        ...(row('Path 1') && { path1: row('Path 1') }),
+        ...(row('Path 2') && { path2: row('Path 2') }),
+      });
+      return;
+    }
+
+    // Locations
+    if (row('Location') || row('Location ID')) {
+      draft.locations.push(parseLocation(row, label));
+      return;
+    }
+
+    if (adGroupName) {
+      adGroup();
+      return;
+    }
+
+    // Campaign settings
+    const settings = draft.settings;
+    if (row('Campaign Type')) draft.type = row('Campaign Type');
+    if (row('Budget')) {
+      if (row('Budget type') && !/^daily$/i.test(row('Budget type'))) {
+        throw new Error(`${label}: ${row('Budget type')} budgets aren't supported - campaign specs use a daily budget`);
+      }
+      settings.dailyBudget = parseNumber(row('Budget'), label);
+    }
+    if (row('Networks')) {
+      const networks = row('Networks').toLowerCase();
+      settings.networks = networks.includes('display')
+        ? 'SEARCH_AND_DISPLAY'
+        : networks.includes('partners') ? 'SEARCH_AND_PARTNERS' : 'SEARCH_ONLY';
+    }
+    if (row('Bid Strategy Type')) {
+      const strategy = fromEditorName(BID_STRATEGY_NAMES, row('Bid Strategy Type'));
+      if (!strategy) {
+        throw new Error(
+          `${label}: unsupported bid strategy "${row('Bid Strategy Type')}" (expected one of: ${Object.values(BID_STRATEGY_NAMES).join(', ')})`
+        );
+      }
+      settings.biddingStrategy = strategy;
+    }
+    if (row('Bid Strategy Name')) settings.portfolio = { name: row('Bid Strategy Name') };
+    if (row('Target CPA')) settings.targetCpa = parseNumber(row('Target CPA'), label);
+    if (row('Target ROAS')) settings.targetRoas = parsePercent(row('Target ROAS'), label);
+    if (row('Target impression share')) {
+      const location = fromEditorName(IMPRESSION_SHARE_LOCATION_NAMES, row('Target impression share location'))
+        ?? 'ANYWHERE_ON_PAGE';
+      settings.targetImpressionShare = {
+        location,
+        share: parsePercent(row('Target impression share'), label),
+        maxCpcBid: parseNumber(row('Maximum CPC bid limit') || '0', label),
+      };
+    }
+  });
+
+  const specs: CampaignSpec[] = [];
+  for (const [name, draft] of drafts) {
+    if (draft.type && !/^search$/i.test(draft.type)) {
+      skipped.push(`Campaign "${name}": ${draft.type} campaigns aren't supported`);
+      continue;
+    }
+    const { settings } = draft;
+    if (settings.dailyBudget === undefined || !settings.biddingStrategy) {
+      throw new Error(`Campaign "${name}": no campaign row with Budget and Bid Strategy Type`);
+    }
+
+    const spec: CampaignSpec = {
+      name,
+      dailyBudget: settings.dailyBudget,
+      biddingStrategy: settings.biddingStrategy,
+      ...(settings.targetCpa !== undefined && { targetCpa: settings.targetCpa }),
+      ...(settings.targetRoas !== undefined && { targetRoas: settings.targetRoas }),
+      ...(settings.targetImpressionShare && { targetImpressionShare: settings.targetImpressionShare }),
+      ...(settings.portfolio && { portfolio: settings.portfolio }),
+      networks: settings.networks ?? 'SEARCH_ONLY',
+      locations: draft.locations,
+      adGroups: [...draft.adGroups.values()],
+      ...(draft.negatives.length > 0 && { negativeKeywords: draft.negatives }),
+    };
+
+    try {
+      validateCampaignSpec(spec);
+    } catch (error) {
+      throw new Error(`Campaign "${name}": ${error instanceof Error ? error.message : error}`);
+    }
+    specs.push(spec);
+  }
+
+  return { specs, skipped };
+}
+
+export function loadEditorCsvFile(path: string): EditorCsvImport {
+  return editorCsvToCampaignSpecs(readEditorCsvFile(path), path);
+}
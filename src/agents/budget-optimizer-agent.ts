@@ -2,23 +2,34 @@
  * Budget Optimizer Sub-Agent
  * 
  * Analyzes campaign performance and recommends budget reallocations
- * to maximize ROI across the account.
+ * to maximize ROI across the account. The allocation itself comes from
+ * the deterministic allocator in tools/budget-allocator.ts; the model
+ * only explains it.
  */
 
 import Anthropic from '@anthropic-ai/sdk';
 import { env } from '../config/index.js';
-import { toolDefinitions as googleAdsTools, toolHandlers as googleAdsHandlers } from '../tools/google-ads.js';
-import { getMCP, shutdownMCP } from '../tools/mcp-bridge.js';
+import { withCassette } from '../tools/cassette.js';
+import { queryAccount } from '../tools/google-ads.js';
+import { acquireMCP } from '../tools/mcp-bridge.js';
+import { getGuardrailPolicy } from '../tools/guardrails.js';
+import {
+  allocateBudgets,
+  type AllocationOptions,
+  type AllocationResult,
+  type CampaignBudgetStats,
+  type TargetBasis,
+} from '../tools/budget-allocator.js';
 
-const client = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
+const client = withCassette(new Anthropic({ apiKey: env.ANTHROPIC_API_KEY }));
 
-const BUDGET_OPTIMIZER_SYSTEM_PROMPT = `You are a Budget Optimizer specialist for Google Ads. Your job is to:
+const BUDGET_OPTIMIZER_SYSTEM_PROMPT = `You are a Budget Optimizer specialist for Google Ads. Budget reallocations
+are calculated by a deterministic allocator; your job is to explain its result:
 
-1. **Analyze Campaign Performance**: Review spend, conversions, CPA across all campaigns
-2. **Identify Opportunities**: Find campaigns with good CPA that could benefit from more budget
-3. **Find Waste**: Identify campaigns with poor performance that should have budget reduced
-4. **Calculate Reallocation**: Recommend specific budget moves with expected impact
-5. **Consider Constraints**: Respect minimum viable budgets and campaign objectives
+1. **Current Allocation**: Summarize spend, conversions and CPA across campaigns
+2. **Reallocation**: Explain each budget move (from → to) and why the numbers favour it
+3. **Expected Impact**: Additional conversions and CPA change, as calculated
+4. **Risks**: Anything the numbers can't see (seasonality, new campaigns, tracking gaps)
 
 ## Guidelines for Landscaping Business
 - Peak season (March-October): More aggressive budgets
@@ -26,19 +37,18 @@ const BUDGET_OPTIMIZER_SYSTEM_PROMPT = `You are a Budget Optimizer specialist fo
 - Ideal CPA for leads: $50-100
 - Minimum daily budget per campaign: $10
 
-## Output Format
-Provide:
-- Current budget allocation summary
-- Recommended reallocations (from → to)
-- Expected impact (additional conversions, CPA change)
-- Risk assessment
-- Implementation priority (1-5)
+Never change or recalculate the recommended amounts - use them exactly as given.
+Be concise and specific.`;
 
-Be specific with dollar amounts and percentages.`;
+/**
+ * Lookback window for campaign performance
+ */
+const LOOKBACK_DAYS = 30;
 
 export interface BudgetRecommendation {
   campaignId: string;
   campaignName: string;
+  budgetId: string;
   currentBudget: number;
   recommendedBudget: number;
   change: number;
@@ -56,86 +66,157 @@ export interface BudgetOptimizerResult {
   expectedROIImprovement: string;
   risks: string[];
   implementationSteps: string[];
+  allocation: AllocationResult;
+}
+
+/**
+ * Per-campaign spend, conversions and budget-limited impression share
+ * for enabled campaigns. Campaigns on shared budgets are skipped (their
+ * budget can't be moved independently).
+ */
+export async function loadCampaignBudgetStats(
+  customerId: string = env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID
+): Promise<{ campaigns: CampaignBudgetStats[]; skipped: string[] }> {
+  const rows = await queryAccount(`
+    SELECT
+      campaign.id,
+      campaign.name,
+      campaign_budget.id,
+      campaign_budget.amount_micros,
+      campaign_budget.explicitly_shared,
+      metrics.cost_micros,
+      metrics.conversions,
+      metrics.search_budget_lost_impression_share
+    FROM campaign
+    WHERE campaign.status = 'ENABLED'
+      AND segments.date DURING LAST_${LOOKBACK_DAYS}_DAYS
+  `, customerId);
+
+  const campaigns: CampaignBudgetStats[] = [];
+  const skipped: string[] = [];
+  for (const row of rows) {
+    if (row.campaign_budget?.explicitly_shared) {
+      skipped.push(`${row.campaign.name} (shared budget)`);
+      continue;
+    }
+    campaigns.push({
+      campaignId: String(row.campaign.id),
+      campaignName: row.campaign.name,
+      budgetId: String(row.campaign_budget.id),
+      dailyBudget: Number(row.campaign_budget.amount_micros || 0) / 1_000_000,
+      cost: Number(row.metrics?.cost_micros || 0) / 1_000_000,
+      conversions: Number(row.metrics?.conversions || 0),
+      lostImpressionShareBudget: Number(row.metrics?.search_budget_lost_impression_share || 0),
+      days: LOOKBACK_DAYS,
+    });
+  }
+  return { campaigns, skipped };
+}
+
+/**
+ * Allocation limits taken from the guardrail policy, so recommendations
+ * aren't blocked when they are applied
+ */
+function guardrailLimits(): Pick<AllocationOptions, 'maxChangePercent' | 'maxTotalBudget'> {
+  const limits: Pick<AllocationOptions, 'maxChangePercent' | 'maxTotalBudget'> = {};
+  for (const rule of getGuardrailPolicy().rules) {
+    if (rule.type === 'max_budget_change_percent') {
+      limits.maxChangePercent = Math.min(limits.maxChangePercent ?? Infinity, rule.percent);
+    }
+    if (rule.type === 'max_total_daily_budget') {
+      limits.maxTotalBudget = Math.min(limits.maxTotalBudget ?? Infinity, rule.amount);
+    }
+  }
+  return limits;
+}
+
+/**
+ * Turn the allocator's output into prioritized recommendations
+ * (biggest moves first; unchanged budgets are left out)
+ */
+export function toRecommendations(allocation: AllocationResult): BudgetRecommendation[] {
+  return allocation.campaigns
+    .filter(c => c.change !== 0)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || a.campaignId.localeCompare(b.campaignId))
+    .map((c, index) => {
+      const deltaConversions = (c.expectedDailyConversions - c.currentDailyConversions) * LOOKBACK_DAYS;
+      return {
+        campaignId: c.campaignId,
+        campaignName: c.campaignName,
+        budgetId: c.budgetId,
+        currentBudget: c.currentBudget,
+        recommendedBudget: c.recommendedBudget,
+        change: c.change,
+        changePercent: c.changePercent,
+        reason: c.reason,
+        expectedImpact: `${deltaConversions >= 0 ? '+' : ''}${deltaConversions.toFixed(1)} conversions/month`,
+        priority: Math.min(index + 1, 5) as BudgetRecommendation['priority'],
+      };
+    });
 }
 
-export async function runBudgetOptimizer(): Promise<BudgetOptimizerResult> {
+/**
+ * Where the total daily budget came from, for the model and the log
+ */
+function describeTarget(allocation: AllocationResult): string {
+  const basis: Record<TargetBasis, string> = {
+    'current-total': 'current total held',
+    'total-budget': 'requested total',
+    'seasonal-target': `${allocation.season} season total`,
+    'seasonal-cap': `capped for the ${allocation.season} season`,
+  };
+  return `$${allocation.targetTotalBudget}/day (${basis[allocation.targetBasis]})`;
+}
+
+function describeImprovement(allocation: AllocationResult): string {
+  const cpa = (spend: number, conversions: number) => conversions > 0 ? `$${(spend / conversions).toFixed(2)}` : 'n/a';
+  const currentSpend = allocation.campaigns.reduce((sum, c) => sum + c.currentDailySpend, 0);
+  const expectedSpend = allocation.campaigns.reduce((sum, c) => sum + Math.min(c.recommendedBudget, c.maxDailySpend), 0);
+  const delta = (allocation.expectedDailyConversions - allocation.currentDailyConversions) * LOOKBACK_DAYS;
+
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)} conversions/month; ` +
+    `CPA ${cpa(currentSpend, allocation.currentDailyConversions)} → ${cpa(expectedSpend, allocation.expectedDailyConversions)}`;
+}
+
+export async function runBudgetOptimizer(options: AllocationOptions = {}): Promise<BudgetOptimizerResult> {
   console.log('💰 Starting Budget Optimizer Agent...');
 
-  const messages: Anthropic.MessageParam[] = [
-    {
-      role: 'user',
-      content: `Optimize budget allocation across our Google Ads campaigns.
-
-Steps:
-1. Get campaign performance data for last 30 days
-2. Identify top performing campaigns (low CPA, good conversion rate)
-3. Identify underperforming campaigns (high CPA or no conversions)
-4. Calculate optimal budget reallocation
-5. Provide specific recommendations with expected impact
-
-Consider:
-- We're a landscaping business in Central Ohio
-- Peak season is March-October
-- We want to maximize leads at $50-100 CPA target
-- Current date determines seasonality context
-
-Start by getting campaign performance data.`,
-    },
+  console.log('  📊 Loading campaign budgets and performance...');
+  const { campaigns, skipped } = await loadCampaignBudgetStats();
+
+  const allocation = allocateBudgets(campaigns, { ...guardrailLimits(), ...options });
+  const recommendations = toRecommendations(allocation);
+  const expectedROIImprovement = describeImprovement(allocation);
+  const risks = [
+    ...allocation.warnings,
+    ...skipped.map(name => `Not reallocated: ${name}`),
   ];
 
-  let response = await client.messages.create({
+  console.log(`  🧮 Allocated $${allocation.recommendedTotalBudget}/day across ${campaigns.length} campaigns (${allocation.season} season)`);
+
+  // The model only explains the numbers
+  const response = await client.messages.create({
     model: env.AGENT_MODEL,
     max_tokens: env.AGENT_MAX_TOKENS,
     system: BUDGET_OPTIMIZER_SYSTEM_PROMPT,
-    tools: googleAdsTools,
-    messages,
-  });
+    messages: [
+      {
+        role: 'user',
+        content: `Explain this budget reallocation for our landscaping business in Central Ohio.
 
-  // Process tool calls
-  while (response.stop_reason === 'tool_use') {
-    const toolUseBlocks = response.content.filter(
-      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
-    );
-
-    const toolResults: Anthropic.MessageParam = {
-      role: 'user',
-      content: await Promise.all(
-        toolUseBlocks.map(async (toolUse) => {
-          console.log(`  🔧 Calling tool: ${toolUse.name}`);
-          try {
-            const handler = googleAdsHandlers[toolUse.name];
-            if (!handler) {
-              throw new Error(`Unknown tool: ${toolUse.name}`);
-            }
-            const result = await handler(toolUse.input as any);
-            return {
-              type: 'tool_result' as const,
-              tool_use_id: toolUse.id,
-              content: JSON.stringify(result, null, 2),
-            };
-          } catch (error) {
-            return {
-              type: 'tool_result' as const,
-              tool_use_id: toolUse.id,
-              content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              is_error: true,
-            };
-          }
-        })
-      ),
-    };
+Today: ${(options.date ?? new Date()).toISOString().slice(0, 10)} (${allocation.season} season)
+Current total: $${allocation.currentTotalBudget}/day → recommended: $${allocation.recommendedTotalBudget}/day
+Target total: ${describeTarget(allocation)}
+Expected impact: ${expectedROIImprovement}
 
-    messages.push({ role: 'assistant', content: response.content });
-    messages.push(toolResults);
+## Campaign allocation (last ${LOOKBACK_DAYS} days of data)
+${JSON.stringify(allocation.campaigns, null, 2)}
 
-    response = await client.messages.create({
-      model: env.AGENT_MODEL,
-      max_tokens: env.AGENT_MAX_TOKENS,
-      system: BUDGET_OPTIMIZER_SYSTEM_PROMPT,
-      tools: googleAdsTools,
-      messages,
-    });
-  }
+## Caveats
+${risks.length > 0 ? risks.map(r => `- ${r}`).join('\n') : '- None'}`,
+      },
+    ],
+  });
 
   const textBlock = response.content.find(
     (block): block is Anthropic.TextBlock => block.type === 'text'
@@ -145,12 +226,15 @@ Start by getting campaign performance data.`,
 
   return {
     summary: textBlock?.text || 'Budget optimization completed',
-    currentTotalBudget: 0,
-    recommendedTotalBudget: 0,
-    recommendations: [],
-    expectedROIImprovement: 'See analysis',
-    risks: [],
-    implementationSteps: [],
+    currentTotalBudget: allocation.currentTotalBudget,
+    recommendedTotalBudget: allocation.recommendedTotalBudget,
+    recommendations,
+    expectedROIImprovement,
+    risks,
+    implementationSteps: recommendations.map(r =>
+      `${r.priority}. ${r.campaignName}: $${r.currentBudget} → $${r.recommendedBudget}/day (${r.change > 0 ? '+' : ''}${r.changePercent}%)`
+    ),
+    allocation,
   };
 }
 
@@ -159,20 +243,21 @@ Start by getting campaign performance data.`,
  * WARNING: This actually modifies budgets!
  */
 export async function applyBudgetChanges(
-  changes: Array<{ campaignId: string; newBudgetMicros: number }>,
+  changes: Array<{ budgetId: string; newBudgetMicros: number }>,
   dryRun: boolean = true
-): Promise<{ success: boolean; results: any[] }> {
+): Promise<{ success: boolean; results: any[]; error?: string }> {
   console.log(`${dryRun ? '🧪 DRY RUN:' : '🚀 LIVE:'} Applying ${changes.length} budget changes...`);
 
-  const mcp = await getMCP();
+  const lease = await acquireMCP();
+  const mcp = lease.bridge;
   const customerId = env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID;
   
   try {
-    const operations = changes.map((change, index) => ({
+    const operations = changes.map((change) => ({
       entity: 'campaign_budget',
       operation: 'update',
       resource: {
-        resource_name: `customers/${customerId}/campaignBudgets/${change.campaignId}`,
+        resource_name: `customers/${customerId}/campaignBudgets/${change.budgetId}`,
         amount_micros: change.newBudgetMicros,
       },
       update_mask: ['amount_micros'],
@@ -187,9 +272,10 @@ export async function applyBudgetChanges(
     return {
       success: result.success,
       results: result.data || [],
+      error: result.error,
     };
   } finally {
-    await shutdownMCP();
+    lease.release();
   }
 }
 
@@ -205,20 +291,41 @@ export const budgetOptimizerTool = {
         description: 'If true, apply the recommended budget changes (dry run first)',
         default: false,
       },
+      dry_run: {
+        type: 'boolean',
+        description: 'If true (default), only validate the changes. Set to false to apply them after human approval.',
+        default: true,
+      },
     },
     required: [],
   },
-  handler: async ({ apply_recommendations = false }: { apply_recommendations?: boolean }) => {
+  handler: async ({
+    apply_recommendations = false,
+    dry_run = true,
+  }: {
+    apply_recommendations?: boolean;
+    dry_run?: boolean;
+  }) => {
     const result = await runBudgetOptimizer();
     
     if (apply_recommendations && result.recommendations.length > 0) {
       const changes = result.recommendations.map(r => ({
-        campaignId: r.campaignId,
-        newBudgetMicros: r.recommendedBudget * 1_000_000,
+        budgetId: r.budgetId,
+        newBudgetMicros: Math.round(r.recommendedBudget * 1_000_000),
       }));
       
       // Always dry run first
       const dryRunResult = await applyBudgetChanges(changes, true);
+
+      if (!dry_run && dryRunResult.success) {
+        const liveResult = await applyBudgetChanges(changes, false);
+        return {
+          ...result,
+          dryRunResult,
+          liveResult,
+          message: liveResult.success ? 'Budget changes applied.' : 'Budget changes were not applied.',
+        };
+      }
       
       return {
         ...result,
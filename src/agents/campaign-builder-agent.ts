@@ -15,10 +15,47 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { enums } from 'google-ads-api';
 import { env } from '../config/index.js';
-import { getMCP, MCPBridge } from '../tools/mcp-bridge.js';
-
-const client = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
+import { withCassette } from '../tools/cassette.js';
+import { acquireMCP } from '../tools/mcp-bridge.js';
+import { queryAccount } from '../tools/google-ads.js';
+import {
+  findNegativeKeywordLists,
+  negativeBlocks,
+  standardNegativeKeywords,
+  STANDARD_NEGATIVE_LIST_NAME,
+  type NegativeKeywordSpec,
+} from '../tools/negative-keywords.js';
+import {
+  assetPin,
+  assetText,
+  displayText,
+  scoreAdStrength,
+  validateAdText,
+  DESCRIPTION_MAX_LENGTH,
+  HEADLINE_MAX_LENGTH,
+  type AdStrength,
+  type DescriptionSpec,
+  type HeadlineSpec,
+} from '../tools/ad-strength.js';
+import {
+  describeConflicts,
+  fetchAccountKeywords,
+  findBlockedKeywords,
+  findKeywordConflicts,
+  type KeywordConflict,
+  type KeywordRef,
+} from '../tools/keyword-conflicts.js';
+import {
+  describeUnresolved,
+  resolveLocations,
+  type GeoResolution,
+  type LocationSpec,
+  type ProximityTarget,
+} from '../tools/geo-targets.js';
+
+const client = withCassette(new Anthropic({ apiKey: env.ANTHROPIC_API_KEY }));
 
 // ============================================================
 // CAMPAIGN TEMPLATES & HELPERS
@@ -39,34 +76,11 @@ const resourceName = {
     `customers/${customerId}/adGroupCriteria/${adGroupId}~${criterionId}`,
   adGroupAd: (customerId: string, adGroupId: string, adId: string) =>
     `customers/${customerId}/adGroupAds/${adGroupId}~${adId}`,
+  biddingStrategy: (customerId: string, strategyId: string) =>
+    `customers/${customerId}/biddingStrategies/${strategyId}`,
   geoTargetConstant: (id: string) => `geoTargetConstants/${id}`,
 };
 
-/**
- * Common geo target constants for Ohio
- * Supports both "Dublin" and "Dublin, Ohio" formats
- */
-const OHIO_GEO_TARGETS: Record<string, string> = {
-  // Full format (with state)
-  'Dublin, Ohio': '1014895',
-  'Powell, Ohio': '1015053', 
-  'Galena, Ohio': '1014921',
-  'New Albany, Ohio': '1015007',
-  'Westerville, Ohio': '1015149',
-  'Columbus, Ohio': '1014868',
-  'Delaware, Ohio': '1014893',
-  'Lewis Center, Ohio': '1014977',
-  // Short format (without state)
-  'Dublin': '1014895',
-  'Powell': '1015053', 
-  'Galena': '1014921',
-  'New Albany': '1015007',
-  'Westerville': '1015149',
-  'Columbus': '1014868',
-  'Delaware': '1014893',
-  'Lewis Center': '1014977',
-};
-
 /**
  * Bidding strategy types
  */
@@ -75,9 +89,32 @@ const BIDDING_STRATEGIES = {
   MAXIMIZE_CLICKS: 'MAXIMIZE_CLICKS',
   TARGET_CPA: 'TARGET_CPA',
   TARGET_ROAS: 'TARGET_ROAS',
+  MAXIMIZE_CONVERSION_VALUE: 'MAXIMIZE_CONVERSION_VALUE',
+  TARGET_IMPRESSION_SHARE: 'TARGET_IMPRESSION_SHARE',
   MANUAL_CPC: 'MANUAL_CPC',
 };
 
+/**
+ * Strategies that can be shared as a portfolio bidding_strategy
+ */
+const PORTFOLIO_STRATEGIES: Array<keyof typeof BIDDING_STRATEGIES> = [
+  'MAXIMIZE_CONVERSIONS',
+  'MAXIMIZE_CLICKS',
+  'TARGET_CPA',
+  'TARGET_ROAS',
+  'MAXIMIZE_CONVERSION_VALUE',
+  'TARGET_IMPRESSION_SHARE',
+];
+
+/**
+ * TargetImpressionShareLocation enum values
+ */
+const IMPRESSION_SHARE_LOCATIONS = {
+  ANYWHERE_ON_PAGE: 2,
+  TOP_OF_PAGE: 3,
+  ABSOLUTE_TOP_OF_PAGE: 4,
+};
+
 /**
  * Network settings
  */
@@ -103,36 +140,151 @@ const NETWORK_SETTINGS = {
 // CAMPAIGN STRUCTURE TYPES
 // ============================================================
 
+export type EntityStatus = 'ENABLED' | 'PAUSED';
+
+/**
+ * id / status fields are only set on specs exported from a live campaign
+ * (see campaign-editor-agent.ts) - they identify what a later diff updates.
+ */
 export interface CampaignSpec {
+  id?: string;
+  budgetId?: string;
+  /** The budget is shared with other campaigns, so edits leave it alone */
+  sharedBudget?: boolean;
+  status?: EntityStatus;
   name: string;
   dailyBudget: number;
   biddingStrategy: keyof typeof BIDDING_STRATEGIES;
   targetCpa?: number;
+  /** Conversion value / cost, e.g. 4 = 400% */
   targetRoas?: number;
+  /** Required for TARGET_IMPRESSION_SHARE */
+  targetImpressionShare?: TargetImpressionShareSpec;
+  /** Share the bidding strategy with other campaigns instead of setting it on this one */
+  portfolio?: PortfolioBiddingSpec;
   networks: keyof typeof NETWORK_SETTINGS;
-  locations: string[];
+  /** City / ZIP / county / DMA names, or radius targets (see tools/geo-targets.ts) */
+  locations: LocationSpec[];
   adGroups: AdGroupSpec[];
+  /** Assets (extensions) linked at campaign level */
+  assets?: AssetsSpec;
+  /** When ads may run (omit to run 24/7) */
+  adSchedule?: AdScheduleSpec[];
+  /** Device bid modifiers, e.g. { mobile: 1.2 } = +20% on phones */
+  deviceBidModifiers?: DeviceBidModifiers;
+  /** Campaign-level negative keywords */
+  negativeKeywords?: NegativeKeywordSpec[];
+  /** Account negative keyword lists to attach, by name or shared set resource name */
+  sharedNegativeLists?: string[];
+  /** Attach the standard vertical negative list (default true) */
+  standardNegatives?: boolean;
+}
+
+export interface TargetImpressionShareSpec {
+  location: keyof typeof IMPRESSION_SHARE_LOCATIONS;
+  /** Share of eligible auctions to show in, 0-1 */
+  share: number;
+  /** Max CPC bid the strategy may set */
+  maxCpcBid: number;
+}
+
+export interface PortfolioBiddingSpec {
+  /** Portfolio name - an existing strategy with this name is reused */
+  name: string;
+  /** Existing strategy to use, e.g. customers/123/biddingStrategies/456 */
+  resourceName?: string;
 }
 
 export interface AdGroupSpec {
+  id?: string;
+  status?: EntityStatus;
   name: string;
   keywords: KeywordSpec[];
   ads: AdSpec[];
+  /** Assets linked to this ad group only (override the campaign's of the same type) */
+  assets?: Omit<AssetsSpec, 'locationAssetSet'>;
 }
 
 export interface KeywordSpec {
+  /** Criterion id */
+  id?: string;
   text: string;
   matchType: 'EXACT' | 'PHRASE' | 'BROAD';
 }
 
 export interface AdSpec {
-  headlines: string[]; // 3-15 headlines (max 30 chars each)
-  descriptions: string[]; // 2-4 descriptions (max 90 chars each)
+  id?: string;
+  status?: EntityStatus;
+  /** 3-15 headlines (max 30 chars each), optionally pinned to position 1-3 */
+  headlines: HeadlineSpec[];
+  /** 2-4 descriptions (max 90 chars each), optionally pinned to position 1-2 */
+  descriptions: DescriptionSpec[];
   finalUrl: string;
   path1?: string; // max 15 chars
   path2?: string; // max 15 chars
 }
 
+export type DayOfWeek = 'MONDAY' | 'TUESDAY' | 'WEDNESDAY' | 'THURSDAY' | 'FRIDAY' | 'SATURDAY' | 'SUNDAY';
+
+export interface AdScheduleSpec {
+  /** A day, or WEEKDAYS / WEEKENDS / EVERY_DAY */
+  days: DayOfWeek | 'WEEKDAYS' | 'WEEKENDS' | 'EVERY_DAY';
+  startHour: number; // 0-23, account time zone
+  endHour: number; // 1-24, exclusive
+  /** Bid modifier inside this window, e.g. 0.8 = -20% */
+  bidModifier?: number;
+}
+
+export interface DeviceBidModifiers {
+  mobile?: number; // 0 = exclude the device
+  desktop?: number;
+  tablet?: number;
+}
+
+/**
+ * Headers Google accepts for structured snippets (English)
+ */
+const STRUCTURED_SNIPPET_HEADERS = [
+  'Amenities', 'Brands', 'Courses', 'Degree programs', 'Destinations',
+  'Featured hotels', 'Insurance coverage', 'Models', 'Neighborhoods',
+  'Service catalog', 'Shows', 'Styles', 'Types',
+] as const;
+
+export interface SitelinkSpec {
+  linkText: string; // max 25 chars
+  finalUrl: string;
+  description1?: string; // max 35 chars (both descriptions or neither)
+  description2?: string; // max 35 chars
+}
+
+export interface StructuredSnippetSpec {
+  header: typeof STRUCTURED_SNIPPET_HEADERS[number];
+  values: string[]; // 3-10 values (max 25 chars each)
+}
+
+export interface CallAssetSpec {
+  phoneNumber: string;
+  countryCode?: string; // default US
+}
+
+export interface ImageAssetSpec {
+  name: string;
+  /** Image to download when the campaign is built */
+  url?: string;
+  /** Base64 image data (filled in from url if missing) */
+  data?: string;
+}
+
+export interface AssetsSpec {
+  sitelinks?: SitelinkSpec[];
+  callouts?: string[]; // max 25 chars each
+  structuredSnippets?: StructuredSnippetSpec[];
+  call?: CallAssetSpec;
+  images?: ImageAssetSpec[];
+  /** Business Profile location asset set to link, e.g. customers/123/assetSets/456 */
+  locationAssetSet?: string;
+}
+
 // ============================================================
 // OPERATION BUILDERS
 // ============================================================
@@ -188,37 +340,117 @@ function buildCampaignOperation(
     },
   };
 
-  // Add bidding strategy (per Google's API examples)
-  // NOTE: Bidding strategy objects CANNOT be empty - they need at least one field
-  // or the API will reject them as "required field not present"
+  // Portfolio strategies are set by reference; the scheme lives on the bidding_strategy
+  if (spec.portfolio) {
+    operation.create.bidding_strategy = spec.portfolio.resourceName;
+  } else {
+    Object.assign(operation.create, buildBiddingScheme(spec));
+  }
+
+  return operation;
+}
+
+/**
+ * Bidding scheme fields for a campaign or portfolio bidding_strategy
+ *
+ * NOTE: Bidding strategy objects CANNOT be empty - they need at least one field
+ * or the API will reject them as "required field not present"
+ */
+function buildBiddingScheme(spec: CampaignSpec): Record<string, any> {
   switch (spec.biddingStrategy) {
     case 'MAXIMIZE_CONVERSIONS':
       if (spec.targetCpa) {
-        operation.create.maximize_conversions = {
-          target_cpa_micros: Math.round(spec.targetCpa * 1_000_000),
-        };
-      } else {
-        operation.create.maximize_conversions = {
-          cpc_bid_ceiling_micros: 0, // No ceiling
+        return {
+          maximize_conversions: {
+            target_cpa_micros: Math.round(spec.targetCpa * 1_000_000),
+          },
         };
       }
-      break;
+      return {
+        maximize_conversions: {
+          cpc_bid_ceiling_micros: 0, // No ceiling
+        },
+      };
     case 'MAXIMIZE_CLICKS':
       // NOTE: "target_spend" is the correct API field for Maximize Clicks bidding strategy
       // "maximize_clicks" field doesn't work via MCP Bridge - use target_spend instead
-      operation.create.target_spend = {};
-      break;
+      return { target_spend: {} };
     case 'TARGET_CPA':
-      operation.create.target_cpa = {
-        target_cpa_micros: Math.round((spec.targetCpa || 50) * 1_000_000),
+      return {
+        target_cpa: {
+          target_cpa_micros: Math.round(spec.targetCpa! * 1_000_000),
+        },
       };
-      break;
+    case 'TARGET_ROAS':
+      return {
+        target_roas: {
+          target_roas: spec.targetRoas,
+        },
+      };
+    case 'MAXIMIZE_CONVERSION_VALUE':
+      if (spec.targetRoas) {
+        return { maximize_conversion_value: { target_roas: spec.targetRoas } };
+      }
+      return {
+        maximize_conversion_value: {
+          cpc_bid_ceiling_micros: 0, // No ceiling
+        },
+      };
+    case 'TARGET_IMPRESSION_SHARE': {
+      const target = spec.targetImpressionShare!;
+      return {
+        target_impression_share: {
+          location: IMPRESSION_SHARE_LOCATIONS[target.location],
+          location_fraction_micros: Math.round(target.share * 1_000_000),
+          cpc_bid_ceiling_micros: Math.round(target.maxCpcBid * 1_000_000),
+        },
+      };
+    }
     case 'MANUAL_CPC':
-      operation.create.manual_cpc = { enhanced_cpc_enabled: false };
-      break;
+      return { manual_cpc: { enhanced_cpc_enabled: false } };
+    default:
+      throw new Error(`Unsupported bidding strategy: ${spec.biddingStrategy}`);
   }
+}
 
-  return operation;
+/**
+ * Build a portfolio bidding strategy operation
+ */
+function buildPortfolioStrategyOperation(
+  customerId: string,
+  tempId: string,
+  spec: CampaignSpec
+): any {
+  return {
+    create: {
+      resource_name: `customers/${customerId}/biddingStrategies/${tempId}`,
+      name: spec.portfolio!.name,
+      ...buildBiddingScheme(spec),
+    },
+  };
+}
+
+/**
+ * Find an existing portfolio strategy by name so several campaigns can share it
+ */
+export async function findPortfolioStrategy(
+  name: string,
+  customerId?: string
+): Promise<{ resourceName: string; type: string } | null> {
+  const rows = await queryAccount(`
+    SELECT bidding_strategy.resource_name, bidding_strategy.name, bidding_strategy.type
+    FROM bidding_strategy
+    WHERE bidding_strategy.name = '${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'
+      AND bidding_strategy.status = 'ENABLED'
+  `, customerId);
+
+  if (rows.length === 0) return null;
+  const type = enums.BiddingStrategyType[rows[0].bidding_strategy.type] ?? String(rows[0].bidding_strategy.type);
+  return {
+    resourceName: rows[0].bidding_strategy.resource_name,
+    // Maximize Clicks is stored as TARGET_SPEND
+    type: type === 'TARGET_SPEND' ? 'MAXIMIZE_CLICKS' : type,
+  };
 }
 
 /**
@@ -228,7 +460,7 @@ function buildCampaignOperation(
  * - status is a numeric enum (2 = ENABLED)
  * - type is a numeric enum (2 = SEARCH_STANDARD)
  */
-function buildAdGroupOperation(
+export function buildAdGroupOperation(
   customerId: string,
   tempId: string,
   campaignTempId: string,
@@ -252,7 +484,7 @@ function buildAdGroupOperation(
  * - status is a numeric enum (2 = ENABLED)
  * - match_type is a numeric enum (2 = EXACT, 3 = PHRASE, 4 = BROAD)
  */
-function buildKeywordOperation(
+export function buildKeywordOperation(
   customerId: string,
   tempId: string,
   adGroupTempId: string,
@@ -277,13 +509,45 @@ function buildKeywordOperation(
   };
 }
 
+/**
+ * ServedAssetFieldType values for pinned positions
+ * (HEADLINE_1-3 = 2-4, DESCRIPTION_1-2 = 5-6)
+ */
+const PINNED_FIELDS = {
+  headline: { 1: 2, 2: 3, 3: 4 } as Record<number, number>,
+  description: { 1: 5, 2: 6 } as Record<number, number>,
+};
+
+function buildAdTextAssets(assets: Array<HeadlineSpec | DescriptionSpec>, kind: keyof typeof PINNED_FIELDS): any[] {
+  return assets.map(asset => {
+    const pin = assetPin(asset);
+    return pin ? { text: assetText(asset), pinned_field: PINNED_FIELDS[kind][pin] } : { text: assetText(asset) };
+  });
+}
+
+/**
+ * Headline / description assets from the API back to spec form (pins included)
+ */
+export function parseAdTextAssets<T extends HeadlineSpec | DescriptionSpec>(assets: any[] = []): T[] {
+  return assets.map(asset => {
+    const field = typeof asset.pinned_field === 'string'
+      ? enums.ServedAssetFieldType[asset.pinned_field as keyof typeof enums.ServedAssetFieldType]
+      : asset.pinned_field;
+    const pin = [PINNED_FIELDS.headline, PINNED_FIELDS.description]
+      .map(fields => Object.keys(fields).find(position => fields[Number(position)] === field))
+      .find(Boolean);
+    return (pin ? { text: asset.text, pinnedTo: Number(pin) } : asset.text) as T;
+  });
+}
+
 /**
  * Build a responsive search ad operation
  * 
  * NOTE: Per Opteo library/Google Ads API:
  * - status is a numeric enum (2 = ENABLED)
+ * - pinned assets carry pinned_field (ServedAssetFieldType, see PINNED_FIELDS)
  */
-function buildAdOperation(
+export function buildAdOperation(
   customerId: string,
   tempId: string,
   adGroupTempId: string,
@@ -296,8 +560,8 @@ function buildAdOperation(
       status: 2, // ENABLED
       ad: {
         responsive_search_ad: {
-          headlines: ad.headlines.map(text => ({ text })),
-          descriptions: ad.descriptions.map(text => ({ text })),
+          headlines: buildAdTextAssets(ad.headlines, 'headline'),
+          descriptions: buildAdTextAssets(ad.descriptions, 'description'),
           path1: ad.path1,
           path2: ad.path2,
         },
@@ -323,7 +587,7 @@ function buildLocationTargetOperation(
   return {
     create: {
       campaign: `customers/${customerId}/campaigns/${campaignTempId}`,
-      type: 6, // LOCATION
+      type: enums.CriterionType.LOCATION,
       location: {
         geo_target_constant: `geoTargetConstants/${geoTargetId}`,
       },
@@ -332,6 +596,291 @@ function buildLocationTargetOperation(
   };
 }
 
+/**
+ * Build radius (proximity) targeting operation
+ */
+function buildProximityTargetOperation(
+  customerId: string,
+  campaignTempId: string,
+  proximity: ProximityTarget
+): any {
+  return {
+    create: {
+      campaign: `customers/${customerId}/campaigns/${campaignTempId}`,
+      type: enums.CriterionType.PROXIMITY,
+      proximity,
+      negative: false,
+    },
+  };
+}
+
+/**
+ * DayOfWeek enum values
+ */
+const DAYS_OF_WEEK: Record<DayOfWeek, number> = {
+  MONDAY: 2,
+  TUESDAY: 3,
+  WEDNESDAY: 4,
+  THURSDAY: 5,
+  FRIDAY: 6,
+  SATURDAY: 7,
+  SUNDAY: 8,
+};
+
+const DAY_GROUPS: Record<AdScheduleSpec['days'], DayOfWeek[]> = {
+  ...Object.fromEntries(Object.keys(DAYS_OF_WEEK).map(day => [day, [day as DayOfWeek]])) as Record<DayOfWeek, DayOfWeek[]>,
+  WEEKDAYS: ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY'],
+  WEEKENDS: ['SATURDAY', 'SUNDAY'],
+  EVERY_DAY: ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'],
+};
+
+/**
+ * Device enum values
+ */
+const DEVICES: Record<keyof DeviceBidModifiers, number> = {
+  mobile: 2,
+  tablet: 3,
+  desktop: 4,
+};
+
+/**
+ * Build ad schedule operations (one criterion per day in the window)
+ *
+ * NOTE: Per Google Ads API:
+ * - minutes are enums (2 = ZERO)
+ * - end_hour 24 means midnight at the end of the day
+ */
+function buildAdScheduleOperations(
+  customerId: string,
+  campaignTempId: string,
+  schedule: AdScheduleSpec
+): any[] {
+  return DAY_GROUPS[schedule.days].map(day => ({
+    create: {
+      campaign: `customers/${customerId}/campaigns/${campaignTempId}`,
+      type: enums.CriterionType.AD_SCHEDULE,
+      ad_schedule: {
+        day_of_week: DAYS_OF_WEEK[day],
+        start_hour: schedule.startHour,
+        start_minute: 2, // ZERO
+        end_hour: schedule.endHour,
+        end_minute: 2, // ZERO
+      },
+      ...(schedule.bidModifier !== undefined && { bid_modifier: schedule.bidModifier }),
+    },
+  }));
+}
+
+/**
+ * Build device bid modifier operation
+ *
+ * NOTE: Device criteria exist on every campaign; creating one sets its modifier
+ */
+function buildDeviceBidModifierOperation(
+  customerId: string,
+  campaignTempId: string,
+  device: keyof DeviceBidModifiers,
+  bidModifier: number
+): any {
+  return {
+    create: {
+      campaign: `customers/${customerId}/campaigns/${campaignTempId}`,
+      type: enums.CriterionType.DEVICE,
+      device: { type: DEVICES[device] },
+      bid_modifier: bidModifier,
+    },
+  };
+}
+
+/**
+ * KeywordMatchType enum values
+ */
+const MATCH_TYPES = {
+  EXACT: 2,
+  PHRASE: 3,
+  BROAD: 4,
+};
+
+/**
+ * Build a campaign-level negative keyword operation
+ */
+function buildCampaignNegativeOperation(
+  customerId: string,
+  campaignTempId: string,
+  negative: NegativeKeywordSpec
+): any {
+  return {
+    create: {
+      campaign: `customers/${customerId}/campaigns/${campaignTempId}`,
+      type: enums.CriterionType.KEYWORD,
+      negative: true,
+      keyword: {
+        text: negative.text,
+        match_type: MATCH_TYPES[negative.matchType],
+      },
+    },
+  };
+}
+
+/**
+ * Build operations creating a negative keyword list (shared_set + shared_criterion)
+ *
+ * NOTE: shared_criterion keywords are always negatives - no negative flag
+ */
+function buildNegativeListOperations(
+  customerId: string,
+  tempId: string,
+  name: string,
+  negatives: NegativeKeywordSpec[]
+): any[] {
+  const sharedSet = `customers/${customerId}/sharedSets/${tempId}`;
+  return [
+    {
+      entity: 'shared_set',
+      operation: 'create',
+      resource: {
+        resource_name: sharedSet,
+        name,
+        type: 2, // NEGATIVE_KEYWORDS
+      },
+    },
+    ...negatives.map(negative => ({
+      entity: 'shared_criterion',
+      operation: 'create',
+      resource: {
+        shared_set: sharedSet,
+        keyword: {
+          text: negative.text,
+          match_type: MATCH_TYPES[negative.matchType],
+        },
+      },
+    })),
+  ];
+}
+
+/**
+ * Bid modifier set on a location spec, if any
+ */
+function locationBidModifier(location: GeoResolution): number | undefined {
+  return typeof location.input === 'object' ? location.input.bidModifier : undefined;
+}
+
+/**
+ * AssetFieldType enum values used when linking assets
+ */
+const ASSET_FIELD_TYPES = {
+  CALLOUT: 11,
+  STRUCTURED_SNIPPET: 12,
+  SITELINK: 13,
+  CALL: 16,
+  AD_IMAGE: 26,
+};
+
+/**
+ * Build asset operations and the links that attach them to a campaign or ad group
+ *
+ * NOTE: Per Google Ads API:
+ * - Assets are account-level resources; campaign_asset / ad_group_asset link them
+ * - Sitelink final URLs live on the asset, not in sitelink_asset
+ * - Location assets come from a Business Profile asset set, linked via campaign_asset_set
+ */
+function buildAssetOperations(
+  customerId: string,
+  assets: AssetsSpec,
+  parent: { level: 'campaign' | 'ad_group'; resourceName: string },
+  getNextTempId: () => string
+): any[] {
+  const operations: any[] = [];
+  const linkEntity = parent.level === 'campaign' ? 'campaign_asset' : 'ad_group_asset';
+
+  const addAsset = (fieldType: number, fields: Record<string, any>) => {
+    const assetResourceName = `customers/${customerId}/assets/${getNextTempId()}`;
+    operations.push({
+      entity: 'asset',
+      operation: 'create',
+      resource: { resource_name: assetResourceName, ...fields },
+    });
+    operations.push({
+      entity: linkEntity,
+      operation: 'create',
+      resource: {
+        [parent.level]: parent.resourceName,
+        asset: assetResourceName,
+        field_type: fieldType,
+      },
+    });
+  };
+
+  for (const sitelink of assets.sitelinks || []) {
+    addAsset(ASSET_FIELD_TYPES.SITELINK, {
+      final_urls: [sitelink.finalUrl],
+      sitelink_asset: {
+        link_text: sitelink.linkText,
+        description1: sitelink.description1,
+        description2: sitelink.description2,
+      },
+    });
+  }
+
+  for (const callout of assets.callouts || []) {
+    addAsset(ASSET_FIELD_TYPES.CALLOUT, { callout_asset: { callout_text: callout } });
+  }
+
+  for (const snippet of assets.structuredSnippets || []) {
+    addAsset(ASSET_FIELD_TYPES.STRUCTURED_SNIPPET, {
+      structured_snippet_asset: { header: snippet.header, values: snippet.values },
+    });
+  }
+
+  if (assets.call) {
+    addAsset(ASSET_FIELD_TYPES.CALL, {
+      call_asset: {
+        country_code: assets.call.countryCode || 'US',
+        phone_number: assets.call.phoneNumber,
+      },
+    });
+  }
+
+  for (const image of assets.images || []) {
+    if (!image.data) {
+      throw new Error(`Image asset "${image.name}" has no data - load it with loadImageAssets() first`);
+    }
+    addAsset(ASSET_FIELD_TYPES.AD_IMAGE, { name: image.name, image_asset: { data: image.data } });
+  }
+
+  if (assets.locationAssetSet && parent.level === 'campaign') {
+    operations.push({
+      entity: 'campaign_asset_set',
+      operation: 'create',
+      resource: {
+        campaign: parent.resourceName,
+        asset_set: assets.locationAssetSet,
+      },
+    });
+  }
+
+  return operations;
+}
+
+/**
+ * Download image assets given by URL so they can be uploaded as asset data
+ */
+export async function loadImageAssets(spec: CampaignSpec): Promise<void> {
+  const images = [
+    ...(spec.assets?.images || []),
+    ...spec.adGroups.flatMap(ag => ag.assets?.images || []),
+  ];
+
+  for (const image of images) {
+    if (image.data || !image.url) continue;
+    const response = await fetch(image.url);
+    if (!response.ok) {
+      throw new Error(`Could not download image asset "${image.name}" from ${image.url}: ${response.status}`);
+    }
+    image.data = Buffer.from(await response.arrayBuffer()).toString('base64');
+  }
+}
+
 /**
  * Format date as YYYY-MM-DD
  */
@@ -358,6 +907,8 @@ When given a campaign request, you will:
 - Use EXACT match for high-intent terms
 - Use PHRASE match for service + modifier combinations
 - Use BROAD match sparingly for discovery
+- Each keyword belongs to ONE ad group - never repeat a keyword (or a plural / reordered
+  variant of it, e.g. "patio pavers" vs "paver patio") in another ad group; they bid against each other
 
 ### Ad Copy Rules (CRITICAL - CHARACTER LIMITS ARE STRICT!)
 ⚠️ IMPORTANT: These character limits are ENFORCED by Google and CANNOT be exceeded!
@@ -370,6 +921,16 @@ When given a campaign request, you will:
 - Highlight differentiators (Licensed, Insured, etc.)
 ⚠️ If a headline is 31+ chars or description is 91+ chars, it WILL be rejected!
 
+### Ad Strength (aim for Good or Excellent)
+- 12-15 headlines that each say something different (services, benefits, proof, offers, CTAs)
+- Put the ad group's main keywords in at least 3 headlines
+- A call to action in both headlines and descriptions; mention the service area in a headline
+- Don't repeat the same phrase in more than 3 headlines
+- Pin only when a message must always show (e.g. { "text": "Licensed & Insured", "pinnedTo": 2 }),
+  and pin 2-3 alternatives to the same position rather than one
+- Keyword insertion: {KeyWord:Landscape Design} - the default text must fit the limit on its own;
+  location insertion: {LOCATION(City):Central Ohio}. Use sparingly (one or two headlines)
+
 ### Ad Policy Rules (NEVER VIOLATE)
 - NEVER put phone numbers in headlines (use "Call Today" instead)
 - NEVER use excessive punctuation (no !!! or ... or ???)
@@ -378,24 +939,69 @@ When given a campaign request, you will:
 - NEVER make claims you can't prove (avoid "Best", "#1", "Award-Winning" without proof)
 - Instead of "Call (614) 555-1234", use "Call Now" or "Call Today"
 
+### Assets (Extensions)
+- 4-8 sitelinks: link text MAX 25 chars, descriptions MAX 35 chars each (both or neither)
+- 4-10 callouts: MAX 25 chars each (e.g., "Free Estimates", "Licensed & Insured")
+- 1-2 structured snippets: header from Amenities, Brands, Courses, Degree programs, Destinations,
+  Featured hotels, Insurance coverage, Models, Neighborhoods, Service catalog, Shows, Styles, Types;
+  3-10 values of MAX 25 chars each
+- Don't add a call asset - the phone number is added from the business info
+
 ### Structure
 - One theme per ad group (e.g., "Landscape Design", "Lawn Care")
 - 10-20 keywords per ad group
 - At least 2 responsive search ads per ad group
 
+### Ad Schedule & Bid Modifiers
+Landscaping leads come almost entirely from weekday business hours and mobile callers.
+Unless the request says otherwise, suggest:
+- adSchedule: WEEKDAYS 7-19 (no modifier), SATURDAY 8-14 with bidModifier 0.8 (no Sunday / overnight)
+- deviceBidModifiers: { "mobile": 1.2 } (people call from their phones); leave desktop and tablet alone
+- Location bidModifier 1.1-1.2 on the core service area, none elsewhere
+- Bid modifiers: 1.2 = +20%, 0.8 = -20%, allowed range 0.1-10 (0 excludes a device)
+
+### Negative Keywords
+- The standard negative list (jobs, DIY, "for free", pictures...) is attached automatically -
+  don't repeat those terms, and don't use keywords containing them
+- Add 5-15 campaign negatives for this campaign's own waste: services not offered,
+  wrong intent (e.g. "wholesale", "rental"), out-of-area cities. Prefer PHRASE match
+- Never add a negative that blocks one of the campaign's keywords
+
 ### Bidding
 - New campaigns: Start with MAXIMIZE_CLICKS to gather data
-- Established: MAXIMIZE_CONVERSIONS or TARGET_CPA
+- Established: MAXIMIZE_CONVERSIONS or TARGET_CPA (targetCpa required)
+- Conversion values tracked (e.g. job size): MAXIMIZE_CONVERSION_VALUE or TARGET_ROAS (targetRoas required)
+- Brand / visibility campaigns: TARGET_IMPRESSION_SHARE (location, share 0-1 and maxCpcBid required)
+- If asked to share a strategy across campaigns, set portfolio.name (an existing portfolio with that name is reused)
 - Typical CPA for landscaping leads: $50-150
 
-## Ohio Service Areas
-Available for targeting: Dublin, Powell, Galena, New Albany, Westerville, Columbus, Delaware, Lewis Center
+## Locations
+Main service areas: Dublin, Powell, Galena, New Albany, Westerville, Columbus, Delaware, Lewis Center (all Ohio)
+Any location can be targeted - always include the state so names are unambiguous:
+- Cities: "Dublin, Ohio"
+- ZIP codes: "43017"
+- Counties: "Franklin County, Ohio"
+- DMAs: "Columbus OH DMA"
+- Radius: { "radius": 15, "units": "MILES", "address": "123 Main St, Dublin, OH 43017" }
 
 Output your campaign design as valid JSON matching the CampaignSpec interface.`;
 
+export interface AdStrengthReport {
+  adGroup: string;
+  /** Position of the ad in its ad group (1-based) */
+  ad: number;
+  strength: AdStrength;
+}
+
 export interface CampaignBuilderResult {
   spec: CampaignSpec;
   operations: any[];
+  /** How each spec location was resolved to a Google Ads target */
+  locations?: GeoResolution[];
+  /** Keywords competing with each other or with live account keywords */
+  keywordConflicts?: KeywordConflict[];
+  /** Local ad strength estimate for each ad */
+  adStrength?: AdStrengthReport[];
   dryRunResult?: any;
   liveResult?: any;
   summary: string;
@@ -417,7 +1023,7 @@ export async function designCampaign(
 
   const response = await client.messages.create({
     model: env.AGENT_MODEL,
-    max_tokens: 4096,
+    max_tokens: 8192,
     system: CAMPAIGN_BUILDER_SYSTEM_PROMPT,
     messages: [
       {
@@ -437,10 +1043,21 @@ Return ONLY valid JSON matching this TypeScript interface:
 interface CampaignSpec {
   name: string;
   dailyBudget: number;
-  biddingStrategy: 'MAXIMIZE_CONVERSIONS' | 'MAXIMIZE_CLICKS' | 'TARGET_CPA' | 'MANUAL_CPC';
-  targetCpa?: number;
+  biddingStrategy: 'MAXIMIZE_CONVERSIONS' | 'MAXIMIZE_CLICKS' | 'TARGET_CPA' | 'TARGET_ROAS' | 'MAXIMIZE_CONVERSION_VALUE' | 'TARGET_IMPRESSION_SHARE' | 'MANUAL_CPC';
+  targetCpa?: number; // required for TARGET_CPA
+  targetRoas?: number; // required for TARGET_ROAS, e.g. 4 = 400%
+  targetImpressionShare?: { location: 'ANYWHERE_ON_PAGE' | 'TOP_OF_PAGE' | 'ABSOLUTE_TOP_OF_PAGE'; share: number; maxCpcBid: number }; // required for TARGET_IMPRESSION_SHARE
+  portfolio?: { name: string }; // only when asked to share a bidding strategy
   networks: 'SEARCH_ONLY' | 'SEARCH_AND_PARTNERS';
-  locations: string[]; // Use city names from Ohio list
+  locations: Array<string | { name: string; bidModifier?: number } | { radius: number; units?: 'MILES' | 'KILOMETERS'; address: string; bidModifier?: number }>; // "City, State", ZIP, "X County, State", "Name DMA" or radius
+  adSchedule?: Array<{
+    days: 'MONDAY' | 'TUESDAY' | 'WEDNESDAY' | 'THURSDAY' | 'FRIDAY' | 'SATURDAY' | 'SUNDAY' | 'WEEKDAYS' | 'WEEKENDS' | 'EVERY_DAY';
+    startHour: number; // 0-23
+    endHour: number; // 1-24
+    bidModifier?: number;
+  }>;
+  deviceBidModifiers?: { mobile?: number; desktop?: number; tablet?: number };
+  negativeKeywords?: Array<{ text: string; matchType: 'EXACT' | 'PHRASE' | 'BROAD' }>;
   adGroups: Array<{
     name: string;
     keywords: Array<{
@@ -448,19 +1065,29 @@ interface CampaignSpec {
       matchType: 'EXACT' | 'PHRASE' | 'BROAD';
     }>;
     ads: Array<{
-      headlines: string[]; // 3-15 headlines, each MAX 30 chars
-      descriptions: string[]; // 2-4 descriptions, each MAX 90 chars
+      headlines: Array<string | { text: string; pinnedTo: 1 | 2 | 3 }>; // 3-15 headlines, each MAX 30 chars
+      descriptions: Array<string | { text: string; pinnedTo: 1 | 2 }>; // 2-4 descriptions, each MAX 90 chars
       finalUrl: string;
       path1?: string;
       path2?: string;
     }>;
   }>;
+  assets?: {
+    sitelinks?: Array<{ linkText: string; finalUrl: string; description1?: string; description2?: string }>;
+    callouts?: string[];
+    structuredSnippets?: Array<{ header: string; values: string[] }>;
+  };
 }
 \`\`\``,
       },
     ],
   });
 
+  // A spec cut off mid-JSON won't parse - say why instead
+  if (response.stop_reason === 'max_tokens') {
+    throw new Error('Campaign design hit the 8192 token limit before the spec was complete - ask for fewer ad groups, or build the campaign in parts');
+  }
+
   const textBlock = response.content.find(
     (block): block is Anthropic.TextBlock => block.type === 'text'
   );
@@ -492,22 +1119,34 @@ interface CampaignSpec {
 /**
  * Sanitize and fix common AI-generated issues
  */
-function sanitizeSpec(spec: CampaignSpec): CampaignSpec {
+export function sanitizeSpec(spec: CampaignSpec): CampaignSpec {
   for (const adGroup of spec.adGroups) {
+    // Drop keywords repeated within an ad group (the API rejects duplicates)
+    const seen = new Set<string>();
+    adGroup.keywords = adGroup.keywords.filter(kw => {
+      const key = `${kw.text.trim().toLowerCase()}|${kw.matchType}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
     for (const ad of adGroup.ads) {
-      // Truncate headlines that are too long (max 30 chars)
-      ad.headlines = ad.headlines.map(h => h.length > 30 ? h.slice(0, 30).trim() : h);
+      // Truncate headlines that are too long (max 30 chars) - insertion
+      // syntax is left alone, validation reports it instead
+      ad.headlines = ad.headlines.map(asset => mapAssetText(asset, h =>
+        h.length > 30 && !h.includes('{') ? h.slice(0, 30).trim() : h
+      ));
       
       // Truncate descriptions that are too long (max 90 chars)
-      ad.descriptions = ad.descriptions.map(d => {
-        if (d.length > 90) {
+      ad.descriptions = ad.descriptions.map(asset => mapAssetText(asset, d => {
+        if (d.length > 90 && !d.includes('{')) {
           // Try to truncate at a word boundary
           const truncated = d.slice(0, 87);
           const lastSpace = truncated.lastIndexOf(' ');
           return lastSpace > 60 ? truncated.slice(0, lastSpace) + '...' : truncated + '...';
         }
         return d;
-      });
+      }));
 
       // Truncate path1/path2 (max 15 chars)
       if (ad.path1 && ad.path1.length > 15) {
@@ -518,18 +1157,25 @@ function sanitizeSpec(spec: CampaignSpec): CampaignSpec {
       }
 
       // Remove phone numbers from headlines (policy violation)
-      ad.headlines = ad.headlines.map(h =>
+      ad.headlines = ad.headlines.map(asset => mapAssetText(asset, h =>
         h.replace(/\(\d{3}\)\s?\d{3}[-.]?\d{4}|\d{3}[-.]?\d{3}[-.]?\d{4}/g, 'Call Today')
-      );
+      ));
     }
   }
   return spec;
 }
 
+/**
+ * Change an asset's text, keeping its pin
+ */
+function mapAssetText<T extends HeadlineSpec | DescriptionSpec>(asset: T, change: (text: string) => string): T {
+  return (typeof asset === 'string' ? change(asset) : { text: change(asset.text), pinnedTo: asset.pinnedTo }) as T;
+}
+
 /**
  * Validate campaign spec meets Google Ads requirements
  */
-function validateCampaignSpec(spec: CampaignSpec): void {
+export function validateCampaignSpec(spec: CampaignSpec): void {
   // Check budget
   if (spec.dailyBudget < 1) {
     throw new Error('Daily budget must be at least $1');
@@ -545,6 +1191,7 @@ function validateCampaignSpec(spec: CampaignSpec): void {
     if (adGroup.keywords.length === 0) {
       throw new Error(`Ad group "${adGroup.name}" must have at least one keyword`);
     }
+    validateKeywords(adGroup);
 
     // Check ads
     if (adGroup.ads.length === 0) {
@@ -552,43 +1199,383 @@ function validateCampaignSpec(spec: CampaignSpec): void {
     }
 
     for (const ad of adGroup.ads) {
-      // Validate headlines
-      if (ad.headlines.length < 3 || ad.headlines.length > 15) {
-        throw new Error('Ads must have 3-15 headlines');
-      }
-      for (const headline of ad.headlines) {
-        if (headline.length > 30) {
-          throw new Error(`Headline too long (${headline.length} chars, max 30): "${headline}"`);
-        }
-        // Google Ads policy: No phone numbers in headlines
-        if (/\(\d{3}\)\s?\d{3}[-.]?\d{4}|\d{3}[-.]?\d{3}[-.]?\d{4}/.test(headline)) {
-          throw new Error(`Phone numbers not allowed in headlines: "${headline}"`);
-        }
-        // Google Ads policy: No excessive punctuation
-        if (/[!]{2,}|[.]{3,}|[?]{2,}/.test(headline)) {
-          throw new Error(`Excessive punctuation not allowed in headlines: "${headline}"`);
-        }
+      validateAdSpec(ad);
+    }
+
+    if (adGroup.assets) {
+      validateAssets(adGroup.assets, `Ad group "${adGroup.name}"`);
+    }
+  }
+
+  if (spec.assets) {
+    validateAssets(spec.assets, 'Campaign');
+  }
+
+  validateBiddingStrategy(spec);
+  validateTargetingAdjustments(spec);
+  validateNegatives(spec);
+}
+
+/**
+ * Validate a responsive search ad against Google Ads limits and policies
+ */
+export function validateAdSpec(ad: AdSpec): void {
+  // Validate headlines
+  if (ad.headlines.length < 3 || ad.headlines.length > 15) {
+    throw new Error('Ads must have 3-15 headlines');
+  }
+  for (const asset of ad.headlines) {
+    // Length counts the default text of {KeyWord:...} / {LOCATION(City):...}
+    validateAdText(assetText(asset), HEADLINE_MAX_LENGTH, 'Headline');
+    const headline = displayText(assetText(asset));
+    // Google Ads policy: No phone numbers in headlines
+    if (/\(\d{3}\)\s?\d{3}[-.]?\d{4}|\d{3}[-.]?\d{3}[-.]?\d{4}/.test(headline)) {
+      throw new Error(`Phone numbers not allowed in headlines: "${headline}"`);
+    }
+    // Google Ads policy: No excessive punctuation
+    if (/[!]{2,}|[.]{3,}|[?]{2,}/.test(headline)) {
+      throw new Error(`Excessive punctuation not allowed in headlines: "${headline}"`);
+    }
+  }
+
+  // Validate descriptions
+  if (ad.descriptions.length < 2 || ad.descriptions.length > 4) {
+    throw new Error('Ads must have 2-4 descriptions');
+  }
+  for (const desc of ad.descriptions) {
+    validateAdText(assetText(desc), DESCRIPTION_MAX_LENGTH, 'Description');
+  }
+
+  validatePins(ad.headlines, 3, [1, 2], 'headline');
+  validatePins(ad.descriptions, 2, [1], 'description');
+
+  // Validate path1 and path2 (max 15 characters each)
+  if (ad.path1 && ad.path1.length > 15) {
+    throw new Error(`path1 too long (${ad.path1.length} chars, max 15): "${ad.path1}"`);
+  }
+  if (ad.path2 && ad.path2.length > 15) {
+    throw new Error(`path2 too long (${ad.path2.length} chars, max 15): "${ad.path2}"`);
+  }
+}
+
+/**
+ * Pins must name a real position, and the positions that always show
+ * (headlines 1-2, description 1) must still have something to show
+ */
+function validatePins(
+  assets: Array<HeadlineSpec | DescriptionSpec>,
+  positions: number,
+  required: number[],
+  kind: string
+): void {
+  const pins = assets.map(assetPin);
+  for (const [index, pin] of pins.entries()) {
+    if (pin !== undefined && (!Number.isInteger(pin) || pin < 1 || pin > positions)) {
+      throw new Error(`${kind} "${assetText(assets[index])}" pinned to position ${pin} - ${kind}s pin to 1-${positions}`);
+    }
+  }
+
+  const unpinned = pins.filter(pin => pin === undefined).length;
+  const empty = required.filter(position => !pins.includes(position));
+  if (empty.length > unpinned) {
+    throw new Error(`Every ${kind} is pinned but nothing can show in position ${empty.join(' / ')} - unpin one or pin one there`);
+  }
+}
+
+/**
+ * Keyword text limits, and no keyword twice in one ad group
+ *
+ * Duplicates and close variants across ad groups are left to
+ * analyzeKeywordConflicts - they waste spend but the API accepts them.
+ */
+function validateKeywords(adGroup: AdGroupSpec): void {
+  const seen = new Set<string>();
+  for (const keyword of adGroup.keywords) {
+    if (!keyword.text?.trim() || keyword.text.length > 80) {
+      throw new Error(`Keyword must be 1-80 chars: "${keyword.text}" (ad group "${adGroup.name}")`);
+    }
+    if (keyword.text.trim().split(/\s+/).length > 10) {
+      throw new Error(`Keyword has more than 10 words: "${keyword.text}" (ad group "${adGroup.name}")`);
+    }
+    if (!(keyword.matchType in MATCH_TYPES)) {
+      throw new Error(`Invalid match type "${keyword.matchType}" for keyword "${keyword.text}"`);
+    }
+    const key = `${keyword.text.trim().toLowerCase()}|${keyword.matchType}`;
+    if (seen.has(key)) {
+      throw new Error(`Keyword "${keyword.text}" (${keyword.matchType}) appears twice in ad group "${adGroup.name}"`);
+    }
+    seen.add(key);
+  }
+}
+
+/**
+ * Place names a spec targets, for the location check in ad strength
+ */
+function locationNames(spec: CampaignSpec): string[] {
+  return spec.locations.flatMap(location => {
+    if (typeof location === 'string') return [location.split(',')[0]];
+    if ('name' in location) return [location.name.split(',')[0]];
+    return typeof location.address === 'object' && location.address.city ? [location.address.city] : [];
+  }).filter(name => !/^\d+$/.test(name.trim())); // ZIP codes never appear in ad text
+}
+
+/**
+ * Estimate the ad strength of every ad in a spec
+ */
+export function scoreCampaignAds(spec: CampaignSpec): AdStrengthReport[] {
+  const locations = locationNames(spec);
+  return spec.adGroups.flatMap(adGroup =>
+    adGroup.ads.map((ad, index) => ({
+      adGroup: adGroup.name,
+      ad: index + 1,
+      strength: scoreAdStrength(ad, { keywords: adGroup.keywords.map(kw => kw.text), locations }),
+    }))
+  );
+}
+
+/**
+ * Find keywords in a spec that compete with each other or with live
+ * account keywords, and spec negatives that block the spec's keywords
+ *
+ * Account keywords from the spec's own campaign (an exported spec) are
+ * ignored - they are the spec.
+ */
+export function analyzeKeywordConflicts(
+  spec: CampaignSpec,
+  accountKeywords: KeywordRef[] = []
+): KeywordConflict[] {
+  const keywords: KeywordRef[] = spec.adGroups.flatMap(adGroup =>
+    adGroup.keywords.map(keyword => ({
+      text: keyword.text,
+      matchType: keyword.matchType,
+      campaign: spec.name,
+      adGroup: adGroup.name,
+      source: 'spec' as const,
+    }))
+  );
+  const others = accountKeywords.filter(keyword =>
+    spec.id ? keyword.campaignId !== spec.id : keyword.campaign !== spec.name
+  );
+
+  const negatives = [
+    ...(spec.negativeKeywords || []),
+    ...(spec.standardNegatives !== false ? standardNegativeKeywords() : []),
+  ];
+
+  return [
+    ...findKeywordConflicts(keywords, others),
+    ...findBlockedKeywords(negatives, keywords),
+  ];
+}
+
+/**
+ * Negatives must be valid keywords and must not block the campaign's own keywords
+ */
+function validateNegatives(spec: CampaignSpec): void {
+  const keywords = spec.adGroups.flatMap(ag => ag.keywords.map(kw => kw.text));
+
+  for (const negative of spec.negativeKeywords || []) {
+    if (!negative.text?.trim() || negative.text.length > 80) {
+      throw new Error(`Negative keyword must be 1-80 chars: "${negative.text}"`);
+    }
+    if (!(negative.matchType in MATCH_TYPES)) {
+      throw new Error(`Invalid match type "${negative.matchType}" for negative "${negative.text}"`);
+    }
+    const blocked = keywords.filter(keyword => negativeBlocks(negative, keyword));
+    if (blocked.length > 0) {
+      throw new Error(`Negative "${negative.text}" (${negative.matchType}) would block the campaign's own keywords: ${blocked.join(', ')}`);
+    }
+  }
+
+  if (spec.standardNegatives !== false) {
+    for (const negative of standardNegativeKeywords()) {
+      const blocked = keywords.filter(keyword => negativeBlocks(negative, keyword));
+      if (blocked.length > 0) {
+        throw new Error(`Standard negative "${negative.text}" would block: ${blocked.join(', ')} - set standardNegatives: false or drop those keywords`);
       }
+    }
+  }
+}
+
+/**
+ * Check each bidding strategy has the targets it needs
+ */
+function validateBiddingStrategy(spec: CampaignSpec): void {
+  if (!(spec.biddingStrategy in BIDDING_STRATEGIES)) {
+    throw new Error(`Unknown bidding strategy "${spec.biddingStrategy}" (use one of: ${Object.keys(BIDDING_STRATEGIES).join(', ')})`);
+  }
+
+  if (spec.targetCpa !== undefined && !(spec.targetCpa > 0)) {
+    throw new Error(`targetCpa must be a positive amount, got ${spec.targetCpa}`);
+  }
+  if (spec.targetRoas !== undefined && !(spec.targetRoas >= 0.01 && spec.targetRoas <= 1000)) {
+    throw new Error(`targetRoas must be between 0.01 and 1000 (4 = 400%), got ${spec.targetRoas}`);
+  }
 
-      // Validate descriptions
-      if (ad.descriptions.length < 2 || ad.descriptions.length > 4) {
-        throw new Error('Ads must have 2-4 descriptions');
+  switch (spec.biddingStrategy) {
+    case 'TARGET_CPA':
+      if (spec.targetCpa === undefined) {
+        throw new Error('TARGET_CPA bidding needs targetCpa');
       }
-      for (const desc of ad.descriptions) {
-        if (desc.length > 90) {
-          throw new Error(`Description too long (${desc.length} chars, max 90): "${desc}"`);
-        }
+      break;
+    case 'TARGET_ROAS':
+      if (spec.targetRoas === undefined) {
+        throw new Error('TARGET_ROAS bidding needs targetRoas');
+      }
+      break;
+    case 'TARGET_IMPRESSION_SHARE': {
+      const target = spec.targetImpressionShare;
+      if (!target) {
+        throw new Error('TARGET_IMPRESSION_SHARE bidding needs targetImpressionShare { location, share, maxCpcBid }');
       }
+      if (!(target.location in IMPRESSION_SHARE_LOCATIONS)) {
+        throw new Error(`Unknown impression share location "${target.location}" (use one of: ${Object.keys(IMPRESSION_SHARE_LOCATIONS).join(', ')})`);
+      }
+      if (!(target.share > 0 && target.share <= 1)) {
+        throw new Error(`targetImpressionShare.share must be between 0 and 1, got ${target.share}`);
+      }
+      if (!(target.maxCpcBid > 0)) {
+        throw new Error('targetImpressionShare.maxCpcBid must be a positive amount');
+      }
+      break;
+    }
+  }
 
-      // Validate path1 and path2 (max 15 characters each)
-      if (ad.path1 && ad.path1.length > 15) {
-        throw new Error(`path1 too long (${ad.path1.length} chars, max 15): "${ad.path1}"`);
+  if (spec.portfolio) {
+    if (!PORTFOLIO_STRATEGIES.includes(spec.biddingStrategy)) {
+      throw new Error(`${spec.biddingStrategy} cannot be used as a portfolio bidding strategy`);
+    }
+    if (!spec.portfolio.name && !spec.portfolio.resourceName) {
+      throw new Error('Portfolio bidding needs a name or an existing resourceName');
+    }
+    if (spec.portfolio.resourceName && !/^customers\/\d+\/biddingStrategies\/-?\d+$/.test(spec.portfolio.resourceName)) {
+      throw new Error(`Invalid portfolio resourceName "${spec.portfolio.resourceName}"`);
+    }
+  }
+}
+
+/**
+ * Google accepts bid modifiers from 0.1 (-90%) to 10 (+900%)
+ */
+function validateBidModifier(value: number, label: string, allowExclude = false): void {
+  if (allowExclude && value === 0) return;
+  if (!Number.isFinite(value) || value < 0.1 || value > 10) {
+    throw new Error(`${label} bid modifier must be between 0.1 and 10${allowExclude ? ' (or 0 to exclude)' : ''}, got ${value}`);
+  }
+}
+
+/**
+ * Validate ad schedule windows and bid modifiers
+ */
+function validateTargetingAdjustments(spec: CampaignSpec): void {
+  const windowsByDay = new Map<DayOfWeek, Array<[number, number]>>();
+
+  for (const schedule of spec.adSchedule || []) {
+    const days = DAY_GROUPS[schedule.days];
+    if (!days) {
+      throw new Error(`Unknown ad schedule days "${schedule.days}"`);
+    }
+    const { startHour, endHour } = schedule;
+    if (!Number.isInteger(startHour) || !Number.isInteger(endHour) || startHour < 0 || endHour > 24 || startHour >= endHour) {
+      throw new Error(`Invalid ad schedule hours for ${schedule.days}: ${startHour}-${endHour} (need whole hours, 0 <= start < end <= 24)`);
+    }
+    if (schedule.bidModifier !== undefined) {
+      validateBidModifier(schedule.bidModifier, `Ad schedule ${schedule.days} ${startHour}-${endHour}`);
+    }
+
+    for (const day of days) {
+      const windows = windowsByDay.get(day) || [];
+      const overlap = windows.find(([start, end]) => startHour < end && start < endHour);
+      if (overlap) {
+        throw new Error(`Ad schedule windows overlap on ${day}: ${overlap[0]}-${overlap[1]} and ${startHour}-${endHour}`);
       }
-      if (ad.path2 && ad.path2.length > 15) {
-        throw new Error(`path2 too long (${ad.path2.length} chars, max 15): "${ad.path2}"`);
+      windows.push([startHour, endHour]);
+      windowsByDay.set(day, windows);
+    }
+  }
+
+  // Google allows at most 6 schedule entries per day
+  for (const [day, windows] of windowsByDay) {
+    if (windows.length > 6) {
+      throw new Error(`Too many ad schedule windows on ${day} (${windows.length}, max 6)`);
+    }
+  }
+
+  for (const [device, bidModifier] of Object.entries(spec.deviceBidModifiers || {})) {
+    if (!(device in DEVICES)) {
+      throw new Error(`Unknown device "${device}" (use mobile, desktop or tablet)`);
+    }
+    if (bidModifier !== undefined) {
+      validateBidModifier(bidModifier, `Device ${device}`, true);
+    }
+  }
+
+  const excluded = Object.values(spec.deviceBidModifiers || {}).filter(value => value === 0).length;
+  if (excluded === Object.keys(DEVICES).length) {
+    throw new Error('Device bid modifiers exclude every device - the campaign could never serve');
+  }
+
+  for (const location of spec.locations) {
+    if (typeof location === 'object' && location.bidModifier !== undefined) {
+      validateBidModifier(location.bidModifier, `Location "${'name' in location ? location.name : `${location.radius} radius`}"`);
+    }
+  }
+}
+
+/**
+ * Validate asset text against Google Ads limits
+ */
+function validateAssets(assets: AssetsSpec, owner: string): void {
+  for (const sitelink of assets.sitelinks || []) {
+    if (!sitelink.linkText || sitelink.linkText.length > 25) {
+      throw new Error(`${owner}: sitelink text must be 1-25 chars (${sitelink.linkText?.length ?? 0}): "${sitelink.linkText}"`);
+    }
+    if (!sitelink.finalUrl) {
+      throw new Error(`${owner}: sitelink "${sitelink.linkText}" needs a finalUrl`);
+    }
+    if (!!sitelink.description1 !== !!sitelink.description2) {
+      throw new Error(`${owner}: sitelink "${sitelink.linkText}" needs both descriptions or neither`);
+    }
+    for (const desc of [sitelink.description1, sitelink.description2]) {
+      if (desc && desc.length > 35) {
+        throw new Error(`${owner}: sitelink description too long (${desc.length} chars, max 35): "${desc}"`);
+      }
+    }
+  }
+
+  for (const callout of assets.callouts || []) {
+    if (!callout || callout.length > 25) {
+      throw new Error(`${owner}: callout must be 1-25 chars (${callout?.length ?? 0}): "${callout}"`);
+    }
+  }
+
+  for (const snippet of assets.structuredSnippets || []) {
+    if (!STRUCTURED_SNIPPET_HEADERS.includes(snippet.header)) {
+      throw new Error(`${owner}: unknown structured snippet header "${snippet.header}" (use one of: ${STRUCTURED_SNIPPET_HEADERS.join(', ')})`);
+    }
+    if (snippet.values.length < 3 || snippet.values.length > 10) {
+      throw new Error(`${owner}: structured snippet "${snippet.header}" needs 3-10 values`);
+    }
+    for (const value of snippet.values) {
+      if (!value || value.length > 25) {
+        throw new Error(`${owner}: structured snippet value must be 1-25 chars (${value?.length ?? 0}): "${value}"`);
       }
     }
   }
+
+  if (assets.call && !/^[+()\d\s.-]{7,20}$/.test(assets.call.phoneNumber)) {
+    throw new Error(`${owner}: invalid call asset phone number "${assets.call.phoneNumber}"`);
+  }
+
+  for (const image of assets.images || []) {
+    if (!image.url && !image.data) {
+      throw new Error(`${owner}: image asset "${image.name}" needs a url or data`);
+    }
+  }
+
+  if (assets.locationAssetSet && !/^customers\/\d+\/assetSets\/\d+$/.test(assets.locationAssetSet)) {
+    throw new Error(`${owner}: locationAssetSet must be an asset set resource name, got "${assets.locationAssetSet}"`);
+  }
 }
 
 /**
@@ -596,10 +1583,16 @@ function validateCampaignSpec(spec: CampaignSpec): void {
  * 
  * The MCP expects operations in Opteo format:
  * { entity: "campaign_budget", operation: "create", resource: {...} }
+ *
+ * `locations` are the resolved spec.locations (see resolveLocations);
+ * `negativeLists` maps existing negative list names to their shared sets
+ * (see findNegativeKeywordLists) - the standard list is created if missing
  */
 export function buildCampaignOperations(
   customerId: string,
-  spec: CampaignSpec
+  spec: CampaignSpec,
+  locations: GeoResolution[] = [],
+  negativeLists: Record<string, string> = {}
 ): any[] {
   const operations: any[] = [];
   let tempIdCounter = -1;
@@ -615,7 +1608,18 @@ export function buildCampaignOperations(
     resource: budgetOp.create,
   });
 
-  // 2. Create campaign
+  // 2. Create (or reuse) the portfolio bidding strategy, then the campaign
+  if (spec.portfolio && !spec.portfolio.resourceName) {
+    const strategyTempId = getNextTempId();
+    const strategyOp = buildPortfolioStrategyOperation(customerId, strategyTempId, spec);
+    operations.push({
+      entity: 'bidding_strategy',
+      operation: 'create',
+      resource: strategyOp.create,
+    });
+    spec = { ...spec, portfolio: { ...spec.portfolio, resourceName: strategyOp.create.resource_name } };
+  }
+
   const campaignTempId = getNextTempId();
   const campaignOp = buildCampaignOperation(customerId, campaignTempId, budgetTempId, spec);
   operations.push({
@@ -625,38 +1629,101 @@ export function buildCampaignOperations(
   });
 
   // 3. Create location targeting
-  for (const location of spec.locations) {
-    // Try exact match first, then try case-insensitive
-    let geoTargetId = OHIO_GEO_TARGETS[location];
-    if (!geoTargetId) {
-      // Try to find a case-insensitive match
-      const lowerLocation = location.toLowerCase();
-      const matchingKey = Object.keys(OHIO_GEO_TARGETS).find(
-        key => key.toLowerCase() === lowerLocation || 
-               key.toLowerCase().startsWith(lowerLocation.split(',')[0].toLowerCase())
-      );
-      if (matchingKey) {
-        geoTargetId = OHIO_GEO_TARGETS[matchingKey];
-      }
+  for (const location of locations) {
+    const locationOp = location.geoTarget
+      ? buildLocationTargetOperation(customerId, campaignTempId, location.geoTarget.id)
+      : location.proximity
+      ? buildProximityTargetOperation(customerId, campaignTempId, location.proximity)
+      : null;
+
+    if (!locationOp) {
+      // Never build a campaign that silently targets more than was asked for
+      throw new Error(`Location "${location.label}" is ${location.status}: ${location.message || 'no target'}`);
     }
-    
-    if (geoTargetId) {
-      const locationOp = buildLocationTargetOperation(
-        customerId,
-        campaignTempId,
-        geoTargetId
-      );
+    const bidModifier = locationBidModifier(location);
+    operations.push({
+      entity: 'campaign_criterion',
+      operation: 'create',
+      resource: bidModifier !== undefined ? { ...locationOp.create, bid_modifier: bidModifier } : locationOp.create,
+    });
+  }
+
+  // 4. Ad schedule and device bid modifiers
+  for (const schedule of spec.adSchedule || []) {
+    for (const scheduleOp of buildAdScheduleOperations(customerId, campaignTempId, schedule)) {
       operations.push({
         entity: 'campaign_criterion',
         operation: 'create',
-        resource: locationOp.create,
+        resource: scheduleOp.create,
       });
+    }
+  }
+
+  for (const [device, bidModifier] of Object.entries(spec.deviceBidModifiers || {})) {
+    if (bidModifier === undefined) continue;
+    const deviceOp = buildDeviceBidModifierOperation(customerId, campaignTempId, device as keyof DeviceBidModifiers, bidModifier);
+    operations.push({
+      entity: 'campaign_criterion',
+      operation: 'create',
+      resource: deviceOp.create,
+    });
+  }
+
+  // 5. Negative keywords and negative keyword lists
+  for (const negative of spec.negativeKeywords || []) {
+    const negativeOp = buildCampaignNegativeOperation(customerId, campaignTempId, negative);
+    operations.push({
+      entity: 'campaign_criterion',
+      operation: 'create',
+      resource: negativeOp.create,
+    });
+  }
+
+  const sharedSets = (spec.sharedNegativeLists || []).map(list => {
+    if (/^customers\/\d+\/sharedSets\/\d+$/.test(list)) return list;
+    if (!negativeLists[list]) {
+      throw new Error(`Negative keyword list "${list}" not found`);
+    }
+    return negativeLists[list];
+  });
+
+  if (spec.standardNegatives !== false) {
+    if (negativeLists[STANDARD_NEGATIVE_LIST_NAME]) {
+      sharedSets.push(negativeLists[STANDARD_NEGATIVE_LIST_NAME]);
     } else {
-      console.warn(`⚠️  Unknown location "${location}" - skipping location targeting`);
+      const listOps = buildNegativeListOperations(
+        customerId,
+        getNextTempId(),
+        STANDARD_NEGATIVE_LIST_NAME,
+        standardNegativeKeywords()
+      );
+      operations.push(...listOps);
+      sharedSets.push(listOps[0].resource.resource_name);
     }
   }
 
-  // 4. Create ad groups, keywords, and ads
+  for (const sharedSet of new Set(sharedSets)) {
+    operations.push({
+      entity: 'campaign_shared_set',
+      operation: 'create',
+      resource: {
+        campaign: `customers/${customerId}/campaigns/${campaignTempId}`,
+        shared_set: sharedSet,
+      },
+    });
+  }
+
+  // 6. Campaign-level assets
+  if (spec.assets) {
+    operations.push(...buildAssetOperations(
+      customerId,
+      spec.assets,
+      { level: 'campaign', resourceName: `customers/${customerId}/campaigns/${campaignTempId}` },
+      getNextTempId
+    ));
+  }
+
+  // 7. Create ad groups, keywords, ads and ad group assets
   for (const adGroupSpec of spec.adGroups) {
     const adGroupTempId = getNextTempId();
     
@@ -702,6 +1769,16 @@ export function buildCampaignOperations(
         resource: adOp.create,
       });
     }
+
+    // Ad group assets
+    if (adGroupSpec.assets) {
+      operations.push(...buildAssetOperations(
+        customerId,
+        adGroupSpec.assets,
+        { level: 'ad_group', resourceName: `customers/${customerId}/adGroups/${adGroupTempId}` },
+        getNextTempId
+      ));
+    }
   }
 
   return operations;
@@ -724,7 +1801,7 @@ export async function createCampaign(
     autoApprove?: boolean;
   } = {}
 ): Promise<CampaignBuilderResult> {
-  const { customerId = env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID, dryRun = true } = options;
+  const { dryRun = true } = options;
 
   console.log('\n🚀 CAMPAIGN BUILDER AGENT\n');
   console.log('━'.repeat(50));
@@ -737,12 +1814,24 @@ export async function createCampaign(
     const timestamp = Date.now().toString().slice(-6); // Last 6 digits
     spec.name = `${spec.name} [TEST-${timestamp}]`;
   }
-  
+
+  // Every campaign gets a call asset when we know the business phone number
+  if (businessInfo.phone && !spec.assets?.call) {
+    spec.assets = { ...spec.assets, call: { phoneNumber: businessInfo.phone } };
+  }
+
+  return deployCampaignSpec(spec, options);
+}
+
+/**
+ * Print the shape of a campaign spec
+ */
+function logSpecSummary(spec: CampaignSpec): { totalKeywords: number; totalAds: number } {
   console.log('\n📋 Campaign Design:');
   console.log(`   Name: ${spec.name}`);
   console.log(`   Budget: $${spec.dailyBudget}/day`);
-  console.log(`   Bidding: ${spec.biddingStrategy}`);
-  console.log(`   Locations: ${spec.locations.join(', ')}`);
+  console.log(`   Bidding: ${spec.biddingStrategy}${spec.portfolio ? ` (portfolio "${spec.portfolio.name}")` : ''}`);
+  console.log(`   Locations: ${spec.locations.map(l => typeof l === 'string' ? l : JSON.stringify(l)).join(', ')}`);
   console.log(`   Ad Groups: ${spec.adGroups.length}`);
   
   let totalKeywords = 0;
@@ -753,69 +1842,170 @@ export async function createCampaign(
   }
   console.log(`   Keywords: ${totalKeywords}`);
   console.log(`   Ads: ${totalAds}`);
+  if (spec.adSchedule?.length) {
+    console.log(`   Schedule: ${spec.adSchedule.map(s => `${s.days} ${s.startHour}-${s.endHour}${s.bidModifier !== undefined ? ` (x${s.bidModifier})` : ''}`).join(', ')}`);
+  }
 
-  // Step 2: Build operations
-  console.log('\n🔧 Building operations...');
-  const operations = buildCampaignOperations(customerId, spec);
-  console.log(`   Generated ${operations.length} operations`);
+  return { totalKeywords, totalAds };
+}
+
+/**
+ * Build, validate and (unless dryRun) create a campaign from a spec -
+ * designed by the model or loaded from a spec file
+ */
+export async function deployCampaignSpec(
+  spec: CampaignSpec,
+  options: {
+    customerId?: string;
+    dryRun?: boolean;
+  } = {}
+): Promise<CampaignBuilderResult> {
+  const { customerId = env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID, dryRun = true } = options;
 
-  // Step 3: Execute via MCP
-  const mcp = await getMCP();
+  const { totalKeywords, totalAds } = logSpecSummary(spec);
 
-  // Always do a dry run first
-  console.log('\n🧪 Running dry run validation...');
-  const dryRunResult = await mcp.mutate(operations, {
-    customerId,
-    dryRun: true,
-    partialFailure: true, // Enable partial failure to see detailed errors
-  });
+  await loadImageAssets(spec);
+
+  // Keyword conflicts are reported, not fatal - overlapping keywords still work, just less well
+  console.log('\n🔀 Checking keyword conflicts...');
+  let accountKeywords: KeywordRef[] = [];
+  try {
+    accountKeywords = await fetchAccountKeywords();
+  } catch (error) {
+    console.log(`   ⚠️  Could not load account keywords (${error instanceof Error ? error.message : error}) - checking the spec only`);
+  }
+  const keywordConflicts = analyzeKeywordConflicts(spec, accountKeywords);
+  for (const line of describeConflicts(keywordConflicts)) {
+    console.log(`   ⚠️  ${line}`);
+  }
+  if (keywordConflicts.length === 0) {
+    console.log('   ✅ No duplicate or overlapping keywords');
+  }
+
+  console.log('\n📈 Ad strength (estimated):');
+  const adStrength = scoreCampaignAds(spec);
+  for (const report of adStrength) {
+    const { level, score, suggestions } = report.strength;
+    const icon = level === 'EXCELLENT' || level === 'GOOD' ? '✅' : '⚠️ ';
+    console.log(`   ${icon} ${report.adGroup} #${report.ad}: ${level} (${score})${suggestions[0] ? ` - ${suggestions[0]}` : ''}`);
+  }
 
-  if (!dryRunResult.success) {
-    console.log('❌ Dry run failed:', dryRunResult.error || dryRunResult);
+  // Step 2: Resolve locations - stop rather than target the wrong (or whole) area
+  console.log('\n📍 Resolving locations...');
+  const locations = await resolveLocations(spec.locations);
+  const locationProblems = describeUnresolved(locations);
+  if (locationProblems.length > 0) {
+    for (const problem of locationProblems) {
+      console.log(`   ❌ ${problem}`);
+    }
     return {
       spec,
-      operations,
-      dryRunResult,
-      summary: `Campaign validation failed: ${dryRunResult.error || 'Unknown error'}`,
+      operations: [],
+      locations,
+      keywordConflicts,
+      adStrength,
+      summary: `Campaign not built - fix these locations and try again:\n${locationProblems.join('\n')}`,
     };
   }
+  for (const location of locations) {
+    console.log(`   ✅ ${location.label} → ${location.geoTarget ? `${location.geoTarget.canonicalName} (${location.geoTarget.targetType})` : 'radius target'}`);
+  }
+
+  // Reuse a portfolio strategy of the same name rather than creating a duplicate
+  if (spec.portfolio && !spec.portfolio.resourceName) {
+    const existing = await findPortfolioStrategy(spec.portfolio.name, customerId);
+    if (existing) {
+      if (existing.type !== spec.biddingStrategy) {
+        throw new Error(`Portfolio "${spec.portfolio.name}" already exists as ${existing.type}, not ${spec.biddingStrategy}`);
+      }
+      console.log(`\n♻️  Reusing portfolio strategy "${spec.portfolio.name}" (${existing.resourceName})`);
+      spec.portfolio.resourceName = existing.resourceName;
+    }
+  }
+
+  // Attach existing negative keyword lists (including the standard one) by name
+  const listNames = (spec.sharedNegativeLists || []).filter(list => !list.startsWith('customers/'));
+  if (spec.standardNegatives !== false) {
+    listNames.push(STANDARD_NEGATIVE_LIST_NAME);
+  }
+  const negativeLists = await findNegativeKeywordLists(listNames, customerId);
+
+  // Step 3: Build operations
+  console.log('\n🔧 Building operations...');
+  const operations = buildCampaignOperations(customerId, spec, locations, negativeLists);
+  console.log(`   Generated ${operations.length} operations`);
 
-  console.log('✅ Dry run passed!');
+  // Step 4: Execute via MCP
+  const lease = await acquireMCP();
+  const mcp = lease.bridge;
 
-  // Step 4: Execute for real if not dry run mode
-  let liveResult;
-  if (!dryRun) {
-    console.log('\n⚡ Executing campaign creation...');
-    liveResult = await mcp.mutate(operations, {
+  try {
+    // Always do a dry run first
+    console.log('\n🧪 Running dry run validation...');
+    const dryRunResult = await mcp.mutate(operations, {
       customerId,
-      dryRun: false,
-      partialFailure: false,
+      dryRun: true,
+      partialFailure: true, // Enable partial failure to see detailed errors
     });
 
-    if (liveResult.success) {
-      console.log('✅ Campaign created successfully!');
+    if (!dryRunResult.success) {
+      console.log('❌ Dry run failed:', dryRunResult.error || dryRunResult);
+      return {
+        spec,
+        operations,
+        locations,
+        keywordConflicts,
+        adStrength,
+        dryRunResult,
+        summary: `Campaign validation failed: ${dryRunResult.error || 'Unknown error'}`,
+      };
+    }
+
+    console.log('✅ Dry run passed!');
+
+    // Step 5: Execute for real if not dry run mode
+    let liveResult;
+    if (!dryRun) {
+      console.log('\n⚡ Executing campaign creation...');
+      liveResult = await mcp.mutate(operations, {
+        customerId,
+        dryRun: false,
+        partialFailure: false,
+      });
+
+      if (liveResult.success) {
+        console.log('✅ Campaign created successfully!');
+      } else {
+        console.log('❌ Campaign creation failed:', liveResult.error);
+      }
     } else {
-      console.log('❌ Campaign creation failed:', liveResult.error);
+      console.log('\n⚠️  DRY RUN MODE - Campaign was NOT created');
+      console.log('   Set dryRun: false to create the campaign');
     }
-  } else {
-    console.log('\n⚠️  DRY RUN MODE - Campaign was NOT created');
-    console.log('   Set dryRun: false to create the campaign');
-  }
 
-  // Build summary
-  const summary = dryRun
-    ? `Campaign "${spec.name}" validated successfully. Ready to create with ${spec.adGroups.length} ad groups, ${totalKeywords} keywords, and ${totalAds} ads. Set dryRun: false to create.`
-    : liveResult?.success
-    ? `Campaign "${spec.name}" created successfully! It's currently PAUSED - enable it when ready to start spending.`
-    : `Campaign creation failed: ${liveResult?.error || 'Unknown error'}`;
+    // Build summary
+    const conflictNote = keywordConflicts.length > 0
+      ? ` ${keywordConflicts.length} keyword conflicts to review (see keywordConflicts).`
+      : '';
+    const summary = dryRun
+      ? `Campaign "${spec.name}" validated successfully. Ready to create with ${spec.adGroups.length} ad groups, ${totalKeywords} keywords, and ${totalAds} ads.${conflictNote} Set dryRun: false to create.`
+      : liveResult?.success
+      ? `Campaign "${spec.name}" created successfully! It's currently PAUSED - enable it when ready to start spending.`
+      : `Campaign creation failed: ${liveResult?.error || 'Unknown error'}`;
 
-  return {
-    spec,
-    operations,
-    dryRunResult,
-    liveResult,
-    summary,
-  };
+    return {
+      spec,
+      operations,
+      locations,
+      keywordConflicts,
+      adStrength,
+      dryRunResult,
+      liveResult,
+      summary,
+    };
+  } finally {
+    lease.release();
+  }
 }
 
 // Export for use as sub-agent tool
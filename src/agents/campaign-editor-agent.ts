@@ -0,0 +1,731 @@
+/**
+ * Campaign Editor Agent
+ *
+ * Edits existing campaigns instead of only creating new ones:
+ * 1. Export the live campaign into a CampaignSpec via GAQL (with ids)
+ * 2. Let the user or the model edit the spec
+ * 3. Diff the edited spec against the live one
+ * 4. Turn the diff into the minimal create / update / remove operations
+ *
+ * So "add five keywords about retaining walls to the Hardscaping campaign"
+ * becomes five keyword creates that can be reviewed and approved, not a
+ * new campaign.
+ *
+ * Diffed: campaign name, status and budget; ad groups (added, removed,
+ * renamed, paused); keywords (added, removed, match type changed); ads
+ * (added, removed, paused, text changed → replaced, since RSAs can't be
+ * edited in place). Other spec changes are reported as not applied.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { env } from '../config/index.js';
+import { withCassette } from '../tools/cassette.js';
+import { queryAccount } from '../tools/google-ads.js';
+import { acquireMCP } from '../tools/mcp-bridge.js';
+import { assetText } from '../tools/ad-strength.js';
+import {
+  buildAdGroupOperation,
+  buildAdOperation,
+  buildKeywordOperation,
+  parseAdTextAssets,
+  sanitizeSpec,
+  validateAdSpec,
+  type AdGroupSpec,
+  type AdSpec,
+  type CampaignSpec,
+  type EntityStatus,
+  type KeywordSpec,
+} from './campaign-builder-agent.js';
+
+const client = withCassette(new Anthropic({ apiKey: env.ANTHROPIC_API_KEY }));
+
+const CAMPAIGN_EDITOR_SYSTEM_PROMPT = `You are a Google Ads campaign editor for a landscaping business.
+You are given an existing campaign as a JSON CampaignSpec and an edit request.
+Return the complete edited spec as JSON.
+
+## Rules
+- Change only what the request asks for - everything else stays exactly as it is
+- Keep the "id" of every existing ad group, keyword and ad you keep
+- New ad groups, keywords and ads have no "id"
+- To pause something set "status": "PAUSED"; to delete it, leave it out
+- Changing an ad's text replaces the ad (RSAs can't be edited in place)
+- dailyBudget is in dollars per day
+
+## Ad Copy Rules (CHARACTER LIMITS ARE STRICT!)
+- Headlines: MAX 30 characters each, 3-15 per ad
+- Descriptions: MAX 90 characters each, 2-4 per ad
+- Pinned assets are { "text": "...", "pinnedTo": 1 } - keep existing pins unless asked; pin only when asked
+- {KeyWord:Default} and {LOCATION(City):Default} insert the keyword / location; the limit applies to the default text
+- Path1 / Path2: MAX 15 characters
+- NEVER put phone numbers in headlines, no excessive punctuation, no ALL CAPS
+
+## Keywords
+- Use EXACT for high-intent terms, PHRASE for service + modifier, BROAD sparingly
+- Don't add a keyword that is already in the ad group`;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface CampaignDiff {
+  /** Human-readable list of changes, one per operation group */
+  changes: string[];
+  operations: any[];
+  /** Differences in the edited spec that this diff does not apply */
+  notApplied: string[];
+}
+
+export interface CampaignEditResult {
+  before: CampaignSpec;
+  after: CampaignSpec;
+  diff: CampaignDiff;
+  dryRunResult?: any;
+  liveResult?: any;
+  summary: string;
+}
+
+// ============================================================
+// EXPORT (live campaign → spec)
+// ============================================================
+
+const STATUS: Record<number, EntityStatus> = { 2: 'ENABLED', 3: 'PAUSED' };
+const STATUS_VALUE: Record<EntityStatus, number> = { ENABLED: 2, PAUSED: 3 };
+const MATCH_TYPE: Record<number, KeywordSpec['matchType']> = { 2: 'EXACT', 3: 'PHRASE', 4: 'BROAD' };
+
+/** BiddingStrategyType → CampaignSpec strategy (Enhanced CPC is manual CPC with a flag) */
+const BIDDING_STRATEGY_TYPE: Record<number, CampaignSpec['biddingStrategy']> = {
+  2: 'MANUAL_CPC',
+  3: 'MANUAL_CPC',
+  6: 'TARGET_CPA',
+  8: 'TARGET_ROAS',
+  9: 'MAXIMIZE_CLICKS',
+  10: 'MAXIMIZE_CONVERSIONS',
+  11: 'MAXIMIZE_CONVERSION_VALUE',
+  15: 'TARGET_IMPRESSION_SHARE',
+};
+
+function enumValue<T extends string>(value: any, names: Record<number, T>): T | undefined {
+  return typeof value === 'number' ? names[value] : value;
+}
+
+function micros(value: any): number | undefined {
+  return value ? Number(value) / 1_000_000 : undefined;
+}
+
+/**
+ * Find a campaign by id or exact name
+ */
+async function findCampaign(campaign: string, customerId?: string): Promise<any> {
+  const where = /^\d+$/.test(campaign)
+    ? `campaign.id = ${campaign}`
+    : `campaign.name = '${campaign.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+  const rows = await queryAccount(`
+    SELECT
+      campaign.id,
+      campaign.name,
+      campaign.status,
+      campaign.bidding_strategy_type,
+      campaign.bidding_strategy,
+      campaign.target_cpa.target_cpa_micros,
+      campaign.maximize_conversions.target_cpa_micros,
+      campaign.target_roas.target_roas,
+      campaign.maximize_conversion_value.target_roas,
+      campaign.network_settings.target_search_network,
+      campaign.network_settings.target_content_network,
+      campaign_budget.id,
+      campaign_budget.amount_micros,
+      campaign_budget.explicitly_shared
+    FROM campaign
+    WHERE ${where}
+      AND campaign.status != 'REMOVED'
+  `, customerId);
+
+  if (rows.length === 0) {
+    throw new Error(`Campaign "${campaign}" not found`);
+  }
+  if (rows.length > 1) {
+    throw new Error(`Several campaigns are named "${campaign}" - use the campaign id (${rows.map((r: any) => r.campaign.id).join(', ')})`);
+  }
+  return rows[0];
+}
+
+/**
+ * Export a live campaign (by id or exact name) as a CampaignSpec with ids
+ */
+export async function exportCampaignSpec(campaign: string, customerId?: string): Promise<CampaignSpec> {
+  const row = await findCampaign(campaign, customerId);
+  const campaignId = String(row.campaign.id);
+
+  const [adGroupRows, keywordRows, adRows, locationRows] = await Promise.all([
+    queryAccount(`
+      SELECT ad_group.id, ad_group.name, ad_group.status
+      FROM ad_group
+      WHERE campaign.id = ${campaignId}
+        AND ad_group.status != 'REMOVED'
+    `, customerId),
+    queryAccount(`
+      SELECT
+        ad_group.id,
+        ad_group_criterion.criterion_id,
+        ad_group_criterion.keyword.text,
+        ad_group_criterion.keyword.match_type
+      FROM ad_group_criterion
+      WHERE campaign.id = ${campaignId}
+        AND ad_group_criterion.type = 'KEYWORD'
+        AND ad_group_criterion.negative = FALSE
+        AND ad_group_criterion.status != 'REMOVED'
+    `, customerId),
+    queryAccount(`
+      SELECT
+        ad_group.id,
+        ad_group_ad.ad.id,
+        ad_group_ad.status,
+        ad_group_ad.ad.final_urls,
+        ad_group_ad.ad.responsive_search_ad.headlines,
+        ad_group_ad.ad.responsive_search_ad.descriptions,
+        ad_group_ad.ad.responsive_search_ad.path1,
+        ad_group_ad.ad.responsive_search_ad.path2
+      FROM ad_group_ad
+      WHERE campaign.id = ${campaignId}
+        AND ad_group_ad.ad.type = 'RESPONSIVE_SEARCH_AD'
+        AND ad_group_ad.status != 'REMOVED'
+    `, customerId),
+    queryAccount(`
+      SELECT campaign_criterion.location.geo_target_constant
+      FROM campaign_criterion
+      WHERE campaign.id = ${campaignId}
+        AND campaign_criterion.type = 'LOCATION'
+        AND campaign_criterion.negative = FALSE
+    `, customerId),
+  ]);
+
+  const adGroups = new Map<string, AdGroupSpec>();
+  for (const r of adGroupRows) {
+    adGroups.set(String(r.ad_group.id), {
+      id: String(r.ad_group.id),
+      name: r.ad_group.name,
+      status: enumValue(r.ad_group.status, STATUS),
+      keywords: [],
+      ads: [],
+    });
+  }
+
+  for (const r of keywordRows) {
+    adGroups.get(String(r.ad_group.id))?.keywords.push({
+      id: String(r.ad_group_criterion.criterion_id),
+      text: r.ad_group_criterion.keyword.text,
+      matchType: enumValue(r.ad_group_criterion.keyword.match_type, MATCH_TYPE)!,
+    });
+  }
+
+  for (const r of adRows) {
+    const rsa = r.ad_group_ad.ad.responsive_search_ad || {};
+    adGroups.get(String(r.ad_group.id))?.ads.push({
+      id: String(r.ad_group_ad.ad.id),
+      status: enumValue(r.ad_group_ad.status, STATUS),
+      headlines: parseAdTextAssets(rsa.headlines),
+      descriptions: parseAdTextAssets(rsa.descriptions),
+      finalUrl: r.ad_group_ad.ad.final_urls?.[0] || '',
+      ...(rsa.path1 && { path1: rsa.path1 }),
+      ...(rsa.path2 && { path2: rsa.path2 }),
+    });
+  }
+
+  const locations = await geoTargetNames(
+    locationRows.map((r: any) => r.campaign_criterion.location.geo_target_constant),
+    customerId
+  );
+
+  const c = row.campaign;
+  const network = c.network_settings || {};
+  return {
+    id: campaignId,
+    budgetId: String(row.campaign_budget.id),
+    ...(row.campaign_budget.explicitly_shared && { sharedBudget: true }),
+    status: enumValue(c.status, STATUS),
+    name: c.name,
+    dailyBudget: micros(row.campaign_budget.amount_micros) ?? 0,
+    biddingStrategy: BIDDING_STRATEGY_TYPE[c.bidding_strategy_type] ?? 'MANUAL_CPC',
+    ...(micros(c.target_cpa?.target_cpa_micros ?? c.maximize_conversions?.target_cpa_micros) && {
+      targetCpa: micros(c.target_cpa?.target_cpa_micros ?? c.maximize_conversions?.target_cpa_micros),
+    }),
+    ...((c.target_roas?.target_roas ?? c.maximize_conversion_value?.target_roas) && {
+      targetRoas: c.target_roas?.target_roas ?? c.maximize_conversion_value?.target_roas,
+    }),
+    networks: network.target_content_network
+      ? 'SEARCH_AND_DISPLAY'
+      : network.target_search_network ? 'SEARCH_AND_PARTNERS' : 'SEARCH_ONLY',
+    locations,
+    adGroups: [...adGroups.values()],
+    // Negative lists are managed separately on existing campaigns
+    standardNegatives: false,
+  };
+}
+
+/**
+ * Canonical names for geo target constants ("Dublin,Ohio,United States")
+ */
+async function geoTargetNames(resourceNames: string[], customerId?: string): Promise<string[]> {
+  if (resourceNames.length === 0) return [];
+  const rows = await queryAccount(`
+    SELECT geo_target_constant.resource_name, geo_target_constant.canonical_name
+    FROM geo_target_constant
+    WHERE geo_target_constant.resource_name IN (${resourceNames.map(r => `'${r}'`).join(', ')})
+  `, customerId);
+  const names = new Map<string, string>(rows.map((r: any) => [r.geo_target_constant.resource_name, r.geo_target_constant.canonical_name]));
+  return resourceNames.map(r => names.get(r) || r);
+}
+
+// ============================================================
+// DIFF (spec → operations)
+// ============================================================
+
+function keywordKey(keyword: KeywordSpec): string {
+  return `${keyword.text.trim().toLowerCase()}|${keyword.matchType}`;
+}
+
+function adContent(ad: AdSpec): string {
+  return JSON.stringify([ad.headlines, ad.descriptions, ad.finalUrl, ad.path1 || '', ad.path2 || '']);
+}
+
+function describeKeyword(keyword: KeywordSpec): string {
+  return keyword.matchType === 'EXACT' ? `[${keyword.text}]` : keyword.matchType === 'PHRASE' ? `"${keyword.text}"` : keyword.text;
+}
+
+/**
+ * Fields of the spec the diff doesn't turn into operations
+ */
+const NOT_DIFFED_FIELDS: Array<keyof CampaignSpec> = [
+  'biddingStrategy',
+  'targetCpa',
+  'targetRoas',
+  'targetImpressionShare',
+  'portfolio',
+  'networks',
+  'locations',
+  'assets',
+  'adSchedule',
+  'deviceBidModifiers',
+  'negativeKeywords',
+  'sharedNegativeLists',
+];
+
+/**
+ * Compute the operations that turn the live campaign (`before`, from
+ * exportCampaignSpec) into the edited spec (`after`).
+ *
+ * Ad groups are matched by id, then by name; keywords by text + match type;
+ * ads by id.
+ */
+export function diffCampaignSpecs(customerId: string, before: CampaignSpec, after: CampaignSpec): CampaignDiff {
+  if (!before.id || !before.budgetId) {
+    throw new Error('The "before" spec must be exported from a live campaign (it has no ids)');
+  }
+
+  const campaignId = before.id;
+  const creates: any[] = [];
+  const updates: any[] = [];
+  const removes: any[] = [];
+  const changes: string[] = [];
+  const notApplied: string[] = [];
+  let tempIdCounter = -1;
+  const getNextTempId = () => String(tempIdCounter--);
+
+  // Campaign - a shared budget would change for every campaign on it
+  if (after.dailyBudget !== before.dailyBudget && before.sharedBudget) {
+    notApplied.push(
+      `Budget: $${before.dailyBudget}/day → $${after.dailyBudget}/day - the budget is shared with other campaigns; change it in Google Ads`
+    );
+  } else if (after.dailyBudget !== before.dailyBudget) {
+    updates.push({
+      entity: 'campaign_budget',
+      operation: 'update',
+      resource: {
+        resource_name: `customers/${customerId}/campaignBudgets/${before.budgetId}`,
+        amount_micros: Math.round(after.dailyBudget * 1_000_000),
+      },
+      update_mask: ['amount_micros'],
+    });
+    changes.push(`Budget: $${before.dailyBudget}/day → $${after.dailyBudget}/day`);
+  }
+
+  const campaignFields: Record<string, any> = {};
+  if (after.name !== before.name) {
+    campaignFields.name = after.name;
+    changes.push(`Campaign renamed: "${before.name}" → "${after.name}"`);
+  }
+  if (after.status && after.status !== before.status) {
+    campaignFields.status = STATUS_VALUE[after.status];
+    changes.push(`Campaign ${after.status === 'PAUSED' ? 'paused' : 'enabled'}`);
+  }
+  if (Object.keys(campaignFields).length > 0) {
+    updates.push({
+      entity: 'campaign',
+      operation: 'update',
+      resource: { resource_name: `customers/${customerId}/campaigns/${campaignId}`, ...campaignFields },
+      update_mask: Object.keys(campaignFields),
+    });
+  }
+
+  for (const field of NOT_DIFFED_FIELDS) {
+    if (JSON.stringify(after[field] ?? null) !== JSON.stringify(before[field] ?? null)) {
+      notApplied.push(`${field} changed - edit it in Google Ads or the campaign builder`);
+    }
+  }
+
+  // Ad groups
+  const beforeById = new Map(before.adGroups.map(ag => [ag.id!, ag]));
+  const beforeByName = new Map(before.adGroups.map(ag => [ag.name.trim().toLowerCase(), ag]));
+  const matched = new Set<string>();
+
+  for (const adGroup of after.adGroups) {
+    const existing = (adGroup.id && beforeById.get(adGroup.id)) || beforeByName.get(adGroup.name.trim().toLowerCase());
+
+    if (!existing || matched.has(existing.id!)) {
+      // New ad group with its keywords and ads
+      const adGroupId = getNextTempId();
+      const adGroupOp = buildAdGroupOperation(customerId, adGroupId, campaignId, adGroup.name);
+      if (adGroup.status === 'PAUSED') {
+        adGroupOp.create.status = STATUS_VALUE.PAUSED;
+      }
+      creates.push({ entity: 'ad_group', operation: 'create', resource: adGroupOp.create });
+      for (const keyword of adGroup.keywords) {
+        creates.push({ entity: 'ad_group_criterion', operation: 'create', resource: buildKeywordOperation(customerId, getNextTempId(), adGroupId, keyword).create });
+      }
+      for (const ad of adGroup.ads) {
+        creates.push(adCreate(customerId, getNextTempId(), adGroupId, ad));
+      }
+      changes.push(`New ad group "${adGroup.name}" (${adGroup.keywords.length} keywords, ${adGroup.ads.length} ads)`);
+      if (adGroup.assets) {
+        notApplied.push(`Assets of new ad group "${adGroup.name}" - not created by edits`);
+      }
+      continue;
+    }
+
+    matched.add(existing.id!);
+    const adGroupId = existing.id!;
+    const label = `Ad group "${existing.name}"`;
+
+    const adGroupFields: Record<string, any> = {};
+    if (adGroup.name !== existing.name) {
+      adGroupFields.name = adGroup.name;
+      changes.push(`${label} renamed to "${adGroup.name}"`);
+    }
+    if (adGroup.status && adGroup.status !== existing.status) {
+      adGroupFields.status = STATUS_VALUE[adGroup.status];
+      changes.push(`${label} ${adGroup.status === 'PAUSED' ? 'paused' : 'enabled'}`);
+    }
+    if (Object.keys(adGroupFields).length > 0) {
+      updates.push({
+        entity: 'ad_group',
+        operation: 'update',
+        resource: { resource_name: `customers/${customerId}/adGroups/${adGroupId}`, ...adGroupFields },
+        update_mask: Object.keys(adGroupFields),
+      });
+    }
+
+    // Keywords
+    const beforeKeywords = new Map(existing.keywords.map(k => [keywordKey(k), k]));
+    const afterKeys = new Set(adGroup.keywords.map(keywordKey));
+    const added = adGroup.keywords.filter((k, i, all) =>
+      !beforeKeywords.has(keywordKey(k)) && all.findIndex(other => keywordKey(other) === keywordKey(k)) === i
+    );
+    const removed = existing.keywords.filter(k => !afterKeys.has(keywordKey(k)));
+
+    for (const keyword of added) {
+      creates.push({ entity: 'ad_group_criterion', operation: 'create', resource: buildKeywordOperation(customerId, getNextTempId(), adGroupId, keyword).create });
+    }
+    for (const keyword of removed) {
+      removes.push({ entity: 'ad_group_criterion', operation: 'remove', resource: `customers/${customerId}/adGroupCriteria/${adGroupId}~${keyword.id}` });
+    }
+    if (added.length > 0) {
+      changes.push(`${label}: add ${added.length} keyword(s): ${added.map(describeKeyword).join(', ')}`);
+    }
+    if (removed.length > 0) {
+      changes.push(`${label}: remove ${removed.length} keyword(s): ${removed.map(describeKeyword).join(', ')}`);
+    }
+
+    // Ads
+    const beforeAds = new Map(existing.ads.map(ad => [ad.id!, ad]));
+    const keptAds = new Set<string>();
+    for (const ad of adGroup.ads) {
+      const existingAd = ad.id ? beforeAds.get(ad.id) : undefined;
+      if (!existingAd) {
+        creates.push(adCreate(customerId, getNextTempId(), adGroupId, ad));
+        changes.push(`${label}: new ad "${assetText(ad.headlines[0])}"`);
+        continue;
+      }
+
+      if (adContent(ad) !== adContent(existingAd)) {
+        // RSAs can't be edited in place - replace the ad
+        creates.push(adCreate(customerId, getNextTempId(), adGroupId, { ...ad, status: ad.status ?? existingAd.status }));
+        changes.push(`${label}: ad ${existingAd.id} text changed - replaced with a new ad`);
+        continue;
+      }
+
+      keptAds.add(existingAd.id!);
+      if (ad.status && ad.status !== existingAd.status) {
+        updates.push({
+          entity: 'ad_group_ad',
+          operation: 'update',
+          resource: { resource_name: `customers/${customerId}/adGroupAds/${adGroupId}~${existingAd.id}`, status: STATUS_VALUE[ad.status] },
+          update_mask: ['status'],
+        });
+        changes.push(`${label}: ad ${existingAd.id} ${ad.status === 'PAUSED' ? 'paused' : 'enabled'}`);
+      }
+    }
+    for (const ad of existing.ads) {
+      if (keptAds.has(ad.id!)) continue;
+      removes.push({ entity: 'ad_group_ad', operation: 'remove', resource: `customers/${customerId}/adGroupAds/${adGroupId}~${ad.id}` });
+      if (!adGroup.ads.some(a => a.id === ad.id)) {
+        changes.push(`${label}: remove ad ${ad.id} "${assetText(ad.headlines[0])}"`);
+      }
+    }
+
+    if (JSON.stringify(adGroup.assets ?? null) !== JSON.stringify(existing.assets ?? null)) {
+      notApplied.push(`${label}: assets changed - not applied by edits`);
+    }
+  }
+
+  for (const adGroup of before.adGroups) {
+    if (matched.has(adGroup.id!)) continue;
+    removes.push({ entity: 'ad_group', operation: 'remove', resource: `customers/${customerId}/adGroups/${adGroup.id}` });
+    changes.push(`Remove ad group "${adGroup.name}" (${adGroup.keywords.length} keywords, ${adGroup.ads.length} ads)`);
+  }
+
+  return {
+    changes,
+    operations: [...updates, ...creates, ...removes],
+    notApplied,
+  };
+}
+
+function adCreate(customerId: string, tempId: string, adGroupId: string, ad: AdSpec): any {
+  const adOp = buildAdOperation(customerId, tempId, adGroupId, ad);
+  if (ad.status === 'PAUSED') {
+    adOp.create.status = STATUS_VALUE.PAUSED;
+  }
+  return { entity: 'ad_group_ad', operation: 'create', resource: adOp.create };
+}
+
+/**
+ * Validate what the edit adds - existing content is already live
+ */
+function validateEdit(before: CampaignSpec, after: CampaignSpec): void {
+  if (!(after.dailyBudget >= 1)) {
+    throw new Error('Daily budget must be at least $1');
+  }
+  if (!after.name?.trim()) {
+    throw new Error('Campaign name cannot be empty');
+  }
+
+  const beforeAds = new Map(before.adGroups.flatMap(ag => ag.ads.map(ad => [ad.id!, adContent(ad)] as const)));
+  for (const adGroup of after.adGroups) {
+    const isNew = !adGroup.id && !before.adGroups.some(ag => ag.name.trim().toLowerCase() === adGroup.name.trim().toLowerCase());
+    if (isNew && (adGroup.keywords.length === 0 || adGroup.ads.length === 0)) {
+      throw new Error(`New ad group "${adGroup.name}" needs at least one keyword and one ad`);
+    }
+    for (const keyword of adGroup.keywords) {
+      if (!keyword.text?.trim() || keyword.text.length > 80 || keyword.text.trim().split(/\s+/).length > 10) {
+        throw new Error(`Keyword must be 1-80 chars and at most 10 words: "${keyword.text}"`);
+      }
+      if (!Object.values(MATCH_TYPE).includes(keyword.matchType)) {
+        throw new Error(`Invalid match type "${keyword.matchType}" for keyword "${keyword.text}"`);
+      }
+    }
+    for (const ad of adGroup.ads) {
+      if (!ad.id || beforeAds.get(ad.id) !== adContent(ad)) {
+        validateAdSpec(ad);
+      }
+    }
+  }
+}
+
+// ============================================================
+// AGENT
+// ============================================================
+
+/**
+ * Have the model apply an edit request to an exported spec
+ */
+export async function editCampaignSpec(spec: CampaignSpec, instruction: string): Promise<CampaignSpec> {
+  console.log('✏️  Editing campaign spec...');
+
+  const response = await client.messages.create({
+    model: env.AGENT_MODEL,
+    max_tokens: 8192,
+    system: CAMPAIGN_EDITOR_SYSTEM_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: `## Current Campaign
+\`\`\`json
+${JSON.stringify(spec, null, 2)}
+\`\`\`
+
+## Edit Request
+${instruction}
+
+Return ONLY the complete edited spec as JSON.`,
+      },
+    ],
+  });
+
+  const textBlock = response.content.find(
+    (block): block is Anthropic.TextBlock => block.type === 'text'
+  );
+  if (!textBlock) {
+    throw new Error('No response from campaign editor');
+  }
+
+  const jsonMatch = textBlock.text.match(/```(?:json)?\s*([\s\S]*?)```/) ||
+    textBlock.text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('Could not extract the edited campaign spec from response');
+  }
+
+  const edited: CampaignSpec = JSON.parse(jsonMatch[1] || jsonMatch[0]);
+  // The ids of the campaign itself are never the model's to change
+  return sanitizeSpec({ ...edited, id: spec.id, budgetId: spec.budgetId });
+}
+
+/**
+ * Diff an edited spec against its live campaign, dry run it and optionally apply it
+ */
+export async function applyCampaignSpec(
+  after: CampaignSpec,
+  options: { customerId?: string; dryRun?: boolean; before?: CampaignSpec } = {}
+): Promise<CampaignEditResult> {
+  const { customerId = env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID, dryRun = true } = options;
+  if (!after.id) {
+    throw new Error('Spec has no campaign id - export the campaign first, or use the campaign builder to create it');
+  }
+
+  const before = options.before ?? await exportCampaignSpec(after.id, customerId);
+  validateEdit(before, after);
+  const diff = diffCampaignSpecs(customerId, before, after);
+
+  console.log('\n📝 Changes:');
+  for (const change of diff.changes) {
+    console.log(`   • ${change}`);
+  }
+  for (const note of diff.notApplied) {
+    console.log(`   ⚠️  ${note}`);
+  }
+
+  if (diff.operations.length === 0) {
+    return { before, after, diff, summary: `No changes to apply to "${before.name}".` };
+  }
+
+  const lease = await acquireMCP();
+  const mcp = lease.bridge;
+
+  try {
+    console.log(`\n🧪 Running dry run validation (${diff.operations.length} operations)...`);
+    const dryRunResult = await mcp.mutate(diff.operations, {
+      customerId,
+      dryRun: true,
+      partialFailure: true,
+    });
+
+    if (!dryRunResult.success) {
+      console.log('❌ Dry run failed:', dryRunResult.error || dryRunResult);
+      return { before, after, diff, dryRunResult, summary: `Edit validation failed: ${dryRunResult.error || 'Unknown error'}` };
+    }
+    console.log('✅ Dry run passed!');
+
+    if (dryRun) {
+      return {
+        before,
+        after,
+        diff,
+        dryRunResult,
+        summary: `Edit of "${before.name}" validated: ${diff.changes.length} change(s), ${diff.operations.length} operations. Set dryRun: false to apply.`,
+      };
+    }
+
+    console.log('\n⚡ Applying changes...');
+    const liveResult = await mcp.mutate(diff.operations, {
+      customerId,
+      dryRun: false,
+      partialFailure: false,
+    });
+
+    return {
+      before,
+      after,
+      diff,
+      dryRunResult,
+      liveResult,
+      summary: liveResult.success
+        ? `Campaign "${before.name}" updated: ${diff.changes.join('; ')}`
+        : `Campaign edit failed: ${liveResult.error || 'Unknown error'}`,
+    };
+  } finally {
+    lease.release();
+  }
+}
+
+/**
+ * Edit a live campaign from a natural language request (full workflow)
+ */
+export async function editCampaign(
+  campaign: string,
+  instruction: string,
+  options: { customerId?: string; dryRun?: boolean } = {}
+): Promise<CampaignEditResult> {
+  const { customerId = env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID } = options;
+
+  console.log('\n✏️  CAMPAIGN EDITOR AGENT\n');
+  console.log('━'.repeat(50));
+
+  console.log(`📥 Exporting campaign "${campaign}"...`);
+  const before = await exportCampaignSpec(campaign, customerId);
+  console.log(`   ${before.adGroups.length} ad groups, ${before.adGroups.reduce((sum, ag) => sum + ag.keywords.length, 0)} keywords`);
+
+  const after = await editCampaignSpec(before, instruction);
+  return applyCampaignSpec(after, { ...options, customerId, before });
+}
+
+// Export for use as sub-agent tool
+export const campaignEditorTool = {
+  name: 'edit_campaign',
+  description: `Edit an existing Google Ads campaign from a natural language request, e.g. "add five keywords about retaining walls to the Hardscaping campaign".
+
+This tool will:
+1. Export the live campaign into a spec
+2. Apply the requested edit to the spec
+3. Diff it against the live campaign into create/update/remove operations (keywords, ads, ad groups, budget, status)
+4. Validate via dry run, and apply the changes if dry_run is false`,
+  input_schema: {
+    type: 'object' as const,
+    properties: {
+      campaign: {
+        type: 'string',
+        description: 'Campaign id or exact campaign name',
+      },
+      instruction: {
+        type: 'string',
+        description: 'What to change',
+      },
+      dry_run: {
+        type: 'boolean',
+        description: 'If true (default), validates but does not change anything. Set to false to apply.',
+        default: true,
+      },
+    },
+    required: ['campaign', 'instruction'],
+  },
+  handler: async (args: { campaign: string; instruction: string; dry_run?: boolean }) => {
+    const result = await editCampaign(args.campaign, args.instruction, { dryRun: args.dry_run ?? true });
+    return {
+      summary: result.summary,
+      changes: result.diff.changes,
+      notApplied: result.diff.notApplied,
+      operations: result.diff.operations,
+      dryRunResult: result.dryRunResult,
+      liveResult: result.liveResult,
+    };
+  },
+};
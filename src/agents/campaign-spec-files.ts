@@ -0,0 +1,335 @@
+/**
+ * Campaign Spec Files
+ *
+ * Campaign specs saved as YAML (or JSON) under campaigns/ so they can be
+ * reviewed in pull requests and deployed again - to the same account or
+ * another one - without calling the model.
+ *
+ * Files are checked against a JSON Schema generated from the zod schema
+ * below, which mirrors the CampaignSpec interface (a compile-time check
+ * keeps the two in step). The schema is published at
+ * schemas/campaign-spec.schema.json for editors and CI; regenerate it with
+ * `npm run campaign schema`.
+ *
+ * Applying a file:
+ * - without a campaign id → the campaign is created (deployCampaignSpec)
+ * - with an id (an exported spec) → it is diffed against the live campaign
+ *   and only the changes are applied (applyCampaignSpec)
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, extname, join, relative, resolve } from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  deployCampaignSpec,
+  validateCampaignSpec,
+  type CampaignBuilderResult,
+  type CampaignSpec,
+} from './campaign-builder-agent.js';
+import { applyCampaignSpec, type CampaignEditResult } from './campaign-editor-agent.js';
+import { displayText } from '../tools/ad-strength.js';
+
+/** Where spec files live (relative to the working directory) */
+export const CAMPAIGN_SPEC_DIR = resolve('campaigns');
+
+/** Published JSON Schema */
+export const CAMPAIGN_SPEC_SCHEMA_PATH = resolve('schemas', 'campaign-spec.schema.json');
+
+// ============================================================
+// SCHEMA
+// ============================================================
+
+const status = z.enum(['ENABLED', 'PAUSED']);
+const matchType = z.enum(['EXACT', 'PHRASE', 'BROAD']);
+const bidModifier = z.number().min(0).max(10);
+
+const keywordSchema = z.object({
+  id: z.string().optional().describe('Criterion id (exported specs only)'),
+  text: z.string().min(1).max(80),
+  matchType,
+});
+
+// Limits apply to the text as shown, so {KeyWord:Default} counts only its default
+const adText = (maxLength: number) => z.string().min(1)
+  .refine(text => displayText(text).length <= maxLength, `Max ${maxLength} characters (insertions count their default text)`)
+  .describe(`Max ${maxLength} characters as shown - {KeyWord:Default} and {LOCATION(City):Default} count their default text`);
+
+const pinnedText = <Position extends z.ZodTypeAny>(maxLength: number, position: Position) =>
+  z.union([
+    adText(maxLength),
+    z.object({ text: adText(maxLength), pinnedTo: position }).strict(),
+  ]);
+
+const adSchema = z.object({
+  id: z.string().optional(),
+  status: status.optional(),
+  headlines: z.array(pinnedText(30, z.union([z.literal(1), z.literal(2), z.literal(3)]))).min(3).max(15),
+  descriptions: z.array(pinnedText(90, z.union([z.literal(1), z.literal(2)]))).min(2).max(4),
+  finalUrl: z.string().url(),
+  path1: z.string().max(15).optional(),
+  path2: z.string().max(15).optional(),
+});
+
+const assetsSchema = z.object({
+  sitelinks: z.array(z.object({
+    linkText: z.string().min(1).max(25),
+    finalUrl: z.string().url(),
+    description1: z.string().max(35).optional(),
+    description2: z.string().max(35).optional(),
+  })).optional(),
+  callouts: z.array(z.string().min(1).max(25)).optional(),
+  structuredSnippets: z.array(z.object({
+    header: z.enum([
+      'Amenities', 'Brands', 'Courses', 'Degree programs', 'Destinations',
+      'Featured hotels', 'Insurance coverage', 'Models', 'Neighborhoods',
+      'Service catalog', 'Shows', 'Styles', 'Types',
+    ]),
+    values: z.array(z.string().min(1).max(25)).min(3).max(10),
+  })).optional(),
+  call: z.object({
+    phoneNumber: z.string(),
+    countryCode: z.string().optional(),
+  }).optional(),
+  images: z.array(z.object({
+    name: z.string(),
+    url: z.string().url().optional(),
+    data: z.string().optional().describe('Base64 image data'),
+  })).optional(),
+  locationAssetSet: z.string().optional().describe('e.g. customers/123/assetSets/456'),
+});
+
+const locationSchema = z.union([
+  z.string().min(1).describe('"City, State", ZIP, "X County, State" or "Name DMA"'),
+  z.object({
+    name: z.string().min(1),
+    type: z.enum(['city', 'zip', 'county', 'dma', 'state', 'country']).optional(),
+    countryCode: z.string().optional(),
+    bidModifier: bidModifier.optional(),
+  }),
+  z.object({
+    radius: z.number().positive(),
+    units: z.enum(['MILES', 'KILOMETERS']).optional(),
+    address: z.union([
+      z.string(),
+      z.object({
+        street: z.string().optional(),
+        city: z.string().optional(),
+        postalCode: z.string().optional(),
+        state: z.string().optional(),
+        countryCode: z.string().optional(),
+      }),
+    ]).optional(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+    bidModifier: bidModifier.optional(),
+  }),
+]);
+
+export const campaignSpecSchema = z.object({
+  id: z.string().optional().describe('Campaign id (exported specs only) - applying edits this campaign'),
+  budgetId: z.string().optional(),
+  sharedBudget: z.boolean().optional(),
+  status: status.optional(),
+  name: z.string().min(1),
+  dailyBudget: z.number().min(1).describe('Dollars per day'),
+  biddingStrategy: z.enum([
+    'MAXIMIZE_CONVERSIONS',
+    'MAXIMIZE_CLICKS',
+    'TARGET_CPA',
+    'TARGET_ROAS',
+    'MAXIMIZE_CONVERSION_VALUE',
+    'TARGET_IMPRESSION_SHARE',
+    'MANUAL_CPC',
+  ]),
+  targetCpa: z.number().positive().optional(),
+  targetRoas: z.number().min(0.01).max(1000).optional().describe('Conversion value / cost, e.g. 4 = 400%'),
+  targetImpressionShare: z.object({
+    location: z.enum(['ANYWHERE_ON_PAGE', 'TOP_OF_PAGE', 'ABSOLUTE_TOP_OF_PAGE']),
+    share: z.number().gt(0).max(1),
+    maxCpcBid: z.number().positive(),
+  }).optional(),
+  portfolio: z.object({
+    name: z.string().min(1),
+    resourceName: z.string().optional(),
+  }).optional(),
+  networks: z.enum(['SEARCH_ONLY', 'SEARCH_AND_PARTNERS', 'SEARCH_AND_DISPLAY']),
+  locations: z.array(locationSchema),
+  adGroups: z.array(z.object({
+    id: z.string().optional(),
+    status: status.optional(),
+    name: z.string().min(1),
+    keywords: z.array(keywordSchema),
+    ads: z.array(adSchema),
+    assets: assetsSchema.omit({ locationAssetSet: true }).optional(),
+  })),
+  assets: assetsSchema.optional(),
+  adSchedule: z.array(z.object({
+    days: z.enum([
+      'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY',
+      'WEEKDAYS', 'WEEKENDS', 'EVERY_DAY',
+    ]),
+    startHour: z.number().int().min(0).max(23),
+    endHour: z.number().int().min(1).max(24),
+    bidModifier: bidModifier.optional(),
+  })).optional(),
+  deviceBidModifiers: z.object({
+    mobile: bidModifier.optional(),
+    desktop: bidModifier.optional(),
+    tablet: bidModifier.optional(),
+  }).strict().optional(),
+  negativeKeywords: z.array(z.object({ text: z.string().min(1).max(80), matchType })).optional(),
+  sharedNegativeLists: z.array(z.string()).optional().describe('Negative keyword list names or shared set resource names'),
+  standardNegatives: z.boolean().optional(),
+}).strict();
+
+// Compile-time check that the schema and the CampaignSpec interface agree
+type SchemaSpec = z.infer<typeof campaignSpecSchema>;
+const specToSchema = (spec: CampaignSpec): SchemaSpec => spec;
+const schemaToSpec = (spec: SchemaSpec): CampaignSpec => spec;
+void specToSchema;
+void schemaToSpec;
+
+/**
+ * JSON Schema for campaign spec files
+ */
+export function campaignSpecJsonSchema(): object {
+  return zodToJsonSchema(campaignSpecSchema, {
+    name: 'CampaignSpec',
+    $refStrategy: 'none',
+  });
+}
+
+/**
+ * Write the JSON Schema to schemas/campaign-spec.schema.json
+ */
+export function writeCampaignSpecJsonSchema(path = CAMPAIGN_SPEC_SCHEMA_PATH): string {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(campaignSpecJsonSchema(), null, 2) + '\n');
+  return path;
+}
+
+// ============================================================
+// FILES
+// ============================================================
+
+/**
+ * File name for a campaign: "Hardscaping - Dublin" → hardscaping-dublin.yaml
+ */
+export function specFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/\[test-\d+\]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'campaign'}.yaml`;
+}
+
+/**
+ * Resolve a spec file argument: a path, or a bare name inside campaigns/
+ */
+export function resolveSpecPath(file: string): string {
+  if (existsSync(file)) return resolve(file);
+  const inDir = join(CAMPAIGN_SPEC_DIR, extname(file) ? file : `${file}.yaml`);
+  if (existsSync(inDir)) return inDir;
+  throw new Error(`Spec file not found: ${file}`);
+}
+
+/**
+ * Parse and validate a spec (YAML or JSON text)
+ *
+ * Schema errors are reported together, one per line.
+ */
+export function parseCampaignSpec(text: string, source = 'spec'): CampaignSpec {
+  let data: unknown;
+  try {
+    data = parseYaml(text); // YAML is a superset of JSON
+  } catch (error) {
+    throw new Error(`${source}: not valid YAML/JSON - ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = campaignSpecSchema.safeParse(data);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(i => `  ${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(`${source} does not match the campaign spec schema:\n${problems.join('\n')}`);
+  }
+
+  const spec: CampaignSpec = parsed.data;
+  // New campaigns get the builder's full checks; exported ones are checked when diffed
+  if (!spec.id) {
+    validateCampaignSpec(spec);
+  }
+  return spec;
+}
+
+export function loadCampaignSpecFile(file: string): CampaignSpec {
+  const path = resolveSpecPath(file);
+  return parseCampaignSpec(readFileSync(path, 'utf-8'), relative(process.cwd(), path));
+}
+
+/**
+ * Save a spec as YAML (JSON if the path ends in .json)
+ *
+ * @returns the path written
+ */
+export function saveCampaignSpecFile(spec: CampaignSpec, file?: string): string {
+  const path = file ? resolve(file) : join(CAMPAIGN_SPEC_DIR, specFileName(spec.name));
+  mkdirSync(dirname(path), { recursive: true });
+
+  // Images are stored by URL - base64 data doesn't belong in a reviewable file
+  const clean: CampaignSpec = JSON.parse(JSON.stringify(spec, (key, value) =>
+    key === 'data' && typeof value === 'string' ? undefined : value
+  ));
+
+  if (extname(path) === '.json') {
+    writeFileSync(path, JSON.stringify(clean, null, 2) + '\n');
+  } else {
+    const schemaRef = relative(dirname(path), CAMPAIGN_SPEC_SCHEMA_PATH);
+    writeFileSync(path, `# yaml-language-server: $schema=${schemaRef}\n${stringifyYaml(clean, { lineWidth: 0 })}`);
+  }
+  return path;
+}
+
+/**
+ * Deploy a spec without the model: create the campaign, or apply the
+ * changes if the spec was exported from a live campaign
+ */
+export async function applyParsedCampaignSpec(
+  spec: CampaignSpec,
+  options: { customerId?: string; dryRun?: boolean; asNew?: boolean } = {}
+): Promise<CampaignBuilderResult | CampaignEditResult> {
+  if (spec.id && !options.asNew) {
+    return applyCampaignSpec(spec, options);
+  }
+
+  // Ids belong to the account the spec was exported from
+  const fresh = stripIds(spec);
+  validateCampaignSpec(fresh);
+  return deployCampaignSpec(fresh, options);
+}
+
+export async function applyCampaignSpecFile(
+  file: string,
+  options: { customerId?: string; dryRun?: boolean; asNew?: boolean } = {}
+): Promise<CampaignBuilderResult | CampaignEditResult> {
+  const spec = loadCampaignSpecFile(file);
+  console.log(`📄 Loaded ${basename(resolveSpecPath(file))}`);
+  return applyParsedCampaignSpec(spec, options);
+}
+
+/**
+ * A copy of a spec without account-specific ids, for creating it elsewhere
+ */
+export function stripIds(spec: CampaignSpec): CampaignSpec {
+  const { id, budgetId, sharedBudget, status, ...rest } = spec;
+  return {
+    ...rest,
+    ...(rest.portfolio && { portfolio: { name: rest.portfolio.name } }),
+    adGroups: spec.adGroups.map(({ id, ...adGroup }) => ({
+      ...adGroup,
+      keywords: adGroup.keywords.map(({ id, ...keyword }) => keyword),
+      ads: adGroup.ads.map(({ id, ...ad }) => ad),
+    })),
+  };
+}
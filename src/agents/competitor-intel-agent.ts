@@ -1,14 +1,17 @@
 /**
  * Competitor Intelligence Sub-Agent
  * 
- * Analyzes competitor PPC strategies using DataForSEO data.
+ * Analyzes competitor PPC strategies using DataForSEO data, merged with
+ * first-party auction insights from our own Google Ads auctions.
  */
 
 import Anthropic from '@anthropic-ai/sdk';
 import { env } from '../config/index.js';
-import { toolDefinitions as dataForSEOTools, toolHandlers as dataForSEOHandlers } from '../tools/dataforseo.js';
+import { withCassette } from '../tools/cassette.js';
+import { dataForSEOTools as seoTools, toolDefinitions as dataForSEOTools, toolHandlers as dataForSEOHandlers } from '../tools/dataforseo.js';
+import { fetchAuctionInsights, type AuctionInsightCompetitor } from '../tools/google-ads.js';
 
-const client = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
+const client = withCassette(new Anthropic({ apiKey: env.ANTHROPIC_API_KEY }));
 
 const COMPETITOR_INTEL_SYSTEM_PROMPT = `You are a Competitive Intelligence specialist for PPC advertising. Your job is to:
 
@@ -18,6 +21,11 @@ const COMPETITOR_INTEL_SYSTEM_PROMPT = `You are a Competitive Intelligence speci
 4. **Find Opportunities**: Keywords where they're weak but have volume
 5. **Estimate Their Spend**: Based on position and keyword volume
 
+Auction insights come from our own Google Ads auctions and are the ground
+truth for who we actually compete with and who beats us. Treat DataForSEO
+numbers as third-party estimates that fill in what they don't cover
+(competitor keyword lists, volumes, CPCs).
+
 For landscaping/home services businesses:
 - Focus on local intent keywords (city + service)
 - Look for seasonal opportunities
@@ -27,7 +35,13 @@ Output structured intelligence including:
 - Top 5 competitors with estimated spend
 - Their strongest keywords
 - Gap opportunities (they have, you don't)
-- Attack opportunities (they're weak, you can win)`;
+- Attack opportunities (they're weak, you can win)
+- Who is beating us in our auctions, and whether that is getting better or worse`;
+
+/**
+ * Auction insight competitors enriched with DataForSEO keyword data
+ */
+const MAX_ENRICHED_COMPETITORS = 5;
 
 export interface CompetitorIntelResult {
   summary: string;
@@ -50,15 +64,75 @@ export interface CompetitorIntelResult {
     competitorPosition: number;
     recommendation: string;
   }>;
+  /** First-party auction insights per competitor domain, merged with DataForSEO paid keyword data */
+  auctionInsights: Array<AuctionInsightCompetitor & {
+    paidKeywords: {
+      count: number;
+      topKeywords: Array<{ keyword: string; search_volume: number; cpc: number; position: number }>;
+    } | null;
+  }>;
+}
+
+export interface CompetitorIntelOptions {
+  /** Limit auction insights to campaigns whose name contains this (e.g. "Dublin") */
+  campaignFilter?: string;
+  /** GAQL date range for auction insights */
+  dateRange?: string;
+}
+
+/**
+ * Load auction insights and attach each top competitor's DataForSEO paid keywords
+ */
+async function loadAuctionInsights(
+  targetDomain: string,
+  location: string,
+  options: CompetitorIntelOptions
+): Promise<CompetitorIntelResult['auctionInsights']> {
+  let insights: AuctionInsightCompetitor[];
+  try {
+    insights = await fetchAuctionInsights({
+      dateRange: options.dateRange,
+      campaignNameContains: options.campaignFilter,
+    });
+  } catch (error) {
+    console.warn(`⚠️  Auction insights unavailable: ${error instanceof Error ? error.message : error}`);
+    return [];
+  }
+
+  const ownDomain = targetDomain.replace(/^www\./, '');
+  const competitors = insights.filter(c => c.domain.replace(/^www\./, '') !== ownDomain);
+
+  return Promise.all(competitors.map(async (competitor, index) => {
+    if (index >= MAX_ENRICHED_COMPETITORS) {
+      return { ...competitor, paidKeywords: null };
+    }
+    try {
+      const keywords = await seoTools.get_competitor_keywords.handler({
+        domain: competitor.domain,
+        location_name: location,
+        limit: 50,
+      });
+      return {
+        ...competitor,
+        paidKeywords: { count: keywords.length, topKeywords: keywords.slice(0, 10) },
+      };
+    } catch {
+      return { ...competitor, paidKeywords: null };
+    }
+  }));
 }
 
 export async function runCompetitorIntel(
   targetDomain: string,
   seedKeywords: string[],
-  location: string = 'United States'
+  location: string = 'United States',
+  options: CompetitorIntelOptions = {}
 ): Promise<CompetitorIntelResult> {
   console.log('🔍 Starting Competitor Intelligence Agent...');
 
+  console.log(`  📊 Loading auction insights${options.campaignFilter ? ` for "${options.campaignFilter}" campaigns` : ''}...`);
+  const auctionInsights = await loadAuctionInsights(targetDomain, location, options);
+
   const messages: Anthropic.MessageParam[] = [
     {
       role: 'user',
@@ -67,6 +141,9 @@ export async function runCompetitorIntel(
 Target location: ${location}
 Seed keywords: ${seedKeywords.join(', ')}
 
+## Auction Insights (our own Google Ads auctions${options.campaignFilter ? `, campaigns matching "${options.campaignFilter}"` : ''})
+${auctionInsights.length > 0 ? JSON.stringify(auctionInsights, null, 2) : 'Not available - rely on DataForSEO.'}
+
 Steps:
 1. Get competitors bidding on these keywords
 2. Analyze top 3 competitors' keyword strategies
@@ -143,5 +220,6 @@ Start by finding SERP competitors for the seed keywords.`,
     competitors: [],
     gapKeywords: [],
     attackOpportunities: [],
+    auctionInsights,
   };
 }
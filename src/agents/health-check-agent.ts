@@ -1,15 +1,21 @@
 /**
  * Health Check Sub-Agent
- * 
+ *
  * Analyzes Google Ads account health and identifies issues.
  * This is a specialized sub-agent called by the main orchestrator.
+ *
+ * Metrics and wasted spend are computed in code from the GAQL rows;
+ * the model only supplies the judgement (summary, issues, quick wins),
+ * which it submits through a forced tool call validated with zod.
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
 import { env } from '../config/index.js';
-import { toolDefinitions as googleAdsTools, toolHandlers as googleAdsHandlers } from '../tools/google-ads.js';
+import { withCassette } from '../tools/cassette.js';
+import { googleAdsTools as adsTools, toolDefinitions as googleAdsTools, toolHandlers as googleAdsHandlers } from '../tools/google-ads.js';
 
-const client = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
+const client = withCassette(new Anthropic({ apiKey: env.ANTHROPIC_API_KEY }));
 
 const HEALTH_CHECK_SYSTEM_PROMPT = `You are a Google Ads Health Check specialist. Your job is to analyze PPC account data and identify:
 
@@ -18,21 +24,39 @@ const HEALTH_CHECK_SYSTEM_PROMPT = `You are a Google Ads Health Check specialist
 3. **Missing Opportunities**: Important keywords not being targeted
 4. **Account Structure**: Problems with campaign/ad group organization
 5. **Quality Score Issues**: Low quality scores affecting performance
+6. **Impression Share**: Whether campaigns are limited by budget or by rank (get_impression_share)
+
+Account metrics and wasted spend have already been calculated for you -
+use those numbers as given rather than recalculating them.
 
 When analyzing data:
-- Calculate key metrics: CTR, CPC, CPA, Conversion Rate
 - Compare to industry benchmarks for landscaping/home services:
   - CTR benchmark: >3%
   - CPC benchmark: $5-15 for landscaping
   - CPA benchmark: <$100 for leads
+- Use the other tools (e.g. search terms, impression share) if you need more detail
+- Don't recommend more budget for a rank-constrained campaign - it needs better Ad Rank
 - Identify the top 3-5 most impactful issues
 - Prioritize by potential cost savings or revenue gain
 
-Output your analysis in a structured format with:
-- Executive Summary
-- Critical Issues (with $ impact)
-- Recommendations (prioritized)
-- Quick Wins (can be done immediately)`;
+When you are done, submit your analysis with the submit_health_check tool:
+- summary: Executive summary
+- issues: Critical issues with $ impact and a prioritized recommendation each
+- quickWins: Things that can be done immediately`;
+
+/**
+ * Rounds of data tool calls before the model is made to submit
+ */
+const MAX_ITERATIONS = 8;
+
+/**
+ * Submissions rejected by schema validation before we give up
+ */
+const MAX_VALIDATION_ATTEMPTS = 3;
+
+// ============================================================
+// RESULT TYPES
+// ============================================================
 
 export interface HealthCheckResult {
   summary: string;
@@ -58,102 +82,265 @@ export interface HealthCheckResult {
   quickWins: string[];
 }
 
+/**
+ * The part of the result written by the model
+ */
+const assessmentSchema = z.object({
+  summary: z.string().min(1),
+  issues: z.array(z.object({
+    severity: z.enum(['critical', 'high', 'medium', 'low']),
+    title: z.string().min(1),
+    description: z.string(),
+    impact: z.string(),
+    recommendation: z.string(),
+  })),
+  quickWins: z.array(z.string()),
+});
+
+type HealthAssessment = z.infer<typeof assessmentSchema>;
+
+const SUBMIT_TOOL: Anthropic.Tool = {
+  name: 'submit_health_check',
+  description: 'Submit the final health check analysis. Call this exactly once, when your analysis is complete.',
+  input_schema: {
+    type: 'object' as const,
+    properties: {
+      summary: {
+        type: 'string',
+        description: 'Executive summary of account health',
+      },
+      issues: {
+        type: 'array',
+        description: 'Most impactful issues, highest priority first',
+        items: {
+          type: 'object',
+          properties: {
+            severity: { type: 'string', enum: ['critical', 'high', 'medium', 'low'] },
+            title: { type: 'string' },
+            description: { type: 'string' },
+            impact: { type: 'string', description: 'Estimated $ impact' },
+            recommendation: { type: 'string' },
+          },
+          required: ['severity', 'title', 'description', 'impact', 'recommendation'],
+        },
+      },
+      quickWins: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Changes that can be made immediately',
+      },
+    },
+    required: ['summary', 'issues', 'quickWins'],
+  },
+};
+
+// ============================================================
+// METRICS (computed in code)
+// ============================================================
+
+interface CampaignRow {
+  name: string;
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+}
+
+interface KeywordRow {
+  keyword: string;
+  campaign?: string;
+  clicks: number;
+  cost: number;
+  conversions: number;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Account totals from campaign rows (rates are 0 when their denominator is)
+ */
+export function computeHealthMetrics(campaigns: CampaignRow[]): HealthCheckResult['metrics'] {
+  const totals = campaigns.reduce(
+    (sum, c) => ({
+      impressions: sum.impressions + Number(c.impressions || 0),
+      clicks: sum.clicks + Number(c.clicks || 0),
+      cost: sum.cost + Number(c.cost || 0),
+      conversions: sum.conversions + Number(c.conversions || 0),
+    }),
+    { impressions: 0, clicks: 0, cost: 0, conversions: 0 }
+  );
+
+  return {
+    totalSpend: round(totals.cost),
+    totalClicks: totals.clicks,
+    totalConversions: round(totals.conversions),
+    ctr: totals.impressions > 0 ? round(totals.clicks / totals.impressions, 4) : 0,
+    avgCpc: totals.clicks > 0 ? round(totals.cost / totals.clicks) : 0,
+    cpa: totals.conversions > 0 ? round(totals.cost / totals.conversions) : 0,
+  };
+}
+
+/**
+ * Keywords with spend and clicks but no conversions, most expensive first
+ */
+export function computeWastedSpend(keywords: KeywordRow[]): HealthCheckResult['wastedSpend'] {
+  const wasted = keywords
+    .filter(k => Number(k.clicks) > 0 && Number(k.cost) > 0 && Number(k.conversions || 0) === 0)
+    .map(k => ({ keyword: k.keyword, spend: round(Number(k.cost)), clicks: Number(k.clicks) }))
+    .sort((a, b) => b.spend - a.spend);
+
+  return {
+    total: round(wasted.reduce((sum, k) => sum + k.spend, 0)),
+    keywords: wasted,
+  };
+}
+
+// ============================================================
+// AGENT
+// ============================================================
+
 export async function runHealthCheck(customerId?: string): Promise<HealthCheckResult> {
   console.log('🏥 Starting Health Check Agent...');
 
+  console.log('  📊 Loading campaign and keyword performance...');
+  const campaigns: CampaignRow[] = await adsTools.get_campaign_performance.handler({ date_range: 'LAST_30_DAYS' });
+  const keywords: KeywordRow[] = await adsTools.get_keyword_performance.handler({ date_range: 'LAST_30_DAYS', limit: 500 });
+
+  const metrics = computeHealthMetrics(campaigns);
+  const wastedSpend = computeWastedSpend(keywords);
+
   const messages: Anthropic.MessageParam[] = [
     {
       role: 'user',
       content: `Run a comprehensive health check on this Google Ads account${customerId ? ` (Customer ID: ${customerId})` : ''}.
 
+## Account Metrics (last 30 days, calculated)
+${JSON.stringify(metrics, null, 2)}
+
+## Wasted Spend (keywords with clicks and 0 conversions, calculated)
+Total: $${wastedSpend.total.toFixed(2)}
+${JSON.stringify(wastedSpend.keywords.slice(0, 25), null, 2)}
+
+## Campaign Performance (last 30 days)
+${JSON.stringify(campaigns, null, 2)}
+
+## Top Keywords by Cost (last 30 days)
+${JSON.stringify(keywords.slice(0, 50), null, 2)}
+
 Steps to follow:
-1. First, get campaign performance for the last 30 days
-2. Get keyword performance data
-3. Get search terms report to see what's triggering ads
-4. Analyze the data and identify issues
-5. Calculate wasted spend on non-converting keywords
-6. Provide prioritized recommendations
-
-Start by getting the campaign performance data.`,
+1. Review the data above
+2. Get the search terms report to see what's triggering ads
+3. Check impression share to see which campaigns are budget- vs rank-constrained
+4. Identify issues and prioritize recommendations
+5. Submit your analysis with submit_health_check`,
     },
   ];
 
-  // Run the agent loop
-  let response = await client.messages.create({
-    model: env.AGENT_MODEL,
-    max_tokens: env.AGENT_MAX_TOKENS,
-    system: HEALTH_CHECK_SYSTEM_PROMPT,
-    tools: googleAdsTools,
-    messages,
-  });
-
-  // Process tool calls until done
-  while (response.stop_reason === 'tool_use') {
-    const toolUseBlocks = response.content.filter(
-      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
-    );
+  const assessment = await runAssessmentLoop(messages);
 
-    const toolResults: Anthropic.MessageParam = {
-      role: 'user',
-      content: await Promise.all(
-        toolUseBlocks.map(async (toolUse) => {
-          console.log(`  🔧 Calling tool: ${toolUse.name}`);
-          try {
-            const handler = googleAdsHandlers[toolUse.name];
-            if (!handler) {
-              throw new Error(`Unknown tool: ${toolUse.name}`);
-            }
-            const result = await handler(toolUse.input as any);
-            return {
-              type: 'tool_result' as const,
-              tool_use_id: toolUse.id,
-              content: JSON.stringify(result, null, 2),
-            };
-          } catch (error) {
-            return {
-              type: 'tool_result' as const,
-              tool_use_id: toolUse.id,
-              content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              is_error: true,
-            };
-          }
-        })
-      ),
-    };
+  console.log('✅ Health Check complete');
 
-    messages.push({ role: 'assistant', content: response.content });
-    messages.push(toolResults);
+  return {
+    summary: assessment.summary,
+    metrics,
+    issues: assessment.issues,
+    wastedSpend,
+    quickWins: assessment.quickWins,
+  };
+}
+
+/**
+ * Let the model investigate with the Google Ads tools until it submits a
+ * valid assessment. Invalid submissions are sent back with the validation
+ * errors; once the iteration budget is spent the submit tool is forced.
+ */
+async function runAssessmentLoop(messages: Anthropic.MessageParam[]): Promise<HealthAssessment> {
+  let validationFailures = 0;
+  let forceSubmit = false;
+
+  for (let iteration = 1; ; iteration++) {
+    if (iteration >= MAX_ITERATIONS) {
+      forceSubmit = true;
+    }
 
-    response = await client.messages.create({
+    const response = await client.messages.create({
       model: env.AGENT_MODEL,
       max_tokens: env.AGENT_MAX_TOKENS,
       system: HEALTH_CHECK_SYSTEM_PROMPT,
-      tools: googleAdsTools,
+      tools: [...googleAdsTools, SUBMIT_TOOL],
+      tool_choice: forceSubmit ? { type: 'tool', name: SUBMIT_TOOL.name } : { type: 'auto' },
       messages,
     });
-  }
+    messages.push({ role: 'assistant', content: response.content });
 
-  // Extract final text response
-  const textBlock = response.content.find(
-    (block): block is Anthropic.TextBlock => block.type === 'text'
-  );
+    const toolUseBlocks = response.content.filter(
+      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+    );
 
-  console.log('✅ Health Check complete');
+    // Finished talking without submitting - make it submit
+    if (toolUseBlocks.length === 0) {
+      forceSubmit = true;
+      messages.push({ role: 'user', content: 'Submit your analysis with the submit_health_check tool.' });
+      continue;
+    }
 
-  // Parse the response into structured format
-  // (In production, you'd use structured output or more robust parsing)
-  return {
-    summary: textBlock?.text || 'Health check completed',
-    metrics: {
-      totalSpend: 0,
-      totalClicks: 0,
-      totalConversions: 0,
-      ctr: 0,
-      avgCpc: 0,
-      cpa: 0,
-    },
-    issues: [],
-    wastedSpend: { total: 0, keywords: [] },
-    quickWins: [],
-  };
+    let assessment: HealthAssessment | null = null;
+    const toolResults: Anthropic.ToolResultBlockParam[] = [];
+
+    for (const toolUse of toolUseBlocks) {
+      if (toolUse.name === SUBMIT_TOOL.name) {
+        const parsed = assessmentSchema.safeParse(toolUse.input);
+        if (parsed.success) {
+          assessment = parsed.data;
+          toolResults.push({ type: 'tool_result', tool_use_id: toolUse.id, content: 'Submitted' });
+          continue;
+        }
+
+        validationFailures++;
+        const problems = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+        console.log(`  ⚠️  Health check submission invalid (${validationFailures}/${MAX_VALIDATION_ATTEMPTS}): ${problems}`);
+        if (validationFailures >= MAX_VALIDATION_ATTEMPTS) {
+          throw new Error(`Health check analysis failed validation ${MAX_VALIDATION_ATTEMPTS} times: ${problems}`);
+        }
+        forceSubmit = true;
+        toolResults.push({
+          type: 'tool_result',
+          tool_use_id: toolUse.id,
+          content: `Invalid submission: ${problems}. Fix these fields and call submit_health_check again.`,
+          is_error: true,
+        });
+        continue;
+      }
+
+      console.log(`  🔧 Calling tool: ${toolUse.name}`);
+      try {
+        const handler = googleAdsHandlers[toolUse.name];
+        if (!handler) {
+          throw new Error(`Unknown tool: ${toolUse.name}`);
+        }
+        const result = await handler(toolUse.input as any);
+        toolResults.push({
+          type: 'tool_result',
+          tool_use_id: toolUse.id,
+          content: JSON.stringify(result, null, 2),
+        });
+      } catch (error) {
+        toolResults.push({
+          type: 'tool_result',
+          tool_use_id: toolUse.id,
+          content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          is_error: true,
+        });
+      }
+    }
+
+    if (assessment) {
+      return assessment;
+    }
+
+    messages.push({ role: 'user', content: toolResults });
+  }
 }
@@ -6,11 +6,15 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { enums } from 'google-ads-api';
 import { env } from '../config/index.js';
+import { withCassette } from '../tools/cassette.js';
 import { toolDefinitions as googleAdsTools, toolHandlers as googleAdsHandlers } from '../tools/google-ads.js';
-import { getMCP, shutdownMCP } from '../tools/mcp-bridge.js';
+import { acquireMCP } from '../tools/mcp-bridge.js';
+import { describeNegativeCategories, STANDARD_NEGATIVE_LIST_NAME } from '../tools/negative-keywords.js';
+import { fetchAccountKeywords, findBlockedKeywords, type KeywordConflict } from '../tools/keyword-conflicts.js';
 
-const client = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
+const client = withCassette(new Anthropic({ apiKey: env.ANTHROPIC_API_KEY }));
 
 const NEGATIVE_KEYWORD_SYSTEM_PROMPT = `You are a Negative Keyword specialist for Google Ads. Your job is to:
 
@@ -21,13 +25,10 @@ const NEGATIVE_KEYWORD_SYSTEM_PROMPT = `You are a Negative Keyword specialist fo
 5. **Estimate Savings**: Calculate expected cost reduction
 
 ## Common Negative Categories for Landscaping
-- **Competitors**: Other landscape company names
-- **DIY**: "how to", "tutorial", "DIY", "plans"
-- **Jobs/Careers**: "jobs", "salary", "hiring", "careers"
-- **Wrong Location**: Cities outside service area
-- **Wrong Intent**: "free", "cheap", "pictures", "images"
-- **B2B/Commercial**: "commercial", "municipal" (if residential focused)
-- **Irrelevant Services**: Services not offered
+${describeNegativeCategories()}
+
+Campaigns created by the campaign builder already use the "${STANDARD_NEGATIVE_LIST_NAME}"
+list (jobs, DIY and freebie terms) - focus on what it doesn't cover.
 
 ## Match Type Guidelines
 - EXACT [keyword]: Block only exact term
@@ -165,15 +166,38 @@ Start by getting the search terms report.`,
 
 /**
  * Add negative keywords via MCP
+ *
+ * Negatives that would block one of the campaign's own keywords are
+ * left out and returned as `blocked`.
  */
 export async function addNegativeKeywords(
   campaignId: string,
   keywords: Array<{ keyword: string; matchType: 'EXACT' | 'PHRASE' | 'BROAD' }>,
   dryRun: boolean = true
-): Promise<{ success: boolean; results: any[] }> {
+): Promise<{ success: boolean; results: any[]; blocked: KeywordConflict[]; error?: string }> {
+  const campaignKeywords = (await fetchAccountKeywords()).filter(k => k.campaignId === campaignId);
+  const blocked = findBlockedKeywords(
+    keywords.map(kw => ({ text: kw.keyword, matchType: kw.matchType })),
+    campaignKeywords
+  );
+  for (const conflict of blocked) {
+    console.log(`  ⚠️  ${conflict.message} - not adding it`);
+  }
+  const blockedNegatives = new Set(blocked.map(conflict => `${conflict.other.text}|${conflict.other.matchType}`));
+  keywords = keywords.filter(kw => !blockedNegatives.has(`${kw.keyword}|${kw.matchType}`));
+
   console.log(`${dryRun ? '🧪 DRY RUN:' : '🚀 LIVE:'} Adding ${keywords.length} negative keywords...`);
+  if (keywords.length === 0) {
+    return {
+      success: blocked.length === 0,
+      results: [],
+      blocked,
+      error: blocked.length > 0 ? 'Every negative would block a campaign keyword' : undefined,
+    };
+  }
 
-  const mcp = await getMCP();
+  const lease = await acquireMCP();
+  const mcp = lease.bridge;
   const customerId = env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID;
 
   try {
@@ -188,7 +212,7 @@ export async function addNegativeKeywords(
       operation: 'create',
       resource: {
         campaign: `customers/${customerId}/campaigns/${campaignId}`,
-        type: 4, // KEYWORD
+        type: enums.CriterionType.KEYWORD,
         negative: true,
         keyword: {
           text: kw.keyword,
@@ -206,9 +230,11 @@ export async function addNegativeKeywords(
     return {
       success: result.success,
       results: result.data || [],
+      blocked,
+      error: result.error,
     };
   } finally {
-    await shutdownMCP();
+    lease.release();
   }
 }
 
@@ -228,15 +254,22 @@ export const negativeKeywordTool = {
         type: 'string',
         description: 'Specific campaign to analyze (optional)',
       },
+      dry_run: {
+        type: 'boolean',
+        description: 'If true (default), only validate the negatives. Set to false to add them after human approval.',
+        default: true,
+      },
     },
     required: [],
   },
   handler: async ({ 
     apply_recommendations = false,
     campaign_id,
+    dry_run = true,
   }: { 
     apply_recommendations?: boolean;
     campaign_id?: string;
+    dry_run?: boolean;
   }) => {
     const result = await runNegativeKeywordAnalysis();
     
@@ -248,6 +281,16 @@ export const negativeKeywordTool = {
       
       // Always dry run first
       const dryRunResult = await addNegativeKeywords(campaign_id, keywords, true);
+
+      if (!dry_run && dryRunResult.success) {
+        const liveResult = await addNegativeKeywords(campaign_id, keywords, false);
+        return {
+          ...result,
+          dryRunResult,
+          liveResult,
+          message: liveResult.success ? 'Negative keywords added.' : 'Negative keywords were not added.',
+        };
+      }
       
       return {
         ...result,
@@ -7,18 +7,29 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { env } from '../config/index.js';
+import { cassetteMode, withCassette } from '../tools/cassette.js';
 import { runHealthCheck, type HealthCheckResult } from './health-check-agent.js';
 import { runCompetitorIntel, type CompetitorIntelResult } from './competitor-intel-agent.js';
 import { createCampaign, campaignBuilderTool } from './campaign-builder-agent.js';
+import { campaignEditorTool } from './campaign-editor-agent.js';
 import { runBudgetOptimizer, budgetOptimizerTool } from './budget-optimizer-agent.js';
 import { runAdCopyTester, adCopyTesterTool } from './ad-copy-tester-agent.js';
 import { runNegativeKeywordAnalysis, negativeKeywordTool } from './negative-keyword-agent.js';
+import { qualityScoreTool } from './quality-score-agent.js';
 import { toolDefinitions as googleAdsTools, toolHandlers as googleAdsHandlers } from '../tools/google-ads.js';
 import { toolDefinitions as dataForSEOTools, toolHandlers as dataForSEOHandlers } from '../tools/dataforseo.js';
 import { toolDefinitions as notificationTools, toolHandlers as notificationHandlers } from '../tools/notifications.js';
 import { getSkillsSummary, getSkill, skillCount } from '../skills/index.js';
+import { AgentSession, type CompactionOptions } from './session.js';
+import {
+  classifyToolCall,
+  denyAllApprover,
+  readOnlyApprover,
+  runWithMutationContext,
+  type Approver,
+} from '../tools/approval.js';
 
-const client = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
+const client = withCassette(new Anthropic({ apiKey: env.ANTHROPIC_API_KEY }));
 
 // Load marketing skills summary
 const skillsSummary = getSkillsSummary();
@@ -28,11 +39,13 @@ const ORCHESTRATOR_SYSTEM_PROMPT = `You are an elite Marketing Intelligence Agen
 
 ## Sub-Agents (High-Level Tasks)
 - **Health Check Agent**: Run comprehensive account health analysis
-- **Competitor Intel Agent**: Analyze competitor PPC strategies
+- **Competitor Intel Agent**: Analyze competitor PPC strategies (auction insights + DataForSEO)
 - **Campaign Builder Agent**: Create new campaigns from descriptions
+- **Campaign Editor Agent**: Edit existing campaigns (keywords, ads, ad groups, budget) as a reviewable diff
 - **Budget Optimizer Agent**: Recommend budget reallocations
 - **Ad Copy Tester Agent**: Generate A/B test ad variations
 - **Negative Keyword Agent**: Find and add negative keywords
+- **Quality Score Agent**: Diagnose low Quality Score keywords and estimate CPC savings
 
 ## Direct Tools (Granular Tasks)
 - Google Ads API tools for querying campaign/keyword data
@@ -43,7 +56,7 @@ const ORCHESTRATOR_SYSTEM_PROMPT = `You are an elite Marketing Intelligence Agen
 1. **Audit**: Run full account audits identifying waste and opportunities
 2. **Research**: Research keywords, competitors, and market trends
 3. **Optimize**: Recommend bid adjustments, negative keywords, new keywords
-4. **Create**: Build new campaigns from natural language descriptions
+4. **Create**: Build new campaigns from natural language descriptions, or edit existing ones incrementally
 5. **Report**: Generate executive summaries and detailed reports
 6. **Alert**: Send notifications about important findings
 7. **Marketing Strategy**: Brand voice, positioning, content strategy, lead magnets
@@ -127,6 +140,10 @@ const subAgentTools: Anthropic.Tool[] = [
           type: 'string',
           default: 'United States',
         },
+        campaign_filter: {
+          type: 'string',
+          description: 'Limit auction insights to campaigns whose name contains this (e.g. "Dublin")',
+        },
       },
       required: ['target_domain', 'seed_keywords'],
     },
@@ -136,6 +153,11 @@ const subAgentTools: Anthropic.Tool[] = [
     description: campaignBuilderTool.description,
     input_schema: campaignBuilderTool.input_schema,
   },
+  {
+    name: campaignEditorTool.name,
+    description: campaignEditorTool.description,
+    input_schema: campaignEditorTool.input_schema,
+  },
   {
     name: budgetOptimizerTool.name,
     description: budgetOptimizerTool.description,
@@ -151,6 +173,11 @@ const subAgentTools: Anthropic.Tool[] = [
     description: negativeKeywordTool.description,
     input_schema: negativeKeywordTool.input_schema,
   },
+  {
+    name: qualityScoreTool.name,
+    description: qualityScoreTool.description,
+    input_schema: qualityScoreTool.input_schema,
+  },
 ];
 
 // Combine all tools
@@ -183,31 +210,67 @@ const allHandlers: Record<string, (args: any) => Promise<any>> = {
   run_competitor_intel: async ({ 
     target_domain, 
     seed_keywords, 
-    location 
+    location,
+    campaign_filter,
   }: { 
     target_domain: string; 
     seed_keywords: string[]; 
-    location?: string 
+    location?: string;
+    campaign_filter?: string;
   }) => {
-    return await runCompetitorIntel(target_domain, seed_keywords, location);
+    return await runCompetitorIntel(target_domain, seed_keywords, location, { campaignFilter: campaign_filter });
   },
   [campaignBuilderTool.name]: campaignBuilderTool.handler,
+  [campaignEditorTool.name]: campaignEditorTool.handler,
   [budgetOptimizerTool.name]: budgetOptimizerTool.handler,
   [adCopyTesterTool.name]: adCopyTesterTool.handler,
   [negativeKeywordTool.name]: negativeKeywordTool.handler,
+  [qualityScoreTool.name]: qualityScoreTool.handler,
 };
 
 export interface OrchestratorOptions {
   maxIterations?: number;
   verbose?: boolean;
+  /**
+   * Conversation to continue. History, tool calls and usage accumulate
+   * on the session and it is saved after each turn. Without a session
+   * every call starts a fresh, unsaved conversation.
+   */
+  session?: AgentSession;
+  compaction?: CompactionOptions;
+  /**
+   * Receive progress events while the agent works. When set, model
+   * responses are streamed so text arrives as it is generated.
+   */
+  onEvent?: (event: AgentEvent) => void;
+  /**
+   * Decides on live Google Ads changes made by mutating tools. Every live
+   * mutation is dry-run and shown as a diff first; without an approver
+   * all live changes are refused.
+   */
+  approver?: Approver;
 }
 
 export interface AgentResponse {
   response: string;
   toolCalls: Array<{ tool: string; input: any; result: any }>;
   usage: { inputTokens: number; outputTokens: number };
+  sessionId: string;
 }
 
+/**
+ * Progress events emitted during a run (see `onEvent` and `streamAgent`)
+ */
+export type AgentEvent =
+  | { type: 'iteration_start'; iteration: number }
+  | { type: 'text_delta'; text: string }
+  | { type: 'tool_use_start'; id: string; name: string; input: any }
+  | { type: 'tool_use_end'; id: string; name: string; durationMs: number; isError: boolean; error?: string }
+  | { type: 'usage'; inputTokens: number; outputTokens: number; totalInputTokens: number; totalOutputTokens: number }
+  | { type: 'iteration_end'; iteration: number; stopReason: string | null }
+  | { type: 'done'; result: AgentResponse }
+  | { type: 'error'; message: string };
+
 /**
  * Run the PPC Intelligence Agent
  */
@@ -215,17 +278,122 @@ export async function runAgent(
   userMessage: string,
   options: OrchestratorOptions = {}
 ): Promise<AgentResponse> {
-  const { maxIterations = 10, verbose = true } = options;
+  const { maxIterations = 10, verbose = true, compaction, onEvent, approver = denyAllApprover } = options;
+  const session = options.session ?? AgentSession.create();
+  const persist = options.session !== undefined;
 
   if (verbose) {
     console.log('\n🤖 PPC Intelligence Agent Starting...\n');
     console.log(`📝 Task: ${userMessage}\n`);
   }
 
-  const messages: Anthropic.MessageParam[] = [
-    { role: 'user', content: userMessage },
-  ];
+  session.beginTurn(userMessage);
+
+  try {
+    const result = await runTurn(session, userMessage, { maxIterations, verbose, compaction, onEvent, approver });
+    if (persist) session.save();
+    onEvent?.({ type: 'done', result });
+    return result;
+  } catch (error) {
+    // Leave the saved history as it was before this turn
+    session.abortTurn();
+    if (persist) session.save();
+    onEvent?.({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+    throw error;
+  }
+}
+
+/**
+ * Run the agent and yield progress events as they happen.
+ * The final event is either `done` (carrying the full response) or `error`.
+ *
+ * @example
+ * for await (const event of streamAgent('Run a health check')) {
+ *   if (event.type === 'text_delta') process.stdout.write(event.text);
+ * }
+ */
+export async function* streamAgent(
+  userMessage: string,
+  options: Omit<OrchestratorOptions, 'onEvent'> = {}
+): AsyncGenerator<AgentEvent> {
+  const queue: AgentEvent[] = [];
+  let wake: (() => void) | null = null;
+  let finished = false;
+
+  const run = runAgent(userMessage, {
+    verbose: false,
+    ...options,
+    onEvent: (event) => {
+      queue.push(event);
+      wake?.();
+    },
+  })
+    .catch(() => {
+      // Surfaced to the consumer as an `error` event
+    })
+    .finally(() => {
+      finished = true;
+      wake?.();
+    });
 
+  while (true) {
+    if (queue.length > 0) {
+      yield queue.shift()!;
+      continue;
+    }
+    if (finished) break;
+    await new Promise<void>(resolve => (wake = resolve));
+    wake = null;
+  }
+
+  await run;
+}
+
+/**
+ * Call the model once, streaming text deltas when someone is listening
+ */
+async function callModel(
+  messages: Anthropic.MessageParam[],
+  onEvent?: (event: AgentEvent) => void
+): Promise<Anthropic.Message> {
+  const params = {
+    model: env.AGENT_MODEL,
+    max_tokens: env.AGENT_MAX_TOKENS,
+    system: ORCHESTRATOR_SYSTEM_PROMPT,
+    tools: allTools,
+    messages,
+  };
+
+  if (!onEvent) {
+    return client.messages.create(params);
+  }
+
+  // Cassettes hold whole messages, so a recorded or replayed run gets its text in one delta
+  if (cassetteMode() !== 'off') {
+    const message = await client.messages.create(params);
+    for (const block of message.content) {
+      if (block.type === 'text') onEvent({ type: 'text_delta', text: block.text });
+    }
+    return message;
+  }
+
+  const stream = client.messages.stream(params);
+  stream.on('text', (text) => onEvent({ type: 'text_delta', text }));
+  return stream.finalMessage();
+}
+
+async function runTurn(
+  session: AgentSession,
+  userMessage: string,
+  options: {
+    maxIterations: number;
+    verbose: boolean;
+    compaction?: CompactionOptions;
+    onEvent?: (event: AgentEvent) => void;
+    approver: Approver;
+  }
+): Promise<AgentResponse> {
+  const { maxIterations, verbose, compaction, onEvent, approver } = options;
   const toolCallLog: Array<{ tool: string; input: any; result: any }> = [];
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
@@ -233,17 +401,26 @@ export async function runAgent(
 
   while (iterations < maxIterations) {
     iterations++;
+    onEvent?.({ type: 'iteration_start', iteration: iterations });
 
-    const response = await client.messages.create({
-      model: env.AGENT_MODEL,
-      max_tokens: env.AGENT_MAX_TOKENS,
-      system: ORCHESTRATOR_SYSTEM_PROMPT,
-      tools: allTools,
-      messages,
-    });
+    const compacted = session.compact(compaction);
+    if (verbose && compacted > 0) {
+      console.log(`🗜️  Compacted ${compacted} old tool result(s) to keep context small`);
+    }
+
+    const response = await callModel(session.messages, onEvent);
 
     totalInputTokens += response.usage.input_tokens;
     totalOutputTokens += response.usage.output_tokens;
+    session.recordUsage(response.usage);
+    session.messages.push({ role: 'assistant', content: response.content });
+    onEvent?.({
+      type: 'usage',
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+      totalInputTokens,
+      totalOutputTokens,
+    });
 
     // Check if we're done
     if (response.stop_reason === 'end_turn') {
@@ -254,6 +431,7 @@ export async function runAgent(
       if (verbose) {
         console.log('\n✅ Agent completed task\n');
       }
+      onEvent?.({ type: 'iteration_end', iteration: iterations, stopReason: response.stop_reason });
 
       return {
         response: textBlock?.text || '',
@@ -262,6 +440,7 @@ export async function runAgent(
           inputTokens: totalInputTokens,
           outputTokens: totalOutputTokens,
         },
+        sessionId: session.id,
       };
     }
 
@@ -281,6 +460,8 @@ export async function runAgent(
         if (verbose) {
           console.log(`  🔧 ${toolUse.name}`);
         }
+        onEvent?.({ type: 'tool_use_start', id: toolUse.id, name: toolUse.name, input: toolUse.input });
+        const startedAt = Date.now();
 
         try {
           const handler = allHandlers[toolUse.name];
@@ -288,7 +469,17 @@ export async function runAgent(
             throw new Error(`Unknown tool: ${toolUse.name}`);
           }
 
-          const result = await handler(toolUse.input as any);
+          // Every tool runs in a mutation context so a live change can never
+          // bypass approval; read-only tools are refused outright
+          const access = classifyToolCall(toolUse.name, toolUse.input);
+          const result = await runWithMutationContext(
+            {
+              approver: access === 'mutating' ? approver : readOnlyApprover(toolUse.name),
+              tool: toolUse.name,
+              userRequest: userMessage,
+            },
+            () => handler(toolUse.input as any)
+          );
           const resultStr = JSON.stringify(result, null, 2);
 
           toolCallLog.push({
@@ -296,6 +487,7 @@ export async function runAgent(
             input: toolUse.input,
             result,
           });
+          session.recordToolCall(toolUse.name, toolUse.input, result);
 
           toolResults.push({
             type: 'tool_result',
@@ -304,6 +496,13 @@ export async function runAgent(
               ? resultStr.substring(0, 50000) + '\n... (truncated)'
               : resultStr,
           });
+          onEvent?.({
+            type: 'tool_use_end',
+            id: toolUse.id,
+            name: toolUse.name,
+            durationMs: Date.now() - startedAt,
+            isError: false,
+          });
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : 'Unknown error';
           if (verbose) {
@@ -316,11 +515,35 @@ export async function runAgent(
             content: `Error: ${errorMsg}`,
             is_error: true,
           });
+          onEvent?.({
+            type: 'tool_use_end',
+            id: toolUse.id,
+            name: toolUse.name,
+            durationMs: Date.now() - startedAt,
+            isError: true,
+            error: errorMsg,
+          });
         }
       }
 
-      messages.push({ role: 'assistant', content: response.content });
-      messages.push({ role: 'user', content: toolResults });
+      session.messages.push({ role: 'user', content: toolResults });
+      onEvent?.({ type: 'iteration_end', iteration: iterations, stopReason: response.stop_reason });
+    } else {
+      // max_tokens or another stop reason without tool calls: nothing more to do this turn
+      const textBlock = response.content.find(
+        (block): block is Anthropic.TextBlock => block.type === 'text'
+      );
+      onEvent?.({ type: 'iteration_end', iteration: iterations, stopReason: response.stop_reason });
+
+      return {
+        response: textBlock?.text || '',
+        toolCalls: toolCallLog,
+        usage: {
+          inputTokens: totalInputTokens,
+          outputTokens: totalOutputTokens,
+        },
+        sessionId: session.id,
+      };
     }
   }
 
@@ -410,7 +633,7 @@ export const workflows = {
    */
   async createCampaign(
     description: string,
-    options: { dryRun?: boolean } = {}
+    options: { dryRun?: boolean; approver?: Approver } = {}
   ): Promise<AgentResponse> {
     return runAgent(`
       Create a new Google Ads search campaign:
@@ -424,7 +647,7 @@ export const workflows = {
       
       Use the create_campaign tool to build and ${options.dryRun !== false ? 'validate (dry run)' : 'CREATE'} the campaign.
       ${options.dryRun !== false ? 'This is a dry run - the campaign will NOT be created yet.' : 'This will CREATE the campaign in PAUSED state.'}
-    `);
+    `, { approver: options.approver });
   },
 
   /**
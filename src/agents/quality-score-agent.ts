@@ -0,0 +1,362 @@
+/**
+ * Quality Score Diagnostics Sub-Agent
+ *
+ * Pulls Quality Score and its components (expected CTR, ad relevance,
+ * landing page experience) for every keyword, ranks keywords by
+ * spend-weighted QS deficit and works out which component is holding
+ * each one back, with a concrete fix and an estimated CPC saving.
+ *
+ * The diagnosis is computed in code; the model only summarizes it.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { env } from '../config/index.js';
+import { withCassette } from '../tools/cassette.js';
+import { queryAccount } from '../tools/google-ads.js';
+
+const client = withCassette(new Anthropic({ apiKey: env.ANTHROPIC_API_KEY }));
+
+const QUALITY_SCORE_SYSTEM_PROMPT = `You are a Google Ads Quality Score specialist. You are given keyword
+Quality Score diagnostics that have already been calculated: the weakest
+component of each keyword, the proposed fixes and the estimated CPC savings.
+
+Write a short report:
+- Executive summary (average QS, where the money is being lost)
+- The 3-5 keywords or ad groups to fix first, and why
+- Patterns across the account (e.g. landing page problems on one site section)
+
+Use the numbers exactly as given. Be concise and specific.`;
+
+/**
+ * Quality Score we aim to lift weak keywords to
+ */
+const TARGET_QUALITY_SCORE = 7;
+
+/**
+ * Ad groups with more keywords than this are candidates for a split
+ * when ad relevance is the problem
+ */
+const MAX_KEYWORDS_PER_AD_GROUP = 15;
+
+/**
+ * Rule-of-thumb CPC multiplier by Quality Score, relative to QS 5
+ * (higher QS = cheaper clicks for the same position)
+ */
+const CPC_MULTIPLIER: Record<number, number> = {
+  1: 5.0, 2: 2.5, 3: 1.67, 4: 1.25, 5: 1.0,
+  6: 0.833, 7: 0.714, 8: 0.625, 9: 0.556, 10: 0.5,
+};
+
+/** quality_info bucket enum values */
+const QS_BUCKET: Record<number, QualityBucket> = {
+  2: 'BELOW_AVERAGE',
+  3: 'AVERAGE',
+  4: 'ABOVE_AVERAGE',
+};
+
+const BUCKET_RANK: Record<QualityBucket, number> = {
+  BELOW_AVERAGE: 0,
+  AVERAGE: 1,
+  ABOVE_AVERAGE: 2,
+};
+
+/**
+ * Component order used to break ties: expected CTR and landing page
+ * experience carry more weight than ad relevance
+ */
+const COMPONENT_PRIORITY: QualityComponent[] = ['expected_ctr', 'landing_page', 'ad_relevance'];
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type QualityBucket = 'BELOW_AVERAGE' | 'AVERAGE' | 'ABOVE_AVERAGE';
+export type QualityComponent = 'expected_ctr' | 'ad_relevance' | 'landing_page';
+
+export interface KeywordQualityRow {
+  criterionId: string;
+  keyword: string;
+  matchType: string;
+  adGroupId: string;
+  adGroupName: string;
+  campaignName: string;
+  qualityScore: number | null;
+  expectedCtr: QualityBucket | null;
+  adRelevance: QualityBucket | null;
+  landingPage: QualityBucket | null;
+  spend: number;
+  clicks: number;
+  impressions: number;
+}
+
+export interface QualityFix {
+  type: 'split_ad_group' | 'add_headlines' | 'tighten_match_type' | 'landing_page';
+  action: string;
+}
+
+export interface QualityScoreDiagnosis extends KeywordQualityRow {
+  avgCpc: number;
+  /** Points below a perfect 10 */
+  qsDeficit: number;
+  /** qsDeficit × spend - the ranking key */
+  weightedDeficit: number;
+  weakestComponent: QualityComponent | null;
+  fixes: QualityFix[];
+  /** Estimated saving over the lookback window if QS reached the target */
+  estimatedSavings: number;
+}
+
+export interface QualityScoreResult {
+  summary: string;
+  keywordsAnalyzed: number;
+  /** Keywords Google reports no Quality Score for (too little traffic) */
+  keywordsWithoutScore: number;
+  /** Spend-weighted average Quality Score */
+  averageQualityScore: number | null;
+  totalEstimatedSavings: number;
+  diagnoses: QualityScoreDiagnosis[];
+}
+
+// ============================================================
+// DATA
+// ============================================================
+
+const MATCH_TYPE: Record<number, string> = { 2: 'EXACT', 3: 'PHRASE', 4: 'BROAD' };
+
+function bucket(value: any): QualityBucket | null {
+  if (typeof value === 'number') return QS_BUCKET[value] ?? null;
+  return value in BUCKET_RANK ? value : null;
+}
+
+export async function loadKeywordQuality(dateRange = 'LAST_30_DAYS'): Promise<KeywordQualityRow[]> {
+  const rows = await queryAccount(`
+    SELECT
+      ad_group_criterion.criterion_id,
+      ad_group_criterion.keyword.text,
+      ad_group_criterion.keyword.match_type,
+      ad_group_criterion.quality_info.quality_score,
+      ad_group_criterion.quality_info.search_predicted_ctr,
+      ad_group_criterion.quality_info.creative_quality_score,
+      ad_group_criterion.quality_info.post_click_quality_score,
+      ad_group.id,
+      ad_group.name,
+      campaign.name,
+      metrics.cost_micros,
+      metrics.clicks,
+      metrics.impressions
+    FROM keyword_view
+    WHERE segments.date DURING ${dateRange}
+      AND ad_group_criterion.status = 'ENABLED'
+      AND ad_group_criterion.negative = FALSE
+  `);
+
+  return rows.map((row: any) => {
+    const criterion = row.ad_group_criterion || {};
+    const quality = criterion.quality_info || {};
+    const matchType = criterion.keyword?.match_type;
+    return {
+      criterionId: String(criterion.criterion_id),
+      keyword: criterion.keyword?.text,
+      matchType: typeof matchType === 'number' ? MATCH_TYPE[matchType] || String(matchType) : matchType,
+      adGroupId: String(row.ad_group?.id),
+      adGroupName: row.ad_group?.name,
+      campaignName: row.campaign?.name,
+      qualityScore: quality.quality_score ? Number(quality.quality_score) : null,
+      expectedCtr: bucket(quality.search_predicted_ctr),
+      adRelevance: bucket(quality.creative_quality_score),
+      landingPage: bucket(quality.post_click_quality_score),
+      spend: Number(row.metrics?.cost_micros || 0) / 1_000_000,
+      clicks: Number(row.metrics?.clicks || 0),
+      impressions: Number(row.metrics?.impressions || 0),
+    };
+  });
+}
+
+// ============================================================
+// DIAGNOSIS
+// ============================================================
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * The component with the lowest rating (ties go to the heavier-weighted
+ * component). Null when every component is above average.
+ */
+export function weakestComponent(row: Pick<KeywordQualityRow, 'expectedCtr' | 'adRelevance' | 'landingPage'>): QualityComponent | null {
+  const ratings: Record<QualityComponent, QualityBucket | null> = {
+    expected_ctr: row.expectedCtr,
+    ad_relevance: row.adRelevance,
+    landing_page: row.landingPage,
+  };
+
+  let weakest: QualityComponent | null = null;
+  for (const component of COMPONENT_PRIORITY) {
+    const rating = ratings[component];
+    if (!rating || rating === 'ABOVE_AVERAGE') continue;
+    if (!weakest || BUCKET_RANK[rating] < BUCKET_RANK[ratings[weakest]!]) {
+      weakest = component;
+    }
+  }
+  return weakest;
+}
+
+/**
+ * Spend the keyword would have cost at the target Quality Score
+ * (same clicks, cheaper CPC)
+ */
+export function estimateSavings(spend: number, qualityScore: number, targetScore = TARGET_QUALITY_SCORE): number {
+  if (qualityScore >= targetScore) return 0;
+  const ratio = CPC_MULTIPLIER[targetScore] / CPC_MULTIPLIER[qualityScore];
+  return round(spend * (1 - ratio));
+}
+
+function proposeFixes(row: KeywordQualityRow, component: QualityComponent | null, adGroupSize: number): QualityFix[] {
+  const fixes: QualityFix[] = [];
+
+  if (component === 'ad_relevance') {
+    if (adGroupSize > MAX_KEYWORDS_PER_AD_GROUP) {
+      fixes.push({
+        type: 'split_ad_group',
+        action: `Split "${row.adGroupName}" (${adGroupSize} keywords) so "${row.keyword}" sits in a tightly themed ad group with its own ads`,
+      });
+    }
+    fixes.push({
+      type: 'add_headlines',
+      action: `Add headlines containing "${row.keyword}" to "${row.adGroupName}" (test_ad_copy with ad_group_id ${row.adGroupId})`,
+    });
+  }
+
+  if (component === 'expected_ctr') {
+    fixes.push({
+      type: 'add_headlines',
+      action: `Test stronger headlines with "${row.keyword}" and a clear offer in "${row.adGroupName}" (test_ad_copy with ad_group_id ${row.adGroupId})`,
+    });
+    if (row.matchType === 'BROAD') {
+      fixes.push({
+        type: 'tighten_match_type',
+        action: `Move "${row.keyword}" from BROAD to PHRASE match so it only shows for closely related searches`,
+      });
+    }
+  }
+
+  if (component === 'landing_page') {
+    fixes.push({
+      type: 'landing_page',
+      action: `Send "${row.keyword}" to a page about that exact service: keyword in the H1, fast mobile load, quote form above the fold`,
+    });
+  }
+
+  return fixes;
+}
+
+/**
+ * Rank keywords by spend-weighted Quality Score deficit and diagnose each one
+ */
+export function diagnoseQualityScores(rows: KeywordQualityRow[]): QualityScoreDiagnosis[] {
+  const adGroupSizes = new Map<string, number>();
+  for (const row of rows) {
+    adGroupSizes.set(row.adGroupId, (adGroupSizes.get(row.adGroupId) || 0) + 1);
+  }
+
+  return rows
+    .filter(row => row.qualityScore !== null && row.qualityScore < 10 && row.spend > 0)
+    .map(row => {
+      const qualityScore = row.qualityScore!;
+      const qsDeficit = 10 - qualityScore;
+      const component = weakestComponent(row);
+      return {
+        ...row,
+        avgCpc: row.clicks > 0 ? round(row.spend / row.clicks) : 0,
+        qsDeficit,
+        weightedDeficit: round(qsDeficit * row.spend),
+        weakestComponent: component,
+        fixes: proposeFixes(row, component, adGroupSizes.get(row.adGroupId) || 1),
+        estimatedSavings: estimateSavings(row.spend, qualityScore),
+      };
+    })
+    .sort((a, b) => b.weightedDeficit - a.weightedDeficit || a.criterionId.localeCompare(b.criterionId));
+}
+
+// ============================================================
+// AGENT
+// ============================================================
+
+export async function runQualityScoreDiagnostics(
+  options: { dateRange?: string; limit?: number } = {}
+): Promise<QualityScoreResult> {
+  const { dateRange = 'LAST_30_DAYS', limit = 25 } = options;
+  console.log('🎯 Starting Quality Score Diagnostics Agent...');
+
+  console.log('  📊 Loading keyword Quality Score components...');
+  const rows = await loadKeywordQuality(dateRange);
+  const scored = rows.filter(r => r.qualityScore !== null);
+  const diagnoses = diagnoseQualityScores(rows).slice(0, limit);
+
+  const scoredSpend = scored.reduce((sum, r) => sum + r.spend, 0);
+  const averageQualityScore = scoredSpend > 0
+    ? round(scored.reduce((sum, r) => sum + r.qualityScore! * r.spend, 0) / scoredSpend, 1)
+    : null;
+  const totalEstimatedSavings = round(diagnoses.reduce((sum, d) => sum + d.estimatedSavings, 0));
+
+  const response = await client.messages.create({
+    model: env.AGENT_MODEL,
+    max_tokens: env.AGENT_MAX_TOKENS,
+    system: QUALITY_SCORE_SYSTEM_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: `Summarize these Quality Score diagnostics (${dateRange}).
+
+Keywords analyzed: ${rows.length} (${rows.length - scored.length} without a Quality Score)
+Spend-weighted average QS: ${averageQualityScore ?? 'n/a'}
+Estimated CPC savings if the listed keywords reach QS ${TARGET_QUALITY_SCORE}: $${totalEstimatedSavings.toFixed(2)}
+
+## Keywords ranked by spend-weighted QS deficit
+${JSON.stringify(diagnoses, null, 2)}`,
+      },
+    ],
+  });
+
+  const textBlock = response.content.find(
+    (block): block is Anthropic.TextBlock => block.type === 'text'
+  );
+
+  console.log('✅ Quality Score diagnostics complete');
+
+  return {
+    summary: textBlock?.text || 'Quality Score diagnostics completed',
+    keywordsAnalyzed: rows.length,
+    keywordsWithoutScore: rows.length - scored.length,
+    averageQualityScore,
+    totalEstimatedSavings,
+    diagnoses,
+  };
+}
+
+// Tool definition for orchestrator
+export const qualityScoreTool = {
+  name: 'diagnose_quality_score',
+  description: 'Rank keywords by spend-weighted Quality Score deficit, identify the weakest QS component (expected CTR, ad relevance, landing page) and propose fixes with estimated CPC savings',
+  input_schema: {
+    type: 'object' as const,
+    properties: {
+      date_range: {
+        type: 'string',
+        description: 'GAQL date range for spend (e.g. LAST_30_DAYS)',
+        default: 'LAST_30_DAYS',
+      },
+      limit: {
+        type: 'number',
+        description: 'Number of keywords to diagnose',
+        default: 25,
+      },
+    },
+    required: [],
+  },
+  handler: async ({ date_range = 'LAST_30_DAYS', limit = 25 }: { date_range?: string; limit?: number }) => {
+    return await runQualityScoreDiagnostics({ dateRange: date_range, limit });
+  },
+};
@@ -0,0 +1,284 @@
+/**
+ * Agent Sessions
+ *
+ * A session holds the orchestrator's conversation state across turns:
+ * message history, tool calls and token usage. Sessions are saved as
+ * JSON files so a conversation can be resumed later by id.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { env } from '../config/index.js';
+
+const SESSIONS_DIR = join(env.PPC_AGENT_DATA_DIR, 'sessions');
+
+/**
+ * Rough token estimate (~4 characters per token) used to decide
+ * when to compact before we have real usage numbers from the API.
+ */
+const CHARS_PER_TOKEN = 4;
+
+export interface SessionToolCall {
+  tool: string;
+  input: any;
+  result: any;
+  turn: number;
+}
+
+export interface SessionData {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: number;
+  messages: Anthropic.MessageParam[];
+  toolCalls: SessionToolCall[];
+  usage: { inputTokens: number; outputTokens: number };
+  /** Input tokens reported for the most recent API call (current context size) */
+  contextTokens: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  updatedAt: string;
+  turns: number;
+  firstMessage: string;
+}
+
+export interface CompactionOptions {
+  /** Compact once the context is estimated above this many tokens */
+  maxContextTokens?: number;
+  /** Number of most recent turns whose tool results are kept intact */
+  keepRecentTurns?: number;
+}
+
+export class AgentSession {
+  readonly id: string;
+  readonly createdAt: string;
+  updatedAt: string;
+  turns: number;
+  messages: Anthropic.MessageParam[];
+  toolCalls: SessionToolCall[];
+  usage: { inputTokens: number; outputTokens: number };
+  contextTokens: number;
+
+  /**
+   * Index into `messages` where each turn starts
+   * (rebuilt on load so compaction knows which turns are recent)
+   */
+  private turnStarts: number[] = [];
+
+  /** State at the start of the current turn, for abortTurn() */
+  private checkpoint: {
+    messageCount: number;
+    toolCallCount: number;
+    usage: { inputTokens: number; outputTokens: number };
+    contextTokens: number;
+    /** Tool results compacted during the turn, with their original content */
+    compacted: Array<{ block: Anthropic.ToolResultBlockParam; content: string }>;
+  } | null = null;
+
+  private constructor(data: SessionData) {
+    this.id = data.id;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+    this.turns = data.turns;
+    this.messages = data.messages;
+    this.toolCalls = data.toolCalls;
+    this.usage = data.usage;
+    this.contextTokens = data.contextTokens;
+    this.turnStarts = findTurnStarts(this.messages);
+  }
+
+  /**
+   * Start a new, empty session
+   */
+  static create(): AgentSession {
+    const now = new Date().toISOString();
+    return new AgentSession({
+      id: randomUUID().slice(0, 8),
+      createdAt: now,
+      updatedAt: now,
+      turns: 0,
+      messages: [],
+      toolCalls: [],
+      usage: { inputTokens: 0, outputTokens: 0 },
+      contextTokens: 0,
+    });
+  }
+
+  /**
+   * Load a saved session by id
+   */
+  static load(id: string): AgentSession {
+    const path = sessionPath(id);
+    if (!existsSync(path)) {
+      throw new Error(`Session "${id}" not found in ${SESSIONS_DIR}`);
+    }
+    const data: SessionData = JSON.parse(readFileSync(path, 'utf-8'));
+    return new AgentSession(data);
+  }
+
+  /**
+   * List saved sessions, most recently updated first
+   */
+  static list(): SessionSummary[] {
+    if (!existsSync(SESSIONS_DIR)) {
+      return [];
+    }
+
+    return readdirSync(SESSIONS_DIR)
+      .filter(f => f.endsWith('.json'))
+      .map(f => {
+        const data: SessionData = JSON.parse(readFileSync(join(SESSIONS_DIR, f), 'utf-8'));
+        const first = data.messages.find(m => m.role === 'user' && typeof m.content === 'string');
+        return {
+          id: data.id,
+          updatedAt: data.updatedAt,
+          turns: data.turns,
+          firstMessage: typeof first?.content === 'string' ? first.content.slice(0, 80) : '',
+        };
+      })
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Begin a new turn with the user's message
+   */
+  beginTurn(userMessage: string): void {
+    this.turns++;
+    this.checkpoint = {
+      messageCount: this.messages.length,
+      toolCallCount: this.toolCalls.length,
+      usage: { ...this.usage },
+      contextTokens: this.contextTokens,
+      compacted: [],
+    };
+    this.turnStarts.push(this.messages.length);
+    this.messages.push({ role: 'user', content: userMessage });
+  }
+
+  /**
+   * Drop everything added since the current turn began - messages, tool
+   * calls, usage and compaction (used when a turn fails part way through)
+   */
+  abortTurn(): void {
+    if (!this.checkpoint) return;
+
+    this.messages.length = this.checkpoint.messageCount;
+    this.toolCalls.length = this.checkpoint.toolCallCount;
+    this.usage = this.checkpoint.usage;
+    this.contextTokens = this.checkpoint.contextTokens;
+    for (const { block, content } of this.checkpoint.compacted) {
+      block.content = content;
+    }
+    this.turnStarts.pop();
+    this.turns--;
+    this.checkpoint = null;
+  }
+
+  recordToolCall(tool: string, input: any, result: any): void {
+    this.toolCalls.push({ tool, input, result, turn: this.turns });
+  }
+
+  recordUsage(usage: Anthropic.Usage): void {
+    this.usage.inputTokens += usage.input_tokens;
+    this.usage.outputTokens += usage.output_tokens;
+    this.contextTokens = usage.input_tokens;
+  }
+
+  /**
+   * Estimated size of the conversation in tokens
+   */
+  estimateContextTokens(): number {
+    const estimated = Math.ceil(JSON.stringify(this.messages).length / CHARS_PER_TOKEN);
+    return Math.max(estimated, this.contextTokens);
+  }
+
+  /**
+   * Replace old tool results with short placeholders once the context
+   * grows past the limit. Tool use / tool result pairs stay intact so the
+   * history remains valid for the API; full results remain in `toolCalls`.
+   *
+   * @returns Number of tool results compacted
+   */
+  compact(options: CompactionOptions = {}): number {
+    const { maxContextTokens = 100_000, keepRecentTurns = 2 } = options;
+
+    if (this.estimateContextTokens() <= maxContextTokens) {
+      return 0;
+    }
+
+    const keepFrom = this.turnStarts[Math.max(0, this.turnStarts.length - keepRecentTurns)] ?? 0;
+    const toolNames = new Map<string, string>();
+    let compacted = 0;
+
+    for (let i = 0; i < keepFrom; i++) {
+      const message = this.messages[i];
+      if (!Array.isArray(message.content)) continue;
+
+      for (const block of message.content) {
+        if (block.type === 'tool_use') {
+          toolNames.set(block.id, block.name);
+        }
+        if (block.type === 'tool_result' && typeof block.content === 'string' && !block.content.startsWith('[compacted')) {
+          const tool = toolNames.get(block.tool_use_id) || 'tool';
+          this.checkpoint?.compacted.push({ block, content: block.content });
+          block.content = `[compacted: ${block.content.length} chars of ${tool} output from an earlier turn]`;
+          compacted++;
+        }
+      }
+    }
+
+    if (compacted > 0) {
+      // Estimates are all we have until the next API call reports real usage
+      this.contextTokens = 0;
+    }
+
+    return compacted;
+  }
+
+  /**
+   * Persist the session to disk
+   */
+  save(): void {
+    mkdirSync(SESSIONS_DIR, { recursive: true });
+    this.updatedAt = new Date().toISOString();
+    writeFileSync(sessionPath(this.id), JSON.stringify(this.toJSON(), null, 2));
+  }
+
+  toJSON(): SessionData {
+    return {
+      id: this.id,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      turns: this.turns,
+      messages: this.messages,
+      toolCalls: this.toolCalls,
+      usage: this.usage,
+      contextTokens: this.contextTokens,
+    };
+  }
+}
+
+function sessionPath(id: string): string {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid session id: "${id}"`);
+  }
+  return join(SESSIONS_DIR, `${id}.json`);
+}
+
+/**
+ * A turn starts at every user message that carries the user's own text
+ * (as opposed to a message made up of tool results)
+ */
+function findTurnStarts(messages: Anthropic.MessageParam[]): number[] {
+  const starts: number[] = [];
+  messages.forEach((message, index) => {
+    if (message.role === 'user' && typeof message.content === 'string') {
+      starts.push(index);
+    }
+  });
+  return starts;
+}
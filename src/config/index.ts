@@ -23,7 +23,38 @@ const envSchema = z.object({
 
   // Notifications (optional)
   SLACK_WEBHOOK_URL: z.string().url().optional(),
-});
+  SLACK_SIGNING_SECRET: z.string().optional(),
+
+  // Bearer token for the webhook server's /approvals routes (closed when unset)
+  PPC_AGENT_APPROVAL_TOKEN: z.string().optional(),
+
+  // Local state (sessions, caches) - offline and replayed runs keep theirs apart
+  PPC_AGENT_DATA_DIR: z.string().optional(),
+
+  // Spend guardrail policy checked before every mutation
+  PPC_AGENT_GUARDRAILS_FILE: z.string().default('guardrails.json'),
+
+  // Google Ads MCP server - pinned npm version, or a local binary/script instead
+  GOOGLE_ADS_MCP_VERSION: z.string().default('1.0.0'),
+  GOOGLE_ADS_MCP_PATH: z.string().optional(),
+  MCP_REQUEST_TIMEOUT_MS: z.coerce.number().default(60000),
+  MCP_PING_INTERVAL_MS: z.coerce.number().default(30000),
+  MCP_MAX_RESTARTS: z.coerce.number().default(5),
+
+  // Offline: run the fake MCP server and send every Google Ads read through it
+  PPC_AGENT_OFFLINE: z.enum(['true', 'false', '1', '0']).default('false').transform(v => v === 'true' || v === '1'),
+
+  // Cassettes: record every external call of a run, or replay a recording
+  PPC_AGENT_CASSETTE_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+  PPC_AGENT_CASSETTE: z.string().optional(),
+}).transform(env => ({
+  ...env,
+  PPC_AGENT_DATA_DIR: env.PPC_AGENT_DATA_DIR ?? (
+    env.PPC_AGENT_OFFLINE ? '.ppc-agent-offline'
+      : env.PPC_AGENT_CASSETTE_MODE === 'replay' ? '.ppc-agent-replay'
+      : '.ppc-agent'
+  ),
+}));
 
 export const env = envSchema.parse(process.env);
 
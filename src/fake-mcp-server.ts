@@ -0,0 +1,162 @@
+/**
+ * Fake Google Ads MCP Server
+ *
+ * Speaks the same JSON-RPC over stdio as @channel47/google-ads-mcp
+ * (initialize, ping, tools/list, tools/call for list_accounts, query and
+ * mutate) but answers from an in-memory account (src/tools/fake-google-ads.ts),
+ * so the campaign builder and mutating agents run with no network.
+ *
+ * Usage: GOOGLE_ADS_MCP_PATH=src/fake-mcp-server.ts (or PPC_AGENT_OFFLINE=true)
+ * Standalone: npm run mcp:fake
+ *
+ * The account starts from the seed in src/tools/fake-google-ads-seed.ts,
+ * or from FAKE_GOOGLE_ADS_SEED (a JSON array of resources). Its customer
+ * id is GOOGLE_ADS_DEFAULT_CUSTOMER_ID when set. State lives as long as
+ * the process.
+ *
+ * Doesn't load src/config - it needs no credentials.
+ */
+
+import { readFileSync } from 'fs';
+import { FakeGoogleAdsAccount, type FakeResource } from './tools/fake-google-ads.js';
+import { seedAccount } from './tools/fake-google-ads-seed.js';
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method: string;
+  params?: any;
+}
+
+const customerId = process.env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID?.replace(/-/g, '') || undefined;
+const resources: FakeResource[] = process.env.FAKE_GOOGLE_ADS_SEED
+  ? JSON.parse(readFileSync(process.env.FAKE_GOOGLE_ADS_SEED, 'utf-8'))
+  : seedAccount(customerId);
+const account = new FakeGoogleAdsAccount({ customerId, resources });
+
+const TOOLS = [
+  {
+    name: 'list_accounts',
+    description: 'List accessible Google Ads accounts',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'query',
+    description: 'Run a GAQL query',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        customer_id: { type: 'string' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'mutate',
+    description: 'Create, update or remove resources (Opteo operation format)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        customer_id: { type: 'string' },
+        operations: { type: 'array', items: { type: 'object' } },
+        dry_run: { type: 'boolean', default: true },
+        partial_failure: { type: 'boolean', default: false },
+      },
+      required: ['operations'],
+    },
+  },
+];
+
+// ============================================================
+// TOOLS
+// ============================================================
+
+function callTool(name: string, args: Record<string, any> = {}): any {
+  switch (name) {
+    case 'list_accounts':
+      return { success: true, data: account.listAccounts() };
+
+    case 'query': {
+      const rows = account.query(String(args.query ?? ''), args.customer_id);
+      return { success: true, data: rows, metadata: { row_count: rows.length } };
+    }
+
+    case 'mutate':
+      if (!Array.isArray(args.operations) || args.operations.length === 0) {
+        throw new Error('operations must be a non-empty array');
+      }
+      return account.mutate(args.operations, {
+        customerId: args.customer_id,
+        dryRun: args.dry_run !== false,
+        partialFailure: Boolean(args.partial_failure),
+      });
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+function handle(message: JsonRpcMessage): any {
+  switch (message.method) {
+    case 'initialize':
+      return {
+        protocolVersion: message.params?.protocolVersion ?? '2024-11-05',
+        capabilities: { tools: {} },
+        serverInfo: { name: 'fake-google-ads-mcp', version: '0.1.0' },
+      };
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return { tools: TOOLS };
+    case 'tools/call':
+      try {
+        const result = callTool(message.params?.name, message.params?.arguments);
+        return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+      } catch (error) {
+        const text = JSON.stringify({ success: false, error: error instanceof Error ? error.message : String(error) });
+        return { content: [{ type: 'text', text }], isError: true };
+      }
+    default:
+      throw Object.assign(new Error(`Method not found: ${message.method}`), { code: -32601 });
+  }
+}
+
+// ============================================================
+// STDIO
+// ============================================================
+
+function send(message: Record<string, any>): void {
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+let buffer = '';
+process.stdin.setEncoding('utf-8');
+process.stdin.on('data', (chunk: string) => {
+  buffer += chunk;
+  const lines = buffer.split('\n');
+  buffer = lines.pop() || '';
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send({ id: null, error: { code: -32700, message: 'Parse error' } });
+      continue;
+    }
+    // Notifications (e.g. notifications/initialized) get no reply
+    if (message.id === undefined) continue;
+
+    try {
+      send({ id: message.id, result: handle(message) });
+    } catch (error: any) {
+      send({ id: message.id, error: { code: error.code ?? -32603, message: error.message } });
+    }
+  }
+});
+process.stdin.on('end', () => process.exit(0));
+
+console.error(`Fake Google Ads MCP server started (customer ${account.customerId})`);
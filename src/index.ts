@@ -5,7 +5,9 @@
  * 
  * Usage:
  *   npm start                              # Interactive chat mode
+ *   npm start -- --session <id>            # Resume a saved conversation
  *   npm start "your request here"          # Single request mode
+ *   npm start -- --session <id> "follow-up" # Single request in a saved conversation
  * 
  * Examples:
  *   npm start "Create a lawn care campaign for Dublin with $50/day budget"
@@ -16,9 +18,11 @@
 
 import 'dotenv/config';
 import * as readline from 'readline';
-import { runAgent, workflows } from './agents/orchestrator.js';
+import { runAgent, streamAgent, workflows, type AgentEvent } from './agents/orchestrator.js';
+import { AgentSession } from './agents/session.js';
+import { createCliApprover } from './tools/approval.js';
 
-export { runAgent, workflows };
+export { runAgent, streamAgent, workflows, AgentSession };
 
 const BANNER = `
 ╔═══════════════════════════════════════════════════════════════════════════╗
@@ -36,18 +40,49 @@ const BANNER = `
 ║  • "Suggest negative keywords based on my search terms"                   ║
 ║  • "How are my campaigns performing this month?"                          ║
 ║                                                                           ║
+║  Type 'sessions', 'resume <id>' or 'new' to manage conversations.         ║
 ║  Type 'exit' or 'quit' to leave.                                          ║
 ╚═══════════════════════════════════════════════════════════════════════════╝
 `;
 
 const PROMPT = '\n💬 You: ';
 
+/**
+ * Print streamed agent events as they arrive: reasoning text is written
+ * live and each tool call gets a start line and a timed finish line
+ */
+function renderEvent(event: AgentEvent): void {
+  switch (event.type) {
+    case 'text_delta':
+      process.stdout.write(event.text);
+      break;
+    case 'tool_use_start':
+      process.stdout.write(`\n  🔧 ${event.name}...\n`);
+      break;
+    case 'tool_use_end': {
+      const seconds = (event.durationMs / 1000).toFixed(1);
+      console.log(event.isError
+        ? `  ❌ ${event.name} failed after ${seconds}s: ${event.error}`
+        : `  ✓ ${event.name} (${seconds}s)`);
+      break;
+    }
+    case 'iteration_end':
+      if (event.stopReason === 'tool_use') process.stdout.write('\n');
+      break;
+  }
+}
+
 /**
  * Interactive chat mode - the primary interface
  */
-async function interactiveMode() {
+async function interactiveMode(sessionId?: string) {
   console.log(BANNER);
 
+  let session = sessionId ? AgentSession.load(sessionId) : AgentSession.create();
+  console.log(sessionId
+    ? `🧵 Resumed session ${session.id} (${session.turns} turn(s))`
+    : `🧵 Session ${session.id}`);
+
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -68,6 +103,38 @@ async function interactiveMode() {
         process.exit(0);
       }
 
+      if (trimmed.toLowerCase() === 'new') {
+        session = AgentSession.create();
+        console.log(`\n🧵 Started new session ${session.id}`);
+        askQuestion();
+        return;
+      }
+
+      if (trimmed.toLowerCase() === 'sessions') {
+        const sessions = AgentSession.list();
+        if (sessions.length === 0) {
+          console.log('\nNo saved sessions yet.');
+        } else {
+          console.log('\n🧵 Saved sessions:');
+          for (const s of sessions.slice(0, 20)) {
+            console.log(`   ${s.id}  ${s.updatedAt.slice(0, 16).replace('T', ' ')}  ${s.turns} turn(s)  "${s.firstMessage}"`);
+          }
+        }
+        askQuestion();
+        return;
+      }
+
+      if (trimmed.toLowerCase().startsWith('resume ')) {
+        try {
+          session = AgentSession.load(trimmed.slice('resume '.length).trim());
+          console.log(`\n🧵 Resumed session ${session.id} (${session.turns} turn(s))`);
+        } catch (error) {
+          console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+        }
+        askQuestion();
+        return;
+      }
+
       if (trimmed.toLowerCase() === 'help') {
         console.log(`
 📖 HELP - What I can do:
@@ -98,6 +165,10 @@ async function interactiveMode() {
      "How should I reallocate my budgets?"
      "Which campaigns deserve more spend?"
 
+  🧵 CONVERSATIONS
+     Follow-ups remember earlier answers ("now pause the worst one of those")
+     sessions / resume <id> / new
+
 Just describe what you need - I'll figure out the rest!
 `);
         askQuestion();
@@ -105,17 +176,19 @@ Just describe what you need - I'll figure out the rest!
       }
 
       try {
-        console.log('\n🤖 Agent: Thinking...\n');
-        const result = await runAgent(trimmed);
-        console.log('━'.repeat(70));
         console.log('\n🤖 Agent:\n');
-        console.log(result.response);
-        console.log('\n' + '━'.repeat(70));
+        const result = await runAgent(trimmed, {
+          session,
+          verbose: false,
+          onEvent: renderEvent,
+          approver: createCliApprover(rl),
+        });
+        console.log('\n\n' + '━'.repeat(70));
         
         if (result.toolCalls.length > 0) {
           console.log(`\n📊 Used ${result.toolCalls.length} tool(s): ${result.toolCalls.map(t => t.tool).join(', ')}`);
         }
-        console.log(`💰 Tokens: ${result.usage.inputTokens} in / ${result.usage.outputTokens} out`);
+        console.log(`💰 Tokens: ${result.usage.inputTokens} in / ${result.usage.outputTokens} out (session ${session.id}: ${session.usage.inputTokens} in / ${session.usage.outputTokens} out)`);
       } catch (error) {
         console.error('\n❌ Error:', error instanceof Error ? error.message : error);
       }
@@ -130,25 +203,29 @@ Just describe what you need - I'll figure out the rest!
 /**
  * Single request mode - run one query and exit
  */
-async function singleRequestMode(query: string) {
+async function singleRequestMode(query: string, sessionId?: string) {
   console.log('╔═══════════════════════════════════════════════════════════════════════════╗');
   console.log('║                     PPC INTELLIGENCE AGENT v0.2.0                         ║');
   console.log('╚═══════════════════════════════════════════════════════════════════════════╝\n');
   
   console.log(`📝 Request: ${query}\n`);
-  console.log('🤖 Agent: Working on it...\n');
+  console.log('🤖 Agent:\n');
 
   try {
-    const result = await runAgent(query);
-    console.log('━'.repeat(70));
-    console.log('\n🤖 Response:\n');
-    console.log(result.response);
-    console.log('\n' + '━'.repeat(70));
+    const session = sessionId ? AgentSession.load(sessionId) : AgentSession.create();
+    const result = await runAgent(query, {
+      session,
+      verbose: false,
+      onEvent: renderEvent,
+      approver: createCliApprover(),
+    });
+    console.log('\n\n' + '━'.repeat(70));
     
     if (result.toolCalls.length > 0) {
       console.log(`\n📊 Tools used: ${result.toolCalls.map(t => t.tool).join(', ')}`);
     }
-    console.log(`💰 Tokens: ${result.usage.inputTokens} in / ${result.usage.outputTokens} out\n`);
+    console.log(`💰 Tokens: ${result.usage.inputTokens} in / ${result.usage.outputTokens} out`);
+    console.log(`🧵 Session: ${result.sessionId} (continue with --session ${result.sessionId})\n`);
   } catch (error) {
     console.error('❌ Error:', error instanceof Error ? error.message : error);
     process.exit(1);
@@ -159,13 +236,24 @@ async function singleRequestMode(query: string) {
 async function main() {
   const args = process.argv.slice(2);
 
+  let sessionId: string | undefined;
+  const sessionFlag = args.indexOf('--session');
+  if (sessionFlag !== -1) {
+    sessionId = args[sessionFlag + 1];
+    if (!sessionId) {
+      console.error('❌ --session requires a session id');
+      process.exit(1);
+    }
+    args.splice(sessionFlag, 2);
+  }
+
   if (args.length === 0) {
     // No arguments = interactive mode
-    await interactiveMode();
+    await interactiveMode(sessionId);
   } else {
     // Arguments = treat as a single request
     const query = args.join(' ');
-    await singleRequestMode(query);
+    await singleRequestMode(query, sessionId);
   }
 }
 
@@ -5,7 +5,28 @@
  */
 
 import 'dotenv/config';
-import { createCampaign, designCampaign } from './agents/campaign-builder-agent.js';
+import { writeFileSync } from 'fs';
+import {
+  analyzeKeywordConflicts,
+  createCampaign,
+  designCampaign,
+  scoreCampaignAds,
+} from './agents/campaign-builder-agent.js';
+import {
+  campaignSpecsToEditorCsv,
+  editorCsvOmissions,
+  loadEditorCsvFile,
+  operationsToEditorCsv,
+} from './agents/ads-editor-csv.js';
+import { editCampaign, exportCampaignSpec } from './agents/campaign-editor-agent.js';
+import {
+  applyCampaignSpecFile,
+  loadCampaignSpecFile,
+  saveCampaignSpecFile,
+  writeCampaignSpecJsonSchema,
+} from './agents/campaign-spec-files.js';
+import { createCliApprover, runWithMutationContext } from './tools/approval.js';
+import { describeConflicts, fetchAccountKeywords } from './tools/keyword-conflicts.js';
 import { shutdownMCP } from './tools/mcp-bridge.js';
 
 async function main() {
@@ -81,8 +102,12 @@ async function main() {
       // Design and dry-run validate
       console.log('Mode: VALIDATE (dry run)\n');
       
-      const campaignType = args[1] || 'landscape_design';
-      const description = examples[campaignType as keyof typeof examples] || args.slice(1).join(' ');
+      // --csv <file> also writes the operations as a Google Ads Editor CSV
+      const csvIndex = args.indexOf('--csv');
+      const csvFile = csvIndex >= 0 ? args[csvIndex + 1] : undefined;
+      const rest = csvIndex >= 0 ? [...args.slice(1, csvIndex), ...args.slice(csvIndex + 2)] : args.slice(1);
+      const campaignType = rest[0] || 'landscape_design';
+      const description = examples[campaignType as keyof typeof examples] || rest.join(' ');
 
       const result = await createCampaign(description, businessInfo, {
         dryRun: true,
@@ -90,6 +115,11 @@ async function main() {
 
       console.log('\n📊 RESULT:\n');
       console.log(result.summary);
+
+      if (csvFile && result.operations.length > 0) {
+        writeFileSync(csvFile, operationsToEditorCsv(result.operations, result.locations));
+        console.log(`\n📤 Wrote Google Ads Editor CSV to ${csvFile}`);
+      }
       
       if (result.dryRunResult) {
         console.log('\nDry Run Response:');
@@ -112,6 +142,126 @@ async function main() {
       console.log('\n📊 RESULT:\n');
       console.log(result.summary);
 
+    } else if (mode === 'save') {
+      // Design and save to campaigns/*.yaml for review
+      const campaignType = args[1] || 'landscape_design';
+      const description = examples[campaignType as keyof typeof examples] || args.slice(1).join(' ');
+
+      const spec = await designCampaign(description, businessInfo);
+      const path = saveCampaignSpecFile(spec);
+      console.log(`\n💾 Saved spec to ${path}`);
+      console.log(`   Review it, then: npm run campaign apply ${path}`);
+
+    } else if (mode === 'check') {
+      // Validate a spec file (no API calls)
+      const spec = loadCampaignSpecFile(args[1]);
+      console.log(`✅ ${args[1]} is valid: "${spec.name}", ${spec.adGroups.length} ad groups`);
+
+    } else if (mode === 'conflicts') {
+      // Duplicate / overlapping keywords in a spec file and against the live account
+      const spec = loadCampaignSpecFile(args[1]);
+      const accountKeywords = args.includes('--offline') ? [] : await fetchAccountKeywords();
+      const conflicts = analyzeKeywordConflicts(spec, accountKeywords);
+
+      console.log(`🔀 "${spec.name}" vs ${accountKeywords.length} live keywords\n`);
+      for (const line of describeConflicts(conflicts)) {
+        console.log(`   ${line}`);
+      }
+      console.log(conflicts.length > 0 ? `\n⚠️  ${conflicts.length} keyword conflicts` : '✅ No keyword conflicts');
+
+    } else if (mode === 'strength') {
+      // Estimated ad strength of every ad in a spec file (no API calls)
+      const spec = loadCampaignSpecFile(args[1]);
+      for (const report of scoreCampaignAds(spec)) {
+        const { level, score, checks, suggestions } = report.strength;
+        console.log(`\n📈 ${report.adGroup} #${report.ad}: ${level} (${score}/100)`);
+        for (const check of checks) {
+          console.log(`   ${check.score >= 1 ? '✅' : '⚠️ '} ${check.name}: ${check.detail}`);
+        }
+        for (const suggestion of suggestions) {
+          console.log(`   → ${suggestion}`);
+        }
+      }
+
+    } else if (mode === 'apply') {
+      // Deploy a spec file without the model: dry run unless --apply
+      const apply = args.includes('--apply');
+      const customerIndex = args.indexOf('--customer');
+      const customerId = customerIndex >= 0 ? args[customerIndex + 1] : undefined;
+      console.log(`Mode: APPLY SPEC (${apply ? 'LIVE - asks for approval' : 'dry run'})\n`);
+
+      const result = await runWithMutationContext(
+        { approver: createCliApprover(), tool: 'apply-campaign-spec', userRequest: `Apply spec ${args[1]}` },
+        () => applyCampaignSpecFile(args[1], { customerId, dryRun: !apply, asNew: args.includes('--new') })
+      );
+
+      console.log('\n📊 RESULT:\n');
+      console.log(result.summary);
+
+    } else if (mode === 'schema') {
+      // Regenerate the published JSON Schema
+      console.log(`📐 Wrote ${writeCampaignSpecJsonSchema()}`);
+
+    } else if (mode === 'editor-export') {
+      // Spec file(s) → Google Ads Editor CSV
+      const outIndex = args.indexOf('--out');
+      const out = outIndex >= 0 ? args[outIndex + 1] : undefined;
+      const files = outIndex >= 0 ? [...args.slice(1, outIndex), ...args.slice(outIndex + 2)] : args.slice(1);
+      const specs = files.map(file => loadCampaignSpecFile(file));
+
+      for (const spec of specs) {
+        const omitted = editorCsvOmissions(spec);
+        if (omitted.length > 0) {
+          console.log(`⚠️  "${spec.name}": ${omitted.join(', ')} not included (no Editor CSV rows for them)`);
+        }
+      }
+      const csv = campaignSpecsToEditorCsv(specs);
+      if (out) {
+        writeFileSync(out, csv);
+        console.log(`📤 Wrote ${specs.length} campaign(s) to ${out}`);
+      } else {
+        process.stdout.write(csv);
+      }
+
+    } else if (mode === 'editor-import') {
+      // Google Ads Editor CSV → spec(s), --save writes them to campaigns/
+      const { specs, skipped } = loadEditorCsvFile(args[1]);
+      for (const note of skipped) {
+        console.log(`   ⏭️  ${note}`);
+      }
+      for (const spec of specs) {
+        if (args.includes('--save')) {
+          console.log(`💾 Saved "${spec.name}" to ${saveCampaignSpecFile(spec)}`);
+        } else {
+          console.log(JSON.stringify(spec, null, 2));
+        }
+      }
+      console.log(`\n✅ Imported ${specs.length} campaign(s) from ${args[1]}`);
+
+    } else if (mode === 'export') {
+      // Print a live campaign as a spec (--save writes it to campaigns/)
+      const spec = await exportCampaignSpec(args[1]);
+      if (args.includes('--save')) {
+        console.log(`💾 Saved spec to ${saveCampaignSpecFile(spec)}`);
+      } else {
+        console.log(JSON.stringify(spec, null, 2));
+      }
+
+    } else if (mode === 'edit') {
+      // Edit a live campaign: dry run unless --apply
+      const apply = args.includes('--apply');
+      const [campaign, ...rest] = args.slice(1).filter(a => a !== '--apply');
+      const instruction = rest.join(' ');
+      console.log(`Mode: EDIT (${apply ? 'LIVE - asks for approval' : 'dry run'})\n`);
+
+      const result = await runWithMutationContext(
+        { approver: createCliApprover(), tool: 'edit_campaign', userRequest: instruction },
+        () => editCampaign(campaign, instruction, { dryRun: !apply })
+      );
+
+      console.log('\n📊 RESULT:\n');
+      console.log(result.summary);
+
     } else if (mode === 'list') {
       // List available example campaigns
       console.log('Available example campaigns:\n');
@@ -123,13 +273,30 @@ async function main() {
       console.log('  npm run campaign design landscape_design');
       console.log('  npm run campaign validate lawn_care');
       console.log('  npm run campaign create hardscaping');
+      console.log('  npm run campaign save hardscaping');
+      console.log('  npm run campaign apply campaigns/hardscaping.yaml');
+      console.log('  npm run campaign conflicts campaigns/hardscaping.yaml');
+      console.log('  npm run campaign export "Hardscaping"');
+      console.log('  npm run campaign editor-export campaigns/hardscaping.yaml --out hardscaping.csv');
+      console.log('  npm run campaign editor-import editor-export.csv --save');
+      console.log('  npm run campaign edit "Hardscaping" "add five keywords about retaining walls"');
 
     } else {
       console.log('Usage: npm run campaign <mode> [campaign_type]');
       console.log('\nModes:');
       console.log('  design   - Design campaign structure (no API calls)');
-      console.log('  validate - Design + dry run validation');
+      console.log('  validate - Design + dry run validation (--csv <file> writes the operations for Google Ads Editor)');
       console.log('  create   - Design + validate + create (LIVE!)');
+      console.log('  save     - Design + save the spec to campaigns/*.yaml');
+      console.log('  check    - Validate a spec file: check <file>');
+      console.log('  strength - Estimated ad strength of each ad: strength <file>');
+      console.log('  conflicts - Duplicate / overlapping keywords: conflicts <file> [--offline]');
+      console.log('  apply    - Deploy a spec file without the model: apply <file> [--apply] [--new] [--customer <id>]');
+      console.log('  schema   - Regenerate schemas/campaign-spec.schema.json');
+      console.log('  editor-export - Spec files as a Google Ads Editor CSV: editor-export <file...> [--out <csv>]');
+      console.log('  editor-import - Google Ads Editor CSV to specs: editor-import <csv> [--save]');
+      console.log('  export   - Print a live campaign as a spec: export <campaign id or name> [--save]');
+      console.log('  edit     - Edit a live campaign: edit <campaign> "<request>" [--apply]');
       console.log('  list     - List example campaign types');
     }
 
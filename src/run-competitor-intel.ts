@@ -40,6 +40,20 @@ async function main() {
     
     console.log(result.summary);
 
+    if (result.auctionInsights.length > 0) {
+      const percent = (value: number | null) => value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+      console.log('\n🥊 AUCTION INSIGHTS (our auctions):');
+      for (const comp of result.auctionInsights.slice(0, 10)) {
+        const change = comp.outranking_share_change;
+        const trend = change === null ? '' : change > 0 ? ' 📈' : change < 0 ? ' 📉' : '';
+        console.log(`   ${comp.domain}${trend}`);
+        console.log(`      Overlap: ${percent(comp.overlap_rate)} | Outranking us: ${percent(comp.outranking_share)} | Above us: ${percent(comp.position_above_rate)} | Top of page: ${percent(comp.top_of_page_rate)}`);
+        if (comp.paidKeywords) {
+          console.log(`      Paid keywords (DataForSEO): ${comp.paidKeywords.count}`);
+        }
+      }
+    }
+
     if (result.competitors.length > 0) {
       console.log('\n🏢 TOP COMPETITORS:');
       for (const comp of result.competitors) {
@@ -7,6 +7,8 @@
 
 import 'dotenv/config';
 import { runHealthCheck } from './agents/health-check-agent.js';
+import { env } from './config/index.js';
+import { sendHealthCheckAlert } from './tools/notifications.js';
 
 async function main() {
   console.log('╔══════════════════════════════════════════════════════════════╗');
@@ -67,6 +69,14 @@ async function main() {
       }
     }
 
+    if (env.SLACK_WEBHOOK_URL && result.issues.length > 0) {
+      await sendHealthCheckAlert(result.issues, {
+        totalSpend: result.metrics.totalSpend,
+        wastedSpend: result.wastedSpend.total,
+        ctr: result.metrics.ctr,
+      });
+    }
+
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
     console.log(`\n⏱️  Completed in ${duration}s`);
 
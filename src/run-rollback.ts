@@ -0,0 +1,121 @@
+/**
+ * Rollback Runner
+ *
+ * Undo a change recorded in the change journal.
+ *
+ * Usage:
+ *   npm run rollback list                  # Recent live changes
+ *   npm run rollback show <changeId>       # Details of one change
+ *   npm run rollback <changeId>            # Build + dry run the inverse operations
+ *   npm run rollback <changeId> --apply    # Apply the rollback (asks for approval)
+ */
+
+import 'dotenv/config';
+import { buildRollbackPlan, getJournalEntry, readJournal } from './tools/change-journal.js';
+import { createCliApprover, formatOperationsDiff, runWithMutationContext } from './tools/approval.js';
+import { getMCP, shutdownMCP } from './tools/mcp-bridge.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  console.log('╔══════════════════════════════════════════════════════════════╗');
+  console.log('║              CHANGE ROLLBACK                                  ║');
+  console.log('╚══════════════════════════════════════════════════════════════╝\n');
+
+  if (!command || command === 'list') {
+    const entries = readJournal().slice(-20).reverse();
+    if (entries.length === 0) {
+      console.log('No live changes recorded yet.');
+      return;
+    }
+    for (const e of entries) {
+      const status = e.success ? '✅' : '❌';
+      const origin = e.rollbackOf ? `rollback of ${e.rollbackOf}` : e.tool || 'direct';
+      console.log(`${status} ${e.changeId}  ${e.timestamp.slice(0, 19).replace('T', ' ')}  ${e.operations.length} op(s)  ${origin}`);
+      if (e.userRequest) {
+        console.log(`      "${e.userRequest.slice(0, 80)}"`);
+      }
+    }
+    return;
+  }
+
+  if (command === 'show') {
+    const entry = getJournalEntry(args[1]);
+    console.log(JSON.stringify(entry, null, 2));
+    return;
+  }
+
+  const apply = args.includes('--apply');
+  const plan = buildRollbackPlan(getJournalEntry(command));
+
+  console.log(`Change ${plan.entry.changeId} (${plan.entry.timestamp})`);
+  if (plan.entry.userRequest) {
+    console.log(`Requested: "${plan.entry.userRequest}"`);
+  }
+
+  if (plan.irreversible.length > 0) {
+    console.log('\n⚠️  Cannot be undone automatically:');
+    for (const reason of plan.irreversible) {
+      console.log(`   - ${reason}`);
+    }
+  }
+
+  if (plan.operations.length === 0) {
+    console.log('\nNothing to roll back.');
+    return;
+  }
+
+  console.log('\n🔁 Inverse operations:\n');
+  console.log(formatOperationsDiff(plan.operations));
+
+  try {
+    const mcp = await getMCP();
+
+    console.log('\n🧪 Running dry run validation...');
+    const dryRunResult = await mcp.mutate(plan.operations, {
+      customerId: plan.entry.customerId,
+      dryRun: true,
+      partialFailure: true,
+    });
+
+    if (!dryRunResult.success) {
+      console.log('❌ Dry run failed:', dryRunResult.error || dryRunResult);
+      process.exitCode = 1;
+      return;
+    }
+    console.log('✅ Dry run passed!');
+
+    if (!apply) {
+      console.log(`\nRun again with --apply to roll back: npm run rollback ${plan.entry.changeId} -- --apply`);
+      return;
+    }
+
+    const liveResult = await runWithMutationContext(
+      {
+        approver: createCliApprover(),
+        tool: 'rollback',
+        userRequest: `Rollback of change ${plan.entry.changeId}`,
+      },
+      () => mcp.mutate(plan.operations, {
+        customerId: plan.entry.customerId,
+        dryRun: false,
+        rollbackOf: plan.entry.changeId,
+      })
+    );
+
+    if (liveResult.success) {
+      console.log(`\n✅ Rolled back change ${plan.entry.changeId} (recorded as ${liveResult.changeId})`);
+    } else {
+      console.log('\n❌ Rollback failed:', liveResult.error || liveResult);
+      process.exitCode = 1;
+    }
+  } finally {
+    await shutdownMCP();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
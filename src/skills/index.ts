@@ -22,7 +22,7 @@ export interface Skill {
 /**
  * Parse the YAML frontmatter from a SKILL.md file
  */
-function parseFrontmatter(content: string): { name: string; description: string; body: string } {
+export function parseFrontmatter(content: string): { name: string; description: string; body: string } {
   const match = content.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
   
   if (!match) {
@@ -0,0 +1,342 @@
+/**
+ * Responsive Search Ad Text & Ad Strength
+ *
+ * RSA headline and description assets - plain text or pinned to a
+ * position - with the keyword and location insertion syntax:
+ *   {KeyWord:Default Text}        dynamic keyword insertion (casing follows "KeyWord")
+ *   {LOCATION(City):Default}      location insertion (City, State or Country)
+ * Length limits apply to the text shown when the default is used.
+ *
+ * The ad strength score is a local approximation of Google's
+ * Poor / Average / Good / Excellent rating, so ads can be improved before
+ * they go live: asset counts, headline and description uniqueness,
+ * keyword inclusion, calls to action, location mentions, repeated phrases
+ * and pinning. Computed in code - the model only explains it.
+ */
+
+import { keywordWords } from './keyword-conflicts.js';
+
+// ============================================================
+// AD TEXT
+// ============================================================
+
+export type HeadlinePosition = 1 | 2 | 3;
+export type DescriptionPosition = 1 | 2;
+
+export interface PinnedText<Position extends number> {
+  text: string;
+  /** Always show this asset in the given position */
+  pinnedTo: Position;
+}
+
+/** A headline: text, or text pinned to position 1-3 */
+export type HeadlineSpec = string | PinnedText<HeadlinePosition>;
+
+/** A description: text, or text pinned to position 1-2 */
+export type DescriptionSpec = string | PinnedText<DescriptionPosition>;
+
+export const HEADLINE_MAX_LENGTH = 30;
+export const DESCRIPTION_MAX_LENGTH = 90;
+
+export function assetText(asset: string | { text: string }): string {
+  return typeof asset === 'string' ? asset : asset.text;
+}
+
+export function assetPin(asset: string | { pinnedTo?: number }): number | undefined {
+  return typeof asset === 'string' ? undefined : asset.pinnedTo;
+}
+
+interface Insertion {
+  raw: string;
+  kind: 'keyword' | 'location';
+  defaultText?: string;
+}
+
+const INSERTION_PATTERN = /\{([^{}:]*)(?::([^{}]*))?\}/g;
+
+/**
+ * Find the insertion tokens in an asset
+ *
+ * @returns the tokens, and what is wrong with the syntax (if anything)
+ */
+export function parseInsertions(text: string): { insertions: Insertion[]; errors: string[] } {
+  const insertions: Insertion[] = [];
+  const errors: string[] = [];
+
+  for (const match of text.matchAll(INSERTION_PATTERN)) {
+    const [raw, name, defaultText] = match;
+    if (/^keyword$/i.test(name.trim())) {
+      insertions.push({ raw, kind: 'keyword', defaultText });
+    } else if (/^location\((city|state|country)\)$/i.test(name.trim())) {
+      insertions.push({ raw, kind: 'location', defaultText });
+    } else {
+      errors.push(`unsupported insertion ${raw} (use {KeyWord:Default} or {LOCATION(City):Default})`);
+      continue;
+    }
+    if (!defaultText?.trim()) {
+      errors.push(`${raw} needs default text, e.g. {${name}:Landscaping}`);
+    }
+  }
+
+  // Anything left with a brace is a broken token
+  if (/[{}]/.test(text.replace(INSERTION_PATTERN, ''))) {
+    errors.push('unbalanced { } - insertion syntax is {KeyWord:Default Text}');
+  }
+
+  return { insertions, errors };
+}
+
+/**
+ * The text as shown when every insertion falls back to its default
+ */
+export function displayText(text: string): string {
+  return text.replace(INSERTION_PATTERN, (_, _name, defaultText) => defaultText ?? '');
+}
+
+/**
+ * Check insertion syntax, and the length of the text shown with default text
+ *
+ * @throws on bad syntax or text over the limit
+ */
+export function validateAdText(text: string, maxLength: number, label: string): void {
+  const { errors } = parseInsertions(text);
+  if (errors.length > 0) {
+    throw new Error(`${label} "${text}": ${errors.join('; ')}`);
+  }
+  const shown = displayText(text);
+  if (shown.length > maxLength) {
+    throw new Error(`${label} too long (${shown.length} chars, max ${maxLength}): "${text}"`);
+  }
+}
+
+// ============================================================
+// AD STRENGTH
+// ============================================================
+
+export type AdStrengthLevel = 'POOR' | 'AVERAGE' | 'GOOD' | 'EXCELLENT';
+
+export interface AdStrengthCheck {
+  name: string;
+  /** 0-1 */
+  score: number;
+  /** Share of the total score */
+  weight: number;
+  detail: string;
+  /** What to change when the check isn't fully met */
+  suggestion?: string;
+}
+
+export interface AdStrength {
+  level: AdStrengthLevel;
+  /** 0-100 */
+  score: number;
+  checks: AdStrengthCheck[];
+  suggestions: string[];
+}
+
+export interface AdStrengthInput {
+  headlines: HeadlineSpec[];
+  descriptions: DescriptionSpec[];
+}
+
+export interface AdStrengthContext {
+  /** The ad group's keywords */
+  keywords?: string[];
+  /** Place names the campaign targets, e.g. "Dublin" */
+  locations?: string[];
+}
+
+const LEVEL_THRESHOLDS: Array<[number, AdStrengthLevel]> = [
+  [85, 'EXCELLENT'],
+  [70, 'GOOD'],
+  [50, 'AVERAGE'],
+  [0, 'POOR'],
+];
+
+const LEVELS: AdStrengthLevel[] = ['POOR', 'AVERAGE', 'GOOD', 'EXCELLENT'];
+
+/**
+ * Like Google, too few distinct headlines cap the rating whatever else is right
+ */
+const HEADLINE_LEVEL_CAPS: Array<[number, AdStrengthLevel]> = [
+  [11, 'EXCELLENT'],
+  [8, 'GOOD'],
+  [5, 'AVERAGE'],
+  [0, 'POOR'],
+];
+
+const CALL_TO_ACTION_WORDS = new Set([
+  'call', 'get', 'book', 'schedule', 'request', 'contact', 'start', 'claim', 'visit', 'learn',
+  'save', 'try', 'find', 'hire', 'order', 'buy', 'discover', 'explore', 'reserve', 'apply', 'join',
+]);
+
+/** Headlines sharing this much of their wording read as the same message */
+const SIMILARITY_THRESHOLD = 0.6;
+
+function similar(a: string[], b: string[]): boolean {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 || setB.size === 0) return false;
+  const shared = [...setA].filter(word => setB.has(word)).length;
+  return shared / new Set([...setA, ...setB]).size >= SIMILARITY_THRESHOLD;
+}
+
+/** How many texts don't repeat an earlier one */
+function distinctCount(texts: string[][]): number {
+  return texts.filter((words, index) => !texts.slice(0, index).some(earlier => similar(words, earlier))).length;
+}
+
+function containsWords(words: string[], phrase: string[]): boolean {
+  return phrase.length > 0 && words.some((_, start) => phrase.every((word, offset) => words[start + offset] === word));
+}
+
+function countScore(count: number, steps: Array<[number, number]>): number {
+  return steps.find(([minimum]) => count >= minimum)?.[1] ?? 0;
+}
+
+function pinningScore(assets: Array<string | { pinnedTo?: number }>): { score: number; pinned: number } {
+  const perPosition = new Map<number, number>();
+  for (const asset of assets) {
+    const pin = assetPin(asset);
+    if (pin) perPosition.set(pin, (perPosition.get(pin) ?? 0) + 1);
+  }
+  if (perPosition.size === 0) return { score: 1, pinned: 0 };
+  const pinned = [...perPosition.values()].reduce((sum, n) => sum + n, 0);
+  // A single asset pinned to a position removes every alternative for it
+  return { score: [...perPosition.values()].some(n => n === 1) ? 0.3 : 0.7, pinned };
+}
+
+/**
+ * Score a responsive search ad the way Google's ad strength does (roughly)
+ */
+export function scoreAdStrength(ad: AdStrengthInput, context: AdStrengthContext = {}): AdStrength {
+  const headlines = ad.headlines.map(h => displayText(assetText(h)));
+  const descriptions = ad.descriptions.map(d => displayText(assetText(d)));
+  const headlineWords = headlines.map(keywordWords);
+  const descriptionWords = descriptions.map(keywordWords);
+  const rawHeadlines = ad.headlines.map(assetText);
+  const checks: AdStrengthCheck[] = [];
+
+  // Asset counts - Google wants close to 15 headlines and 4 descriptions
+  const distinctHeadlines = distinctCount(headlineWords);
+  checks.push({
+    name: 'Headline count',
+    weight: 20,
+    score: countScore(distinctHeadlines, [[15, 1], [11, 0.85], [8, 0.6], [5, 0.35], [0, 0.1]]),
+    detail: `${distinctHeadlines} distinct of ${headlines.length} headlines`,
+    suggestion: 'Add headlines until there are 11-15 distinct ones',
+  });
+
+  const distinctDescriptions = distinctCount(descriptionWords);
+  checks.push({
+    name: 'Description count',
+    weight: 10,
+    score: countScore(distinctDescriptions, [[4, 1], [3, 0.75], [2, 0.4], [0, 0]]),
+    detail: `${distinctDescriptions} distinct of ${descriptions.length} descriptions`,
+    suggestion: 'Use 4 descriptions that say different things',
+  });
+
+  // Uniqueness
+  checks.push({
+    name: 'Headline uniqueness',
+    weight: 15,
+    score: headlines.length ? distinctHeadlines / headlines.length : 0,
+    detail: `${headlines.length - distinctHeadlines} headlines repeat another`,
+    suggestion: 'Rewrite headlines that repeat another - vary benefits, services, proof and offers',
+  });
+
+  checks.push({
+    name: 'Description uniqueness',
+    weight: 5,
+    score: descriptions.length ? distinctDescriptions / descriptions.length : 0,
+    detail: `${descriptions.length - distinctDescriptions} descriptions repeat another`,
+    suggestion: 'Make each description cover a different point',
+  });
+
+  // Keywords - a few headlines should contain the ad group's keywords
+  if (context.keywords?.length) {
+    const keywordPhrases = context.keywords.map(keywordWords).filter(words => words.length > 0);
+    const withKeyword = headlineWords.filter((words, i) =>
+      parseInsertions(rawHeadlines[i]).insertions.some(insertion => insertion.kind === 'keyword') ||
+      keywordPhrases.some(phrase => phrase.every(word => words.includes(word)))
+    ).length;
+    checks.push({
+      name: 'Keywords in headlines',
+      weight: 20,
+      score: Math.min(1, withKeyword / 3),
+      detail: `${withKeyword} headlines contain an ad group keyword`,
+      suggestion: 'Use the ad group\'s top keywords in at least 3 headlines',
+    });
+  }
+
+  // Calls to action
+  const hasCta = (words: string[][]) => words.some(ws => ws.some(word => CALL_TO_ACTION_WORDS.has(word)));
+  const ctaScore = (hasCta(headlineWords) ? 0.5 : 0) + (hasCta(descriptionWords) ? 0.5 : 0);
+  checks.push({
+    name: 'Call to action',
+    weight: 10,
+    score: ctaScore,
+    detail: ctaScore === 1 ? 'Headlines and descriptions ask for action' : 'Missing a call to action in headlines or descriptions',
+    suggestion: 'Add a call to action ("Get a Free Estimate", "Call Today") to a headline and a description',
+  });
+
+  // Location
+  if (context.locations?.length) {
+    const places = context.locations.map(keywordWords).filter(words => words.length > 0);
+    const mentions = headlineWords.filter((words, i) =>
+      parseInsertions(rawHeadlines[i]).insertions.some(insertion => insertion.kind === 'location') ||
+      places.some(place => containsWords(words, place))
+    ).length;
+    checks.push({
+      name: 'Location mention',
+      weight: 5,
+      score: mentions > 0 ? 1 : 0,
+      detail: `${mentions} headlines mention a targeted location`,
+      suggestion: `Mention the service area in a headline (e.g. "${context.locations[0]}") or use {LOCATION(City):...}`,
+    });
+  }
+
+  // Repeated phrases - the same two words in more than three headlines
+  const bigramCounts = new Map<string, number>();
+  for (const words of headlineWords) {
+    const bigrams = new Set(words.slice(1).map((word, i) => `${words[i]} ${word}`));
+    for (const bigram of bigrams) bigramCounts.set(bigram, (bigramCounts.get(bigram) ?? 0) + 1);
+  }
+  const repeated = [...bigramCounts].filter(([, count]) => count > 3).map(([bigram]) => bigram);
+  checks.push({
+    name: 'Repeated phrases',
+    weight: 10,
+    score: Math.max(0, 1 - repeated.length / 3),
+    detail: repeated.length ? `Repeated in 4+ headlines: ${repeated.map(b => `"${b}"`).join(', ')}` : 'No overused phrases',
+    suggestion: 'Use each phrase in at most three headlines',
+  });
+
+  // Pinning - every pin reduces the combinations Google can test
+  const headlinePins = pinningScore(ad.headlines);
+  const descriptionPins = pinningScore(ad.descriptions);
+  checks.push({
+    name: 'Pinning',
+    weight: 5,
+    score: Math.min(headlinePins.score, descriptionPins.score),
+    detail: headlinePins.pinned + descriptionPins.pinned === 0
+      ? 'Nothing pinned'
+      : `Pinned: ${headlinePins.pinned} headline(s), ${descriptionPins.pinned} description(s)`,
+    suggestion: 'Pin only what must show, and pin 2-3 alternatives to each pinned position',
+  });
+
+  const totalWeight = checks.reduce((sum, check) => sum + check.weight, 0);
+  const score = Math.round(checks.reduce((sum, check) => sum + check.score * check.weight, 0) / totalWeight * 100);
+  const scored = LEVEL_THRESHOLDS.find(([minimum]) => score >= minimum)![1];
+  const cap = HEADLINE_LEVEL_CAPS.find(([minimum]) => distinctHeadlines >= minimum)![1];
+  const level = LEVELS[Math.min(LEVELS.indexOf(scored), LEVELS.indexOf(cap))];
+
+  return {
+    level,
+    score,
+    checks,
+    suggestions: checks
+      .filter(check => check.score < 1 && check.suggestion)
+      .sort((a, b) => (1 - b.score) * b.weight - (1 - a.score) * a.weight)
+      .map(check => check.suggestion!),
+  };
+}
@@ -0,0 +1,367 @@
+/**
+ * Approval Gate
+ *
+ * Live Google Ads mutations made during an agent run must be approved
+ * by a human. The orchestrator runs each tool call inside a mutation
+ * context; when a live `MCPBridge.mutate` happens in that context, the
+ * operations are dry-run first, rendered as a readable diff and sent to
+ * an approver (CLI prompt, webhook callback or Slack button) before the
+ * real call goes out.
+ *
+ * Code running outside a mutation context (CLI scripts, tests) is not gated.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type * as readline from 'readline';
+import { sendSlackMessage } from './notifications.js';
+import { operationResourceName } from './change-journal.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ToolAccess = 'read-only' | 'mutating';
+
+export interface ApprovalRequest {
+  id: string;
+  tool?: string;
+  userRequest?: string;
+  customerId: string;
+  operations: any[];
+  dryRunResult: any;
+  diff: string;
+  createdAt: string;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  approver?: string;
+  reason?: string;
+}
+
+export type Approver = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+export interface MutationContext {
+  /** Decides on live mutations made in this context */
+  approver: Approver;
+  /** Tool call responsible for the mutation */
+  tool?: string;
+  /** The user request that led to the tool call */
+  userRequest?: string;
+}
+
+// ============================================================
+// TOOL CLASSIFICATION
+// ============================================================
+
+/**
+ * Tools that can change the account, with a predicate deciding whether
+ * a particular call does (e.g. optimize_budgets only with apply_recommendations)
+ */
+const MUTATING_TOOLS: Record<string, (input: any) => boolean> = {
+  create_campaign: () => true,
+  edit_campaign: () => true,
+  optimize_budgets: (input) => input?.apply_recommendations === true,
+  analyze_negative_keywords: (input) => input?.apply_recommendations === true,
+};
+
+export function classifyToolCall(name: string, input: any): ToolAccess {
+  const isMutating = MUTATING_TOOLS[name];
+  return isMutating && isMutating(input) ? 'mutating' : 'read-only';
+}
+
+// ============================================================
+// MUTATION CONTEXT
+// ============================================================
+
+const mutationContext = new AsyncLocalStorage<MutationContext>();
+
+export function runWithMutationContext<T>(context: MutationContext, fn: () => Promise<T>): Promise<T> {
+  return mutationContext.run(context, fn);
+}
+
+export function getMutationContext(): MutationContext | undefined {
+  return mutationContext.getStore();
+}
+
+/**
+ * Approver used for tool calls classified read-only: any live mutation
+ * they attempt is refused
+ */
+export function readOnlyApprover(tool: string): Approver {
+  return async () => ({
+    approved: false,
+    approver: 'policy',
+    reason: `"${tool}" is classified read-only and may not make live changes`,
+  });
+}
+
+/**
+ * Approver used when the caller did not configure one
+ */
+export const denyAllApprover: Approver = async () => ({
+  approved: false,
+  approver: 'policy',
+  reason: 'No approver configured for this run',
+});
+
+/**
+ * Gate a live mutation. Runs the dry run, builds the approval request and
+ * asks the context's approver. Outside a mutation context the change is
+ * allowed through unchanged.
+ */
+export async function gateLiveMutation(
+  operations: any[],
+  customerId: string,
+  dryRun: (operations: any[]) => Promise<any>
+): Promise<ApprovalDecision & { request?: ApprovalRequest }> {
+  const context = getMutationContext();
+  if (!context) {
+    return { approved: true };
+  }
+
+  // Always validate the exact operations before anyone is asked to approve them
+  const dryRunResult = await dryRun(operations);
+  if (!dryRunResult?.success) {
+    return {
+      approved: false,
+      approver: 'dry-run',
+      reason: `Dry run failed: ${dryRunResult?.error || 'Unknown error'}`,
+    };
+  }
+
+  const request: ApprovalRequest = {
+    id: randomUUID().slice(0, 8),
+    tool: context.tool,
+    userRequest: context.userRequest,
+    customerId,
+    operations,
+    dryRunResult,
+    diff: formatOperationsDiff(operations),
+    createdAt: new Date().toISOString(),
+  };
+
+  const decision = await context.approver(request);
+  return { ...decision, request };
+}
+
+// ============================================================
+// DIFF FORMATTING
+// ============================================================
+
+const OPERATION_SYMBOLS: Record<string, string> = {
+  create: '+',
+  update: '~',
+  remove: '-',
+};
+
+/**
+ * Render Opteo-format operations as a human-readable diff:
+ *
+ *   + campaign_budget customers/123/campaignBudgets/-1
+ *       name: "Lawn Care Budget"
+ *       amount_micros: 50000000 ($50.00)
+ *   ~ campaign_budget customers/123/campaignBudgets/456
+ *       amount_micros → 60000000 ($60.00)
+ */
+export function formatOperationsDiff(operations: any[]): string {
+  return operations.map(op => {
+    const symbol = OPERATION_SYMBOLS[op.operation] || '?';
+    if (op.operation === 'remove') {
+      return `${symbol} ${op.entity} ${operationResourceName(op) || ''}`.trimEnd();
+    }
+
+    const resource = op.resource || {};
+    const target = resource.resource_name || resource.campaign || resource.ad_group || '';
+    const lines = [`${symbol} ${op.entity} ${target}`.trimEnd()];
+
+    const fields = op.operation === 'update' && Array.isArray(op.update_mask)
+      ? op.update_mask
+      : Object.keys(resource).filter(key => key !== 'resource_name');
+    const arrow = op.operation === 'update' ? ' →' : ':';
+
+    for (const field of fields) {
+      const value = getPath(resource, field);
+      if (value === undefined) continue;
+      lines.push(`    ${field}${arrow} ${formatValue(field, value)}`);
+    }
+    return lines.join('\n');
+  }).join('\n');
+}
+
+function getPath(obj: any, path: string): any {
+  return path.split('.').reduce((value, key) => value?.[key], obj);
+}
+
+function formatValue(field: string, value: any): string {
+  if (typeof value === 'number' && field.endsWith('_micros')) {
+    return `${value} ($${(value / 1_000_000).toFixed(2)})`;
+  }
+  const json = JSON.stringify(value);
+  return json.length > 200 ? json.slice(0, 200) + '…' : json;
+}
+
+// ============================================================
+// APPROVERS
+// ============================================================
+
+/**
+ * Ask on the terminal. Pass the CLI's readline interface when one is
+ * already open so the prompt doesn't fight it for stdin.
+ */
+export function createCliApprover(rl?: readline.Interface): Approver {
+  return async (request) => {
+    const { createInterface } = await import('readline');
+    const prompt = rl ?? createInterface({ input: process.stdin, output: process.stdout });
+
+    console.log('\n' + '─'.repeat(70));
+    console.log(`🛑 APPROVAL REQUIRED (${request.id})${request.tool ? ` - ${request.tool}` : ''}`);
+    console.log(`   Customer: ${request.customerId}`);
+    console.log(`   Dry run: ✅ passed (${request.operations.length} operation(s))\n`);
+    console.log(request.diff);
+    console.log('─'.repeat(70));
+
+    const answer = await new Promise<string>(resolve =>
+      prompt.question('Apply these changes to the live account? (yes/no): ', resolve)
+    );
+    if (!rl) prompt.close();
+
+    const approved = ['y', 'yes'].includes(answer.trim().toLowerCase());
+    return {
+      approved,
+      approver: 'cli',
+      reason: approved ? undefined : answer.trim() || 'Rejected at CLI prompt',
+    };
+  };
+}
+
+/**
+ * Approval requests waiting for an out-of-band decision
+ * (webhook callback or Slack interaction)
+ */
+const pendingApprovals = new Map<string, {
+  request: ApprovalRequest;
+  resolve: (decision: ApprovalDecision) => void;
+}>();
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = 30 * 60 * 1000;
+
+function waitForDecision(request: ApprovalRequest, timeoutMs: number): Promise<ApprovalDecision> {
+  return new Promise(resolve => {
+    const timeout = setTimeout(() => {
+      pendingApprovals.delete(request.id);
+      resolve({ approved: false, approver: 'timeout', reason: `No decision within ${Math.round(timeoutMs / 60000)} minutes` });
+    }, timeoutMs);
+
+    pendingApprovals.set(request.id, {
+      request,
+      resolve: (decision) => {
+        clearTimeout(timeout);
+        pendingApprovals.delete(request.id);
+        resolve(decision);
+      },
+    });
+  });
+}
+
+/**
+ * Resolve a pending approval. Returns false if the id is unknown
+ * (already decided, expired or never existed).
+ */
+export function resolveApproval(id: string, decision: ApprovalDecision): boolean {
+  const pending = pendingApprovals.get(id);
+  if (!pending) {
+    return false;
+  }
+  pending.resolve(decision);
+  return true;
+}
+
+export function listPendingApprovals(): ApprovalRequest[] {
+  return [...pendingApprovals.values()].map(p => p.request);
+}
+
+/**
+ * POST the approval request to a callback URL (e.g. an n8n workflow) and
+ * wait for the decision to come back via `resolveApproval`
+ * (the webhook server exposes this as POST /approvals/:id).
+ */
+export function createWebhookApprover(
+  callbackUrl: string,
+  options: { decisionUrl?: (id: string) => string; timeoutMs?: number } = {}
+): Approver {
+  return async (request) => {
+    const decision = waitForDecision(request, options.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(callbackUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'approval_request',
+          decision_url: options.decisionUrl?.(request.id),
+          ...request,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Approval callback error: ${response.status}`);
+      }
+    } catch (error) {
+      resolveApproval(request.id, {
+        approved: false,
+        approver: 'webhook',
+        reason: `Could not deliver approval request: ${error instanceof Error ? error.message : error}`,
+      });
+    }
+
+    return decision;
+  };
+}
+
+/**
+ * Post the diff to Slack with Approve / Reject buttons and wait for the
+ * interaction payload (the webhook server handles POST /slack/interactions).
+ */
+export function createSlackApprover(options: { timeoutMs?: number } = {}): Approver {
+  return async (request) => {
+    const decision = waitForDecision(request, options.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS);
+
+    const diff = request.diff.length > 2800 ? request.diff.slice(0, 2800) + '\n…' : request.diff;
+    const sent = await sendSlackMessage({
+      text: `🛑 Approval required for ${request.operations.length} Google Ads change(s)`,
+      blocks: [
+        {
+          type: 'header',
+          text: { type: 'plain_text', text: '🛑 Approval Required' },
+        },
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*Tool:* ${request.tool || 'unknown'}\n*Customer:* ${request.customerId}\n` +
+              (request.userRequest ? `*Request:* ${request.userRequest.slice(0, 300)}\n` : '') +
+              `*Dry run:* ✅ passed`,
+          },
+        },
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: '```' + diff + '```' },
+        },
+        {
+          type: 'actions',
+          elements: [
+            { type: 'button', style: 'primary', text: { type: 'plain_text', text: 'Approve' }, action_id: 'approve', value: request.id },
+            { type: 'button', style: 'danger', text: { type: 'plain_text', text: 'Reject' }, action_id: 'reject', value: request.id },
+          ],
+        },
+      ],
+    });
+
+    if (!sent) {
+      resolveApproval(request.id, { approved: false, approver: 'slack', reason: 'Slack message could not be sent' });
+    }
+
+    return decision;
+  };
+}
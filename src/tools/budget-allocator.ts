@@ -0,0 +1,323 @@
+/**
+ * Budget Allocator
+ *
+ * Deterministic daily budget reallocation. Given per-campaign spend,
+ * conversions and impression share lost to budget, it hands out the
+ * account's daily budget a dollar at a time to whichever campaign buys
+ * the most extra conversions with it, within the business constraints:
+ *
+ * - $10 minimum daily budget per campaign
+ * - a total daily budget: the current total unless told otherwise, or a
+ *   fixed per-season total or cap (never a multiple of the current total,
+ *   which would compound from run to run)
+ * - an optional cap on how far any single budget may move
+ *
+ * Same inputs, same allocation - no model involved.
+ *
+ * Response model: daily conversions are assumed to follow
+ * conv = k × spend^ELASTICITY (diminishing returns), calibrated to each
+ * campaign's last 30 days. A campaign can only spend what its auctions
+ * allow: current spend / (1 - share of impressions lost to budget).
+ * Marginal CPA at current spend is therefore CPA / ELASTICITY.
+ */
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Returns-to-spend exponent of the response curve */
+export const ELASTICITY = 0.7;
+
+/** Smallest daily budget a campaign can be given */
+export const MIN_DAILY_BUDGET = 10;
+
+/** Peak season months (0 = January): March-October */
+const PEAK_MONTHS = new Set([2, 3, 4, 5, 6, 7, 8, 9]);
+
+/** Budget moves are made in whole dollars */
+const STEP = 1;
+
+/** Lost impression share is capped here so headroom stays finite */
+const MAX_LOST_SHARE = 0.9;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface CampaignBudgetStats {
+  campaignId: string;
+  campaignName: string;
+  budgetId: string;
+  /** Current daily budget, account currency */
+  dailyBudget: number;
+  /** Spend over the lookback window */
+  cost: number;
+  conversions: number;
+  /** Search impression share lost to budget, 0-1 */
+  lostImpressionShareBudget: number;
+  /** Length of the lookback window in days */
+  days: number;
+}
+
+export type Season = 'peak' | 'off';
+
+/**
+ * Daily account totals by season. As a `target` the season's amount is
+ * allocated whatever the current total; as a `cap` it only ever lowers
+ * the current total.
+ */
+export interface SeasonalBudget {
+  peak: number;
+  off: number;
+  mode: 'target' | 'cap';
+}
+
+/** What set the total daily budget of an allocation */
+export type TargetBasis = 'current-total' | 'total-budget' | 'seasonal-target' | 'seasonal-cap';
+
+export interface AllocationOptions {
+  /** Total daily budget to allocate (defaults to the current total) */
+  totalBudget?: number;
+  /** Seasonal total or cap, used when no totalBudget is given */
+  seasonalBudget?: SeasonalBudget;
+  /** Hard cap on the total (e.g. from the guardrail policy) */
+  maxTotalBudget?: number;
+  /** Largest allowed change of any single budget, in percent */
+  maxChangePercent?: number;
+  minDailyBudget?: number;
+  /** Date used to pick the season */
+  date?: Date;
+}
+
+export interface CampaignAllocation {
+  campaignId: string;
+  campaignName: string;
+  budgetId: string;
+  currentBudget: number;
+  recommendedBudget: number;
+  change: number;
+  changePercent: number;
+  /** Average daily spend over the lookback window */
+  currentDailySpend: number;
+  /** Daily spend the campaign could reach before running out of auctions */
+  maxDailySpend: number;
+  currentCpa: number | null;
+  marginalCpa: number | null;
+  /** Expected conversions per day at the current and recommended budgets */
+  currentDailyConversions: number;
+  expectedDailyConversions: number;
+  reason: string;
+}
+
+export interface AllocationResult {
+  season: Season;
+  currentTotalBudget: number;
+  targetTotalBudget: number;
+  targetBasis: TargetBasis;
+  recommendedTotalBudget: number;
+  currentDailyConversions: number;
+  expectedDailyConversions: number;
+  campaigns: CampaignAllocation[];
+  /** Constraints that could not be fully met, and other caveats */
+  warnings: string[];
+}
+
+// ============================================================
+// RESPONSE CURVE
+// ============================================================
+
+interface Curve {
+  stats: CampaignBudgetStats;
+  dailySpend: number;
+  dailyConversions: number;
+  maxSpend: number;
+  /** conv = k × spend^ELASTICITY */
+  k: number;
+  lower: number;
+  upper: number;
+  budget: number;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function seasonFor(date: Date): Season {
+  return PEAK_MONTHS.has(date.getMonth()) ? 'peak' : 'off';
+}
+
+function buildCurve(stats: CampaignBudgetStats): Curve {
+  const days = Math.max(1, stats.days);
+  const dailySpend = stats.cost / days;
+  const dailyConversions = stats.conversions / days;
+  const lost = Math.min(Math.max(stats.lostImpressionShareBudget || 0, 0), MAX_LOST_SHARE);
+
+  return {
+    stats,
+    dailySpend,
+    dailyConversions,
+    maxSpend: dailySpend / (1 - lost),
+    k: dailySpend > 0 ? dailyConversions / dailySpend ** ELASTICITY : 0,
+    lower: 0,
+    upper: Infinity,
+    budget: 0,
+  };
+}
+
+/** Expected daily conversions if the campaign is given this budget */
+function conversionsAt(curve: Curve, budget: number): number {
+  return curve.k * Math.min(budget, curve.maxSpend) ** ELASTICITY;
+}
+
+/** Extra daily conversions from the next STEP dollars of budget */
+function gainOfNextStep(curve: Curve): number {
+  return conversionsAt(curve, curve.budget + STEP) - conversionsAt(curve, curve.budget);
+}
+
+// ============================================================
+// ALLOCATION
+// ============================================================
+
+/**
+ * Solve for a daily budget allocation. Deterministic: ties go to the
+ * lower campaign id.
+ */
+export function allocateBudgets(campaigns: CampaignBudgetStats[], options: AllocationOptions = {}): AllocationResult {
+  const minBudget = options.minDailyBudget ?? MIN_DAILY_BUDGET;
+  const season = seasonFor(options.date ?? new Date());
+  const warnings: string[] = [];
+
+  const curves = [...campaigns]
+    .sort((a, b) => a.campaignId.localeCompare(b.campaignId, undefined, { numeric: true }))
+    .map(buildCurve);
+
+  const currentTotal = round(curves.reduce((sum, c) => sum + c.stats.dailyBudget, 0));
+  const { target: plannedTarget, basis } = targetTotal(currentTotal, season, options);
+  let target = plannedTarget;
+  if (options.maxTotalBudget !== undefined && target > options.maxTotalBudget) {
+    warnings.push(`Total budget capped at $${options.maxTotalBudget}/day (target was $${target}/day)`);
+    target = options.maxTotalBudget;
+  }
+
+  // Per-campaign bounds, in whole dollars
+  for (const curve of curves) {
+    const current = curve.stats.dailyBudget;
+    let lower = minBudget;
+    let upper = Infinity;
+    if (options.maxChangePercent !== undefined) {
+      lower = Math.max(lower, Math.ceil(current * (1 - options.maxChangePercent / 100)));
+      upper = Math.floor(current * (1 + options.maxChangePercent / 100));
+    }
+    if (upper < lower) {
+      // Already below the minimum - the minimum wins over the change cap
+      upper = lower;
+    }
+    curve.lower = lower;
+    curve.upper = upper;
+    curve.budget = lower;
+  }
+
+  const floorTotal = curves.reduce((sum, c) => sum + c.lower, 0);
+  if (floorTotal > target) {
+    warnings.push(`Minimum budgets add up to $${floorTotal}/day, above the $${target}/day target`);
+  }
+
+  // Hand out the remaining budget one step at a time to the best marginal use
+  let remaining = target - floorTotal;
+  while (remaining >= STEP) {
+    let best: Curve | null = null;
+    let bestGain = 0;
+    for (const curve of curves) {
+      if (curve.budget + STEP > curve.upper) continue;
+      const gain = gainOfNextStep(curve);
+      if (gain > bestGain) {
+        best = curve;
+        bestGain = gain;
+      }
+    }
+    if (!best) break;
+    best.budget += STEP;
+    remaining -= STEP;
+  }
+
+  if (remaining >= STEP) {
+    warnings.push(`$${round(remaining)}/day of the target was left unallocated - no campaign can use more budget within its limits`);
+  }
+
+  const allocations = curves.map(curve => toAllocation(curve, minBudget));
+  const recommendedTotal = allocations.reduce((sum, a) => sum + a.recommendedBudget, 0);
+
+  return {
+    season,
+    currentTotalBudget: currentTotal,
+    targetTotalBudget: target,
+    targetBasis: basis,
+    recommendedTotalBudget: round(recommendedTotal),
+    currentDailyConversions: round(allocations.reduce((sum, a) => sum + a.currentDailyConversions, 0)),
+    expectedDailyConversions: round(allocations.reduce((sum, a) => sum + a.expectedDailyConversions, 0)),
+    campaigns: allocations,
+    warnings,
+  };
+}
+
+/**
+ * Total to allocate before the guardrail cap. Budgets move in whole
+ * dollars, so a held total drops its cents.
+ */
+function targetTotal(currentTotal: number, season: Season, options: AllocationOptions): { target: number; basis: TargetBasis } {
+  if (options.totalBudget !== undefined) {
+    return { target: options.totalBudget, basis: 'total-budget' };
+  }
+  const seasonal = options.seasonalBudget;
+  if (seasonal?.mode === 'target') {
+    return { target: seasonal[season], basis: 'seasonal-target' };
+  }
+  if (seasonal?.mode === 'cap' && seasonal[season] < currentTotal) {
+    return { target: seasonal[season], basis: 'seasonal-cap' };
+  }
+  return { target: Math.floor(currentTotal), basis: 'current-total' };
+}
+
+function toAllocation(curve: Curve, minBudget: number): CampaignAllocation {
+  const current = curve.stats.dailyBudget;
+  const change = round(curve.budget - current);
+  const currentCpa = curve.dailyConversions > 0 ? curve.dailySpend / curve.dailyConversions : null;
+
+  return {
+    campaignId: curve.stats.campaignId,
+    campaignName: curve.stats.campaignName,
+    budgetId: curve.stats.budgetId,
+    currentBudget: current,
+    recommendedBudget: curve.budget,
+    change,
+    changePercent: current > 0 ? round((change / current) * 100, 1) : 0,
+    currentDailySpend: round(curve.dailySpend),
+    maxDailySpend: round(curve.maxSpend),
+    currentCpa: currentCpa === null ? null : round(currentCpa),
+    marginalCpa: currentCpa === null ? null : round(currentCpa / ELASTICITY),
+    currentDailyConversions: round(curve.dailyConversions, 3),
+    expectedDailyConversions: round(conversionsAt(curve, curve.budget), 3),
+    reason: explainAllocation(curve, change, currentCpa, minBudget),
+  };
+}
+
+function explainAllocation(curve: Curve, change: number, currentCpa: number | null, minBudget: number): string {
+  const lostPercent = Math.round((curve.stats.lostImpressionShareBudget || 0) * 100);
+
+  if (currentCpa === null) {
+    return curve.budget <= minBudget
+      ? `No conversions in ${curve.stats.days} days - held at the $${minBudget} minimum`
+      : `No conversions in ${curve.stats.days} days - reduced as far as the change limit allows`;
+  }
+  if (change > 0) {
+    return `CPA $${currentCpa.toFixed(2)} (marginal ~$${(currentCpa / ELASTICITY).toFixed(2)}) with ${lostPercent}% of impressions lost to budget`;
+  }
+  if (change < 0 && curve.budget >= curve.maxSpend) {
+    return `Spends $${curve.dailySpend.toFixed(2)}/day of a $${curve.stats.dailyBudget}/day budget - unused budget released`;
+  }
+  if (change < 0) {
+    return `CPA $${currentCpa.toFixed(2)} - budget moved to campaigns with cheaper marginal conversions`;
+  }
+  return `CPA $${currentCpa.toFixed(2)} - current budget is already efficient`;
+}
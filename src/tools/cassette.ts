@@ -0,0 +1,200 @@
+/**
+ * Cassettes
+ *
+ * Record every external call a run makes - model calls, Google Ads
+ * queries, DataForSEO requests and MCP tool calls - into one JSON file,
+ * then replay that file so the run can be reproduced without tokens,
+ * credentials or a live account.
+ *
+ * Replay matching:
+ * - Model calls and mutations are served in recorded order. A request that
+ *   differs from the recording (the code or a prompt changed since) is
+ *   still served, with a warning.
+ * - Reads are matched by request, so concurrent queries may finish in any
+ *   order. Identical requests get their recorded responses in order.
+ * A call with nothing left to serve fails instead of reaching the network.
+ *
+ * Enabled with PPC_AGENT_CASSETTE_MODE=record|replay; the file is
+ * PPC_AGENT_CASSETTE (recordings default to
+ * <PPC_AGENT_DATA_DIR>/cassettes/<timestamp>.json).
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type Anthropic from '@anthropic-ai/sdk';
+import { env } from '../config/index.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export type CassetteKind = 'anthropic' | 'google_ads_query' | 'dataforseo' | 'mcp';
+
+export interface CassetteEntry {
+  kind: CassetteKind;
+  request: any;
+  response?: any;
+  /** Set instead of response when the call threw */
+  error?: string;
+}
+
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  entries: CassetteEntry[];
+}
+
+interface ActiveCassette {
+  mode: Exclude<CassetteMode, 'off'>;
+  path: string;
+  cassette: Cassette;
+  /** Replay: indexes of entries already served */
+  used: Set<number>;
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+let active: ActiveCassette | null | undefined;
+
+/**
+ * Start recording to or replaying from `path`, or stop with 'off'
+ * (the environment decides until this is called)
+ */
+export function useCassette(mode: CassetteMode, path?: string): void {
+  if (mode === 'off') {
+    active = null;
+    return;
+  }
+
+  if (mode === 'record') {
+    const file = path ?? join(env.PPC_AGENT_DATA_DIR, 'cassettes', `${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+    active = { mode, path: file, cassette: { version: 1, recordedAt: new Date().toISOString(), entries: [] }, used: new Set() };
+    console.log(`📼 Recording external calls to ${file}`);
+    return;
+  }
+
+  if (!path) {
+    throw new Error('PPC_AGENT_CASSETTE must name the cassette to replay');
+  }
+  if (!existsSync(path)) {
+    throw new Error(`Cassette not found: ${path}`);
+  }
+  const cassette: Cassette = JSON.parse(readFileSync(path, 'utf-8'));
+  if (cassette.version !== 1 || !Array.isArray(cassette.entries)) {
+    throw new Error(`Not a cassette file: ${path}`);
+  }
+  active = { mode, path, cassette, used: new Set() };
+  console.log(`📼 Replaying ${cassette.entries.length} recorded call(s) from ${path}`);
+}
+
+function current(): ActiveCassette | null {
+  if (active === undefined) {
+    useCassette(env.PPC_AGENT_CASSETTE_MODE, env.PPC_AGENT_CASSETTE);
+  }
+  return active!;
+}
+
+export function cassetteMode(): CassetteMode {
+  return current()?.mode ?? 'off';
+}
+
+/**
+ * Recorded calls the replay hasn't served (a shorter run, or one that
+ * took a different path)
+ */
+export function unusedCassetteEntries(): CassetteEntry[] {
+  const cassette = current();
+  if (cassette?.mode !== 'replay') return [];
+  return cassette.cassette.entries.filter((_, index) => !cassette.used.has(index));
+}
+
+// ============================================================
+// RECORD / REPLAY
+// ============================================================
+
+/**
+ * Served in recorded order rather than matched by request
+ */
+function isOrdered(kind: CassetteKind, request: any): boolean {
+  return kind === 'anthropic' || (kind === 'mcp' && request?.tool === 'mutate');
+}
+
+function describeRequest(kind: CassetteKind, request: any): string {
+  const text = kind === 'anthropic'
+    ? `model call (${request?.messages?.length ?? 0} messages)`
+    : JSON.stringify(request);
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
+
+function replay(cassette: ActiveCassette, kind: CassetteKind, request: any): CassetteEntry {
+  const key = JSON.stringify(request);
+  const ordered = isOrdered(kind, request);
+  const entries = cassette.cassette.entries;
+
+  const index = entries.findIndex((entry, i) =>
+    !cassette.used.has(i) &&
+    entry.kind === kind &&
+    (ordered ? isOrdered(entry.kind, entry.request) : JSON.stringify(entry.request) === key)
+  );
+  if (index === -1) {
+    throw new Error(`Cassette ${cassette.path} has no recorded ${kind} call left for ${describeRequest(kind, request)}`);
+  }
+
+  const entry = entries[index];
+  if (ordered && JSON.stringify(entry.request) !== key) {
+    console.warn(`⚠️  Replayed ${kind} request #${index + 1} differs from the recording`);
+  }
+  cassette.used.add(index);
+  return entry;
+}
+
+function record(cassette: ActiveCassette, entry: CassetteEntry): void {
+  cassette.cassette.entries.push(entry);
+  // Written after every call so a crashed run still leaves its cassette
+  mkdirSync(dirname(cassette.path), { recursive: true });
+  writeFileSync(cassette.path, JSON.stringify(cassette.cassette, null, 2));
+}
+
+/**
+ * Make an external call through the active cassette: recorded when
+ * recording, answered from the cassette (without calling) when replaying
+ */
+export async function throughCassette<T>(kind: CassetteKind, request: any, call: () => Promise<T>): Promise<T> {
+  const cassette = current();
+  if (!cassette) {
+    return call();
+  }
+
+  if (cassette.mode === 'replay') {
+    const entry = replay(cassette, kind, request);
+    if (entry.error !== undefined) {
+      throw new Error(entry.error);
+    }
+    return structuredClone(entry.response);
+  }
+
+  // Snapshot now - callers may mutate the request (e.g. message history) later
+  const snapshot = structuredClone(request);
+  try {
+    const response = await call();
+    record(cassette, { kind, request: snapshot, response: structuredClone(response) });
+    return response;
+  } catch (error) {
+    record(cassette, { kind, request: snapshot, error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+/**
+ * Send a client's messages.create calls through the cassette
+ */
+export function withCassette<T extends Anthropic>(client: T): T {
+  const create = client.messages.create.bind(client.messages);
+  client.messages.create = ((params: Anthropic.MessageCreateParamsNonStreaming, options?: Anthropic.RequestOptions) =>
+    throughCassette('anthropic', params, () => create(params, options))) as typeof client.messages.create;
+  return client;
+}
@@ -0,0 +1,283 @@
+/**
+ * Change Journal
+ *
+ * Append-only record of every live mutation sent to Google Ads: the
+ * operations, the values they replaced (read just before the change),
+ * the resource names that came back, who/what asked for it and when.
+ * Each entry can be turned into inverse operations for rollback.
+ *
+ * Stored as JSON lines in <PPC_AGENT_DATA_DIR>/change-journal.jsonl.
+ */
+
+import { randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { env } from '../config/index.js';
+import type { AccountReader } from './guardrails.js';
+
+const JOURNAL_PATH = join(env.PPC_AGENT_DATA_DIR, 'change-journal.jsonl');
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface PriorValue {
+  operationIndex: number;
+  resourceName: string;
+  /** Field values before the change, keyed by update-mask path */
+  values: Record<string, any>;
+}
+
+export interface JournalEntry {
+  changeId: string;
+  timestamp: string;
+  customerId: string;
+  operations: any[];
+  priorValues: PriorValue[];
+  /** Every resource name in the API response */
+  resourceNames: string[];
+  /** Resource name the API returned for each operation, by operation index (null when none) */
+  operationResourceNames?: Array<string | null>;
+  success: boolean;
+  error?: string;
+  userRequest?: string;
+  tool?: string;
+  /** Set when this entry is itself a rollback of an earlier change */
+  rollbackOf?: string;
+}
+
+export interface RollbackPlan {
+  entry: JournalEntry;
+  operations: any[];
+  /** Operations that cannot be undone automatically, with the reason */
+  irreversible: string[];
+}
+
+// ============================================================
+// PRIOR VALUES
+// ============================================================
+
+/**
+ * Fields captured before a resource is removed so it can be recreated
+ */
+const REMOVE_SNAPSHOT_FIELDS: Record<string, string[]> = {
+  campaign_criterion: ['campaign', 'negative', 'type', 'keyword.text', 'keyword.match_type', 'location.geo_target_constant'],
+  ad_group_criterion: ['ad_group', 'negative', 'status', 'keyword.text', 'keyword.match_type'],
+};
+
+/**
+ * Resource name of an operation's target (remove operations carry it as a string)
+ */
+export function operationResourceName(op: any): string | undefined {
+  return typeof op.resource === 'string' ? op.resource : op.resource?.resource_name;
+}
+
+function getPath(obj: any, path: string): any {
+  return path.split('.').reduce((value, key) => value?.[key], obj);
+}
+
+function setPath(obj: any, path: string, value: any): void {
+  const keys = path.split('.');
+  let target = obj;
+  for (const key of keys.slice(0, -1)) {
+    target[key] = target[key] ?? {};
+    target = target[key];
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Read the current values of everything a batch is about to update or remove
+ */
+export async function readPriorValues(
+  operations: any[],
+  customerId: string,
+  readAccount: AccountReader
+): Promise<PriorValue[]> {
+  const prior: PriorValue[] = [];
+
+  for (const [index, op] of operations.entries()) {
+    const resourceName = operationResourceName(op);
+    if (!resourceName || resourceName.includes('/-')) continue;
+
+    const fields = op.operation === 'update'
+      ? (op.update_mask as string[] | undefined) ?? Object.keys(op.resource).filter(k => k !== 'resource_name')
+      : op.operation === 'remove'
+      ? REMOVE_SNAPSHOT_FIELDS[op.entity] ?? []
+      : [];
+    if (fields.length === 0) continue;
+
+    const rows = await readAccount(
+      `SELECT ${fields.map(f => `${op.entity}.${f}`).join(', ')} FROM ${op.entity} WHERE ${op.entity}.resource_name = '${resourceName}'`,
+      customerId
+    );
+    const row = rows[0]?.[op.entity];
+    if (!row) continue;
+
+    const values: Record<string, any> = {};
+    for (const field of fields) {
+      values[field] = getPath(row, field);
+    }
+    prior.push({ operationIndex: index, resourceName, values });
+  }
+
+  return prior;
+}
+
+/**
+ * The resource name returned for each operation, by operation index.
+ *
+ * Results are only trusted when the response has exactly one per
+ * operation (failed operations leave an empty result in their slot) and
+ * each result is for the operation's entity - otherwise that operation
+ * gets null rather than a neighbour's resource.
+ */
+export function extractOperationResourceNames(operations: any[], result: any): Array<string | null> {
+  const results = result?.data ?? result?.mutate_operation_responses;
+  if (!Array.isArray(results) || results.length !== operations.length) {
+    return operations.map(() => null);
+  }
+  return operations.map((op, index) => {
+    const name = results[index]?.[`${op.entity}_result`]?.resource_name;
+    return typeof name === 'string' && name.startsWith('customers/') ? name : null;
+  });
+}
+
+/**
+ * Pull resource names out of a mutate response, whatever its nesting
+ */
+export function extractResourceNames(result: any): string[] {
+  const names: string[] = [];
+  const walk = (value: any) => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        if (key === 'resource_name' && typeof child === 'string' && child.startsWith('customers/')) {
+          names.push(child);
+        } else {
+          walk(child);
+        }
+      }
+    }
+  };
+  walk(result?.data ?? result);
+  return names;
+}
+
+// ============================================================
+// JOURNAL FILE
+// ============================================================
+
+export function appendJournalEntry(entry: Omit<JournalEntry, 'changeId' | 'timestamp'>): JournalEntry {
+  const full: JournalEntry = {
+    changeId: randomUUID().slice(0, 8),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+  mkdirSync(dirname(JOURNAL_PATH), { recursive: true });
+  appendFileSync(JOURNAL_PATH, JSON.stringify(full) + '\n');
+  return full;
+}
+
+export function readJournal(): JournalEntry[] {
+  if (!existsSync(JOURNAL_PATH)) {
+    return [];
+  }
+  return readFileSync(JOURNAL_PATH, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+}
+
+export function getJournalEntry(changeId: string): JournalEntry {
+  const entry = readJournal().find(e => e.changeId === changeId);
+  if (!entry) {
+    throw new Error(`Change "${changeId}" not found in ${JOURNAL_PATH}`);
+  }
+  return entry;
+}
+
+/**
+ * Value a field had at the start of the day (UTC), taken from the first
+ * successful change to that resource today. Used by the guardrails so
+ * daily limits can't be dodged with several smaller changes.
+ */
+export function getDayStartValue(resourceName: string, field: string, now: Date = new Date()): any {
+  const today = now.toISOString().slice(0, 10);
+  for (const entry of readJournal()) {
+    if (!entry.success || !entry.timestamp.startsWith(today)) continue;
+    const prior = entry.priorValues.find(p => p.resourceName === resourceName && field in p.values);
+    if (prior) return prior.values[field];
+  }
+  return undefined;
+}
+
+// ============================================================
+// ROLLBACK
+// ============================================================
+
+/**
+ * Build the operations that undo a journaled change:
+ * - creates become removes (children of a created campaign/ad group are
+ *   removed along with their parent, so only top-level resources are listed)
+ * - updates restore the prior values
+ * - removed criteria are recreated from their snapshot
+ */
+export function buildRollbackPlan(entry: JournalEntry): RollbackPlan {
+  const operations: any[] = [];
+  const irreversible: string[] = [];
+
+  if (!entry.success) {
+    irreversible.push('The original change failed, so there is nothing to roll back');
+    return { entry, operations, irreversible };
+  }
+
+  // Walk backwards so dependents are undone before what they depend on
+  for (let index = entry.operations.length - 1; index >= 0; index--) {
+    const op = entry.operations[index];
+    const label = `#${index} ${op.operation} ${op.entity}`;
+
+    if (op.operation === 'create') {
+      const parent = op.resource?.ad_group ?? op.resource?.campaign;
+      if (typeof parent === 'string' && parent.includes('/-')) continue;
+
+      // Older entries have no per-operation names - their list can't be matched to operations
+      const resourceName = entry.operationResourceNames?.[index];
+      if (!resourceName) {
+        irreversible.push(`${label}: the API did not return a resource name for this operation to remove`);
+        continue;
+      }
+      operations.push({ entity: op.entity, operation: 'remove', resource: resourceName });
+    } else if (op.operation === 'update') {
+      const prior = entry.priorValues.find(p => p.operationIndex === index);
+      if (!prior) {
+        irreversible.push(`${label}: prior values were not recorded`);
+        continue;
+      }
+      const resource: Record<string, any> = { resource_name: prior.resourceName };
+      for (const [field, value] of Object.entries(prior.values)) {
+        setPath(resource, field, value);
+      }
+      operations.push({
+        entity: op.entity,
+        operation: 'update',
+        resource,
+        update_mask: Object.keys(prior.values),
+      });
+    } else if (op.operation === 'remove') {
+      const prior = entry.priorValues.find(p => p.operationIndex === index);
+      if (!prior || !REMOVE_SNAPSHOT_FIELDS[op.entity]) {
+        irreversible.push(`${label}: removed ${op.entity} resources cannot be restored automatically`);
+        continue;
+      }
+      const resource: Record<string, any> = {};
+      for (const [field, value] of Object.entries(prior.values)) {
+        if (value !== undefined && value !== null) setPath(resource, field, value);
+      }
+      operations.push({ entity: op.entity, operation: 'create', resource });
+    }
+  }
+
+  return { entry, operations, irreversible };
+}
@@ -6,31 +6,34 @@
  */
 
 import { DATAFORSEO_CONFIG } from '../config/index.js';
+import { throughCassette } from './cassette.js';
 
 const authHeader = DATAFORSEO_CONFIG.login && DATAFORSEO_CONFIG.password
   ? `Basic ${Buffer.from(`${DATAFORSEO_CONFIG.login}:${DATAFORSEO_CONFIG.password}`).toString('base64')}`
   : null;
 
 async function callDataForSEO(endpoint: string, body: any) {
-  if (!authHeader) {
-    throw new Error('DataForSEO credentials not configured');
-  }
+  return throughCassette('dataforseo', { endpoint, body }, async () => {
+    if (!authHeader) {
+      throw new Error('DataForSEO credentials not configured');
+    }
 
-  const response = await fetch(`${DATAFORSEO_CONFIG.baseUrl}${endpoint}`, {
-    method: 'POST',
-    headers: {
-      'Authorization': authHeader,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify([body]),
-  });
+    const response = await fetch(`${DATAFORSEO_CONFIG.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': authHeader,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify([body]),
+    });
 
-  if (!response.ok) {
-    throw new Error(`DataForSEO API error: ${response.status}`);
-  }
+    if (!response.ok) {
+      throw new Error(`DataForSEO API error: ${response.status}`);
+    }
 
-  const data = await response.json();
-  return data.tasks?.[0]?.result || [];
+    const data = await response.json();
+    return data.tasks?.[0]?.result || [];
+  });
 }
 
 export const dataForSEOTools = {
@@ -0,0 +1,319 @@
+/**
+ * Fake Google Ads Seed Account
+ *
+ * The account the fake MCP server starts with: two Search campaigns for a
+ * landscaping business around Dublin, Ohio, with keywords, an ad, location
+ * targets, search terms and 30 days of metrics. Ids are made up; geo
+ * target constants cover the service area and its parents.
+ *
+ * Resources are stored the way the API returns them: snake_case fields,
+ * numeric enums and resource names for references.
+ */
+
+import { enums } from 'google-ads-api';
+
+export interface FakeResource {
+  /** Resource type, e.g. campaign, ad_group_criterion, search_term_view */
+  entity: string;
+  resource: Record<string, any>;
+  /** Totals for the whole period - date segments are not modeled */
+  metrics?: Record<string, number>;
+  segments?: Record<string, any>;
+}
+
+export const FAKE_CUSTOMER_ID = '1234567890';
+
+/**
+ * Geo target constants the seed (and location lookups) can use
+ */
+const GEO_TARGETS = [
+  { id: 2840, name: 'United States', canonical_name: 'United States', country_code: 'US', target_type: 'Country' },
+  { id: 21168, name: 'Ohio', canonical_name: 'Ohio,United States', country_code: 'US', target_type: 'State' },
+  { id: 1023640, name: 'Columbus', canonical_name: 'Columbus,Ohio,United States', country_code: 'US', target_type: 'City' },
+  { id: 1023693, name: 'Dublin', canonical_name: 'Dublin,Ohio,United States', country_code: 'US', target_type: 'City' },
+  { id: 1023862, name: 'Powell', canonical_name: 'Powell,Ohio,United States', country_code: 'US', target_type: 'City' },
+  { id: 1023710, name: 'Galena', canonical_name: 'Galena,Ohio,United States', country_code: 'US', target_type: 'City' },
+  { id: 1023839, name: 'New Albany', canonical_name: 'New Albany,Ohio,United States', country_code: 'US', target_type: 'City' },
+  { id: 1023934, name: 'Westerville', canonical_name: 'Westerville,Ohio,United States', country_code: 'US', target_type: 'City' },
+  { id: 1012873, name: 'Dublin', canonical_name: 'Dublin,California,United States', country_code: 'US', target_type: 'City' },
+  { id: 20146, name: 'Dublin', canonical_name: 'Dublin,Ireland', country_code: 'IE', target_type: 'County' },
+];
+
+function rsa(headlines: string[], descriptions: string[]) {
+  return {
+    type: enums.AdType.RESPONSIVE_SEARCH_AD,
+    responsive_search_ad: {
+      headlines: headlines.map(text => ({ text })),
+      descriptions: descriptions.map(text => ({ text })),
+      path1: 'landscaping',
+      path2: 'dublin',
+    },
+    final_urls: ['https://stiltnerlandscapes.com'],
+  };
+}
+
+function performance(impressions: number, clicks: number, costDollars: number, conversions: number) {
+  return {
+    impressions,
+    clicks,
+    cost_micros: Math.round(costDollars * 1_000_000),
+    conversions,
+    conversions_value: conversions * 450,
+    ctr: impressions ? clicks / impressions : 0,
+    average_cpc: clicks ? Math.round((costDollars / clicks) * 1_000_000) : 0,
+    cost_per_conversion: conversions ? Math.round((costDollars / conversions) * 1_000_000) : 0,
+  };
+}
+
+/**
+ * The seed account for a customer id (resource names embed it)
+ */
+export function seedAccount(customerId: string = FAKE_CUSTOMER_ID): FakeResource[] {
+  const c = `customers/${customerId}`;
+  const keyword = (adGroupId: number, id: number, text: string, matchType: keyof typeof enums.KeywordMatchType, qualityScore: number) => ({
+    entity: 'ad_group_criterion',
+    resource: {
+      resource_name: `${c}/adGroupCriteria/${adGroupId}~${id}`,
+      criterion_id: id,
+      ad_group: `${c}/adGroups/${adGroupId}`,
+      type: enums.CriterionType.KEYWORD,
+      status: enums.AdGroupCriterionStatus.ENABLED,
+      negative: false,
+      keyword: { text, match_type: enums.KeywordMatchType[matchType] },
+      quality_info: {
+        quality_score: qualityScore,
+        search_predicted_ctr: qualityScore >= 7 ? enums.QualityScoreBucket.ABOVE_AVERAGE : enums.QualityScoreBucket.BELOW_AVERAGE,
+        creative_quality_score: enums.QualityScoreBucket.AVERAGE,
+        post_click_quality_score: qualityScore >= 5 ? enums.QualityScoreBucket.AVERAGE : enums.QualityScoreBucket.BELOW_AVERAGE,
+      },
+    },
+  });
+  const searchTerm = (adGroupId: number, term: string, metrics: Record<string, number>): FakeResource => ({
+    entity: 'search_term_view',
+    resource: {
+      resource_name: `${c}/searchTermViews/${adGroupId}~${Buffer.from(term).toString('base64url')}`,
+      search_term: term,
+      ad_group: `${c}/adGroups/${adGroupId}`,
+    },
+    metrics,
+  });
+
+  return [
+    {
+      entity: 'customer',
+      resource: {
+        resource_name: c,
+        id: Number(customerId),
+        descriptive_name: 'Stiltner Landscapes (fake)',
+        currency_code: 'USD',
+        time_zone: 'America/New_York',
+        manager: false,
+      },
+    },
+    {
+      entity: 'customer_client',
+      resource: {
+        resource_name: `${c}/customerClients/${customerId}`,
+        id: Number(customerId),
+        descriptive_name: 'Stiltner Landscapes (fake)',
+        currency_code: 'USD',
+        time_zone: 'America/New_York',
+        manager: false,
+        status: enums.CustomerStatus.ENABLED,
+      },
+    },
+
+    // Budgets and campaigns
+    {
+      entity: 'campaign_budget',
+      resource: {
+        resource_name: `${c}/campaignBudgets/2001`,
+        id: 2001,
+        name: 'Landscape Design - Dublin Budget',
+        amount_micros: 50_000_000,
+        delivery_method: enums.BudgetDeliveryMethod.STANDARD,
+        status: enums.BudgetStatus.ENABLED,
+        explicitly_shared: false,
+      },
+    },
+    {
+      entity: 'campaign_budget',
+      resource: {
+        resource_name: `${c}/campaignBudgets/2002`,
+        id: 2002,
+        name: 'Hardscaping - Powell Budget',
+        amount_micros: 30_000_000,
+        delivery_method: enums.BudgetDeliveryMethod.STANDARD,
+        status: enums.BudgetStatus.ENABLED,
+        explicitly_shared: false,
+      },
+    },
+    {
+      entity: 'campaign',
+      resource: {
+        resource_name: `${c}/campaigns/1001`,
+        id: 1001,
+        name: 'Landscape Design - Dublin',
+        status: enums.CampaignStatus.ENABLED,
+        advertising_channel_type: enums.AdvertisingChannelType.SEARCH,
+        campaign_budget: `${c}/campaignBudgets/2001`,
+        bidding_strategy_type: enums.BiddingStrategyType.MANUAL_CPC,
+        manual_cpc: { enhanced_cpc_enabled: false },
+        network_settings: { target_google_search: true, target_search_network: false, target_content_network: false },
+        contains_eu_political_advertising: enums.EuPoliticalAdvertisingStatus.DOES_NOT_CONTAIN_EU_POLITICAL_ADVERTISING,
+      },
+      metrics: {
+        ...performance(12_400, 496, 1_210.5, 18),
+        search_impression_share: 0.42,
+        search_budget_lost_impression_share: 0.38,
+        search_rank_lost_impression_share: 0.2,
+        top_impression_percentage: 0.61,
+        absolute_top_impression_percentage: 0.27,
+      },
+    },
+    {
+      entity: 'campaign',
+      resource: {
+        resource_name: `${c}/campaigns/1002`,
+        id: 1002,
+        name: 'Hardscaping - Powell',
+        status: enums.CampaignStatus.ENABLED,
+        advertising_channel_type: enums.AdvertisingChannelType.SEARCH,
+        campaign_budget: `${c}/campaignBudgets/2002`,
+        bidding_strategy_type: enums.BiddingStrategyType.MAXIMIZE_CONVERSIONS,
+        maximize_conversions: { cpc_bid_ceiling_micros: 0 },
+        network_settings: { target_google_search: true, target_search_network: true, target_content_network: false },
+        contains_eu_political_advertising: enums.EuPoliticalAdvertisingStatus.DOES_NOT_CONTAIN_EU_POLITICAL_ADVERTISING,
+      },
+      metrics: {
+        ...performance(6_800, 204, 690.2, 3),
+        search_impression_share: 0.71,
+        search_budget_lost_impression_share: 0.04,
+        search_rank_lost_impression_share: 0.25,
+        top_impression_percentage: 0.44,
+        absolute_top_impression_percentage: 0.12,
+      },
+    },
+
+    // Ad groups
+    {
+      entity: 'ad_group',
+      resource: {
+        resource_name: `${c}/adGroups/3001`,
+        id: 3001,
+        name: 'Landscape Design',
+        campaign: `${c}/campaigns/1001`,
+        status: enums.AdGroupStatus.ENABLED,
+        type: enums.AdGroupType.SEARCH_STANDARD,
+      },
+      metrics: { ...performance(12_400, 496, 1_210.5, 18), search_impression_share: 0.42, search_rank_lost_impression_share: 0.2 },
+    },
+    {
+      entity: 'ad_group',
+      resource: {
+        resource_name: `${c}/adGroups/3002`,
+        id: 3002,
+        name: 'Patios',
+        campaign: `${c}/campaigns/1002`,
+        status: enums.AdGroupStatus.ENABLED,
+        type: enums.AdGroupType.SEARCH_STANDARD,
+      },
+      metrics: { ...performance(6_800, 204, 690.2, 3), search_impression_share: 0.71, search_rank_lost_impression_share: 0.25 },
+    },
+
+    // Keywords
+    { ...keyword(3001, 4001, 'landscape design dublin', 'PHRASE', 8), metrics: performance(5_200, 260, 610.4, 12) },
+    { ...keyword(3001, 4002, 'landscaping company', 'BROAD', 5), metrics: performance(7_200, 236, 600.1, 6) },
+    { ...keyword(3002, 4003, 'patio installation', 'EXACT', 7), metrics: performance(2_900, 118, 402.6, 3) },
+    { ...keyword(3002, 4004, 'paver patio', 'PHRASE', 4), metrics: performance(3_900, 86, 287.6, 0) },
+
+    // Ads
+    {
+      entity: 'ad_group_ad',
+      resource: {
+        resource_name: `${c}/adGroupAds/3001~5001`,
+        ad_group: `${c}/adGroups/3001`,
+        status: enums.AdGroupAdStatus.ENABLED,
+        ad: {
+          resource_name: `${c}/ads/5001`,
+          id: 5001,
+          ...rsa(
+            ['Dublin Landscape Design', 'Custom Outdoor Spaces', 'Free Design Consultation', 'Local Landscapers Since 1998'],
+            ['Award-winning landscape design in Dublin, Powell and New Albany.', 'Plan your dream yard with our designers. Call for a free quote.']
+          ),
+        },
+      },
+      metrics: performance(12_400, 496, 1_210.5, 18),
+    },
+    {
+      entity: 'ad_group_ad',
+      resource: {
+        resource_name: `${c}/adGroupAds/3002~5002`,
+        ad_group: `${c}/adGroups/3002`,
+        status: enums.AdGroupAdStatus.ENABLED,
+        ad: {
+          resource_name: `${c}/ads/5002`,
+          id: 5002,
+          ...rsa(
+            ['Patio Installation Powell', 'Paver Patios & Walkways', 'Get a Free Patio Quote'],
+            ['Custom paver and stone patios built to last.', 'Hardscaping experts serving Powell and Dublin, Ohio.']
+          ),
+        },
+      },
+      metrics: performance(6_800, 204, 690.2, 3),
+    },
+
+    // Campaign criteria
+    {
+      entity: 'campaign_criterion',
+      resource: {
+        resource_name: `${c}/campaignCriteria/1001~1023693`,
+        criterion_id: 1023693,
+        campaign: `${c}/campaigns/1001`,
+        type: enums.CriterionType.LOCATION,
+        negative: false,
+        location: { geo_target_constant: 'geoTargetConstants/1023693' },
+      },
+    },
+    {
+      entity: 'campaign_criterion',
+      resource: {
+        resource_name: `${c}/campaignCriteria/1002~1023862`,
+        criterion_id: 1023862,
+        campaign: `${c}/campaigns/1002`,
+        type: enums.CriterionType.LOCATION,
+        negative: false,
+        location: { geo_target_constant: 'geoTargetConstants/1023862' },
+      },
+    },
+    {
+      entity: 'campaign_criterion',
+      resource: {
+        resource_name: `${c}/campaignCriteria/1001~7001`,
+        criterion_id: 7001,
+        campaign: `${c}/campaigns/1001`,
+        type: enums.CriterionType.KEYWORD,
+        negative: true,
+        keyword: { text: 'jobs', match_type: enums.KeywordMatchType.PHRASE },
+      },
+    },
+
+    // Search terms
+    searchTerm(3001, 'landscape design dublin ohio', performance(1_800, 140, 320.2, 9)),
+    searchTerm(3001, 'landscaping company jobs', performance(420, 31, 58.9, 0)),
+    searchTerm(3001, 'diy landscape design software', performance(610, 44, 81.4, 0)),
+    searchTerm(3001, 'free landscape design', performance(390, 22, 40.7, 0)),
+    searchTerm(3002, 'patio installation near me', performance(960, 52, 188.1, 2)),
+    searchTerm(3002, 'how to build a paver patio', performance(1_150, 61, 132.5, 0)),
+
+    // Geo target constants
+    ...GEO_TARGETS.map(geo => ({
+      entity: 'geo_target_constant',
+      resource: {
+        resource_name: `geoTargetConstants/${geo.id}`,
+        ...geo,
+        status: enums.GeoTargetConstantStatus.ENABLED,
+      },
+    })),
+  ];
+}
@@ -0,0 +1,1119 @@
+/**
+ * Fake Google Ads Account
+ *
+ * An in-memory account that answers GAQL and applies Opteo-format
+ * mutations the way the Google Ads API does, for the fake MCP server
+ * (src/fake-mcp-server.ts) and offline runs.
+ *
+ * What it checks, per operation:
+ * - entity and operation are supported, required fields are present
+ * - enum values exist (numbers or names; UNSPECIFIED/UNKNOWN are rejected)
+ * - resource name references point at existing resources of the right
+ *   type, or at temp ids (negative) created earlier in the same batch
+ * - text limits (keywords, RSA assets, sitelinks, callouts) and unique names
+ *
+ * GAQL supports SELECT / FROM / WHERE (AND-ed conditions) / ORDER BY /
+ * LIMIT. Fields of related resources (e.g. campaign.name FROM ad_group)
+ * are followed through resource name references. Date segments match
+ * everything - metrics are totals for the whole period.
+ */
+
+import { enums } from 'google-ads-api';
+import { seedAccount, FAKE_CUSTOMER_ID, type FakeResource } from './fake-google-ads-seed.js';
+
+export type { FakeResource } from './fake-google-ads-seed.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface FakeOperation {
+  entity: string;
+  operation: 'create' | 'update' | 'remove';
+  resource: any;
+  update_mask?: string[];
+}
+
+export interface FakeOperationError {
+  operation_index: number;
+  error_code: string;
+  message: string;
+}
+
+export interface FakeMutateResult {
+  success: boolean;
+  dry_run: boolean;
+  /** One result per applied operation (empty for dry runs) */
+  data: Array<Record<string, { resource_name: string }>>;
+  metadata: { operation_count: number; success_count: number; failure_count: number };
+  partial_failure_errors?: FakeOperationError[];
+  error?: string;
+}
+
+class OperationError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+// ============================================================
+// RESOURCE METADATA
+// ============================================================
+
+/**
+ * Resource name collection for each entity (customers/{id}/<collection>/...)
+ */
+const COLLECTIONS: Record<string, string> = {
+  customer_client: 'customerClients',
+  campaign_budget: 'campaignBudgets',
+  campaign: 'campaigns',
+  bidding_strategy: 'biddingStrategies',
+  ad_group: 'adGroups',
+  ad_group_criterion: 'adGroupCriteria',
+  ad_group_ad: 'adGroupAds',
+  campaign_criterion: 'campaignCriteria',
+  shared_set: 'sharedSets',
+  shared_criterion: 'sharedCriteria',
+  campaign_shared_set: 'campaignSharedSets',
+  asset: 'assets',
+  asset_set: 'assetSets',
+  campaign_asset: 'campaignAssets',
+  ad_group_asset: 'adGroupAssets',
+  campaign_asset_set: 'campaignAssetSets',
+  search_term_view: 'searchTermViews',
+  keyword_view: 'keywordViews',
+};
+
+/**
+ * Fields holding a reference to another resource, by field name
+ */
+const REFERENCE_FIELDS: Record<string, string> = {
+  campaign: 'campaign',
+  campaign_budget: 'campaign_budget',
+  bidding_strategy: 'bidding_strategy',
+  ad_group: 'ad_group',
+  shared_set: 'shared_set',
+  asset: 'asset',
+  asset_set: 'asset_set',
+  geo_target_constant: 'geo_target_constant',
+};
+
+/**
+ * Enum-typed fields (`entity.path`)
+ */
+const ENUM_FIELDS: Record<string, Record<string, any>> = {
+  'customer_client.status': enums.CustomerStatus,
+  'campaign_budget.delivery_method': enums.BudgetDeliveryMethod,
+  'campaign_budget.status': enums.BudgetStatus,
+  'campaign.status': enums.CampaignStatus,
+  'campaign.advertising_channel_type': enums.AdvertisingChannelType,
+  'campaign.bidding_strategy_type': enums.BiddingStrategyType,
+  'campaign.contains_eu_political_advertising': enums.EuPoliticalAdvertisingStatus,
+  'campaign.target_impression_share.location': enums.TargetImpressionShareLocation,
+  'bidding_strategy.type': enums.BiddingStrategyType,
+  'bidding_strategy.status': enums.BiddingStrategyStatus,
+  'bidding_strategy.target_impression_share.location': enums.TargetImpressionShareLocation,
+  'ad_group.status': enums.AdGroupStatus,
+  'ad_group.type': enums.AdGroupType,
+  'ad_group_criterion.status': enums.AdGroupCriterionStatus,
+  'ad_group_criterion.type': enums.CriterionType,
+  'ad_group_criterion.keyword.match_type': enums.KeywordMatchType,
+  'ad_group_criterion.quality_info.search_predicted_ctr': enums.QualityScoreBucket,
+  'ad_group_criterion.quality_info.creative_quality_score': enums.QualityScoreBucket,
+  'ad_group_criterion.quality_info.post_click_quality_score': enums.QualityScoreBucket,
+  'ad_group_ad.status': enums.AdGroupAdStatus,
+  'ad_group_ad.ad.type': enums.AdType,
+  'campaign_criterion.status': enums.CampaignCriterionStatus,
+  'campaign_criterion.type': enums.CriterionType,
+  'campaign_criterion.keyword.match_type': enums.KeywordMatchType,
+  'campaign_criterion.ad_schedule.day_of_week': enums.DayOfWeek,
+  'campaign_criterion.ad_schedule.start_minute': enums.MinuteOfHour,
+  'campaign_criterion.ad_schedule.end_minute': enums.MinuteOfHour,
+  'campaign_criterion.device.type': enums.Device,
+  'campaign_criterion.proximity.radius_units': enums.ProximityRadiusUnits,
+  'shared_set.type': enums.SharedSetType,
+  'shared_set.status': enums.SharedSetStatus,
+  'shared_criterion.type': enums.CriterionType,
+  'shared_criterion.keyword.match_type': enums.KeywordMatchType,
+  'campaign_shared_set.status': enums.CampaignSharedSetStatus,
+  'asset.type': enums.AssetType,
+  'campaign_asset.field_type': enums.AssetFieldType,
+  'campaign_asset.status': enums.AssetLinkStatus,
+  'ad_group_asset.field_type': enums.AssetFieldType,
+  'ad_group_asset.status': enums.AssetLinkStatus,
+  'geo_target_constant.status': enums.GeoTargetConstantStatus,
+};
+
+/**
+ * Fields every create needs
+ */
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  campaign_budget: ['amount_micros'],
+  campaign: ['name', 'advertising_channel_type', 'campaign_budget', 'contains_eu_political_advertising'],
+  bidding_strategy: ['name'],
+  ad_group: ['name', 'campaign'],
+  ad_group_criterion: ['ad_group'],
+  ad_group_ad: ['ad_group', 'ad'],
+  campaign_criterion: ['campaign'],
+  shared_set: ['name', 'type'],
+  shared_criterion: ['shared_set'],
+  campaign_shared_set: ['campaign', 'shared_set'],
+  asset: [],
+  campaign_asset: ['campaign', 'asset', 'field_type'],
+  ad_group_asset: ['ad_group', 'asset', 'field_type'],
+  campaign_asset_set: ['campaign', 'asset_set'],
+};
+
+/**
+ * Creates need exactly one of these (bidding scheme, criterion, asset type)
+ */
+const ONE_OF_FIELDS: Record<string, string[]> = {
+  campaign: ['bidding_strategy', 'manual_cpc', 'maximize_conversions', 'maximize_conversion_value', 'target_spend', 'target_cpa', 'target_roas', 'target_impression_share'],
+  bidding_strategy: ['maximize_conversions', 'maximize_conversion_value', 'target_spend', 'target_cpa', 'target_roas', 'target_impression_share'],
+  ad_group_criterion: ['keyword'],
+  campaign_criterion: ['keyword', 'location', 'proximity', 'ad_schedule', 'device', 'language'],
+  shared_criterion: ['keyword'],
+  asset: ['sitelink_asset', 'callout_asset', 'structured_snippet_asset', 'call_asset', 'image_asset', 'text_asset'],
+};
+
+const BIDDING_TYPES: Record<string, string> = {
+  manual_cpc: 'MANUAL_CPC',
+  maximize_conversions: 'MAXIMIZE_CONVERSIONS',
+  maximize_conversion_value: 'MAXIMIZE_CONVERSION_VALUE',
+  target_spend: 'TARGET_SPEND',
+  target_cpa: 'TARGET_CPA',
+  target_roas: 'TARGET_ROAS',
+  target_impression_share: 'TARGET_IMPRESSION_SHARE',
+};
+
+const CRITERION_TYPES: Record<string, string> = {
+  keyword: 'KEYWORD',
+  location: 'LOCATION',
+  proximity: 'PROXIMITY',
+  ad_schedule: 'AD_SCHEDULE',
+  device: 'DEVICE',
+  language: 'LANGUAGE',
+};
+
+const ASSET_TYPES: Record<string, string> = {
+  sitelink_asset: 'SITELINK',
+  callout_asset: 'CALLOUT',
+  structured_snippet_asset: 'STRUCTURED_SNIPPET',
+  call_asset: 'CALL',
+  image_asset: 'IMAGE',
+  text_asset: 'TEXT',
+};
+
+/**
+ * Fields that can't change after create
+ */
+const IMMUTABLE_FIELDS: Record<string, string[]> = {
+  campaign: ['advertising_channel_type'],
+  ad_group: ['campaign'],
+  ad_group_criterion: ['ad_group', 'keyword.text', 'keyword.match_type'],
+  ad_group_ad: ['ad_group'],
+  campaign_criterion: ['campaign', 'keyword', 'location'],
+  shared_criterion: ['shared_set', 'keyword'],
+};
+
+/**
+ * Output-only fields the API fills in (ignored on create). Criterion
+ * type is derived from whichever criterion field is set; a type sent on
+ * create must match it.
+ */
+const OUTPUT_ONLY_FIELDS = ['id', 'criterion_id', 'bidding_strategy_type'];
+const CRITERION_ENTITIES = new Set(['ad_group_criterion', 'campaign_criterion']);
+
+function outputOnlyFields(entity: string): string[] {
+  return CRITERION_ENTITIES.has(entity) ? [...OUTPUT_ONLY_FIELDS, 'type'] : OUTPUT_ONLY_FIELDS;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function getPath(obj: any, path: string): any {
+  return path.split('.').reduce((value, key) => value?.[key], obj);
+}
+
+function setPath(obj: any, path: string, value: any): void {
+  const keys = path.split('.');
+  let target = obj;
+  for (const key of keys.slice(0, -1)) {
+    target[key] = target[key] ?? {};
+    target = target[key];
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+/** Every leaf path of a plain object (arrays are leaves) */
+function leafPaths(obj: any, prefix = ''): string[] {
+  if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return prefix ? [prefix] : [];
+  const paths = Object.entries(obj).flatMap(([key, value]) => leafPaths(value, prefix ? `${prefix}.${key}` : key));
+  return paths.length > 0 ? paths : prefix ? [prefix] : [];
+}
+
+/**
+ * Entity a resource name belongs to, and whether it uses temp ids
+ */
+function parseResourceName(name: string): { customerId?: string; entity?: string; temp: boolean } {
+  const geo = /^geoTargetConstants\/\d+$/.test(name);
+  if (geo) return { entity: 'geo_target_constant', temp: false };
+
+  const match = /^customers\/(\d+)(?:\/([A-Za-z]+)\/([^/]+))?$/.exec(name);
+  if (!match) return { temp: false };
+  const [, customerId, collection, key] = match;
+  const entity = collection
+    ? Object.keys(COLLECTIONS).find(e => COLLECTIONS[e] === collection)
+    : 'customer';
+  return { customerId, entity, temp: Boolean(key && /(^|~)-\d+/.test(key)) };
+}
+
+/** Numeric value of an enum field, from a number or a name */
+function enumNumber(values: Record<string, any>, value: any): number | undefined {
+  if (typeof value === 'number') return typeof values[value] === 'string' ? value : undefined;
+  if (typeof value === 'string' && typeof values[value] === 'number') return values[value];
+  return undefined;
+}
+
+/** Text as Google counts it - insertions show their default text */
+function displayLength(text: string): number {
+  return text.replace(/\{[A-Za-z.()|]+:([^}]*)\}/g, '$1').length;
+}
+
+function oneOfKeys(entity: string, resource: any): string[] {
+  return (ONE_OF_FIELDS[entity] || []).filter(key => resource[key] !== undefined);
+}
+
+function lastSegment(resourceName: string): string {
+  return resourceName.split('/').pop()!.split('~').pop()!;
+}
+
+// ============================================================
+// GAQL
+// ============================================================
+
+type Token = { type: 'word' | 'string' | 'number' | 'symbol'; value: string };
+
+interface Condition {
+  field: string;
+  operator: string;
+  values: any[];
+}
+
+interface ParsedQuery {
+  fields: string[];
+  from: string;
+  conditions: Condition[];
+  orderBy: Array<{ field: string; descending: boolean }>;
+  limit?: number;
+}
+
+function tokenize(gaql: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:('(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*")|(-?\d+(?:\.\d+)?)(?![\w.])|([A-Za-z_][\w.]*)|(!=|>=|<=|[=<>(),]))/y;
+  let end = 0;
+  let match: RegExpExecArray | null;
+  while (gaql.slice(end).trim() && (match = pattern.exec(gaql))) {
+    end = pattern.lastIndex;
+    if (match[1]) {
+      tokens.push({ type: 'string', value: match[1].slice(1, -1).replace(/\\(.)/g, '$1') });
+    } else if (match[2]) {
+      tokens.push({ type: 'number', value: match[2] });
+    } else if (match[3]) {
+      tokens.push({ type: 'word', value: match[3] });
+    } else if (match[4]) {
+      tokens.push({ type: 'symbol', value: match[4] });
+    }
+  }
+  if (gaql.slice(end).trim()) {
+    throw new Error(`Query error: unexpected input at "${gaql.slice(end).trim().slice(0, 20)}"`);
+  }
+  return tokens;
+}
+
+export function parseGaql(gaql: string): ParsedQuery {
+  const tokens = tokenize(gaql);
+  let position = 0;
+  const peek = () => tokens[position];
+  const isWord = (word: string) => peek()?.type === 'word' && peek().value.toUpperCase() === word;
+  const expectWord = (word: string) => {
+    if (!isWord(word)) throw new Error(`Query error: expected ${word}${peek() ? ` near "${peek().value}"` : ''}`);
+    position++;
+  };
+  const expectField = (): string => {
+    const token = tokens[position++];
+    if (token?.type !== 'word') throw new Error(`Query error: expected a field name${token ? ` near "${token.value}"` : ''}`);
+    return token.value;
+  };
+  const literal = (): any => {
+    const token = tokens[position++];
+    if (!token) throw new Error('Query error: expected a value');
+    if (token.type === 'number') return Number(token.value);
+    if (token.type === 'word' && /^(TRUE|FALSE)$/i.test(token.value)) return token.value.toUpperCase() === 'TRUE';
+    if (token.type === 'string' || token.type === 'word') return token.value;
+    throw new Error(`Query error: unexpected "${token.value}"`);
+  };
+  const list = (): any[] => {
+    if (peek()?.value !== '(') throw new Error('Query error: expected (');
+    position++;
+    const values: any[] = [];
+    while (peek() && peek().value !== ')') {
+      values.push(literal());
+      if (peek()?.value === ',') position++;
+    }
+    position++;
+    return values;
+  };
+
+  expectWord('SELECT');
+  const fields = [expectField()];
+  while (peek()?.value === ',') {
+    position++;
+    fields.push(expectField());
+  }
+  expectWord('FROM');
+  const from = expectField();
+
+  const conditions: Condition[] = [];
+  if (isWord('WHERE')) {
+    position++;
+    do {
+      if (isWord('AND')) position++;
+      const field = expectField();
+      const token = peek();
+      if (!token) throw new Error(`Query error: missing operator after ${field}`);
+      position++;
+      const op = token.value.toUpperCase();
+
+      if (token.type === 'symbol') {
+        conditions.push({ field, operator: op, values: [literal()] });
+      } else if (op === 'NOT') {
+        const next = tokens[position++]?.value.toUpperCase();
+        if (next === 'IN') conditions.push({ field, operator: 'NOT IN', values: list() });
+        else if (next === 'LIKE' || next === 'REGEXP_MATCH') conditions.push({ field, operator: `NOT ${next}`, values: [literal()] });
+        else throw new Error(`Query error: unsupported operator NOT ${next}`);
+      } else if (op === 'IN') {
+        conditions.push({ field, operator: 'IN', values: list() });
+      } else if (op === 'LIKE' || op === 'REGEXP_MATCH' || op === 'DURING') {
+        conditions.push({ field, operator: op, values: [literal()] });
+      } else if (op === 'BETWEEN') {
+        const low = literal();
+        expectWord('AND');
+        conditions.push({ field, operator: op, values: [low, literal()] });
+      } else if (op === 'IS') {
+        const negated = isWord('NOT');
+        if (negated) position++;
+        expectWord('NULL');
+        conditions.push({ field, operator: negated ? 'IS NOT NULL' : 'IS NULL', values: [] });
+      } else if (op === 'CONTAINS') {
+        const kind = tokens[position++]?.value.toUpperCase();
+        conditions.push({ field, operator: `CONTAINS ${kind}`, values: list() });
+      } else {
+        throw new Error(`Query error: unsupported operator ${token.value}`);
+      }
+    } while (isWord('AND'));
+  }
+
+  const orderBy: ParsedQuery['orderBy'] = [];
+  if (isWord('ORDER')) {
+    position++;
+    expectWord('BY');
+    do {
+      if (peek()?.value === ',') position++;
+      const field = expectField();
+      const direction = isWord('DESC') || isWord('ASC') ? tokens[position++].value.toUpperCase() : 'ASC';
+      orderBy.push({ field, descending: direction === 'DESC' });
+    } while (peek()?.value === ',');
+  }
+
+  let limit: number | undefined;
+  if (isWord('LIMIT')) {
+    position++;
+    limit = Number(literal());
+  }
+  if (isWord('PARAMETERS')) {
+    position = tokens.length;
+  }
+  if (position < tokens.length) {
+    throw new Error(`Query error: unexpected "${peek().value}"`);
+  }
+
+  return { fields, from, conditions, orderBy, limit };
+}
+
+function regexFromRe2(pattern: string): RegExp {
+  const caseInsensitive = pattern.startsWith('(?i)');
+  return new RegExp(`^(?:${caseInsensitive ? pattern.slice(4) : pattern})$`, caseInsensitive ? 'i' : '');
+}
+
+function likePattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+// ============================================================
+// ACCOUNT
+// ============================================================
+
+export class FakeGoogleAdsAccount {
+  readonly customerId: string;
+  private resources = new Map<string, FakeResource>();
+  private nextId = 900_000_001;
+
+  constructor(options: { customerId?: string; resources?: FakeResource[] } = {}) {
+    this.customerId = options.customerId || FAKE_CUSTOMER_ID;
+    for (const entry of options.resources ?? seedAccount(this.customerId)) {
+      this.resources.set(entry.resource.resource_name, structuredClone(entry));
+    }
+  }
+
+  /**
+   * Every resource, for inspection in tests
+   */
+  snapshot(entity?: string): FakeResource[] {
+    return [...this.resources.values()]
+      .filter(entry => !entity || entry.entity === entity)
+      .map(entry => structuredClone(entry));
+  }
+
+  listAccounts(): Array<Record<string, any>> {
+    return this.snapshot('customer_client').map(({ resource }) => ({
+      id: String(resource.id),
+      name: resource.descriptive_name,
+      currency: resource.currency_code,
+      timezone: resource.time_zone,
+      is_manager: resource.manager,
+    }));
+  }
+
+  private checkCustomer(customerId?: string): void {
+    if (customerId && customerId.replace(/-/g, '') !== this.customerId) {
+      throw new Error(`USER_PERMISSION_DENIED: customer ${customerId} is not accessible (fake account is ${this.customerId})`);
+    }
+  }
+
+  // ============================================================
+  // QUERIES
+  // ============================================================
+
+  /**
+   * Run a GAQL query; rows come back shaped like google-ads-api rows
+   */
+  query(gaql: string, customerId?: string): any[] {
+    this.checkCustomer(customerId);
+    const query = parseGaql(gaql);
+
+    // keyword_view rows are keyword criteria
+    const source = query.from === 'keyword_view' ? 'ad_group_criterion' : query.from;
+    if (!COLLECTIONS[source] && !['customer', 'geo_target_constant'].includes(source)) {
+      throw new Error(`Query error: unsupported resource "${query.from}"`);
+    }
+    let entries = [...this.resources.values()].filter(entry => entry.entity === source);
+    if (query.from === 'keyword_view') {
+      entries = entries.filter(entry => entry.resource.keyword);
+    }
+
+    const contexts = entries.map(entry => this.rowContext(query.from, entry));
+    let matches = contexts.filter(context => query.conditions.every(condition => this.matches(context, condition)));
+
+    if (query.orderBy.length > 0) {
+      matches = [...matches].sort((a, b) => {
+        for (const { field, descending } of query.orderBy) {
+          const [x, y] = [a(field), b(field)];
+          if (x === y) continue;
+          const order = x === undefined ? -1 : y === undefined ? 1 : x < y ? -1 : 1;
+          return descending ? -order : order;
+        }
+        return 0;
+      });
+    }
+    if (query.limit !== undefined) {
+      matches = matches.slice(0, query.limit);
+    }
+
+    return matches.map(context => {
+      const row: Record<string, any> = {};
+      setPath(row, `${query.from}.resource_name`, context(`${query.from}.resource_name`));
+      for (const field of query.fields) {
+        const value = context(field);
+        if (value !== undefined) setPath(row, field, structuredClone(value));
+      }
+      return row;
+    });
+  }
+
+  /**
+   * Field reader for one row: the FROM resource, its metrics and segments,
+   * and related resources reached through resource name references
+   */
+  private rowContext(from: string, entry: FakeResource): (field: string) => any {
+    const related = new Map<string, any>();
+    const resolve = (entity: string): any => {
+      if (related.has(entity)) return related.get(entity);
+      let found: any;
+      if (entity === from) {
+        found = from === 'keyword_view'
+          ? { resource_name: entry.resource.resource_name.replace('/adGroupCriteria/', '/keywordViews/') }
+          : entry.resource;
+      } else if (entity === entry.entity) {
+        found = entry.resource;
+      } else if (entity === 'metrics') {
+        found = entry.metrics;
+      } else if (entity === 'segments') {
+        found = entry.segments;
+      } else if (entity === 'customer') {
+        found = this.resources.get(`customers/${this.customerId}`)?.resource;
+      } else {
+        found = this.findRelated(entry.resource, entity, 3);
+      }
+      related.set(entity, found);
+      return found;
+    };
+
+    return (field: string) => {
+      const [entity, ...path] = field.split('.');
+      return getPath(resolve(entity), path.join('.'));
+    };
+  }
+
+  private findRelated(resource: any, entity: string, depth: number): any {
+    if (depth === 0) return undefined;
+    const references = Object.entries(resource)
+      .filter(([key, value]) => typeof value === 'string' && REFERENCE_FIELDS[key]);
+    for (const [, name] of references) {
+      const target = this.resources.get(name as string);
+      if (target?.entity === entity) return target.resource;
+    }
+    for (const [, name] of references) {
+      const target = this.resources.get(name as string);
+      const found = target && this.findRelated(target.resource, entity, depth - 1);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  private matches(context: (field: string) => any, condition: Condition): boolean {
+    const { field, operator } = condition;
+    // Metrics are period totals - every date range matches
+    if (field === 'segments.date' || field === 'segments.week' || field === 'segments.month') return true;
+
+    const value = context(field);
+    const enumValues = ENUM_FIELDS[field];
+    const coerce = (literal: any) => {
+      if (enumValues && typeof literal === 'string' && typeof value === 'number') return enumValues[literal] ?? literal;
+      if (typeof value === 'number' && typeof literal === 'string' && /^-?\d+(\.\d+)?$/.test(literal)) return Number(literal);
+      if (typeof value === 'string' && typeof literal === 'number') return String(literal);
+      return literal;
+    };
+    const values = condition.values.map(coerce);
+
+    switch (operator) {
+      case '=': return value === values[0];
+      case '!=': return value !== values[0];
+      case '>': return value > values[0];
+      case '>=': return value >= values[0];
+      case '<': return value < values[0];
+      case '<=': return value <= values[0];
+      case 'IN': return values.includes(value);
+      case 'NOT IN': return !values.includes(value);
+      case 'LIKE': return typeof value === 'string' && likePattern(values[0]).test(value);
+      case 'NOT LIKE': return typeof value === 'string' && !likePattern(values[0]).test(value);
+      case 'REGEXP_MATCH': return typeof value === 'string' && regexFromRe2(values[0]).test(value);
+      case 'NOT REGEXP_MATCH': return typeof value === 'string' && !regexFromRe2(values[0]).test(value);
+      case 'IS NULL': return value === undefined || value === null;
+      case 'IS NOT NULL': return value !== undefined && value !== null;
+      case 'CONTAINS ANY': return Array.isArray(value) && values.some(v => value.includes(v));
+      case 'CONTAINS ALL': return Array.isArray(value) && values.every(v => value.includes(v));
+      case 'CONTAINS NONE': return Array.isArray(value) && !values.some(v => value.includes(v));
+      case 'DURING':
+      case 'BETWEEN':
+        return true;
+      default:
+        throw new Error(`Query error: unsupported operator ${operator}`);
+    }
+  }
+
+  // ============================================================
+  // MUTATIONS
+  // ============================================================
+
+  /**
+   * Validate and apply a batch of Opteo-format operations
+   *
+   * Without partial failure the batch is atomic: one bad operation fails
+   * them all. With it, valid operations are applied and failures listed.
+   * Dry runs validate against a scratch copy and change nothing.
+   */
+  mutate(
+    operations: FakeOperation[],
+    options: { customerId?: string; dryRun?: boolean; partialFailure?: boolean } = {}
+  ): FakeMutateResult {
+    const { dryRun = false, partialFailure = false } = options;
+    this.checkCustomer(options.customerId);
+
+    const scratch = new Map([...this.resources].map(([name, entry]) => [name, structuredClone(entry)]));
+    const tempNames = new Map<string, string>();
+    const errors: FakeOperationError[] = [];
+    const data: FakeMutateResult['data'] = [];
+    let nextId = this.nextId;
+
+    operations.forEach((op, index) => {
+      try {
+        const result = this.applyOperation(op, scratch, tempNames, () => nextId++);
+        data.push({ [`${op.entity}_result`]: { resource_name: result } });
+      } catch (error) {
+        // Like the API, a failed operation keeps its slot with an empty result
+        data.push({});
+        const code = error instanceof OperationError ? error.code : 'INTERNAL_ERROR';
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push({
+          operation_index: index,
+          error_code: code,
+          message: `Operation ${index} (${op?.entity} ${op?.operation}): ${message}`,
+        });
+      }
+    });
+
+    const failed = errors.length > 0;
+    const applied = !dryRun && (!failed || partialFailure);
+    if (applied) {
+      this.resources = scratch;
+      this.nextId = nextId;
+    }
+
+    return {
+      success: !failed,
+      dry_run: dryRun,
+      data: applied ? data : [],
+      metadata: {
+        operation_count: operations.length,
+        success_count: failed && !partialFailure ? 0 : operations.length - errors.length,
+        failure_count: errors.length,
+      },
+      ...(failed && {
+        partial_failure_errors: errors,
+        error: errors.map(e => `[${e.error_code}] ${e.message}`).join('\n'),
+      }),
+    };
+  }
+
+  private applyOperation(
+    op: FakeOperation,
+    store: Map<string, FakeResource>,
+    tempNames: Map<string, string>,
+    newId: () => number
+  ): string {
+    if (!op || typeof op !== 'object' || !op.entity) {
+      throw new OperationError('REQUIRED', 'operation needs an entity');
+    }
+    if (!REQUIRED_FIELDS[op.entity]) {
+      throw new OperationError('UNSUPPORTED_ENTITY', `entity "${op.entity}" is not supported`);
+    }
+
+    switch (op.operation) {
+      case 'create':
+        return this.applyCreate(op, store, tempNames, newId);
+      case 'update':
+        return this.applyUpdate(op, store, tempNames);
+      case 'remove':
+        return this.applyRemove(op, store, tempNames);
+      default:
+        throw new OperationError('INVALID_OPERATION', `operation must be create, update or remove (got "${op.operation}")`);
+    }
+  }
+
+  private applyCreate(
+    op: FakeOperation,
+    store: Map<string, FakeResource>,
+    tempNames: Map<string, string>,
+    newId: () => number
+  ): string {
+    const { entity } = op;
+    if (!op.resource || typeof op.resource !== 'object') {
+      throw new OperationError('REQUIRED', 'create needs a resource');
+    }
+    const resource = structuredClone(op.resource);
+    const tempName: string | undefined = resource.resource_name;
+    delete resource.resource_name;
+    for (const field of outputOnlyFields(entity)) {
+      delete resource[field];
+    }
+
+    for (const field of REQUIRED_FIELDS[entity]) {
+      if (resource[field] === undefined || resource[field] === '') {
+        throw new OperationError('REQUIRED', `${entity}.${field} is required`);
+      }
+    }
+    if (ONE_OF_FIELDS[entity]) {
+      const present = oneOfKeys(entity, resource);
+      if (present.length !== 1) {
+        throw new OperationError(
+          present.length === 0 ? 'REQUIRED' : 'TOO_MANY_FIELDS',
+          `${entity} needs exactly one of ${ONE_OF_FIELDS[entity].join(', ')}${present.length ? ` (got ${present.join(', ')})` : ''}`
+        );
+      }
+    }
+
+    this.resolveReferences(entity, resource, store, tempNames);
+    this.normalizeEnums(entity, resource);
+    this.validateContent(entity, resource, store);
+
+    // Fill in what the API would
+    const id = newId();
+    const statusEnum = ENUM_FIELDS[`${entity}.status`];
+    if (statusEnum && resource.status === undefined) resource.status = statusEnum.ENABLED;
+    if (entity === 'campaign') {
+      const scheme = oneOfKeys(entity, resource)[0];
+      resource.bidding_strategy_type = scheme === 'bidding_strategy'
+        ? store.get(resource.bidding_strategy)?.resource.type
+        : enums.BiddingStrategyType[BIDDING_TYPES[scheme] as keyof typeof enums.BiddingStrategyType];
+    }
+    if (entity === 'bidding_strategy') {
+      resource.type = enums.BiddingStrategyType[BIDDING_TYPES[oneOfKeys(entity, resource)[0]] as keyof typeof enums.BiddingStrategyType];
+    }
+    if (['ad_group_criterion', 'campaign_criterion', 'shared_criterion'].includes(entity)) {
+      const field = oneOfKeys(entity, resource)[0] || 'keyword';
+      resource.type = enums.CriterionType[CRITERION_TYPES[field] as keyof typeof enums.CriterionType];
+      if (op.resource.type !== undefined && enumNumber(enums.CriterionType, op.resource.type) !== resource.type) {
+        throw new OperationError(
+          'CRITERION_TYPE_MISMATCH',
+          `${entity}.type ${JSON.stringify(op.resource.type)} doesn't match ${field} (${CRITERION_TYPES[field]} = ${resource.type})`
+        );
+      }
+      if (entity !== 'shared_criterion') resource.negative = resource.negative ?? false;
+      resource.criterion_id = id;
+    }
+    if (entity === 'asset') {
+      resource.type = enums.AssetType[ASSET_TYPES[oneOfKeys(entity, resource)[0]] as keyof typeof enums.AssetType];
+    }
+    if (entity === 'ad_group_ad') {
+      resource.ad = {
+        ...resource.ad,
+        resource_name: `customers/${this.customerId}/ads/${id}`,
+        id,
+        type: resource.ad.responsive_search_ad ? enums.AdType.RESPONSIVE_SEARCH_AD : resource.ad.type,
+      };
+    }
+
+    const resourceName = this.newResourceName(entity, resource, id);
+    if (store.has(resourceName)) {
+      throw new OperationError('DUPLICATE_RESOURCE', `${resourceName} already exists`);
+    }
+    if (tempName) {
+      const parsed = parseResourceName(tempName);
+      if (parsed.entity !== entity) {
+        throw new OperationError('INVALID_RESOURCE_NAME', `resource_name ${tempName} is not a ${entity}`);
+      }
+      if (parsed.customerId !== this.customerId) {
+        throw new OperationError('INVALID_CUSTOMER_ID', `resource_name ${tempName} belongs to another customer`);
+      }
+      if (!parsed.temp) {
+        throw new OperationError('INVALID_RESOURCE_NAME', `create resource_name ${tempName} must use a temporary (negative) id`);
+      }
+      if (tempNames.has(tempName)) {
+        throw new OperationError('DUPLICATE_TEMP_ID', `temporary resource name ${tempName} is used twice`);
+      }
+    }
+
+    // Nothing is written until every check has passed - a failed create
+    // must not leave a resource behind under partial failure
+    const noId = ['ad_group_criterion', 'campaign_criterion', 'shared_criterion', 'ad_group_ad', 'campaign_shared_set', 'campaign_asset', 'ad_group_asset', 'campaign_asset_set'];
+    store.set(resourceName, {
+      entity,
+      resource: { resource_name: resourceName, ...(noId.includes(entity) ? {} : { id }), ...resource },
+    });
+
+    if (tempName) {
+      tempNames.set(tempName, resourceName);
+    }
+    return resourceName;
+  }
+
+  private newResourceName(entity: string, resource: any, id: number): string {
+    const base = `customers/${this.customerId}/${COLLECTIONS[entity]}`;
+    const idOf = (name: string) => lastSegment(name);
+    switch (entity) {
+      case 'ad_group_criterion':
+        return `${base}/${idOf(resource.ad_group)}~${id}`;
+      case 'ad_group_ad':
+        return `${base}/${idOf(resource.ad_group)}~${id}`;
+      case 'campaign_criterion':
+        return `${base}/${idOf(resource.campaign)}~${id}`;
+      case 'shared_criterion':
+        return `${base}/${idOf(resource.shared_set)}~${id}`;
+      case 'campaign_shared_set':
+        return `${base}/${idOf(resource.campaign)}~${idOf(resource.shared_set)}`;
+      case 'campaign_asset':
+        return `${base}/${idOf(resource.campaign)}~${idOf(resource.asset)}~${enums.AssetFieldType[resource.field_type]}`;
+      case 'ad_group_asset':
+        return `${base}/${idOf(resource.ad_group)}~${idOf(resource.asset)}~${enums.AssetFieldType[resource.field_type]}`;
+      case 'campaign_asset_set':
+        return `${base}/${idOf(resource.campaign)}~${idOf(resource.asset_set)}`;
+      default:
+        return `${base}/${id}`;
+    }
+  }
+
+  private applyUpdate(op: FakeOperation, store: Map<string, FakeResource>, tempNames: Map<string, string>): string {
+    const { entity } = op;
+    const changes = structuredClone(op.resource ?? {});
+    const name = this.resolveName(changes.resource_name, tempNames);
+    if (!name) {
+      throw new OperationError('REQUIRED', 'update needs resource.resource_name');
+    }
+    const existing = store.get(name);
+    if (!existing || existing.entity !== entity) {
+      throw new OperationError('RESOURCE_NOT_FOUND', `${entity} ${name} not found`);
+    }
+    if (this.isRemoved(existing)) {
+      throw new OperationError('OPERATION_NOT_PERMITTED_FOR_REMOVED_RESOURCE', `${name} has been removed`);
+    }
+    delete changes.resource_name;
+
+    const mask = op.update_mask ?? leafPaths(changes);
+    if (mask.length === 0) {
+      throw new OperationError('REQUIRED', 'update changes nothing - set fields or update_mask');
+    }
+    for (const path of mask) {
+      if (outputOnlyFields(entity).includes(path)) {
+        throw new OperationError('IMMUTABLE_FIELD', `${entity}.${path} is read-only`);
+      }
+      if ((IMMUTABLE_FIELDS[entity] || []).some(field => path === field || path.startsWith(`${field}.`))) {
+        throw new OperationError('IMMUTABLE_FIELD', `${entity}.${path} cannot be changed after create`);
+      }
+    }
+
+    this.resolveReferences(entity, changes, store, tempNames);
+    this.normalizeEnums(entity, changes);
+
+    const updated = structuredClone(existing.resource);
+    for (const path of mask) {
+      setPath(updated, path, getPath(changes, path));
+    }
+    this.validateContent(entity, updated, store, name);
+    store.set(name, { ...existing, resource: updated });
+    return name;
+  }
+
+  private applyRemove(op: FakeOperation, store: Map<string, FakeResource>, tempNames: Map<string, string>): string {
+    const { entity } = op;
+    const given = typeof op.resource === 'string' ? op.resource : op.resource?.resource_name;
+    const name = this.resolveName(given, tempNames);
+    if (!name) {
+      throw new OperationError('REQUIRED', 'remove needs a resource name');
+    }
+    const existing = store.get(name);
+    if (!existing || existing.entity !== entity || this.isRemoved(existing)) {
+      throw new OperationError('RESOURCE_NOT_FOUND', `${entity} ${name} not found`);
+    }
+
+    // Campaigns, ad groups and ads stay queryable as REMOVED; links and criteria go
+    const statusEnum = ENUM_FIELDS[`${entity}.status`];
+    if (statusEnum?.REMOVED !== undefined && !entity.endsWith('criterion')) {
+      store.set(name, { ...existing, resource: { ...existing.resource, status: statusEnum.REMOVED } });
+    } else {
+      store.delete(name);
+    }
+    return name;
+  }
+
+  private isRemoved(entry: FakeResource): boolean {
+    const statusEnum = ENUM_FIELDS[`${entry.entity}.status`];
+    return statusEnum?.REMOVED !== undefined && entry.resource.status === statusEnum.REMOVED;
+  }
+
+  private resolveName(name: unknown, tempNames: Map<string, string>): string | undefined {
+    if (typeof name !== 'string' || !name) return undefined;
+    if (!parseResourceName(name).temp) return name;
+    const real = tempNames.get(name);
+    if (!real) {
+      throw new OperationError('RESOURCE_NOT_FOUND', `temporary resource name ${name} isn't created earlier in this request`);
+    }
+    return real;
+  }
+
+  /**
+   * Swap temp resource names for real ones and check every reference
+   */
+  private resolveReferences(entity: string, resource: any, store: Map<string, FakeResource>, tempNames: Map<string, string>): void {
+    const walk = (value: any, key: string, path: string): any => {
+      if (typeof value === 'string') {
+        const parsed = parseResourceName(value);
+        if (!parsed.entity) return value;
+        if (parsed.customerId && parsed.customerId !== this.customerId) {
+          throw new OperationError('INVALID_CUSTOMER_ID', `${entity}.${path} refers to another customer (${value})`);
+        }
+        const name = this.resolveName(value, tempNames)!;
+        const target = store.get(name);
+        if (!target) {
+          throw new OperationError('RESOURCE_NOT_FOUND', `${entity}.${path} refers to ${value}, which doesn't exist`);
+        }
+        const expected = REFERENCE_FIELDS[key];
+        if (expected && target.entity !== expected) {
+          throw new OperationError('INVALID_RESOURCE_NAME', `${entity}.${path} must be a ${expected}, not ${value}`);
+        }
+        if (this.isRemoved(target)) {
+          throw new OperationError('OPERATION_NOT_PERMITTED_FOR_REMOVED_RESOURCE', `${entity}.${path} refers to removed ${value}`);
+        }
+        return name;
+      }
+      if (Array.isArray(value)) return value.map((item, i) => walk(item, key, `${path}[${i}]`));
+      if (value && typeof value === 'object') {
+        for (const [childKey, child] of Object.entries(value)) {
+          value[childKey] = walk(child, childKey, path ? `${path}.${childKey}` : childKey);
+        }
+      }
+      return value;
+    };
+    walk(resource, '', '');
+  }
+
+  /**
+   * Check enum fields and store them as numbers
+   */
+  private normalizeEnums(entity: string, resource: any): void {
+    for (const path of leafPaths(resource)) {
+      const values = ENUM_FIELDS[`${entity}.${path}`];
+      if (!values) continue;
+      const raw = getPath(resource, path);
+      const number = enumNumber(values, raw);
+      if (number === undefined || number < 2) {
+        throw new OperationError('INVALID_ENUM_VALUE', `${entity}.${path} has invalid enum value ${JSON.stringify(raw)}`);
+      }
+      setPath(resource, path, number);
+    }
+  }
+
+  /**
+   * Text limits, RSA rules and unique names
+   */
+  private validateContent(entity: string, resource: any, store: Map<string, FakeResource>, self?: string): void {
+    const siblings = (filter: (entry: FakeResource) => boolean) =>
+      [...store.values()].filter(entry =>
+        entry.entity === entity && entry.resource.resource_name !== self && !this.isRemoved(entry) && filter(entry)
+      );
+    const tooLong = (value: any, max: number, label: string) => {
+      if (typeof value === 'string' && displayLength(value) > max) {
+        throw new OperationError('TOO_LONG', `${label} "${value}" is longer than ${max} characters`);
+      }
+    };
+
+    const keyword = resource.keyword;
+    if (keyword) {
+      const text = String(keyword.text ?? '').trim();
+      if (!text) throw new OperationError('REQUIRED', `${entity}.keyword.text is required`);
+      if (keyword.match_type === undefined) throw new OperationError('REQUIRED', `${entity}.keyword.match_type is required`);
+      tooLong(text, 80, 'Keyword');
+      if (text.split(/\s+/).length > 10) {
+        throw new OperationError('KEYWORD_HAS_TOO_MANY_WORDS', `keyword "${text}" has more than 10 words`);
+      }
+      if (/[!@%,*]/.test(text)) {
+        throw new OperationError('KEYWORD_HAS_INVALID_CHARS', `keyword "${text}" has invalid characters`);
+      }
+    }
+
+    switch (entity) {
+      case 'campaign':
+        if (siblings(entry => entry.resource.name === resource.name).length > 0) {
+          throw new OperationError('DUPLICATE_CAMPAIGN_NAME', `a campaign named "${resource.name}" already exists`);
+        }
+        break;
+      case 'ad_group':
+        if (siblings(entry => entry.resource.name === resource.name && entry.resource.campaign === resource.campaign).length > 0) {
+          throw new OperationError('DUPLICATE_ADGROUP_NAME', `ad group "${resource.name}" already exists in this campaign`);
+        }
+        break;
+      case 'shared_set':
+        if (siblings(entry => entry.resource.name === resource.name).length > 0) {
+          throw new OperationError('DUPLICATE_NAME', `a shared set named "${resource.name}" already exists`);
+        }
+        break;
+      case 'bidding_strategy':
+        if (siblings(entry => entry.resource.name === resource.name).length > 0) {
+          throw new OperationError('DUPLICATE_NAME', `a bidding strategy named "${resource.name}" already exists`);
+        }
+        break;
+      case 'campaign_budget':
+        if (!(Number(resource.amount_micros) > 0)) {
+          throw new OperationError('NON_POSITIVE_AMOUNT', 'campaign_budget.amount_micros must be positive');
+        }
+        break;
+      case 'ad_group_ad': {
+        const ad = resource.ad ?? {};
+        if (!Array.isArray(ad.final_urls) || ad.final_urls.length === 0) {
+          throw new OperationError('REQUIRED', 'ad_group_ad.ad.final_urls is required');
+        }
+        for (const url of ad.final_urls) {
+          if (!/^https?:\/\/[^\s/]+\.[^\s]+/.test(url)) {
+            throw new OperationError('INVALID_URL', `final URL "${url}" is not a valid URL`);
+          }
+        }
+        const rsa = ad.responsive_search_ad;
+        if (!rsa) {
+          throw new OperationError('REQUIRED', 'ad_group_ad.ad needs responsive_search_ad');
+        }
+        this.validateAssets(rsa.headlines, 'headline', 3, 15, 30, [2, 3, 4]);
+        this.validateAssets(rsa.descriptions, 'description', 2, 4, 90, [5, 6]);
+        tooLong(rsa.path1, 15, 'path1');
+        tooLong(rsa.path2, 15, 'path2');
+        if (rsa.path2 && !rsa.path1) {
+          throw new OperationError('REQUIRED', 'path2 needs path1');
+        }
+        break;
+      }
+      case 'asset':
+        if (resource.sitelink_asset) {
+          const sitelink = resource.sitelink_asset;
+          if (!sitelink.link_text) throw new OperationError('REQUIRED', 'asset.sitelink_asset.link_text is required');
+          tooLong(sitelink.link_text, 25, 'Sitelink text');
+          tooLong(sitelink.description1, 35, 'Sitelink description');
+          tooLong(sitelink.description2, 35, 'Sitelink description');
+          if (!resource.final_urls?.length) throw new OperationError('REQUIRED', 'sitelink assets need final_urls');
+        }
+        if (resource.callout_asset) {
+          if (!resource.callout_asset.callout_text) throw new OperationError('REQUIRED', 'asset.callout_asset.callout_text is required');
+          tooLong(resource.callout_asset.callout_text, 25, 'Callout');
+        }
+        if (resource.structured_snippet_asset) {
+          const values = resource.structured_snippet_asset.values ?? [];
+          if (!resource.structured_snippet_asset.header) throw new OperationError('REQUIRED', 'structured snippets need a header');
+          if (values.length < 3 || values.length > 10) {
+            throw new OperationError('INVALID_VALUE', `structured snippets need 3-10 values (got ${values.length})`);
+          }
+          values.forEach((value: string) => tooLong(value, 25, 'Snippet value'));
+        }
+        break;
+    }
+  }
+
+  private validateAssets(assets: any, label: string, min: number, max: number, maxLength: number, pinFields: number[]): void {
+    if (!Array.isArray(assets) || assets.length < min || assets.length > max) {
+      throw new OperationError(
+        Array.isArray(assets) && assets.length > max ? 'TOO_MANY' : 'TOO_FEW',
+        `responsive search ads need ${min}-${max} ${label}s (got ${Array.isArray(assets) ? assets.length : 0})`
+      );
+    }
+    const seen = new Set<string>();
+    for (const asset of assets) {
+      const text = asset?.text;
+      if (typeof text !== 'string' || !text.trim()) {
+        throw new OperationError('REQUIRED', `${label} text is required`);
+      }
+      if (displayLength(text) > maxLength) {
+        throw new OperationError('TOO_LONG', `${label} "${text}" is longer than ${maxLength} characters`);
+      }
+      if (seen.has(text.toLowerCase())) {
+        throw new OperationError('DUPLICATE_ASSET', `${label} "${text}" is repeated`);
+      }
+      seen.add(text.toLowerCase());
+      if (asset.pinned_field !== undefined) {
+        const pin = enumNumber(enums.ServedAssetFieldType, asset.pinned_field);
+        if (pin === undefined || !pinFields.includes(pin)) {
+          throw new OperationError('INVALID_ENUM_VALUE', `${label} "${text}" has invalid pinned_field ${JSON.stringify(asset.pinned_field)}`);
+        }
+        asset.pinned_field = pin;
+      }
+    }
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * Geo Target Resolution
+ *
+ * Turns the locations in a campaign spec into Google Ads targeting:
+ *
+ *   "Dublin, Ohio"            → City
+ *   "43017"                   → Postal Code
+ *   "Franklin County, Ohio"   → County
+ *   "Columbus OH DMA"         → DMA Region
+ *   { name, type, countryCode } for anything else
+ *   { radius, units, address | latitude + longitude } → proximity target
+ *
+ * Names are looked up in geo_target_constant via GAQL and cached in
+ * <PPC_AGENT_DATA_DIR>/geo-target-cache.json. Names that match nothing,
+ * or several places, are reported back rather than skipped.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { env } from '../config/index.js';
+import { cassetteMode } from './cassette.js';
+import { queryAccount } from './google-ads.js';
+
+const CACHE_PATH = join(env.PPC_AGENT_DATA_DIR, 'geo-target-cache.json');
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type GeoTargetKind = 'city' | 'zip' | 'county' | 'dma' | 'state' | 'country';
+
+export interface GeoLocationSpec {
+  name: string;
+  type?: GeoTargetKind;
+  /** ISO country code (default US) */
+  countryCode?: string;
+  /** Bid modifier for this location, e.g. 1.2 = +20% */
+  bidModifier?: number;
+}
+
+export interface AddressSpec {
+  street?: string;
+  city?: string;
+  postalCode?: string;
+  /** State / province code, e.g. "OH" */
+  state?: string;
+  countryCode?: string;
+}
+
+export interface RadiusLocationSpec {
+  radius: number;
+  units?: 'MILES' | 'KILOMETERS';
+  /** "123 Main St, Dublin, OH 43017" or a structured address */
+  address?: string | AddressSpec;
+  latitude?: number;
+  longitude?: number;
+  /** Bid modifier for this area, e.g. 1.2 = +20% */
+  bidModifier?: number;
+}
+
+export type LocationSpec = string | GeoLocationSpec | RadiusLocationSpec;
+
+export interface GeoTargetConstant {
+  id: string;
+  name: string;
+  canonicalName: string;
+  countryCode: string;
+  targetType: string;
+}
+
+/**
+ * Proximity criterion in Google Ads API field format
+ */
+export interface ProximityTarget {
+  radius: number;
+  radius_units: number;
+  address?: {
+    street_address?: string;
+    city_name?: string;
+    postal_code?: string;
+    province_code?: string;
+    country_code?: string;
+  };
+  geo_point?: {
+    latitude_in_micro_degrees: number;
+    longitude_in_micro_degrees: number;
+  };
+}
+
+export interface GeoResolution {
+  input: LocationSpec;
+  /** Human-readable form of the input */
+  label: string;
+  status: 'resolved' | 'ambiguous' | 'unresolved';
+  geoTarget?: GeoTargetConstant;
+  proximity?: ProximityTarget;
+  /** Possible matches when the name is ambiguous */
+  candidates?: GeoTargetConstant[];
+  message?: string;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+const TARGET_TYPES: Record<GeoTargetKind, string> = {
+  city: 'City',
+  zip: 'Postal Code',
+  county: 'County',
+  dma: 'DMA Region',
+  state: 'State',
+  country: 'Country',
+};
+
+/** ProximityRadiusUnits enum */
+const RADIUS_UNITS = { MILES: 2, KILOMETERS: 3 };
+
+const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California',
+  CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia',
+  FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois',
+  IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana',
+  ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada',
+  NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York',
+  NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon',
+  PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota',
+  TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont', VA: 'Virginia',
+  WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+};
+
+// ============================================================
+// CACHE
+// ============================================================
+
+let cache: Record<string, GeoTargetConstant[]> | null = null;
+
+function loadCache(): Record<string, GeoTargetConstant[]> {
+  if (!cache) {
+    cache = existsSync(CACHE_PATH) ? JSON.parse(readFileSync(CACHE_PATH, 'utf-8')) : {};
+  }
+  return cache!;
+}
+
+function saveCache(): void {
+  mkdirSync(dirname(CACHE_PATH), { recursive: true });
+  writeFileSync(CACHE_PATH, JSON.stringify(loadCache(), null, 2));
+}
+
+// ============================================================
+// PARSING
+// ============================================================
+
+interface GeoQuery {
+  name: string;
+  /** Parent regions the match must sit in, e.g. ["Ohio"] */
+  qualifiers: string[];
+  targetType?: string;
+  countryCode: string;
+}
+
+/**
+ * Split "Dublin, OH" / "Franklin County, Ohio" / "Columbus OH DMA" / "43017"
+ * into a name, qualifiers and (where it can be told) a target type
+ */
+export function parseLocationName(spec: string | GeoLocationSpec): GeoQuery {
+  const input = typeof spec === 'string' ? { name: spec } : spec;
+  const [first, ...rest] = input.name.split(',').map(part => part.trim()).filter(Boolean);
+  const qualifiers = rest
+    .map(q => US_STATES[q.toUpperCase()] ?? q)
+    .filter(q => !/^(USA?|United States)$/i.test(q));
+
+  let name = first ?? '';
+  let targetType = input.type ? TARGET_TYPES[input.type] : undefined;
+
+  if (!targetType) {
+    if (/^\d{5}(-\d{4})?$/.test(name)) {
+      targetType = TARGET_TYPES.zip;
+      name = name.slice(0, 5);
+    } else if (/\bDMA$/i.test(name)) {
+      targetType = TARGET_TYPES.dma;
+      name = name.replace(/\s*\bDMA$/i, '');
+    } else if (/\b(County|Parish)$/i.test(name)) {
+      targetType = TARGET_TYPES.county;
+    }
+  }
+
+  return { name, qualifiers, targetType, countryCode: (input.countryCode ?? 'US').toUpperCase() };
+}
+
+function labelFor(spec: LocationSpec): string {
+  if (typeof spec === 'string') return spec;
+  if ('radius' in spec) {
+    const center = typeof spec.address === 'string'
+      ? spec.address
+      : spec.address
+      ? [spec.address.street, spec.address.city, spec.address.state, spec.address.postalCode].filter(Boolean).join(', ')
+      : `${spec.latitude}, ${spec.longitude}`;
+    return `${spec.radius} ${(spec.units ?? 'MILES').toLowerCase()} around ${center}`;
+  }
+  return spec.type ? `${spec.name} (${spec.type})` : spec.name;
+}
+
+/**
+ * Parse "123 Main St, Dublin, OH 43017" into address fields
+ */
+function parseAddress(address: string | AddressSpec): AddressSpec | null {
+  if (typeof address !== 'string') return address;
+  const match = address.match(/^(.+?),\s*([^,]+?),\s*([A-Za-z]{2})\s+(\d{5})(?:-\d{4})?$/);
+  if (!match) return null;
+  return { street: match[1], city: match[2], state: match[3].toUpperCase(), postalCode: match[4], countryCode: 'US' };
+}
+
+// ============================================================
+// RESOLUTION
+// ============================================================
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/'/g, "\\'");
+}
+
+/**
+ * All enabled geo target constants with this name (cached)
+ */
+async function lookupGeoTargets(query: GeoQuery): Promise<GeoTargetConstant[]> {
+  const key = `${query.countryCode}|${query.targetType ?? '*'}|${query.name.toLowerCase()}`;
+  // A recording must capture the lookup, or its replay would depend on this cache
+  const cached = cassetteMode() === 'record' ? undefined : loadCache()[key];
+  if (cached) {
+    return cached;
+  }
+
+  const rows = await queryAccount(`
+    SELECT
+      geo_target_constant.id,
+      geo_target_constant.name,
+      geo_target_constant.canonical_name,
+      geo_target_constant.country_code,
+      geo_target_constant.target_type
+    FROM geo_target_constant
+    WHERE geo_target_constant.name REGEXP_MATCH '(?i)^${escapeRegex(query.name)}$'
+      AND geo_target_constant.country_code = '${query.countryCode}'
+      AND geo_target_constant.status = 'ENABLED'
+      ${query.targetType ? `AND geo_target_constant.target_type = '${query.targetType}'` : ''}
+  `);
+
+  const targets: GeoTargetConstant[] = rows.map((row: any) => ({
+    id: String(row.geo_target_constant.id),
+    name: row.geo_target_constant.name,
+    canonicalName: row.geo_target_constant.canonical_name,
+    countryCode: row.geo_target_constant.country_code,
+    targetType: row.geo_target_constant.target_type,
+  }));
+
+  loadCache()[key] = targets;
+  saveCache();
+  return targets;
+}
+
+/**
+ * Narrow candidates to those inside every qualifier; when the type was
+ * not given, a single City match wins over other kinds of place
+ */
+export function pickGeoTarget(query: GeoQuery, candidates: GeoTargetConstant[]): GeoTargetConstant[] {
+  let matches = candidates.filter(candidate => {
+    const parts = candidate.canonicalName.toLowerCase().split(',').slice(1);
+    return query.qualifiers.every(q => parts.includes(q.toLowerCase()));
+  });
+
+  if (matches.length > 1 && !query.targetType) {
+    const cities = matches.filter(m => m.targetType === TARGET_TYPES.city);
+    if (cities.length === 1) {
+      matches = cities;
+    }
+  }
+  return matches;
+}
+
+function resolveRadius(spec: RadiusLocationSpec, label: string): GeoResolution {
+  const units = spec.units ?? 'MILES';
+  if (!(spec.radius > 0)) {
+    return { input: spec, label, status: 'unresolved', message: 'Radius must be a positive number' };
+  }
+
+  const proximity: ProximityTarget = { radius: spec.radius, radius_units: RADIUS_UNITS[units] };
+
+  if (spec.latitude !== undefined && spec.longitude !== undefined) {
+    proximity.geo_point = {
+      latitude_in_micro_degrees: Math.round(spec.latitude * 1_000_000),
+      longitude_in_micro_degrees: Math.round(spec.longitude * 1_000_000),
+    };
+  } else if (spec.address) {
+    const address = parseAddress(spec.address);
+    if (!address) {
+      return {
+        input: spec,
+        label,
+        status: 'unresolved',
+        message: 'Address must look like "123 Main St, City, ST 12345" (or give latitude/longitude)',
+      };
+    }
+    proximity.address = {
+      street_address: address.street,
+      city_name: address.city,
+      postal_code: address.postalCode,
+      province_code: address.state,
+      country_code: address.countryCode ?? 'US',
+    };
+  } else {
+    return { input: spec, label, status: 'unresolved', message: 'Radius targeting needs an address or latitude/longitude' };
+  }
+
+  return { input: spec, label, status: 'resolved', proximity };
+}
+
+/**
+ * Resolve one location
+ */
+export async function resolveLocation(spec: LocationSpec): Promise<GeoResolution> {
+  const label = labelFor(spec);
+
+  if (typeof spec !== 'string' && 'radius' in spec) {
+    return resolveRadius(spec, label);
+  }
+
+  const query = parseLocationName(spec);
+  if (!query.name) {
+    return { input: spec, label, status: 'unresolved', message: 'Empty location name' };
+  }
+
+  const matches = pickGeoTarget(query, await lookupGeoTargets(query));
+
+  if (matches.length === 1) {
+    return { input: spec, label, status: 'resolved', geoTarget: matches[0] };
+  }
+  if (matches.length === 0) {
+    return {
+      input: spec,
+      label,
+      status: 'unresolved',
+      message: `No ${query.targetType ?? 'location'} named "${query.name}"${query.qualifiers.length ? ` in ${query.qualifiers.join(', ')}` : ''} (${query.countryCode})`,
+    };
+  }
+  return {
+    input: spec,
+    label,
+    status: 'ambiguous',
+    candidates: matches.slice(0, 10),
+    message: `"${label}" matches ${matches.length} places - add a state or type, e.g. "${matches[0].canonicalName.split(',').slice(0, 2).join(', ')}"`,
+  };
+}
+
+/**
+ * Resolve every location in a spec (in order)
+ */
+export async function resolveLocations(specs: LocationSpec[]): Promise<GeoResolution[]> {
+  const resolutions: GeoResolution[] = [];
+  for (const spec of specs) {
+    resolutions.push(await resolveLocation(spec));
+  }
+  return resolutions;
+}
+
+/**
+ * One line per location that could not be resolved (empty when all resolved)
+ */
+export function describeUnresolved(resolutions: GeoResolution[]): string[] {
+  return resolutions
+    .filter(r => r.status !== 'resolved')
+    .map(r => `${r.status === 'ambiguous' ? 'Ambiguous' : 'Unresolved'} location "${r.label}": ${r.message}`);
+}
@@ -6,7 +6,8 @@
  */
 
 import { GoogleAdsApi } from 'google-ads-api';
-import { GOOGLE_ADS_CONFIG } from '../config/index.js';
+import { env, GOOGLE_ADS_CONFIG } from '../config/index.js';
+import { throughCassette } from './cassette.js';
 
 // Initialize the Google Ads client
 const client = new GoogleAdsApi({
@@ -21,6 +22,271 @@ const customer = client.Customer({
   refresh_token: GOOGLE_ADS_CONFIG.refresh_token,
 });
 
+/**
+ * Run a read-only GAQL query against an account
+ * (defaults to the configured client account)
+ */
+export async function queryAccount(gaql: string, customerId?: string): Promise<any[]> {
+  if (env.PPC_AGENT_OFFLINE) {
+    return queryOffline(gaql, customerId);
+  }
+
+  const accountId = customerId || GOOGLE_ADS_CONFIG.customer_id;
+  return throughCassette('google_ads_query', { customerId: accountId, query: gaql }, () => {
+    if (accountId === GOOGLE_ADS_CONFIG.customer_id) {
+      return customer.query(gaql);
+    }
+
+    return client.Customer({
+      customer_id: accountId,
+      login_customer_id: GOOGLE_ADS_CONFIG.login_customer_id,
+      refresh_token: GOOGLE_ADS_CONFIG.refresh_token,
+    }).query(gaql);
+  });
+}
+
+/**
+ * Offline reads go to the fake MCP server, so they see its mutations
+ * (imported lazily - the bridge imports this module)
+ */
+async function queryOffline(gaql: string, customerId?: string): Promise<any[]> {
+  const { withMCP } = await import('./mcp-bridge.js');
+  const result = await withMCP(mcp => mcp.query(gaql, customerId));
+  if (!result?.success) {
+    throw new Error(result?.error || 'Query failed');
+  }
+  return result.data;
+}
+
+// ============================================================
+// IMPRESSION SHARE
+// ============================================================
+
+export type ImpressionShareConstraint = 'budget-constrained' | 'rank-constrained' | 'saturated' | 'insufficient-data';
+
+/**
+ * Share of eligible impressions above which there is little left to win
+ */
+const SATURATED_IMPRESSION_SHARE = 0.9;
+
+/**
+ * Impression share metrics from a GAQL row (fractions 0-1; null when
+ * Google reports no value, e.g. non-Search campaigns or too little traffic)
+ */
+function impressionShareFields(metrics: any) {
+  const share = (value: any) => (value === undefined || value === null ? null : Number(value));
+  return {
+    search_impression_share: share(metrics?.search_impression_share),
+    search_budget_lost_impression_share: share(metrics?.search_budget_lost_impression_share),
+    search_rank_lost_impression_share: share(metrics?.search_rank_lost_impression_share),
+    top_impression_percentage: share(metrics?.top_impression_percentage),
+    absolute_top_impression_percentage: share(metrics?.absolute_top_impression_percentage),
+  };
+}
+
+/**
+ * What is holding a campaign back: impression share lost to budget,
+ * lost to rank (bids / quality), or nothing much (saturated)
+ */
+export function classifyImpressionShare(shares: {
+  search_impression_share: number | null;
+  search_budget_lost_impression_share: number | null;
+  search_rank_lost_impression_share: number | null;
+}): ImpressionShareConstraint {
+  if (shares.search_impression_share === null) {
+    return 'insufficient-data';
+  }
+  if (shares.search_impression_share >= SATURATED_IMPRESSION_SHARE) {
+    return 'saturated';
+  }
+  const lostToBudget = shares.search_budget_lost_impression_share ?? 0;
+  const lostToRank = shares.search_rank_lost_impression_share ?? 0;
+  return lostToBudget >= lostToRank ? 'budget-constrained' : 'rank-constrained';
+}
+
+const CONSTRAINT_ACTIONS: Record<ImpressionShareConstraint, string> = {
+  'budget-constrained': 'Raise the budget (or narrow targeting) - ads are eligible but the budget runs out',
+  'rank-constrained': 'Improve Ad Rank (bids, Quality Score, ad assets) - more budget will not help',
+  'saturated': 'Already showing for most eligible searches - grow with new keywords or markets',
+  'insufficient-data': 'Not enough Search impressions for Google to report impression share',
+};
+
+// ============================================================
+// AUCTION INSIGHTS
+// ============================================================
+
+export interface AuctionInsightMetrics {
+  impression_share: number | null;
+  overlap_rate: number | null;
+  outranking_share: number | null;
+  position_above_rate: number | null;
+  top_of_page_rate: number | null;
+  absolute_top_of_page_rate: number | null;
+}
+
+export interface AuctionInsightCompetitor extends AuctionInsightMetrics {
+  domain: string;
+  /** One entry per week/month, oldest first */
+  trend: Array<{ period: string } & AuctionInsightMetrics>;
+  /** Change in outranking share between the first and last period (positive = they beat us more often) */
+  outranking_share_change: number | null;
+}
+
+const AUCTION_INSIGHT_METRICS = `
+  metrics.auction_insight_search_impression_share,
+  metrics.auction_insight_search_overlap_rate,
+  metrics.auction_insight_search_outranking_share,
+  metrics.auction_insight_search_position_above_rate,
+  metrics.auction_insight_search_top_impression_percentage,
+  metrics.auction_insight_search_absolute_top_impression_percentage`;
+
+function auctionInsightFields(metrics: any): AuctionInsightMetrics {
+  const rate = (value: any) => (value === undefined || value === null ? null : Number(value));
+  return {
+    impression_share: rate(metrics?.auction_insight_search_impression_share),
+    overlap_rate: rate(metrics?.auction_insight_search_overlap_rate),
+    outranking_share: rate(metrics?.auction_insight_search_outranking_share),
+    position_above_rate: rate(metrics?.auction_insight_search_position_above_rate),
+    top_of_page_rate: rate(metrics?.auction_insight_search_top_impression_percentage),
+    absolute_top_of_page_rate: rate(metrics?.auction_insight_search_absolute_top_impression_percentage),
+  };
+}
+
+/**
+ * Impression-weighted average of each rate across campaign rows, skipping
+ * rows where the rate is missing
+ */
+function weightedAuctionInsights(rows: Array<{ weight: number; metrics: AuctionInsightMetrics }>): AuctionInsightMetrics {
+  const average = (field: keyof AuctionInsightMetrics): number | null => {
+    let total = 0;
+    let weights = 0;
+    for (const { weight, metrics } of rows) {
+      if (metrics[field] === null) continue;
+      total += metrics[field]! * weight;
+      weights += weight;
+    }
+    return weights > 0 ? Math.round((total / weights) * 10000) / 10000 : null;
+  };
+  return {
+    impression_share: average('impression_share'),
+    overlap_rate: average('overlap_rate'),
+    outranking_share: average('outranking_share'),
+    position_above_rate: average('position_above_rate'),
+    top_of_page_rate: average('top_of_page_rate'),
+    absolute_top_of_page_rate: average('absolute_top_of_page_rate'),
+  };
+}
+
+/**
+ * Merge per-campaign auction insight rows into one entry per domain and
+ * one trend point per period, weighting each campaign's rates by our
+ * impressions in it
+ */
+export function aggregateAuctionInsights(
+  totals: any[],
+  periods: any[],
+  impressions: any[],
+  granularity: 'week' | 'month'
+): AuctionInsightCompetitor[] {
+  const campaignImpressions = new Map<string, number>();
+  const periodImpressions = new Map<string, number>();
+  for (const row of impressions) {
+    const campaignId = String(row.campaign?.id);
+    const value = Number(row.metrics?.impressions ?? 0);
+    campaignImpressions.set(campaignId, (campaignImpressions.get(campaignId) ?? 0) + value);
+    const key = `${campaignId}|${row.segments?.[granularity]}`;
+    periodImpressions.set(key, (periodImpressions.get(key) ?? 0) + value);
+  }
+
+  const byDomain = new Map<string, Array<{ weight: number; metrics: AuctionInsightMetrics }>>();
+  for (const row of totals) {
+    const domain = row.segments?.auction_insight_domain;
+    if (!domain) continue;
+    const rows = byDomain.get(domain) ?? [];
+    rows.push({ weight: campaignImpressions.get(String(row.campaign?.id)) || 1, metrics: auctionInsightFields(row.metrics) });
+    byDomain.set(domain, rows);
+  }
+
+  const byPeriod = new Map<string, Map<string, Array<{ weight: number; metrics: AuctionInsightMetrics }>>>();
+  for (const row of periods) {
+    const domain = row.segments?.auction_insight_domain;
+    const period = row.segments?.[granularity];
+    if (!byDomain.has(domain) || !period) continue;
+    const domainPeriods = byPeriod.get(domain) ?? new Map();
+    const rows = domainPeriods.get(period) ?? [];
+    rows.push({
+      weight: periodImpressions.get(`${row.campaign?.id}|${period}`) || 1,
+      metrics: auctionInsightFields(row.metrics),
+    });
+    domainPeriods.set(period, rows);
+    byPeriod.set(domain, domainPeriods);
+  }
+
+  const competitors = new Map<string, AuctionInsightCompetitor>();
+  for (const [domain, rows] of byDomain) {
+    competitors.set(domain, {
+      domain,
+      ...weightedAuctionInsights(rows),
+      trend: [...(byPeriod.get(domain) ?? new Map()).entries()]
+        .map(([period, periodRows]) => ({ period, ...weightedAuctionInsights(periodRows) })),
+      outranking_share_change: null,
+    });
+  }
+
+  for (const competitor of competitors.values()) {
+    competitor.trend.sort((a, b) => a.period.localeCompare(b.period));
+    const first = competitor.trend[0]?.outranking_share;
+    const last = competitor.trend[competitor.trend.length - 1]?.outranking_share;
+    if (competitor.trend.length > 1 && first !== null && last !== null && first !== undefined && last !== undefined) {
+      competitor.outranking_share_change = Math.round((last - first) * 10000) / 10000;
+    }
+  }
+
+  // Most frequent auction overlap first
+  return [...competitors.values()].sort((a, b) => (b.overlap_rate ?? 0) - (a.overlap_rate ?? 0));
+}
+
+/**
+ * First-party auction insights by competitor domain: how often they show
+ * in the same auctions as us and how often they beat us, with a trend
+ * per week or month. Optionally limited to campaigns whose name contains
+ * a string (e.g. "Dublin" for a city campaign). A domain seen in several
+ * campaigns gets rates weighted by our impressions in each.
+ */
+export async function fetchAuctionInsights(options: {
+  dateRange?: string;
+  campaignNameContains?: string;
+  granularity?: 'week' | 'month';
+} = {}): Promise<AuctionInsightCompetitor[]> {
+  const { dateRange = 'LAST_30_DAYS', campaignNameContains, granularity = 'week' } = options;
+  const campaignFilter = campaignNameContains
+    ? `AND campaign.name LIKE '%${campaignNameContains.replace(/'/g, "\\'")}%'`
+    : '';
+
+  const [totals, periods, impressions] = await Promise.all([
+    queryAccount(`
+      SELECT campaign.id, segments.auction_insight_domain, ${AUCTION_INSIGHT_METRICS}
+      FROM campaign
+      WHERE segments.date DURING ${dateRange}
+        ${campaignFilter}
+    `),
+    queryAccount(`
+      SELECT campaign.id, segments.auction_insight_domain, segments.${granularity}, ${AUCTION_INSIGHT_METRICS}
+      FROM campaign
+      WHERE segments.date DURING ${dateRange}
+        ${campaignFilter}
+    `),
+    queryAccount(`
+      SELECT campaign.id, segments.${granularity}, metrics.impressions
+      FROM campaign
+      WHERE segments.date DURING ${dateRange}
+        ${campaignFilter}
+    `),
+  ]);
+
+  return aggregateAuctionInsights(totals, periods, impressions, granularity);
+}
+
 // ============================================================
 // TOOL DEFINITIONS (for Claude Agent SDK)
 // ============================================================
@@ -49,7 +315,7 @@ export const googleAdsTools = {
         WHERE customer_client.status = 'ENABLED'
       `;
       
-      const results = await customer.query(query);
+      const results = await queryAccount(query);
       return results.map((row: any) => ({
         id: row.customer_client?.id,
         name: row.customer_client?.descriptive_name,
@@ -101,14 +367,19 @@ export const googleAdsTools = {
           metrics.conversions_value,
           metrics.average_cpc,
           metrics.ctr,
-          metrics.cost_per_conversion
+          metrics.cost_per_conversion,
+          metrics.search_impression_share,
+          metrics.search_budget_lost_impression_share,
+          metrics.search_rank_lost_impression_share,
+          metrics.top_impression_percentage,
+          metrics.absolute_top_impression_percentage
         FROM campaign 
         WHERE segments.date DURING ${date_range}
         ${statusFilter}
         ORDER BY metrics.cost_micros DESC
       `;
 
-      const results = await customer.query(query);
+      const results = await queryAccount(query);
       return results.map((row: any) => ({
         id: row.campaign?.id,
         name: row.campaign?.name,
@@ -122,10 +393,145 @@ export const googleAdsTools = {
         avg_cpc: (row.metrics?.average_cpc || 0) / 1_000_000,
         ctr: row.metrics?.ctr || 0,
         cost_per_conversion: (row.metrics?.cost_per_conversion || 0) / 1_000_000,
+        ...impressionShareFields(row.metrics),
       }));
     },
   },
 
+  /**
+   * Impression share analysis (budget vs rank limits)
+   */
+  get_impression_share: {
+    name: 'get_impression_share',
+    description: 'Analyze Search impression share per campaign (and optionally ad group): share won, lost to budget, lost to rank, top / absolute-top percentages. Classifies each campaign as budget-constrained, rank-constrained or saturated.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        date_range: {
+          type: 'string',
+          description: 'GAQL date range like LAST_30_DAYS, LAST_7_DAYS, THIS_MONTH',
+          default: 'LAST_30_DAYS',
+        },
+        include_ad_groups: {
+          type: 'boolean',
+          description: 'Include the ad group breakdown (ad groups have no budget, so only rank loss is reported)',
+          default: true,
+        },
+      },
+      required: [],
+    },
+    handler: async ({ date_range = 'LAST_30_DAYS', include_ad_groups = true }: { date_range?: string; include_ad_groups?: boolean }) => {
+      const campaignRows = await queryAccount(`
+        SELECT 
+          campaign.id,
+          campaign.name,
+          metrics.impressions,
+          metrics.cost_micros,
+          metrics.search_impression_share,
+          metrics.search_budget_lost_impression_share,
+          metrics.search_rank_lost_impression_share,
+          metrics.top_impression_percentage,
+          metrics.absolute_top_impression_percentage
+        FROM campaign 
+        WHERE segments.date DURING ${date_range}
+          AND campaign.status = 'ENABLED'
+          AND campaign.advertising_channel_type = 'SEARCH'
+        ORDER BY metrics.cost_micros DESC
+      `);
+
+      const adGroupRows = include_ad_groups
+        ? await queryAccount(`
+            SELECT 
+              campaign.id,
+              ad_group.id,
+              ad_group.name,
+              metrics.impressions,
+              metrics.search_impression_share,
+              metrics.search_rank_lost_impression_share,
+              metrics.top_impression_percentage,
+              metrics.absolute_top_impression_percentage
+            FROM ad_group 
+            WHERE segments.date DURING ${date_range}
+              AND ad_group.status = 'ENABLED'
+              AND campaign.status = 'ENABLED'
+              AND campaign.advertising_channel_type = 'SEARCH'
+            ORDER BY metrics.impressions DESC
+          `)
+        : [];
+
+      const campaigns = campaignRows.map((row: any) => {
+        const shares = impressionShareFields(row.metrics);
+        const constraint = classifyImpressionShare(shares);
+        return {
+          id: row.campaign?.id,
+          name: row.campaign?.name,
+          impressions: row.metrics?.impressions || 0,
+          cost: (row.metrics?.cost_micros || 0) / 1_000_000,
+          ...shares,
+          constraint,
+          action: CONSTRAINT_ACTIONS[constraint],
+          ad_groups: adGroupRows
+            .filter((ag: any) => ag.campaign?.id === row.campaign?.id)
+            .map((ag: any) => {
+              const { search_budget_lost_impression_share, ...adGroupShares } = impressionShareFields(ag.metrics);
+              return {
+                id: ag.ad_group?.id,
+                name: ag.ad_group?.name,
+                impressions: ag.metrics?.impressions || 0,
+                ...adGroupShares,
+              };
+            }),
+        };
+      });
+
+      const counts = campaigns.reduce((acc: Record<string, number>, c: any) => {
+        acc[c.constraint] = (acc[c.constraint] || 0) + 1;
+        return acc;
+      }, {});
+
+      return { date_range, summary: counts, campaigns };
+    },
+  },
+
+  /**
+   * Auction insights (first-party competitor overlap)
+   */
+  get_auction_insights: {
+    name: 'get_auction_insights',
+    description: 'Get Google Ads auction insights by competitor domain from our own auctions: impression share, overlap rate, outranking share, position above rate and top-of-page rates, with a weekly or monthly trend. Filter to campaigns by name (e.g. a city) to see who is beating us there.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        date_range: {
+          type: 'string',
+          description: 'GAQL date range like LAST_30_DAYS, LAST_7_DAYS, THIS_MONTH',
+          default: 'LAST_30_DAYS',
+        },
+        campaign_name_contains: {
+          type: 'string',
+          description: 'Only include campaigns whose name contains this text (e.g. "Dublin")',
+        },
+        granularity: {
+          type: 'string',
+          enum: ['week', 'month'],
+          default: 'week',
+        },
+      },
+      required: [],
+    },
+    handler: async ({
+      date_range = 'LAST_30_DAYS',
+      campaign_name_contains,
+      granularity = 'week',
+    }: {
+      date_range?: string;
+      campaign_name_contains?: string;
+      granularity?: 'week' | 'month';
+    }) => {
+      return fetchAuctionInsights({ dateRange: date_range, campaignNameContains: campaign_name_contains, granularity });
+    },
+  },
+
   /**
    * Get keyword performance
    */
@@ -158,6 +564,7 @@ export const googleAdsTools = {
           ad_group_criterion.keyword.text,
           ad_group_criterion.keyword.match_type,
           ad_group.name,
+          campaign.id,
           campaign.name,
           metrics.impressions,
           metrics.clicks,
@@ -172,12 +579,13 @@ export const googleAdsTools = {
         LIMIT ${limit}
       `;
 
-      const results = await customer.query(query);
+      const results = await queryAccount(query);
       return results.map((row: any) => ({
         keyword: row.ad_group_criterion?.keyword?.text,
         match_type: row.ad_group_criterion?.keyword?.match_type,
         ad_group: row.ad_group?.name,
         campaign: row.campaign?.name,
+        campaign_id: row.campaign?.id !== undefined ? String(row.campaign.id) : undefined,
         impressions: row.metrics?.impressions || 0,
         clicks: row.metrics?.clicks || 0,
         cost: (row.metrics?.cost_micros || 0) / 1_000_000,
@@ -218,7 +626,7 @@ export const googleAdsTools = {
         LIMIT ${limit}
       `;
 
-      const results = await customer.query(query);
+      const results = await queryAccount(query);
       return results.map((row: any) => ({
         search_term: row.search_term_view?.search_term,
         campaign: row.campaign?.name,
@@ -257,7 +665,7 @@ export const googleAdsTools = {
         }
       }
 
-      const results = await customer.query(gaql);
+      const results = await queryAccount(gaql);
       return results;
     },
   },
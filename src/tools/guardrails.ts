@@ -0,0 +1,360 @@
+/**
+ * Spend Guardrails
+ *
+ * Business limits that every Google Ads mutation is checked against
+ * before it is sent, whatever the model asked for. Rules live in a
+ * declarative JSON policy file (guardrails.json by default):
+ *
+ *   {
+ *     "rules": [
+ *       { "id": "daily-budget-change", "type": "max_budget_change_percent", "percent": 30 },
+ *       { "id": "account-cap", "type": "max_total_daily_budget", "amount": 400 }
+ *     ]
+ *   }
+ *
+ * Blocked operations come back with the rule they broke so the agent
+ * (and the person reading its output) can see why.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+import { env } from '../config/index.js';
+import { operationResourceName } from './change-journal.js';
+
+// ============================================================
+// POLICY SCHEMA
+// ============================================================
+
+const ruleBase = {
+  id: z.string().min(1),
+  description: z.string().optional(),
+};
+
+const ruleSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...ruleBase,
+    type: z.literal('max_budget_change_percent'),
+    /** Largest allowed increase or decrease of a single budget, in percent */
+    percent: z.number().positive(),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal('max_total_daily_budget'),
+    /** Cap on the summed daily budgets of enabled campaigns, in account currency */
+    amount: z.number().positive(),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal('max_campaign_daily_budget'),
+    /** Cap on any single campaign budget, in account currency */
+    amount: z.number().positive(),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal('no_pause_with_recent_conversions'),
+    /** Campaigns with more conversions than this may not be paused or removed */
+    maxConversions: z.number().min(0),
+    dateRange: z.string().default('LAST_7_DAYS'),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal('blocked_negative_match_types'),
+    matchTypes: z.array(z.enum(['EXACT', 'PHRASE', 'BROAD'])).min(1),
+  }),
+]);
+
+const policySchema = z.object({
+  rules: z.array(ruleSchema),
+});
+
+export type GuardrailRule = z.infer<typeof ruleSchema>;
+export type GuardrailPolicy = z.infer<typeof policySchema>;
+
+export interface GuardrailViolation {
+  ruleId: string;
+  ruleType: GuardrailRule['type'];
+  /** Index into the operations array (undefined for account-wide rules) */
+  operationIndex?: number;
+  message: string;
+}
+
+/**
+ * Read-only GAQL access used to look up current account state
+ */
+export type AccountReader = (gaql: string, customerId: string) => Promise<any[]>;
+
+/**
+ * Value a field had at the start of the day, if it has changed today
+ * (lets daily limits see through several smaller changes)
+ */
+export type DayStartLookup = (resourceName: string, field: string) => any;
+
+// ============================================================
+// POLICY LOADING
+// ============================================================
+
+let cachedPolicy: GuardrailPolicy | null = null;
+
+/**
+ * Load and validate the policy file. A missing file means no rules;
+ * an invalid file is an error (we never silently drop guardrails).
+ */
+export function loadGuardrailPolicy(path: string = env.PPC_AGENT_GUARDRAILS_FILE): GuardrailPolicy {
+  if (!existsSync(path)) {
+    console.warn(`⚠️  No guardrail policy found at ${path} - mutations are unrestricted`);
+    return { rules: [] };
+  }
+
+  const parsed = policySchema.safeParse(JSON.parse(readFileSync(path, 'utf-8')));
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid guardrail policy ${path}: ${problems}`);
+  }
+  return parsed.data;
+}
+
+export function getGuardrailPolicy(): GuardrailPolicy {
+  if (!cachedPolicy) {
+    cachedPolicy = loadGuardrailPolicy();
+  }
+  return cachedPolicy;
+}
+
+// ============================================================
+// EVALUATION
+// ============================================================
+
+const CAMPAIGN_STATUS: Record<number, string> = { 2: 'ENABLED', 3: 'PAUSED', 4: 'REMOVED' };
+const MATCH_TYPE: Record<number, string> = { 2: 'EXACT', 3: 'PHRASE', 4: 'BROAD' };
+
+function enumName(value: any, names: Record<number, string>): string | undefined {
+  return typeof value === 'number' ? names[value] : value;
+}
+
+function lastSegment(resourceName: string): string {
+  return resourceName.split('/').pop() || '';
+}
+
+function dollars(micros: number): string {
+  return `$${(micros / 1_000_000).toFixed(2)}`;
+}
+
+function label(rule: GuardrailRule): string {
+  return rule.description ? `${rule.id} (${rule.description})` : rule.id;
+}
+
+/**
+ * Check operations against the policy.
+ *
+ * @returns Every rule violation found (empty when the batch is allowed)
+ */
+export async function evaluateGuardrails(
+  operations: any[],
+  customerId: string,
+  policy: GuardrailPolicy,
+  readAccount: AccountReader,
+  dayStartValue: DayStartLookup = () => undefined
+): Promise<GuardrailViolation[]> {
+  const violations: GuardrailViolation[] = [];
+  if (policy.rules.length === 0) {
+    return violations;
+  }
+
+  const budgetUpdates = operations
+    .map((op, index) => ({ op, index }))
+    .filter(({ op }) => op.entity === 'campaign_budget' && op.operation === 'update' && op.resource?.amount_micros !== undefined);
+
+  // Current budgets, loaded on first use by the change-percent rule
+  let currentBudgets: Map<string, number> | null = null;
+  const loadCurrentBudgets = async () => {
+    if (!currentBudgets) {
+      currentBudgets = new Map();
+      const ids = budgetUpdates.map(({ op }) => lastSegment(op.resource.resource_name));
+      if (ids.length > 0) {
+        const rows = await readAccount(
+          `SELECT campaign_budget.resource_name, campaign_budget.amount_micros FROM campaign_budget WHERE campaign_budget.id IN (${ids.join(', ')})`,
+          customerId
+        );
+        for (const row of rows) {
+          currentBudgets.set(row.campaign_budget.resource_name, Number(row.campaign_budget.amount_micros));
+        }
+      }
+    }
+    return currentBudgets;
+  };
+
+  for (const rule of policy.rules) {
+    switch (rule.type) {
+      case 'max_budget_change_percent': {
+        const budgets = await loadCurrentBudgets();
+        for (const { op, index } of budgetUpdates) {
+          const dayStart = dayStartValue(op.resource.resource_name, 'amount_micros');
+          const baseline = dayStart !== undefined ? Number(dayStart) : budgets.get(op.resource.resource_name);
+          if (!baseline) continue;
+          const proposed = Number(op.resource.amount_micros);
+          const changePercent = ((proposed - baseline) / baseline) * 100;
+          if (Math.abs(changePercent) > rule.percent) {
+            violations.push({
+              ruleId: rule.id,
+              ruleType: rule.type,
+              operationIndex: index,
+              message: `Budget ${op.resource.resource_name} would change ${changePercent > 0 ? '+' : ''}${changePercent.toFixed(1)}% ` +
+                `${dayStart !== undefined ? 'since the start of today ' : ''}(${dollars(baseline)} → ${dollars(proposed)}); ` +
+                `${label(rule)} allows at most ±${rule.percent}%`,
+            });
+          }
+        }
+        break;
+      }
+
+      case 'max_campaign_daily_budget': {
+        const cap = rule.amount * 1_000_000;
+        operations.forEach((op, index) => {
+          if (op.entity !== 'campaign_budget' || op.operation === 'remove') return;
+          const amount = Number(op.resource?.amount_micros);
+          if (amount > cap) {
+            violations.push({
+              ruleId: rule.id,
+              ruleType: rule.type,
+              operationIndex: index,
+              message: `Budget ${op.resource.name || op.resource.resource_name} of ${dollars(amount)}/day exceeds ${label(rule)} cap of $${rule.amount}/day`,
+            });
+          }
+        });
+        break;
+      }
+
+      case 'max_total_daily_budget': {
+        // Paused campaigns are loaded too - enabling one adds its budget
+        const rows = await readAccount(
+          `SELECT campaign.resource_name, campaign.status, campaign_budget.resource_name, campaign_budget.amount_micros FROM campaign WHERE campaign.status != 'REMOVED'`,
+          customerId
+        );
+        const amounts = new Map<string, number>();
+        const campaignBudgets = new Map<string, string>();
+        const enabled = new Set<string>();
+        for (const row of rows) {
+          amounts.set(row.campaign_budget.resource_name, Number(row.campaign_budget.amount_micros));
+          campaignBudgets.set(row.campaign.resource_name, row.campaign_budget.resource_name);
+          if (enumName(row.campaign.status, CAMPAIGN_STATUS) === 'ENABLED') {
+            enabled.add(row.campaign.resource_name);
+          }
+        }
+        // New budgets count as if their campaigns will be enabled
+        const newBudgets = new Map<string, number>();
+        // Shared budgets count once
+        const total = () => {
+          const budgets = new Set([...enabled].map(c => campaignBudgets.get(c)!));
+          for (const budget of newBudgets.keys()) budgets.add(budget);
+          return [...budgets].reduce((sum, b) => sum + (newBudgets.get(b) ?? amounts.get(b) ?? 0), 0);
+        };
+        const before = total();
+
+        for (const op of operations) {
+          if (op.entity === 'campaign_budget') {
+            if (op.operation === 'update' && op.resource?.amount_micros !== undefined && amounts.has(op.resource.resource_name)) {
+              amounts.set(op.resource.resource_name, Number(op.resource.amount_micros));
+            }
+            if (op.operation === 'create') {
+              newBudgets.set(op.resource.resource_name || `new-${newBudgets.size}`, Number(op.resource.amount_micros) || 0);
+            }
+          }
+
+          if (op.entity === 'campaign') {
+            const campaign = operationResourceName(op) || '';
+            if (!campaignBudgets.has(campaign)) continue;
+            if (op.operation === 'remove') {
+              enabled.delete(campaign);
+              continue;
+            }
+            if (op.operation !== 'update') continue;
+            if (op.resource.campaign_budget) {
+              campaignBudgets.set(campaign, op.resource.campaign_budget);
+            }
+            const status = enumName(op.resource.status, CAMPAIGN_STATUS);
+            if (status === 'ENABLED') enabled.add(campaign);
+            if (status === 'PAUSED' || status === 'REMOVED') enabled.delete(campaign);
+          }
+        }
+        const after = total();
+
+        if (after > rule.amount * 1_000_000 && after > before) {
+          violations.push({
+            ruleId: rule.id,
+            ruleType: rule.type,
+            message: `Total daily budget would be ${dollars(after)} (currently ${dollars(before)}); ${label(rule)} caps the account at $${rule.amount}/day`,
+          });
+        }
+        break;
+      }
+
+      case 'no_pause_with_recent_conversions': {
+        const stops = operations
+          .map((op, index) => ({ op, index }))
+          .filter(({ op }) => op.entity === 'campaign' && (
+            op.operation === 'remove' ||
+            (op.operation === 'update' && ['PAUSED', 'REMOVED'].includes(enumName(op.resource?.status, CAMPAIGN_STATUS) || ''))
+          ));
+        if (stops.length === 0) break;
+
+        const ids = stops.map(({ op }) => lastSegment(operationResourceName(op) || ''));
+        const rows = await readAccount(
+          `SELECT campaign.id, campaign.name, metrics.conversions FROM campaign WHERE campaign.id IN (${ids.join(', ')}) AND segments.date DURING ${rule.dateRange}`,
+          customerId
+        );
+        const conversions = new Map<string, { name: string; conversions: number }>();
+        for (const row of rows) {
+          const id = String(row.campaign.id);
+          const entry = conversions.get(id) || { name: row.campaign.name, conversions: 0 };
+          entry.conversions += Number(row.metrics?.conversions || 0);
+          conversions.set(id, entry);
+        }
+
+        stops.forEach(({ index }, i) => {
+          const entry = conversions.get(ids[i]);
+          if (entry && entry.conversions > rule.maxConversions) {
+            violations.push({
+              ruleId: rule.id,
+              ruleType: rule.type,
+              operationIndex: index,
+              message: `Campaign "${entry.name}" had ${entry.conversions} conversions (${rule.dateRange}); ` +
+                `${label(rule)} forbids pausing campaigns with more than ${rule.maxConversions}`,
+            });
+          }
+        });
+        break;
+      }
+
+      case 'blocked_negative_match_types': {
+        operations.forEach((op, index) => {
+          const isCriterion = op.entity === 'campaign_criterion' || op.entity === 'ad_group_criterion' || op.entity === 'shared_criterion';
+          if (!isCriterion || op.operation !== 'create' || !op.resource?.keyword) return;
+          // Shared set criteria are always negatives
+          if (op.entity !== 'shared_criterion' && op.resource.negative !== true) return;
+
+          const matchType = enumName(op.resource.keyword.match_type, MATCH_TYPE);
+          if (matchType && rule.matchTypes.includes(matchType as any)) {
+            violations.push({
+              ruleId: rule.id,
+              ruleType: rule.type,
+              operationIndex: index,
+              message: `Negative keyword "${op.resource.keyword.text}" uses ${matchType} match, which ${label(rule)} does not allow`,
+            });
+          }
+        });
+        break;
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Human-readable summary of violations for error messages
+ */
+export function formatViolations(violations: GuardrailViolation[]): string {
+  return violations
+    .map(v => `• [${v.ruleId}]${v.operationIndex !== undefined ? ` operation #${v.operationIndex}` : ''}: ${v.message}`)
+    .join('\n');
+}
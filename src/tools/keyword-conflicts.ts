@@ -0,0 +1,249 @@
+/**
+ * Keyword Conflicts
+ *
+ * Finds keywords that compete with each other: the same keyword in two ad
+ * groups, close variants (plurals, word order, stop words) under different
+ * match types, broader keywords that cover another ad group's queries, and
+ * negatives that would block our own positive keywords.
+ *
+ * Keywords are compared within a campaign spec and against the live
+ * account keywords from get_keyword_performance. Google treats plurals,
+ * reordered words and function words as close variants, so two keywords
+ * with the same normalized form bid in the same auctions.
+ */
+
+import { enums } from 'google-ads-api';
+import { googleAdsTools } from './google-ads.js';
+import { negativeBlocks, type NegativeKeywordSpec } from './negative-keywords.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type MatchType = 'EXACT' | 'PHRASE' | 'BROAD';
+
+export interface KeywordRef {
+  text: string;
+  matchType: MatchType;
+  campaign?: string;
+  campaignId?: string;
+  adGroup?: string;
+  /** Where the keyword came from */
+  source: 'spec' | 'account' | 'negative';
+}
+
+export interface KeywordConflict {
+  /**
+   * duplicate - same normalized keyword and match type
+   * overlap   - same normalized keyword, different match type
+   * contains  - a phrase/broad keyword that also matches the other's searches
+   * blocked   - a negative that blocks the keyword
+   */
+  type: 'duplicate' | 'overlap' | 'contains' | 'blocked';
+  severity: 'high' | 'medium' | 'low';
+  keyword: KeywordRef;
+  /** The competing keyword, or the blocking negative */
+  other: KeywordRef;
+  message: string;
+}
+
+// ============================================================
+// NORMALIZATION
+// ============================================================
+
+/**
+ * Function words Google ignores when matching close variants
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'for', 'in', 'on', 'at', 'to', 'with', 'by', 'from',
+]);
+
+function singularize(word: string): string {
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (/(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Keyword words in order: lowercase, no match type notation or punctuation,
+ * no stop words, singular
+ */
+export function keywordWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/'/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(singularize);
+}
+
+/**
+ * Order-independent form of a keyword - close variants normalize the same:
+ * "Patio Pavers" / "paver for patio" → "patio paver"
+ */
+export function normalizeKeyword(text: string): string {
+  return [...new Set(keywordWords(text))].sort().join(' ');
+}
+
+function formatKeyword(keyword: KeywordRef): string {
+  const text = keyword.matchType === 'EXACT'
+    ? `[${keyword.text}]`
+    : keyword.matchType === 'PHRASE' ? `"${keyword.text}"` : keyword.text;
+  const where = [keyword.campaign, keyword.adGroup].filter(Boolean).join(' › ');
+  return where ? `${text} (${where})` : text;
+}
+
+// ============================================================
+// ANALYSIS
+// ============================================================
+
+/** Whether `words` appear in `within` as a contiguous run */
+function containsPhrase(within: string[], words: string[]): boolean {
+  return within.some((_, start) => words.every((word, offset) => within[start + offset] === word));
+}
+
+/**
+ * Whether a phrase or broad keyword also matches the other keyword's searches
+ */
+function covers(broader: KeywordRef, narrower: KeywordRef): boolean {
+  const broaderWords = keywordWords(broader.text);
+  const narrowerWords = keywordWords(narrower.text);
+  if (broaderWords.length === 0 || broaderWords.length >= narrowerWords.length) return false;
+
+  switch (broader.matchType) {
+    case 'PHRASE':
+      return containsPhrase(narrowerWords, broaderWords);
+    case 'BROAD':
+      return broaderWords.every(word => narrowerWords.includes(word));
+    case 'EXACT':
+      return false;
+  }
+}
+
+function sameAdGroup(a: KeywordRef, b: KeywordRef): boolean {
+  return a.source === b.source && a.campaign === b.campaign && a.adGroup === b.adGroup;
+}
+
+function compare(keyword: KeywordRef, other: KeywordRef): KeywordConflict | null {
+  const inAccount = other.source === 'account';
+  const where = inAccount ? 'the live account' : 'another ad group';
+
+  if (normalizeKeyword(keyword.text) === normalizeKeyword(other.text)) {
+    if (keyword.matchType === other.matchType) {
+      return {
+        type: 'duplicate',
+        severity: 'high',
+        keyword,
+        other,
+        message: `${formatKeyword(keyword)} duplicates ${formatKeyword(other)} in ${where}`,
+      };
+    }
+    // Layering match types inside one ad group is deliberate
+    if (sameAdGroup(keyword, other)) return null;
+    return {
+      type: 'overlap',
+      severity: 'medium',
+      keyword,
+      other,
+      message: `${formatKeyword(keyword)} and ${formatKeyword(other)} in ${where} are close variants - they compete for the same searches`,
+    };
+  }
+
+  if (sameAdGroup(keyword, other)) return null;
+  const [broader, narrower] = covers(keyword, other) ? [keyword, other] : covers(other, keyword) ? [other, keyword] : [];
+  if (!broader || !narrower) return null;
+  return {
+    type: 'contains',
+    severity: 'low',
+    keyword,
+    other,
+    message: `${formatKeyword(broader)} also matches searches for ${formatKeyword(narrower)}`,
+  };
+}
+
+/**
+ * Find duplicates and overlaps among `keywords`, and between them and
+ * `accountKeywords` (live keywords, not compared with each other)
+ */
+export function findKeywordConflicts(
+  keywords: KeywordRef[],
+  accountKeywords: KeywordRef[] = []
+): KeywordConflict[] {
+  const conflicts: KeywordConflict[] = [];
+
+  keywords.forEach((keyword, index) => {
+    for (const other of keywords.slice(index + 1)) {
+      const conflict = compare(keyword, other);
+      if (conflict) conflicts.push(conflict);
+    }
+    for (const other of accountKeywords) {
+      const conflict = compare(keyword, other);
+      if (conflict) conflicts.push(conflict);
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Find keywords a set of new negatives would block
+ *
+ * Negatives apply where they're added - pass only the keywords they'd
+ * cover (e.g. the campaign's own keywords for campaign negatives).
+ */
+export function findBlockedKeywords(
+  negatives: NegativeKeywordSpec[],
+  keywords: KeywordRef[]
+): KeywordConflict[] {
+  const conflicts: KeywordConflict[] = [];
+
+  for (const negative of negatives) {
+    const other: KeywordRef = { ...negative, source: 'negative' };
+    for (const keyword of keywords) {
+      if (!negativeBlocks(negative, keyword.text)) continue;
+      conflicts.push({
+        type: 'blocked',
+        severity: 'high',
+        keyword,
+        other,
+        message: `Negative ${formatKeyword(other)} would block ${formatKeyword(keyword)}`,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * One line per conflict, most severe first
+ */
+export function describeConflicts(conflicts: KeywordConflict[]): string[] {
+  const order = { high: 0, medium: 1, low: 2 };
+  return [...conflicts]
+    .sort((a, b) => order[a.severity] - order[b.severity])
+    .map(conflict => `[${conflict.severity}] ${conflict.message}`);
+}
+
+// ============================================================
+// ACCOUNT KEYWORDS
+// ============================================================
+
+/**
+ * Live keywords with impressions in the last 30 days (get_keyword_performance)
+ */
+export async function fetchAccountKeywords(limit = 1000): Promise<KeywordRef[]> {
+  const rows = await googleAdsTools.get_keyword_performance.handler({ date_range: 'LAST_30_DAYS', limit });
+  return rows
+    .filter((row: any) => row.keyword)
+    .map((row: any) => ({
+      text: row.keyword,
+      matchType: (typeof row.match_type === 'number' ? enums.KeywordMatchType[row.match_type] : row.match_type) as MatchType,
+      campaign: row.campaign,
+      campaignId: row.campaign_id,
+      adGroup: row.ad_group,
+      source: 'account' as const,
+    }));
+}
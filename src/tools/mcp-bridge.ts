@@ -6,10 +6,36 @@
  * 
  * WHY: We KNOW this MCP works. Rather than reimplementing the Google Ads
  * integration, we leverage the working MCP as our tool layer.
+ *
+ * The subprocess is supervised: if it exits, in-flight requests are
+ * rejected at once and it is restarted with backoff; a periodic ping
+ * kills and restarts a server that stops answering. Calls interrupted by
+ * a restart are retried once - except live mutations, which may already
+ * have been applied.
+ *
+ * One bridge serves the whole process. Callers borrow it with
+ * acquireMCP()/withMCP() instead of starting and stopping their own; an
+ * idle bridge doesn't keep Node running, and it is stopped on exit.
+ *
+ * Tool calls go through the active cassette; a replaying bridge never
+ * starts the server.
  */
 
 import { spawn, ChildProcess } from 'child_process';
+import { extname } from 'path';
+import { fileURLToPath } from 'url';
 import { env } from '../config/index.js';
+import { gateLiveMutation, getMutationContext } from './approval.js';
+import { cassetteMode, throughCassette } from './cassette.js';
+import {
+  appendJournalEntry,
+  extractOperationResourceNames,
+  extractResourceNames,
+  getDayStartValue,
+  readPriorValues,
+} from './change-journal.js';
+import { evaluateGuardrails, formatViolations, getGuardrailPolicy } from './guardrails.js';
+import { queryAccount } from './google-ads.js';
 
 interface JsonRpcRequest {
   jsonrpc: '2.0';
@@ -25,6 +51,62 @@ interface JsonRpcResponse {
   error?: { code: number; message: string; data?: any };
 }
 
+export interface MCPBridgeOptions {
+  /** npm version of @channel47/google-ads-mcp to run with npx */
+  serverVersion?: string;
+  /** Local server binary (or .js / .ts entry point) to run instead of npx */
+  serverPath?: string;
+  /** Default timeout for each request */
+  requestTimeoutMs?: number;
+  /** How often to ping the server (0 disables) */
+  pingIntervalMs?: number;
+  /** How long a ping may go unanswered before the server is restarted */
+  pingTimeoutMs?: number;
+  /** Restarts allowed before giving up, reset by a successful call */
+  maxRestarts?: number;
+}
+
+export interface MCPCallOptions {
+  /** Overrides the bridge's request timeout */
+  timeoutMs?: number;
+  /** Retry once if the server restarts mid-call (default true) */
+  retry?: boolean;
+}
+
+/**
+ * The request never got an answer: the server exited, stopped responding
+ * or the bridge was stopped
+ */
+export class MCPConnectionError extends Error {
+  constructor(message: string, readonly reason: 'exited' | 'timeout' | 'stopped') {
+    super(message);
+    this.name = 'MCPConnectionError';
+  }
+}
+
+const SERVER_PACKAGE = '@channel47/google-ads-mcp';
+/** The in-repo fake server (src/fake-mcp-server.ts, or .js once built) */
+const FAKE_SERVER_PATH = fileURLToPath(
+  new URL(`../fake-mcp-server${extname(fileURLToPath(import.meta.url))}`, import.meta.url)
+);
+const PING_TIMEOUT_MS = 10000;
+const MAX_BACKOFF_MS = 30000;
+
+function serverCommand(options: Required<Pick<MCPBridgeOptions, 'serverVersion'>> & MCPBridgeOptions): {
+  command: string;
+  args: string[];
+} {
+  if (options.serverPath) {
+    if (/\.[cm]?ts$/.test(options.serverPath)) {
+      return { command: process.execPath, args: ['--import', 'tsx', options.serverPath] };
+    }
+    return /\.[cm]?js$/.test(options.serverPath)
+      ? { command: process.execPath, args: [options.serverPath] }
+      : { command: options.serverPath, args: [] };
+  }
+  return { command: 'npx', args: ['-y', `${SERVER_PACKAGE}@${options.serverVersion}`] };
+}
+
 export class MCPBridge {
   private process: ChildProcess | null = null;
   private requestId = 0;
@@ -35,14 +117,107 @@ export class MCPBridge {
   private buffer = '';
   private initialized = false;
 
+  private readonly options: Required<Omit<MCPBridgeOptions, 'serverPath'>> & Pick<MCPBridgeOptions, 'serverPath'>;
+  /** Settles when the current (re)start attempt does */
+  private ready: Promise<void> | null = null;
+  private connecting = false;
+  private stopped = false;
+  private restarts = 0;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private backoffTimer: NodeJS.Timeout | null = null;
+  private wakeBackoff: (() => void) | null = null;
+
+  constructor(options: MCPBridgeOptions = {}) {
+    this.options = {
+      serverVersion: options.serverVersion ?? env.GOOGLE_ADS_MCP_VERSION,
+      serverPath: options.serverPath ?? env.GOOGLE_ADS_MCP_PATH ?? (env.PPC_AGENT_OFFLINE ? FAKE_SERVER_PATH : undefined),
+      requestTimeoutMs: options.requestTimeoutMs ?? env.MCP_REQUEST_TIMEOUT_MS,
+      pingIntervalMs: options.pingIntervalMs ?? env.MCP_PING_INTERVAL_MS,
+      pingTimeoutMs: options.pingTimeoutMs ?? PING_TIMEOUT_MS,
+      maxRestarts: options.maxRestarts ?? env.MCP_MAX_RESTARTS,
+    };
+  }
+
   /**
    * Start the MCP subprocess
    */
   async start(): Promise<void> {
-    if (this.process) {
+    if (this.process || this.ready) {
       throw new Error('MCP already started');
     }
 
+    this.stopped = false;
+    this.restarts = 0;
+    if (cassetteMode() === 'replay') {
+      // Every tool call is answered from the cassette - no server needed
+      this.ready = Promise.resolve();
+      return;
+    }
+    this.ready = this.connect(false);
+    try {
+      await this.ready;
+    } catch (error) {
+      this.ready = null;
+      throw error;
+    }
+  }
+
+  // ============================================================
+  // SUPERVISION
+  // ============================================================
+
+  /**
+   * Launch the server, retrying with exponential backoff until it
+   * initializes or the restart budget runs out
+   */
+  private async connect(restart: boolean): Promise<void> {
+    this.connecting = true;
+    try {
+      for (let attempt = restart ? 1 : 0; ; attempt++) {
+        if (attempt > 0) {
+          this.restarts++;
+          if (this.restarts > this.options.maxRestarts) {
+            throw new Error(`MCP server gave up after ${this.options.maxRestarts} restarts`);
+          }
+          const delay = Math.min(1000 * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+          console.log(`[MCP] Restarting in ${delay}ms (restart ${this.restarts}/${this.options.maxRestarts})`);
+          await this.backoff(delay);
+        }
+        if (this.stopped) {
+          throw new MCPConnectionError('MCP stopped', 'stopped');
+        }
+
+        try {
+          await this.launch();
+          this.startPing();
+          return;
+        } catch (error) {
+          if (this.stopped) throw error;
+          console.error(`[MCP] Start failed: ${error instanceof Error ? error.message : error}`);
+          this.process?.kill('SIGKILL');
+          this.process = null;
+        }
+      }
+    } finally {
+      this.connecting = false;
+    }
+  }
+
+  private backoff(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wakeBackoff = resolve;
+      this.backoffTimer = setTimeout(() => {
+        this.backoffTimer = null;
+        this.wakeBackoff = null;
+        resolve();
+      }, ms);
+    });
+  }
+
+  /**
+   * Spawn the subprocess and run the initialize handshake
+   */
+  private async launch(): Promise<void> {
     const mcpEnv = {
       ...process.env,
       GOOGLE_ADS_DEVELOPER_TOKEN: env.GOOGLE_ADS_DEVELOPER_TOKEN,
@@ -53,36 +228,116 @@ export class MCPBridge {
       GOOGLE_ADS_DEFAULT_CUSTOMER_ID: env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID,
     };
 
-    this.process = spawn('npx', ['-y', '@channel47/google-ads-mcp@latest'], {
+    const { command, args } = serverCommand(this.options);
+    const child = spawn(command, args, {
       env: mcpEnv,
       stdio: ['pipe', 'pipe', 'pipe'],
     });
+    this.process = child;
+    this.buffer = '';
 
     // Handle stdout (JSON-RPC responses)
-    this.process.stdout?.on('data', (data: Buffer) => {
+    child.stdout?.on('data', (data: Buffer) => {
       this.buffer += data.toString();
       this.processBuffer();
     });
 
     // Handle stderr (logging, can be ignored or logged)
-    this.process.stderr?.on('data', (data: Buffer) => {
+    child.stderr?.on('data', (data: Buffer) => {
       const msg = data.toString().trim();
       if (msg && !msg.includes('started')) {
         console.error('[MCP stderr]', msg);
       }
     });
 
-    // Handle process exit
-    this.process.on('exit', (code) => {
-      console.log(`[MCP] Process exited with code ${code}`);
-      this.process = null;
-      this.initialized = false;
-    });
+    // Writes to a dead process fail here; the exit handler deals with it
+    child.stdin?.on('error', () => {});
+
+    // Handle spawn failures (e.g. a bad GOOGLE_ADS_MCP_PATH) and process exit
+    child.on('error', (error) => this.handleExit(child, `failed: ${error.message}`));
+    child.on('exit', (code, signal) => this.handleExit(child, `exited with ${signal || `code ${code}`}`));
 
     // Initialize the MCP
     await this.initialize();
   }
 
+  /**
+   * Fail everything in flight and, unless we're stopping, restart
+   */
+  private handleExit(child: ChildProcess, reason: string): void {
+    if (this.process !== child) return;
+
+    console.log(`[MCP] Process ${reason}`);
+    this.process = null;
+    this.initialized = false;
+    this.stopPing();
+
+    // Set up the restart before rejecting so retried calls wait for it
+    if (!this.stopped && !this.connecting) {
+      this.ready = this.connect(true);
+      this.ready.catch((error) => console.error(`[MCP] ${error.message}`));
+    }
+    this.rejectPending(new MCPConnectionError(`MCP process ${reason}`, 'exited'));
+  }
+
+  private rejectPending(error: Error): void {
+    const pending = [...this.pendingRequests.values()];
+    this.pendingRequests.clear();
+    for (const request of pending) {
+      request.reject(error);
+    }
+  }
+
+  /**
+   * Ping the server on an interval; kill it if it stops answering so the
+   * exit handler restarts it
+   */
+  private startPing(): void {
+    this.stopPing();
+    if (this.options.pingIntervalMs <= 0) return;
+
+    this.pingTimer = setInterval(() => {
+      const child = this.process;
+      if (!child || !this.initialized) return;
+      this.sendRequest('ping', undefined, this.options.pingTimeoutMs).catch((error) => {
+        // Only silence matters - an error response still means it's alive
+        if (error instanceof MCPConnectionError && error.reason === 'timeout' && this.process === child) {
+          console.error('[MCP] Liveness ping timed out - restarting server');
+          child.kill('SIGKILL');
+        }
+      });
+    }, this.options.pingIntervalMs);
+    // Don't keep the process alive just to ping
+    this.pingTimer.unref();
+  }
+
+  /**
+   * Keep Node running only while a request is in flight or the server is
+   * starting - an idle bridge shouldn't stop a finished script exiting
+   */
+  private holdOpen(): void {
+    const child = this.process;
+    if (!child) return;
+
+    const busy = this.pendingRequests.size > 0 || !this.initialized;
+    const handles = [child, child.stdin, child.stdout, child.stderr] as Array<{ ref?(): void; unref?(): void } | null>;
+    for (const handle of handles) {
+      if (busy) handle?.ref?.();
+      else handle?.unref?.();
+    }
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  // ============================================================
+  // JSON-RPC
+  // ============================================================
+
   /**
    * Process buffered stdout data looking for complete JSON-RPC messages
    */
@@ -115,9 +370,13 @@ export class MCPBridge {
   /**
    * Send a JSON-RPC request and wait for response
    */
-  private async sendRequest(method: string, params?: any): Promise<any> {
+  private async sendRequest(
+    method: string,
+    params?: any,
+    timeoutMs: number = this.options.requestTimeoutMs
+  ): Promise<any> {
     if (!this.process?.stdin) {
-      throw new Error('MCP not started');
+      throw new MCPConnectionError('MCP not started', 'exited');
     }
 
     const id = ++this.requestId;
@@ -129,27 +388,26 @@ export class MCPBridge {
     };
 
     return new Promise((resolve, reject) => {
-      this.pendingRequests.set(id, { resolve, reject });
-
-      // Set timeout
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(id);
-        reject(new Error(`Request ${method} timed out`));
-      }, 60000); // 60 second timeout
+        this.holdOpen();
+        reject(new MCPConnectionError(`Request ${method} timed out after ${timeoutMs}ms`, 'timeout'));
+      }, timeoutMs);
 
       // Clear timeout on resolution
-      const originalResolve = resolve;
-      const originalReject = reject;
       this.pendingRequests.set(id, {
         resolve: (value) => {
           clearTimeout(timeout);
-          originalResolve(value);
+          this.holdOpen();
+          resolve(value);
         },
         reject: (error) => {
           clearTimeout(timeout);
-          originalReject(error);
+          this.holdOpen();
+          reject(error);
         },
       });
+      this.holdOpen();
 
       this.process!.stdin!.write(JSON.stringify(request) + '\n');
     });
@@ -166,21 +424,42 @@ export class MCPBridge {
     });
 
     this.initialized = true;
+    this.holdOpen();
     console.log('[MCP] Initialized:', result.serverInfo?.name);
   }
 
   /**
    * Call an MCP tool
+   *
+   * Waits out a restart in progress. If the server exits mid-call the
+   * call is retried once after the restart, unless `retry` is false.
    */
-  async callTool(name: string, args: Record<string, any> = {}): Promise<any> {
-    if (!this.initialized) {
+  async callTool(name: string, args: Record<string, any> = {}, options: MCPCallOptions = {}): Promise<any> {
+    const { retry = true } = options;
+    return throughCassette('mcp', { tool: name, arguments: args }, async () => {
+      try {
+        return await this.callToolOnce(name, args, options.timeoutMs);
+      } catch (error) {
+        if (!retry || this.stopped || !(error instanceof MCPConnectionError) || error.reason !== 'exited') {
+          throw error;
+        }
+        console.log(`[MCP] ${name} interrupted by a server restart - retrying once`);
+        return this.callToolOnce(name, args, options.timeoutMs);
+      }
+    });
+  }
+
+  private async callToolOnce(name: string, args: Record<string, any>, timeoutMs?: number): Promise<any> {
+    if (this.stopped || !this.ready) {
       throw new Error('MCP not initialized');
     }
+    await this.ready;
 
     const result = await this.sendRequest('tools/call', {
       name,
       arguments: args,
-    });
+    }, timeoutMs);
+    this.restarts = 0;
 
     // Parse the result content
     if (result?.content?.[0]?.text) {
@@ -198,11 +477,21 @@ export class MCPBridge {
    * Stop the MCP subprocess
    */
   async stop(): Promise<void> {
-    if (this.process) {
-      this.process.kill();
-      this.process = null;
-      this.initialized = false;
+    this.stopped = true;
+    this.ready = null;
+    this.stopPing();
+    if (this.backoffTimer) {
+      clearTimeout(this.backoffTimer);
+      this.backoffTimer = null;
     }
+    this.wakeBackoff?.();
+    this.wakeBackoff = null;
+
+    const child = this.process;
+    this.process = null;
+    this.initialized = false;
+    this.rejectPending(new MCPConnectionError('MCP stopped', 'stopped'));
+    child?.kill();
   }
 
   // ============================================================
@@ -219,11 +508,11 @@ export class MCPBridge {
   /**
    * Execute a GAQL query
    */
-  async query(gaql: string, customerId?: string): Promise<any> {
+  async query(gaql: string, customerId?: string, options: MCPCallOptions = {}): Promise<any> {
     return this.callTool('query', {
       query: gaql,
       customer_id: customerId || env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID,
-    });
+    }, options);
   }
 
   /**
@@ -231,6 +520,12 @@ export class MCPBridge {
    * 
    * @param operations - Array of Google Ads API operations
    * @param dryRun - If true, validates but doesn't execute (SAFE MODE)
+   *
+   * Every batch is checked against the guardrail policy first; blocked
+   * batches are never sent. Live calls made during an agent run then go
+   * through the approval gate: they are dry-run, shown to a human and
+   * only sent once approved. Live calls are recorded in the change
+   * journal (with the values they replaced) so they can be rolled back.
    */
   async mutate(
     operations: any[],
@@ -238,33 +533,201 @@ export class MCPBridge {
       customerId?: string;
       dryRun?: boolean;
       partialFailure?: boolean;
+      /** Journal id of the change this mutation undoes */
+      rollbackOf?: string;
     } = {}
   ): Promise<any> {
-    const { customerId, dryRun = true, partialFailure = false } = options;
+    const { dryRun = true, partialFailure = false } = options;
+    const customerId = options.customerId || env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID;
+
+    const violations = await evaluateGuardrails(
+      operations,
+      customerId,
+      getGuardrailPolicy(),
+      queryAccount,
+      getDayStartValue
+    );
+    if (violations.length > 0) {
+      return {
+        success: false,
+        blocked: true,
+        error: `Blocked by guardrail policy:\n${formatViolations(violations)}`,
+        violations,
+      };
+    }
+
+    if (!dryRun) {
+      const decision = await gateLiveMutation(operations, customerId, (ops) =>
+        this.callTool('mutate', {
+          customer_id: customerId,
+          operations: ops,
+          dry_run: true,
+          partial_failure: partialFailure,
+        })
+      );
+
+      if (!decision.approved) {
+        return {
+          success: false,
+          rejected: true,
+          error: `Live change not applied: ${decision.reason || 'rejected'}${decision.approver ? ` (${decision.approver})` : ''}`,
+          approvalId: decision.request?.id,
+        };
+      }
+
+      const priorValues = await readPriorValues(operations, customerId, queryAccount);
+      // Not retried: a server that died mid-call may already have applied it
+      const result = await this.callTool('mutate', {
+        customer_id: customerId,
+        operations,
+        dry_run: false,
+        partial_failure: partialFailure,
+      }, { retry: false }).catch((error) => {
+        if (!(error instanceof MCPConnectionError)) throw error;
+        return {
+          success: false,
+          error: `${error.message} - the change may or may not have been applied, check the account before retrying`,
+        };
+      });
+
+      const context = getMutationContext();
+      const entry = appendJournalEntry({
+        customerId,
+        operations,
+        priorValues,
+        resourceNames: extractResourceNames(result),
+        operationResourceNames: extractOperationResourceNames(operations, result),
+        success: Boolean(result?.success),
+        error: result?.error,
+        userRequest: context?.userRequest,
+        tool: context?.tool,
+        rollbackOf: options.rollbackOf,
+      });
+      console.log(`📒 Change ${entry.changeId} recorded (undo with: npm run rollback ${entry.changeId})`);
+
+      return typeof result === 'object' && result !== null
+        ? { ...result, changeId: entry.changeId }
+        : { success: false, error: String(result), changeId: entry.changeId };
+    }
 
     return this.callTool('mutate', {
-      customer_id: customerId || env.GOOGLE_ADS_DEFAULT_CUSTOMER_ID,
+      customer_id: customerId,
       operations,
-      dry_run: dryRun,
+      dry_run: true,
       partial_failure: partialFailure,
     });
   }
 }
 
+// ============================================================
+// SHARED BRIDGE
+// ============================================================
+
+export interface MCPLease {
+  bridge: MCPBridge;
+  /** Give the bridge back - it keeps running for the next caller */
+  release(): void;
+}
+
 // Singleton instance
-let mcpInstance: MCPBridge | null = null;
+let mcpInstance: Promise<MCPBridge> | null = null;
+let mcpBridge: MCPBridge | null = null;
+let activeLeases = 0;
+/** shutdownMCP() calls waiting for the last lease to be released */
+const drainWaiters: Array<() => void> = [];
+let exitHookInstalled = false;
 
+/**
+ * Stop the bridge when the process ends, including on Ctrl-C / SIGTERM so
+ * the server subprocess isn't orphaned
+ */
+function installExitHook(): void {
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+
+  // stop() kills the subprocess before its first await, so this runs in time
+  process.once('exit', () => {
+    void mcpBridge?.stop();
+  });
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      shutdownMCP({ force: true }).finally(() => process.kill(process.pid, signal));
+    });
+  }
+}
+
+/**
+ * The shared bridge, started on first use
+ *
+ * Prefer acquireMCP()/withMCP() - they keep shutdownMCP() from stopping
+ * the bridge while you're using it.
+ */
 export async function getMCP(): Promise<MCPBridge> {
   if (!mcpInstance) {
-    mcpInstance = new MCPBridge();
-    await mcpInstance.start();
+    installExitHook();
+    const bridge = new MCPBridge();
+    mcpBridge = bridge;
+    mcpInstance = bridge.start().then(() => bridge);
+    // A failed start shouldn't poison later calls
+    mcpInstance.catch(() => {
+      if (mcpBridge === bridge) {
+        mcpInstance = null;
+        mcpBridge = null;
+      }
+    });
   }
   return mcpInstance;
 }
 
-export async function shutdownMCP(): Promise<void> {
-  if (mcpInstance) {
-    await mcpInstance.stop();
-    mcpInstance = null;
+/**
+ * Borrow the shared bridge until release() is called
+ */
+export async function acquireMCP(): Promise<MCPLease> {
+  const bridge = await getMCP();
+  activeLeases++;
+
+  let released = false;
+  return {
+    bridge,
+    release: () => {
+      if (released) return;
+      released = true;
+      activeLeases--;
+      if (activeLeases === 0) {
+        for (const resolve of drainWaiters.splice(0)) resolve();
+      }
+    },
+  };
+}
+
+/**
+ * Run `fn` with the shared bridge, releasing it afterwards
+ */
+export async function withMCP<T>(fn: (mcp: MCPBridge) => Promise<T>): Promise<T> {
+  const lease = await acquireMCP();
+  try {
+    return await fn(lease.bridge);
+  } finally {
+    lease.release();
+  }
+}
+
+/**
+ * Stop the shared bridge once every lease has been released
+ *
+ * `force` stops it straight away, failing whatever is still in flight.
+ */
+export async function shutdownMCP(options: { force?: boolean } = {}): Promise<void> {
+  if (!options.force) {
+    while (activeLeases > 0) {
+      await new Promise<void>((resolve) => {
+        drainWaiters.push(resolve);
+      });
+    }
   }
+
+  const bridge = mcpBridge;
+  mcpInstance = null;
+  mcpBridge = null;
+  await bridge?.stop();
 }
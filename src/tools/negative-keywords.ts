@@ -0,0 +1,154 @@
+/**
+ * Negative Keyword Lists
+ *
+ * The negative keyword categories for the landscaping vertical, shared by
+ * the negative keyword agent (as analysis guidance) and the campaign
+ * builder (as the standard list every new campaign launches with).
+ *
+ * Only categories whose terms are wrong for any landscaping business
+ * (jobs, DIY, freebies) go in the standard list; competitors, locations
+ * and services depend on the campaign and are left to the agent.
+ */
+
+import { queryAccount } from './google-ads.js';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface NegativeKeywordSpec {
+  text: string;
+  matchType: 'EXACT' | 'PHRASE' | 'BROAD';
+}
+
+export interface NegativeKeywordCategory {
+  name: string;
+  /** Guidance shown to the negative keyword agent */
+  description: string;
+  /** Negatives added to every new campaign (empty = campaign-specific) */
+  standard: string[];
+}
+
+// ============================================================
+// CATEGORIES
+// ============================================================
+
+export const NEGATIVE_KEYWORD_CATEGORIES: NegativeKeywordCategory[] = [
+  {
+    name: 'Competitors',
+    description: 'Other landscape company names',
+    standard: [],
+  },
+  {
+    name: 'DIY',
+    description: '"how to", "tutorial", "DIY", "plans"',
+    standard: ['how to', 'tutorial', 'diy', 'do it yourself', 'plans', 'youtube', 'video'],
+  },
+  {
+    name: 'Jobs/Careers',
+    description: '"jobs", "salary", "hiring", "careers"',
+    standard: ['jobs', 'job', 'salary', 'hiring', 'careers', 'employment', 'internship', 'resume'],
+  },
+  {
+    name: 'Wrong Location',
+    description: 'Cities outside service area',
+    standard: [],
+  },
+  {
+    name: 'Wrong Intent',
+    description: '"free", "cheap", "pictures", "images"',
+    // Not plain "free" - it would block "free estimate" searches
+    standard: ['for free', 'free download', 'free software', 'pictures', 'images', 'clipart', 'wallpaper'],
+  },
+  {
+    name: 'B2B/Commercial',
+    description: '"commercial", "municipal" (if residential focused)',
+    standard: [],
+  },
+  {
+    name: 'Irrelevant Services',
+    description: 'Services not offered',
+    standard: [],
+  },
+];
+
+/** Name of the shared negative keyword list the campaign builder attaches */
+export const STANDARD_NEGATIVE_LIST_NAME = 'Standard Negatives - Landscaping';
+
+/**
+ * The standard vertical negatives, as phrase match
+ */
+export function standardNegativeKeywords(): NegativeKeywordSpec[] {
+  return NEGATIVE_KEYWORD_CATEGORIES.flatMap(category =>
+    category.standard.map(text => ({ text, matchType: 'PHRASE' as const }))
+  );
+}
+
+/**
+ * Category list for the negative keyword agent's prompt
+ */
+export function describeNegativeCategories(): string {
+  return NEGATIVE_KEYWORD_CATEGORIES
+    .map(category => `- **${category.name}**: ${category.description}`)
+    .join('\n');
+}
+
+// ============================================================
+// MATCHING
+// ============================================================
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Whether a negative would block a query (or keyword) with this text.
+ * Negatives don't match close variants, so this is a plain word match.
+ */
+export function negativeBlocks(negative: NegativeKeywordSpec, text: string): boolean {
+  const negativeWords = words(negative.text);
+  const textWords = words(text);
+  if (negativeWords.length === 0) return false;
+
+  switch (negative.matchType) {
+    case 'EXACT':
+      return negativeWords.join(' ') === textWords.join(' ');
+    case 'PHRASE':
+      return textWords.some((_, start) =>
+        negativeWords.every((word, offset) => textWords[start + offset] === word)
+      );
+    case 'BROAD':
+      return negativeWords.every(word => textWords.includes(word));
+  }
+}
+
+// ============================================================
+// SHARED SETS
+// ============================================================
+
+/**
+ * Look up enabled negative keyword lists by name
+ *
+ * @returns list name → shared set resource name
+ */
+export async function findNegativeKeywordLists(
+  names: string[],
+  customerId?: string
+): Promise<Record<string, string>> {
+  if (names.length === 0) return {};
+
+  const quoted = names.map(name => `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`);
+  const rows = await queryAccount(`
+    SELECT shared_set.resource_name, shared_set.name
+    FROM shared_set
+    WHERE shared_set.type = 'NEGATIVE_KEYWORDS'
+      AND shared_set.status = 'ENABLED'
+      AND shared_set.name IN (${quoted.join(', ')})
+  `, customerId);
+
+  const lists: Record<string, string> = {};
+  for (const row of rows) {
+    lists[row.shared_set.name] = row.shared_set.resource_name;
+  }
+  return lists;
+}
@@ -6,13 +6,42 @@
  * 
  * Usage: npm run webhook-server
  * Default port: 3847 (configurable via PORT env var)
+ *
+ * POST /stream runs a custom query and streams agent progress back as
+ * Server-Sent Events (one JSON AgentEvent per `data:` line).
+ *
+ * Live account changes wait for approval: pass `callback_url` to receive
+ * approval requests as webhooks (answer via POST /approvals/:id with
+ * `Authorization: Bearer $PPC_AGENT_APPROVAL_TOKEN`), or configure Slack
+ * to approve with buttons (POST /slack/interactions, signed requests only).
  */
 
 import 'dotenv/config';
 import http from 'http';
-import { workflows, runAgent } from './agents/orchestrator.js';
-import { createCampaign } from './agents/campaign-builder-agent.js';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { basename, join } from 'path';
+import { workflows, runAgent, streamAgent } from './agents/orchestrator.js';
+import { AgentSession } from './agents/session.js';
+import { createCampaign, designCampaign } from './agents/campaign-builder-agent.js';
+import {
+  applyCampaignSpecFile,
+  applyParsedCampaignSpec,
+  parseCampaignSpec,
+  saveCampaignSpecFile,
+  specFileName,
+  CAMPAIGN_SPEC_DIR,
+} from './agents/campaign-spec-files.js';
 import { sendSlackMessage } from './tools/notifications.js';
+import {
+  createSlackApprover,
+  createWebhookApprover,
+  denyAllApprover,
+  listPendingApprovals,
+  resolveApproval,
+  runWithMutationContext,
+  type Approver,
+} from './tools/approval.js';
+import { env } from './config/index.js';
 
 const PORT = process.env.PORT || 3847;
 
@@ -28,6 +57,23 @@ interface WebhookResponse {
   timestamp: string;
 }
 
+/**
+ * Pick how live changes get approved for a request:
+ * callback_url → webhook approver, Slack configured → Slack buttons,
+ * otherwise live changes are refused
+ */
+function approverFor(params: Record<string, any>): Approver {
+  if (params.callback_url) {
+    return createWebhookApprover(params.callback_url, {
+      decisionUrl: (id) => `${params.public_url || `http://localhost:${PORT}`}/approvals/${id}`,
+    });
+  }
+  if (env.SLACK_WEBHOOK_URL) {
+    return createSlackApprover();
+  }
+  return denyAllApprover;
+}
+
 /**
  * Route handler for different actions
  */
@@ -49,16 +95,58 @@ async function handleAction(action: string, params: Record<string, any> = {}): P
       if (!params.description) {
         throw new Error('Missing required param: description');
       }
-      return createCampaign(
-        params.description,
-        {
-          name: params.business_name || 'Stiltner Landscapes',
-          website: params.website || 'https://stiltnerlandscapes.com',
-          phone: params.phone,
-          services: params.services,
-        },
-        { dryRun: params.dry_run !== false }
+      return runWithMutationContext(
+        { approver: approverFor(params), tool: 'create-campaign', userRequest: params.description },
+        () => createCampaign(
+          params.description,
+          {
+            name: params.business_name || 'Stiltner Landscapes',
+            website: params.website || 'https://stiltnerlandscapes.com',
+            phone: params.phone,
+            services: params.services,
+          },
+          { dryRun: params.dry_run !== false }
+        )
+      );
+
+    case 'save-campaign-spec': {
+      if (!params.description) {
+        throw new Error('Missing required param: description');
+      }
+      const spec = await designCampaign(params.description, {
+        name: params.business_name || 'Stiltner Landscapes',
+        website: params.website || 'https://stiltnerlandscapes.com',
+        services: params.services,
+      });
+      const path = saveCampaignSpecFile(spec, join(CAMPAIGN_SPEC_DIR, params.file ? basename(params.file) : specFileName(spec.name)));
+      return { path, spec };
+    }
+
+    case 'apply-campaign-spec': {
+      // A file in campaigns/ (by name only) or an inline spec (object, YAML or JSON text)
+      if (!params.file && !params.spec) {
+        throw new Error('Missing required param: file or spec');
+      }
+      const dryRun = params.dry_run !== false;
+      return runWithMutationContext(
+        { approver: approverFor(params), tool: 'apply-campaign-spec', userRequest: `Apply spec ${params.file || 'from webhook'}` },
+        async () => {
+          if (params.file) {
+            return applyCampaignSpecFile(join(CAMPAIGN_SPEC_DIR, basename(params.file)), {
+              customerId: params.customer_id,
+              dryRun,
+              asNew: params.as_new === true,
+            });
+          }
+          const text = typeof params.spec === 'string' ? params.spec : JSON.stringify(params.spec);
+          return applyParsedCampaignSpec(parseCampaignSpec(text, 'params.spec'), {
+            customerId: params.customer_id,
+            dryRun,
+            asNew: params.as_new === true,
+          });
+        }
       );
+    }
 
     // ============================================================
     // RESEARCH
@@ -85,7 +173,11 @@ async function handleAction(action: string, params: Record<string, any> = {}): P
       if (!params.query) {
         throw new Error('Missing required param: query');
       }
-      return runAgent(params.query, { verbose: false });
+      return runAgent(params.query, {
+        verbose: false,
+        session: params.session_id ? AgentSession.load(params.session_id) : undefined,
+        approver: approverFor(params),
+      });
 
     default:
       throw new Error(`Unknown action: ${action}`);
@@ -93,23 +185,70 @@ async function handleAction(action: string, params: Record<string, any> = {}): P
 }
 
 /**
- * Parse JSON body from request
+ * Read the raw request body
  */
-async function parseBody(req: http.IncomingMessage): Promise<WebhookRequest> {
+async function readBody(req: http.IncomingMessage): Promise<string> {
   return new Promise((resolve, reject) => {
     let body = '';
     req.on('data', chunk => body += chunk);
-    req.on('end', () => {
-      try {
-        resolve(JSON.parse(body || '{}'));
-      } catch (e) {
-        reject(new Error('Invalid JSON body'));
-      }
-    });
+    req.on('end', () => resolve(body));
     req.on('error', reject);
   });
 }
 
+/**
+ * Parse JSON body from request
+ */
+async function parseBody(req: http.IncomingMessage): Promise<WebhookRequest> {
+  const body = await readBody(req);
+  try {
+    return JSON.parse(body || '{}');
+  } catch (e) {
+    throw new Error('Invalid JSON body');
+  }
+}
+
+/**
+ * Compare two secrets without leaking where they differ
+ */
+function secretsMatch(actual: string, expected: string): boolean {
+  return actual.length === expected.length &&
+    timingSafeEqual(Buffer.from(actual), Buffer.from(expected));
+}
+
+/**
+ * Check the approval API bearer token (always fails when none is configured)
+ */
+function verifyApprovalToken(req: http.IncomingMessage): boolean {
+  const header = req.headers.authorization;
+  return Boolean(env.PPC_AGENT_APPROVAL_TOKEN) && typeof header === 'string' &&
+    secretsMatch(header, `Bearer ${env.PPC_AGENT_APPROVAL_TOKEN}`);
+}
+
+/**
+ * Verify a Slack request signature (always fails when no signing secret is configured)
+ */
+function verifySlackSignature(req: http.IncomingMessage, body: string): boolean {
+  if (!env.SLACK_SIGNING_SECRET) {
+    return false;
+  }
+
+  const timestamp = req.headers['x-slack-request-timestamp'];
+  const signature = req.headers['x-slack-signature'];
+  if (typeof timestamp !== 'string' || typeof signature !== 'string') {
+    return false;
+  }
+  // Reject replays older than 5 minutes
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > 300) {
+    return false;
+  }
+
+  const expected = 'v0=' + createHmac('sha256', env.SLACK_SIGNING_SECRET)
+    .update(`v0:${timestamp}:${body}`)
+    .digest('hex');
+  return secretsMatch(signature, expected);
+}
+
 /**
  * Create HTTP server
  */
@@ -140,12 +279,18 @@ const server = http.createServer(async (req, res) => {
       version: '0.1.0',
       endpoints: {
         'POST /webhook': 'Execute agent action',
+        'POST /stream': 'Run a custom query, streaming progress as Server-Sent Events',
+        'GET /approvals': 'List changes waiting for approval',
+        'POST /approvals/:id': 'Approve or reject a pending change',
+        'POST /slack/interactions': 'Slack Approve / Reject button callback',
         'GET /health': 'Health check',
       },
       actions: [
         'health-check',
         'full-audit',
         'create-campaign',
+        'save-campaign-spec',
+        'apply-campaign-spec',
         'keyword-research',
         'competitor-analysis',
         'custom',
@@ -197,6 +342,124 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
+  // Streaming endpoint: { "query": "...", "session_id"?: "..." }
+  if (req.method === 'POST' && req.url === '/stream') {
+    let body: Record<string, any>;
+    let session: AgentSession;
+    try {
+      body = await parseBody(req);
+      if (!body.query) {
+        throw new Error('Missing required field: query');
+      }
+      session = body.session_id ? AgentSession.load(body.session_id) : AgentSession.create();
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      }));
+      return;
+    }
+
+    console.log(`📥 Stream request: ${body.query}`);
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+
+    res.write(`event: session\ndata: ${JSON.stringify({ sessionId: session.id })}\n\n`);
+
+    for await (const event of streamAgent(body.query, { session, approver: approverFor(body) })) {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+    res.end();
+    return;
+  }
+
+  // Approving live changes needs the approval token
+  if (req.url?.startsWith('/approvals') && !verifyApprovalToken(req)) {
+    res.writeHead(401, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      error: env.PPC_AGENT_APPROVAL_TOKEN
+        ? 'Missing or invalid approval token'
+        : 'Approvals over HTTP are disabled - set PPC_AGENT_APPROVAL_TOKEN',
+    }));
+    return;
+  }
+
+  // Pending approvals
+  if (req.method === 'GET' && req.url === '/approvals') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(listPendingApprovals(), null, 2));
+    return;
+  }
+
+  // Approval decision: { "approved": true|false, "approver"?: "...", "reason"?: "..." }
+  const approvalMatch = req.method === 'POST' && req.url?.match(/^\/approvals\/([\w-]+)$/);
+  if (approvalMatch) {
+    try {
+      const decision: Record<string, any> = await parseBody(req);
+      if (typeof decision.approved !== 'boolean') {
+        throw new Error('Missing required field: approved (boolean)');
+      }
+      const found = resolveApproval(approvalMatch[1], {
+        approved: decision.approved,
+        approver: decision.approver || 'webhook',
+        reason: decision.reason,
+      });
+      res.writeHead(found ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(found
+        ? { success: true, id: approvalMatch[1], approved: decision.approved }
+        : { success: false, error: `No pending approval ${approvalMatch[1]}` }));
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }));
+    }
+    return;
+  }
+
+  // Slack interactivity (Approve / Reject buttons)
+  if (req.method === 'POST' && req.url === '/slack/interactions') {
+    const body = await readBody(req);
+    if (!verifySlackSignature(req, body)) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        error: env.SLACK_SIGNING_SECRET ? 'Invalid Slack signature' : 'Slack interactions are disabled - set SLACK_SIGNING_SECRET',
+      }));
+      return;
+    }
+
+    try {
+      const payload = JSON.parse(new URLSearchParams(body).get('payload') || '{}');
+      const action = payload.actions?.[0];
+      if (action && (action.action_id === 'approve' || action.action_id === 'reject')) {
+        const approved = action.action_id === 'approve';
+        const user = payload.user?.username || payload.user?.name || payload.user?.id || 'slack';
+        const found = resolveApproval(action.value, {
+          approved,
+          approver: `slack:${user}`,
+          reason: approved ? undefined : 'Rejected in Slack',
+        });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          replace_original: false,
+          text: found
+            ? `${approved ? '✅ Approved' : '❌ Rejected'} by ${user}`
+            : 'This approval request has already been decided or expired.',
+        }));
+        return;
+      }
+    } catch (error) {
+      console.error('❌ Slack interaction error:', error);
+    }
+
+    res.writeHead(200);
+    res.end();
+    return;
+  }
+
   // 404 for unknown routes
   res.writeHead(404, { 'Content-Type': 'application/json' });
   res.end(JSON.stringify({ error: 'Not found' }));
@@ -210,6 +473,7 @@ server.listen(PORT, () => {
   console.log(`\n🚀 Server running at http://localhost:${PORT}`);
   console.log('\n📡 Available endpoints:');
   console.log(`   POST http://localhost:${PORT}/webhook`);
+  console.log(`   POST http://localhost:${PORT}/stream`);
   console.log(`   GET  http://localhost:${PORT}/health`);
   console.log('\n📝 Example n8n HTTP Request node config:');
   console.log(`   URL: http://YOUR_SERVER:${PORT}/webhook`);
@@ -0,0 +1,68 @@
+/**
+ * Recorded Anthropic Responses
+ *
+ * Stands in for @anthropic-ai/sdk in integration tests. Each
+ * messages.create call returns the next response recorded in
+ * tests/fixtures/anthropic/<name>.json, and every request is kept so
+ * tests can check what the agent sent (e.g. the tool results).
+ *
+ *   vi.mock('@anthropic-ai/sdk', () => import('../helpers/anthropic.js'));
+ *   replayAnthropic('budget-optimizer');
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type Anthropic from '@anthropic-ai/sdk';
+
+const FIXTURES_DIR = join(import.meta.dirname, '..', 'fixtures', 'anthropic');
+
+let responses: Anthropic.Message[] = [];
+let requests: Anthropic.MessageCreateParamsNonStreaming[] = [];
+
+/**
+ * Queue the responses recorded in a fixture file
+ */
+export function replayAnthropic(name: string): void {
+  responses = JSON.parse(readFileSync(join(FIXTURES_DIR, `${name}.json`), 'utf-8'));
+  requests = [];
+}
+
+/**
+ * Requests made since the last replayAnthropic(), oldest first
+ */
+export function anthropicRequests(): Anthropic.MessageCreateParamsNonStreaming[] {
+  return requests;
+}
+
+/**
+ * Responses not yet consumed - a finished agent run should leave none
+ */
+export function unusedResponses(): number {
+  return responses.length;
+}
+
+/**
+ * Tool results sent back in a request, by tool_use_id
+ */
+export function toolResults(request: Anthropic.MessageCreateParamsNonStreaming): Anthropic.ToolResultBlockParam[] {
+  const last = request.messages[request.messages.length - 1];
+  return Array.isArray(last?.content)
+    ? last.content.filter((block): block is Anthropic.ToolResultBlockParam => block.type === 'tool_result')
+    : [];
+}
+
+export default class RecordedAnthropic {
+  messages = {
+    create: async (params: Anthropic.MessageCreateParamsNonStreaming): Promise<Anthropic.Message> => {
+      // Agents keep appending to the same messages array - snapshot it
+      requests.push(structuredClone(params));
+      const response = responses.shift();
+      if (!response) {
+        throw new Error(`No recorded Anthropic response left for request #${requests.length}`);
+      }
+      return response;
+    },
+  };
+
+  constructor(_options?: unknown) {}
+}
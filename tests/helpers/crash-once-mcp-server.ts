@@ -0,0 +1,47 @@
+/**
+ * Misbehaving MCP Server
+ *
+ * A minimal JSON-RPC stdio server for testing the bridge's supervision.
+ * Every launch and tool call is appended to CRASH_SERVER_LOG, so a test
+ * can tell restarts apart. CRASH_SERVER_MODE picks how the first launch
+ * misbehaves; later launches answer normally:
+ *
+ * - crash-once: exits on its first tool call
+ * - silent-once: never answers a ping
+ * - exit-on-start: exits before the handshake (every launch)
+ *
+ *   new MCPBridge({ serverPath: 'tests/helpers/crash-once-mcp-server.ts' })
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { createInterface } from 'readline';
+
+const mode = process.env.CRASH_SERVER_MODE || 'crash-once';
+const log = process.env.CRASH_SERVER_LOG!;
+
+const launch = (existsSync(log) ? readFileSync(log, 'utf-8').split('\n').filter(line => line === 'launch').length : 0) + 1;
+appendFileSync(log, 'launch\n');
+if (mode === 'exit-on-start') {
+  process.exit(1);
+}
+
+function reply(id: number, result: any): void {
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id, result }) + '\n');
+}
+
+createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, method, params } = JSON.parse(line);
+  switch (method) {
+    case 'initialize':
+      return reply(id, { serverInfo: { name: 'crash-once-mcp' } });
+    case 'ping':
+      if (mode === 'silent-once' && launch === 1) return;
+      return reply(id, {});
+    case 'tools/call':
+      appendFileSync(log, `call ${params.name}\n`);
+      if (mode === 'crash-once' && launch === 1) {
+        process.exit(1);
+      }
+      return reply(id, { content: [{ type: 'text', text: JSON.stringify({ success: true, tool: params.name, launch }) }] });
+  }
+});
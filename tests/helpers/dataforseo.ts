@@ -0,0 +1,47 @@
+/**
+ * Recorded DataForSEO Responses
+ *
+ * Replaces global fetch with one that answers DataForSEO endpoints from
+ * tests/fixtures/dataforseo/<name>.json (endpoint path → task result).
+ * Requests to anything else fail the test.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { vi } from 'vitest';
+
+const FIXTURES_DIR = join(import.meta.dirname, '..', 'fixtures', 'dataforseo');
+
+export interface DataForSEORequest {
+  endpoint: string;
+  body: any;
+}
+
+/**
+ * Stub fetch with the results recorded in a fixture file; returns the
+ * requests as they are made
+ */
+export function stubDataForSEO(name: string): DataForSEORequest[] {
+  const results: Record<string, any[]> = JSON.parse(readFileSync(join(FIXTURES_DIR, `${name}.json`), 'utf-8'));
+  const requests: DataForSEORequest[] = [];
+
+  vi.stubGlobal('fetch', async (input: string | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    if (url.hostname !== 'api.dataforseo.com') {
+      throw new Error(`Unexpected fetch in test: ${url}`);
+    }
+    const endpoint = url.pathname.replace(/^\/v3/, '');
+    const [body] = JSON.parse(String(init?.body ?? '[]'));
+    requests.push({ endpoint, body });
+
+    if (!(endpoint in results)) {
+      return new Response(JSON.stringify({ status_code: 40400, status_message: 'Not Found' }), { status: 404 });
+    }
+    return new Response(JSON.stringify({
+      status_code: 20000,
+      tasks: [{ status_code: 20000, result: results[endpoint] }],
+    }));
+  });
+
+  return requests;
+}
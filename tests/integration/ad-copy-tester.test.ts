@@ -0,0 +1,78 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/sdk', () => import('../helpers/anthropic.js'));
+
+import { anthropicRequests, replayAnthropic, toolResults, unusedResponses } from '../helpers/anthropic.js';
+import { createAdVariation, generateAdVariations, runAdCopyTester } from '../../src/agents/ad-copy-tester-agent.js';
+import { queryAccount } from '../../src/tools/google-ads.js';
+import { shutdownMCP } from '../../src/tools/mcp-bridge.js';
+
+afterAll(() => shutdownMCP());
+
+async function adHeadlines(adGroupId: string): Promise<string[][]> {
+  const rows = await queryAccount(`
+    SELECT ad_group_ad.ad.responsive_search_ad.headlines
+    FROM ad_group_ad
+    WHERE ad_group.id = ${adGroupId}
+  `);
+  return rows.map((row: any) => row.ad_group_ad.ad.responsive_search_ad.headlines.map((h: any) => h.text));
+}
+
+describe('ad copy tester', () => {
+  it('analyzes current ads through GAQL', async () => {
+    replayAnthropic('ad-copy-tester');
+
+    const result = await runAdCopyTester();
+
+    expect(result.summary).toContain('## Ad Copy Analysis');
+    expect(unusedResponses()).toBe(0);
+
+    const [first, followUp] = anthropicRequests();
+    expect(first.tools?.map(tool => tool.name)).toContain('query');
+    const [ads] = toolResults(followUp);
+    expect(ads.is_error).toBeUndefined();
+    const rows = JSON.parse(ads.content as string);
+    expect(rows.map((row: any) => row.ad_group.name)).toEqual(['Landscape Design', 'Patios']);
+    expect(rows[0].ad_group_ad.ad.responsive_search_ad.headlines[0].text).toBe('Dublin Landscape Design');
+  });
+
+  it('generates variations within RSA limits', async () => {
+    replayAnthropic('ad-copy-variations');
+
+    const [variation] = await generateAdVariations('Patios', 'Powell, OH', 1);
+
+    expect(variation.headlines).toHaveLength(5);
+    expect(variation.headlines.every(h => h.length <= 30)).toBe(true);
+    expect(variation.descriptions.every(d => d.length <= 90)).toBe(true);
+    expect(variation.path2).toBe('powell-oh');
+    expect(anthropicRequests()[0].messages[0].content).toContain('Location: Powell, OH');
+  });
+
+  it('creates a variation as a new responsive search ad', async () => {
+    replayAnthropic('ad-copy-variations');
+    const [variation] = await generateAdVariations('Patios', 'Powell, OH', 1);
+
+    const dryRun = await createAdVariation('3002', variation, true);
+    expect(dryRun.success).toBe(true);
+    expect(await adHeadlines('3002')).toHaveLength(1);
+
+    const live = await createAdVariation('3002', variation, false);
+    expect(live.success).toBe(true);
+    expect(live.result.ad_group_ad_result.resource_name).toMatch(/^customers\/1234567890\/adGroupAds\/3002~\d+$/);
+    expect(await adHeadlines('3002')).toContainEqual(variation.headlines);
+  });
+
+  it('reports an ad the API would reject', async () => {
+    const result = await createAdVariation('3002', {
+      headlines: ['Powell Patio Builders', 'Free Patio Estimates'],
+      descriptions: ['Custom paver patios for Powell homes.', 'Licensed hardscaping crew.'],
+      path1: 'patios',
+      path2: '',
+      hypothesis: 'Too few headlines',
+      expectedImpact: 'None',
+    }, true);
+
+    expect(result.success).toBe(false);
+    expect(JSON.stringify(result.result)).toContain('headlines');
+  });
+});
@@ -0,0 +1,92 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/sdk', () => import('../helpers/anthropic.js'));
+
+import { anthropicRequests, replayAnthropic, unusedResponses } from '../helpers/anthropic.js';
+import { applyBudgetChanges, runBudgetOptimizer } from '../../src/agents/budget-optimizer-agent.js';
+import { queryAccount } from '../../src/tools/google-ads.js';
+import { shutdownMCP } from '../../src/tools/mcp-bridge.js';
+
+afterAll(() => shutdownMCP());
+
+// The allocator picks the season from the date - keep it off the real calendar
+const OCTOBER = new Date('2026-10-15T12:00:00Z');
+const JANUARY = new Date('2026-01-15T12:00:00Z');
+
+async function budgetMicros(budgetId: string): Promise<number> {
+  const [row] = await queryAccount(`SELECT campaign_budget.amount_micros FROM campaign_budget WHERE campaign_budget.id = ${budgetId}`);
+  return Number(row.campaign_budget.amount_micros);
+}
+
+describe('budget optimizer', () => {
+  it('moves budget towards the budget-limited campaign within the guardrails', async () => {
+    replayAnthropic('budget-optimizer');
+
+    const result = await runBudgetOptimizer({ date: OCTOBER });
+
+    expect(result.currentTotalBudget).toBe(80);
+    expect(result.allocation).toMatchObject({ season: 'peak', targetTotalBudget: 80, targetBasis: 'current-total' });
+    expect(result.recommendations.map(r => r.campaignName)).toContain('Landscape Design - Dublin');
+    const dublin = result.recommendations.find(r => r.campaignName === 'Landscape Design - Dublin')!;
+    expect(dublin.budgetId).toBe('2001');
+    expect(dublin.change).toBeGreaterThan(0);
+    for (const recommendation of result.recommendations) {
+      expect(Math.abs(recommendation.changePercent)).toBeLessThanOrEqual(30);
+    }
+    expect(result.recommendedTotalBudget).toBeLessThanOrEqual(400);
+    expect(result.summary).toContain('## Budget Reallocation');
+
+    // The model explains numbers computed in code - it gets no tools
+    const [request] = anthropicRequests();
+    expect(request.tools).toBeUndefined();
+    expect(request.messages[0].content).toContain('"campaignName": "Landscape Design - Dublin"');
+    expect(request.messages[0].content).toContain('Today: 2026-10-15 (peak season)');
+    expect(unusedResponses()).toBe(0);
+  });
+
+  it('holds the total off season unless a seasonal cap lowers it', async () => {
+    replayAnthropic('budget-optimizer');
+    const held = await runBudgetOptimizer({ date: JANUARY });
+
+    expect(held.allocation).toMatchObject({ season: 'off', targetTotalBudget: 80, targetBasis: 'current-total' });
+    expect(held.recommendations.find(r => r.campaignName === 'Landscape Design - Dublin')!.change).toBeGreaterThan(0);
+
+    replayAnthropic('budget-optimizer');
+    const capped = await runBudgetOptimizer({ date: JANUARY, seasonalBudget: { peak: 100, off: 60, mode: 'cap' } });
+
+    expect(capped.allocation).toMatchObject({ season: 'off', targetTotalBudget: 60, targetBasis: 'seasonal-cap' });
+    expect(capped.recommendedTotalBudget).toBe(60);
+    expect(anthropicRequests()[0].messages[0].content).toContain('Target total: $60/day (capped for the off season)');
+  });
+
+  it('validates budget changes in a dry run without applying them', async () => {
+    const result = await applyBudgetChanges([{ budgetId: '2002', newBudgetMicros: 25_000_000 }], true);
+
+    expect(result.success).toBe(true);
+    expect(await budgetMicros('2002')).toBe(30_000_000);
+  });
+
+  it('applies the recommended budgets', async () => {
+    replayAnthropic('budget-optimizer');
+    const { recommendations } = await runBudgetOptimizer({ date: OCTOBER });
+
+    const result = await applyBudgetChanges(
+      recommendations.map(r => ({ budgetId: r.budgetId, newBudgetMicros: Math.round(r.recommendedBudget * 1_000_000) })),
+      false
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.results).toHaveLength(recommendations.length);
+    for (const recommendation of recommendations) {
+      expect(await budgetMicros(recommendation.budgetId)).toBe(Math.round(recommendation.recommendedBudget * 1_000_000));
+    }
+  });
+
+  it('is stopped by the budget change guardrail', async () => {
+    const result = await applyBudgetChanges([{ budgetId: '2002', newBudgetMicros: 90_000_000 }], false);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('max-daily-budget-change');
+  });
+});
@@ -0,0 +1,140 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/sdk', () => import('../helpers/anthropic.js'));
+
+import { anthropicRequests, replayAnthropic, unusedResponses } from '../helpers/anthropic.js';
+import { createCampaign, deployCampaignSpec, type CampaignSpec } from '../../src/agents/campaign-builder-agent.js';
+import { readJournal } from '../../src/tools/change-journal.js';
+import { queryAccount } from '../../src/tools/google-ads.js';
+import { shutdownMCP } from '../../src/tools/mcp-bridge.js';
+
+afterAll(() => shutdownMCP());
+
+const BUSINESS = {
+  name: 'Stiltner Landscapes',
+  website: 'https://stiltnerlandscapes.com',
+  phone: '(614) 555-0142',
+  services: ['Outdoor Living', 'Hardscaping'],
+};
+
+async function campaignNames(): Promise<string[]> {
+  const rows = await queryAccount('SELECT campaign.name FROM campaign ORDER BY campaign.name');
+  return rows.map((row: any) => row.campaign.name);
+}
+
+describe('campaign builder', () => {
+  it('designs, sanitizes and validates a campaign in a dry run', async () => {
+    replayAnthropic('campaign-builder');
+
+    const result = await createCampaign('Outdoor kitchens and fire pits in Westerville and New Albany, $40/day', BUSINESS);
+
+    expect(unusedResponses()).toBe(0);
+    expect(anthropicRequests()[0].messages[0].content).toContain('Phone: (614) 555-0142');
+    expect(result.summary).toMatch(/^Campaign "Outdoor Living - Westerville \[TEST-\d{6}\]" validated successfully/);
+
+    // Model mistakes fixed before building
+    const [kitchens] = result.spec.adGroups;
+    expect(kitchens.keywords).toHaveLength(2);
+    expect(kitchens.ads[0].headlines[1]).toBe('Custom Outdoor Kitchen Builder');
+    expect(kitchens.ads[0].path1).toBe('outdoor-kitchen');
+    expect(result.spec.assets?.call).toEqual({ phoneNumber: '(614) 555-0142' });
+
+    expect(result.locations?.map(l => l.geoTarget?.canonicalName)).toEqual([
+      'Westerville,Ohio,United States',
+      'New Albany,Ohio,United States',
+    ]);
+    expect(result.dryRunResult.success).toBe(true);
+    expect(result.liveResult).toBeUndefined();
+    expect(await campaignNames()).toEqual(['Hardscaping - Powell', 'Landscape Design - Dublin']);
+  });
+
+  it('says so when the design is cut off at the token limit', async () => {
+    replayAnthropic('campaign-builder-truncated');
+
+    await expect(createCampaign('Outdoor kitchens and fire pits in Westerville and New Albany, $40/day', BUSINESS))
+      .rejects.toThrow('Campaign design hit the 8192 token limit before the spec was complete');
+    expect(anthropicRequests()[0].max_tokens).toBe(8192);
+    expect(await campaignNames()).toEqual(['Hardscaping - Powell', 'Landscape Design - Dublin']);
+  });
+
+  it('creates the campaign paused and journals the change', async () => {
+    replayAnthropic('campaign-builder');
+
+    const result = await createCampaign('Outdoor kitchens and fire pits in Westerville and New Albany, $40/day', BUSINESS, { dryRun: false });
+
+    expect(result.summary).toBe('Campaign "Outdoor Living - Westerville" created successfully! It\'s currently PAUSED - enable it when ready to start spending.');
+    expect(result.liveResult.metadata).toEqual({
+      operation_count: result.operations.length,
+      success_count: result.operations.length,
+      failure_count: 0,
+    });
+
+    const [campaign] = await queryAccount(`
+      SELECT campaign.id, campaign.status, campaign_budget.amount_micros
+      FROM campaign
+      WHERE campaign.name = 'Outdoor Living - Westerville'
+    `);
+    expect(campaign.campaign.status).toBe(3); // PAUSED
+    expect(Number(campaign.campaign_budget.amount_micros)).toBe(40_000_000);
+
+    const keywords = await queryAccount(`
+      SELECT ad_group.name, ad_group_criterion.keyword.text
+      FROM keyword_view
+      WHERE campaign.id = ${campaign.campaign.id}
+      ORDER BY ad_group_criterion.keyword.text
+    `);
+    expect(keywords.map((row: any) => row.ad_group_criterion.keyword.text)).toEqual([
+      'custom fire pit',
+      'fire pit installation',
+      'outdoor kitchen builder',
+      'outdoor kitchen westerville',
+    ]);
+
+    const [entry] = readJournal().slice(-1);
+    expect(entry.operations).toEqual(result.operations);
+    expect(entry.resourceNames).toContain(`customers/1234567890/campaigns/${campaign.campaign.id}`);
+    expect(entry.operationResourceNames).toHaveLength(result.operations.length);
+    expect(entry.operationResourceNames).toContain(`customers/1234567890/campaigns/${campaign.campaign.id}`);
+  });
+
+  it('reuses the standard negative list the first campaign created', async () => {
+    const second: CampaignSpec = {
+      name: 'Fire Pits - Galena',
+      dailyBudget: 20,
+      biddingStrategy: 'MAXIMIZE_CLICKS',
+      networks: 'SEARCH_ONLY',
+      locations: ['Galena, OH'],
+      adGroups: [{
+        name: 'Fire Pits',
+        keywords: [{ text: 'fire pit builders galena', matchType: 'PHRASE' }],
+        ads: [{
+          headlines: ['Fire Pit Builders Galena', 'Custom Stone Fire Pits', 'Free Fire Pit Estimates'],
+          descriptions: ['Gas and wood-burning fire pits built from natural stone.', 'Serving Galena and Sunbury. Book a free estimate today.'],
+          finalUrl: 'https://stiltnerlandscapes.com/fire-pits',
+        }],
+      }],
+    };
+
+    const result = await deployCampaignSpec(second, { dryRun: false });
+
+    expect(result.liveResult.success).toBe(true);
+    expect(result.operations.filter(op => op.entity === 'shared_set')).toHaveLength(0);
+    expect(result.operations.find(op => op.entity === 'campaign_shared_set').resource.shared_set)
+      .toMatch(/^customers\/1234567890\/sharedSets\/\d+$/);
+  });
+
+  it('stops before building when a location is ambiguous', async () => {
+    const result = await deployCampaignSpec({
+      name: 'Landscape Design - Dublin 2',
+      dailyBudget: 20,
+      biddingStrategy: 'MAXIMIZE_CLICKS',
+      networks: 'SEARCH_ONLY',
+      locations: ['Dublin'],
+      adGroups: [],
+    });
+
+    expect(result.operations).toEqual([]);
+    expect(result.summary).toContain('Campaign not built - fix these locations');
+    expect(result.summary).toContain('Dublin');
+  });
+});
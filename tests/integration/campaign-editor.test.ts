@@ -0,0 +1,102 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/sdk', () => import('../helpers/anthropic.js'));
+
+import { anthropicRequests, replayAnthropic, unusedResponses } from '../helpers/anthropic.js';
+import { applyCampaignSpec, editCampaign, exportCampaignSpec } from '../../src/agents/campaign-editor-agent.js';
+import { queryAccount } from '../../src/tools/google-ads.js';
+import { shutdownMCP } from '../../src/tools/mcp-bridge.js';
+
+afterAll(() => shutdownMCP());
+
+const INSTRUCTION = 'Add retaining wall keywords to Patios and raise the budget to $36/day';
+
+async function patioKeywords(): Promise<string[]> {
+  const rows = await queryAccount(`
+    SELECT ad_group_criterion.keyword.text
+    FROM keyword_view
+    WHERE ad_group.id = 3002
+    ORDER BY ad_group_criterion.keyword.text
+  `);
+  return rows.map((row: any) => row.ad_group_criterion.keyword.text);
+}
+
+describe('campaign editor', () => {
+  it('exports a live campaign as a spec with ids', async () => {
+    const spec = await exportCampaignSpec('Hardscaping - Powell');
+
+    expect(spec).toMatchObject({
+      id: '1002',
+      budgetId: '2002',
+      dailyBudget: 30,
+      biddingStrategy: 'MAXIMIZE_CONVERSIONS',
+      locations: ['Powell,Ohio,United States'],
+      standardNegatives: false,
+    });
+    expect(spec).not.toHaveProperty('sharedBudget');
+    expect(spec.adGroups.map(ag => ag.id)).toEqual(['3002']);
+    expect(spec.adGroups[0].keywords.map(k => k.id)).toEqual(['4003', '4004']);
+    expect(spec.adGroups[0].ads[0].id).toBe('5002');
+  });
+
+  it('diffs the edited spec into a dry run without changing the account', async () => {
+    replayAnthropic('campaign-editor');
+
+    const result = await editCampaign('Hardscaping - Powell', INSTRUCTION);
+
+    expect(unusedResponses()).toBe(0);
+    expect(anthropicRequests()[0].messages[0].content).toContain(INSTRUCTION);
+    expect(result.diff.changes).toEqual([
+      'Budget: $30/day → $36/day',
+      'Ad group "Patios": add 2 keyword(s): "retaining wall installation", [retaining wall builders powell]',
+    ]);
+    expect(result.diff.notApplied).toEqual([]);
+    expect(result.diff.operations.map(op => `${op.operation} ${op.entity}`)).toEqual([
+      'update campaign_budget',
+      'create ad_group_criterion',
+      'create ad_group_criterion',
+    ]);
+    expect(result.diff.operations[1].resource.ad_group).toBe('customers/1234567890/adGroups/3002');
+    expect(result.summary).toBe('Edit of "Hardscaping - Powell" validated: 2 change(s), 3 operations. Set dryRun: false to apply.');
+    expect(await patioKeywords()).toEqual(['patio installation', 'paver patio']);
+  });
+
+  it('applies the edit to the live campaign', async () => {
+    replayAnthropic('campaign-editor');
+
+    const result = await editCampaign('Hardscaping - Powell', INSTRUCTION, { dryRun: false });
+
+    expect(result.liveResult.success).toBe(true);
+    expect(result.summary).toMatch(/^Campaign "Hardscaping - Powell" updated: Budget: \$30\/day → \$36\/day; /);
+    expect((await exportCampaignSpec('1002')).dailyBudget).toBe(36);
+    expect(await patioKeywords()).toEqual([
+      'patio installation',
+      'paver patio',
+      'retaining wall builders powell',
+      'retaining wall installation',
+    ]);
+  });
+
+  it('leaves a shared budget alone', async () => {
+    const spec = await exportCampaignSpec('Hardscaping - Powell');
+
+    const result = await applyCampaignSpec(
+      { ...spec, dailyBudget: spec.dailyBudget + 10 },
+      { before: { ...spec, sharedBudget: true } }
+    );
+
+    expect(result.diff.operations).toEqual([]);
+    expect(result.diff.notApplied).toEqual([
+      `Budget: $${spec.dailyBudget}/day → $${spec.dailyBudget + 10}/day - the budget is shared with other campaigns; change it in Google Ads`,
+    ]);
+  });
+
+  it('has nothing to apply when the spec matches the account', async () => {
+    const spec = await exportCampaignSpec('Hardscaping - Powell');
+
+    const result = await applyCampaignSpec(spec, { dryRun: false });
+
+    expect(result.diff.operations).toEqual([]);
+    expect(result.summary).toBe('No changes to apply to "Hardscaping - Powell".');
+  });
+});
@@ -0,0 +1,70 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/sdk', () => import('../helpers/anthropic.js'));
+
+import { anthropicRequests, replayAnthropic, unusedResponses } from '../helpers/anthropic.js';
+import { stubDataForSEO } from '../helpers/dataforseo.js';
+import { runAgent } from '../../src/agents/orchestrator.js';
+import { unusedCassetteEntries, useCassette, type Cassette } from '../../src/tools/cassette.js';
+import { queryAccount } from '../../src/tools/google-ads.js';
+import { shutdownMCP } from '../../src/tools/mcp-bridge.js';
+
+const path = join(process.env.PPC_AGENT_DATA_DIR!, 'health-check.cassette.json');
+const REQUEST = 'Run a health check and tell me who outbids us';
+
+afterEach(() => {
+  useCassette('off');
+  vi.unstubAllGlobals();
+});
+afterAll(() => shutdownMCP());
+
+describe('cassettes', () => {
+  let recorded: Awaited<ReturnType<typeof runAgent>>;
+
+  it('records every external call of an agent run', async () => {
+    replayAnthropic('orchestrator-health-check');
+    stubDataForSEO('competitor-intel');
+    useCassette('record', path);
+
+    recorded = await runAgent(REQUEST, { verbose: false });
+
+    expect(unusedResponses()).toBe(0);
+    expect(recorded.toolCalls.map(call => call.tool)).toEqual(['run_health_check', 'get_serp_competitors']);
+
+    const cassette: Cassette = JSON.parse(readFileSync(path, 'utf-8'));
+    const kinds = cassette.entries.map(entry => entry.kind);
+    expect(kinds.filter(kind => kind === 'anthropic')).toHaveLength(6);
+    expect(kinds).toContain('mcp');
+    expect(kinds.filter(kind => kind === 'dataforseo')).toHaveLength(1);
+    expect(cassette.entries.filter(entry => entry.kind === 'mcp').every(entry => entry.request.tool === 'query')).toBe(true);
+    expect(cassette.entries[0].request.messages).toEqual([{ role: 'user', content: REQUEST }]);
+    // Credentials stay out of the file
+    expect(JSON.stringify(cassette)).not.toMatch(/test-anthropic-key|Basic /);
+  });
+
+  it('replays the run without the model, DataForSEO or the MCP server', async () => {
+    await shutdownMCP();
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    const modelCalls = anthropicRequests().length;
+    useCassette('replay', path);
+
+    const replayed = await runAgent(REQUEST, { verbose: false });
+
+    expect(replayed.response).toBe(recorded.response);
+    expect(replayed.toolCalls).toEqual(recorded.toolCalls);
+    expect(replayed.usage).toEqual(recorded.usage);
+    expect(anthropicRequests()).toHaveLength(modelCalls);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(unusedCassetteEntries()).toEqual([]);
+  });
+
+  it('fails a query the run did not record', async () => {
+    useCassette('replay', path);
+
+    await expect(queryAccount('SELECT customer.id FROM customer'))
+      .rejects.toThrow(`Cassette ${path} has no recorded mcp call left`);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/sdk', () => import('../helpers/anthropic.js'));
+
+import { anthropicRequests, replayAnthropic, toolResults, unusedResponses } from '../helpers/anthropic.js';
+import { stubDataForSEO } from '../helpers/dataforseo.js';
+import { runCompetitorIntel } from '../../src/agents/competitor-intel-agent.js';
+import { shutdownMCP } from '../../src/tools/mcp-bridge.js';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+afterAll(() => shutdownMCP());
+
+describe('competitor intel', () => {
+  it('researches competitors with DataForSEO tools', async () => {
+    replayAnthropic('competitor-intel');
+    const requests = stubDataForSEO('competitor-intel');
+
+    const result = await runCompetitorIntel(
+      'stiltnerlandscapes.com',
+      ['landscape design dublin ohio', 'patio installation powell'],
+      'Ohio,United States'
+    );
+
+    expect(result.summary).toContain('## Competitive Landscape');
+    expect(unusedResponses()).toBe(0);
+
+    expect(requests.map(r => r.endpoint)).toEqual([
+      '/dataforseo_labs/google/serp_competitors/live',
+      '/dataforseo_labs/google/ranked_keywords/live',
+    ]);
+    expect(requests[0].body).toMatchObject({
+      keywords: ['landscape design dublin ohio', 'patio installation powell'],
+      location_name: 'Ohio,United States',
+      item_types: ['paid'],
+    });
+    expect(requests[1].body).toMatchObject({ target: 'dublinlandscaping.com', limit: 20 });
+
+    const [, afterSerp, afterKeywords] = anthropicRequests();
+    expect(JSON.parse(toolResults(afterSerp)[0].content as string)).toEqual([
+      { domain: 'dublinlandscaping.com', avg_position: 1.8, keywords_count: 2, etv: 1840.5, visibility: 0.62 },
+      { domain: 'greenscapeohio.com', avg_position: 3.4, keywords_count: 1, etv: 420, visibility: 0.21 },
+    ]);
+    expect(JSON.parse(toolResults(afterKeywords)[0].content as string)[1]).toEqual({
+      keyword: 'landscapers near me',
+      search_volume: 1900,
+      cpc: 9.1,
+      position: 2,
+      url: 'https://dublinlandscaping.com/',
+    });
+  });
+
+  it('works without auction insights when the account has none', async () => {
+    replayAnthropic('competitor-intel');
+    stubDataForSEO('competitor-intel');
+
+    const result = await runCompetitorIntel('stiltnerlandscapes.com', ['landscape design dublin ohio']);
+
+    expect(result.auctionInsights).toEqual([]);
+    expect(anthropicRequests()[0].messages[0].content).toContain('Not available - rely on DataForSEO.');
+  });
+
+  it('returns DataForSEO failures to the model as tool errors', async () => {
+    replayAnthropic('competitor-intel');
+    stubDataForSEO('empty');
+
+    await runCompetitorIntel('stiltnerlandscapes.com', ['landscape design dublin ohio']);
+
+    const [, afterSerp] = anthropicRequests();
+    expect(toolResults(afterSerp)[0]).toMatchObject({ is_error: true, content: 'Error: DataForSEO API error: 404' });
+  });
+});
@@ -0,0 +1,53 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/sdk', () => import('../helpers/anthropic.js'));
+
+import { anthropicRequests, replayAnthropic, toolResults, unusedResponses } from '../helpers/anthropic.js';
+import { runHealthCheck } from '../../src/agents/health-check-agent.js';
+import { shutdownMCP } from '../../src/tools/mcp-bridge.js';
+
+afterAll(() => shutdownMCP());
+
+describe('health check', () => {
+  it('computes metrics, investigates with tools and returns the validated submission', async () => {
+    replayAnthropic('health-check');
+
+    const result = await runHealthCheck();
+
+    expect(result.metrics).toEqual({
+      totalSpend: 1900.7,
+      totalClicks: 700,
+      totalConversions: 21,
+      ctr: 0.0365,
+      avgCpc: 2.72,
+      cpa: 90.51,
+    });
+    expect(result.wastedSpend.total).toBeCloseTo(287.6);
+    expect(result.wastedSpend.keywords.map(k => k.keyword)).toEqual(['paver patio']);
+    expect(result.issues).toHaveLength(2);
+    expect(result.issues[0].severity).toBe('high');
+    expect(result.quickWins).toHaveLength(2);
+    expect(unusedResponses()).toBe(0);
+  });
+
+  it('answers tool calls from the account', () => {
+    const [, afterTools] = anthropicRequests();
+    const [terms, share] = toolResults(afterTools);
+
+    expect(terms.is_error).toBeUndefined();
+    expect(JSON.parse(terms.content as string)).toHaveLength(6);
+    expect(share.is_error).toBeUndefined();
+    expect(share.content).toContain('Landscape Design - Dublin');
+  });
+
+  it('sends an invalid submission back and forces the submit tool', () => {
+    const [, , retry] = anthropicRequests();
+    const [rejected] = toolResults(retry);
+
+    expect(rejected.tool_use_id).toBe('toolu_01HcSubmit1');
+    expect(rejected.is_error).toBe(true);
+    expect(rejected.content).toContain('issues.0.severity');
+    expect(rejected.content).toContain('quickWins: Required');
+    expect(retry.tool_choice).toEqual({ type: 'tool', name: 'submit_health_check' });
+  });
+});
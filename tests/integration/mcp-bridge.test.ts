@@ -0,0 +1,119 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+import { readJournal } from '../../src/tools/change-journal.js';
+import {
+  acquireMCP,
+  getMCP,
+  MCPBridge,
+  MCPConnectionError,
+  shutdownMCP,
+  type MCPBridgeOptions,
+} from '../../src/tools/mcp-bridge.js';
+
+const SERVER_PATH = join(import.meta.dirname, '..', 'helpers', 'crash-once-mcp-server.ts');
+
+let bridge: MCPBridge | null = null;
+let logCount = 0;
+
+/**
+ * A bridge running the misbehaving server, and the server's launch/call log
+ */
+function misbehavingBridge(mode: string, options: MCPBridgeOptions = {}): { bridge: MCPBridge; log: () => string[] } {
+  const log = join(process.env.PPC_AGENT_DATA_DIR!, `mcp-server-${++logCount}.log`);
+  process.env.CRASH_SERVER_MODE = mode;
+  process.env.CRASH_SERVER_LOG = log;
+  bridge = new MCPBridge({ serverPath: SERVER_PATH, pingIntervalMs: 0, maxRestarts: 3, ...options });
+  return {
+    bridge,
+    log: () => (existsSync(log) ? readFileSync(log, 'utf-8').trim().split('\n') : []),
+  };
+}
+
+afterEach(async () => {
+  await bridge?.stop();
+  bridge = null;
+  delete process.env.CRASH_SERVER_MODE;
+  delete process.env.CRASH_SERVER_LOG;
+});
+afterAll(() => shutdownMCP());
+
+describe('MCP supervision', () => {
+  it('rejects the in-flight call when the server exits, then restarts it', async () => {
+    const { bridge, log } = misbehavingBridge('crash-once', { requestTimeoutMs: 20_000 });
+    await bridge.start();
+
+    const error = await bridge.callTool('query', {}, { retry: false }).catch(e => e);
+
+    expect(error).toBeInstanceOf(MCPConnectionError);
+    expect(error.reason).toBe('exited');
+    expect(await bridge.callTool('query')).toEqual({ success: true, tool: 'query', launch: 2 });
+    expect(log()).toEqual(['launch', 'call query', 'launch', 'call query']);
+  });
+
+  it('retries a call interrupted by a crash once, after a backoff', async () => {
+    const { bridge, log } = misbehavingBridge('crash-once');
+    await bridge.start();
+
+    const started = Date.now();
+    const result = await bridge.callTool('list_accounts');
+
+    expect(result).toEqual({ success: true, tool: 'list_accounts', launch: 2 });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+    expect(log()).toEqual(['launch', 'call list_accounts', 'launch', 'call list_accounts']);
+  });
+
+  it('does not retry a live mutate that was interrupted', async () => {
+    const { bridge, log } = misbehavingBridge('crash-once');
+    await bridge.start();
+
+    const result = await bridge.mutate([{
+      entity: 'campaign',
+      operation: 'update',
+      resource: { resource_name: 'customers/1234567890/campaigns/1001', name: 'Landscape Design - Dublin (old)' },
+      update_mask: ['name'],
+    }], { dryRun: false });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('the change may or may not have been applied');
+    expect(log().filter(line => line === 'call mutate')).toHaveLength(1);
+    expect(readJournal().find(entry => entry.changeId === result.changeId)?.success).toBe(false);
+  });
+
+  it('kills and restarts a server that stops answering pings', async () => {
+    const { bridge, log } = misbehavingBridge('silent-once', { pingIntervalMs: 100, pingTimeoutMs: 200 });
+    await bridge.start();
+
+    for (let waited = 0; log().filter(line => line === 'launch').length < 2 && waited < 10_000; waited += 100) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    expect(await bridge.callTool('query')).toEqual({ success: true, tool: 'query', launch: 2 });
+  });
+
+  it('gives up after maxRestarts', async () => {
+    const { bridge, log } = misbehavingBridge('exit-on-start', { maxRestarts: 1 });
+
+    await expect(bridge.start()).rejects.toThrow('MCP server gave up after 1 restarts');
+    expect(log()).toEqual(['launch', 'launch']);
+  });
+});
+
+describe('shared MCP bridge', () => {
+  it('lets every shutdownMCP() call waiting on a lease finish', async () => {
+    const lease = await acquireMCP();
+    const finished: string[] = [];
+
+    const first = shutdownMCP().then(() => finished.push('first'));
+    const second = shutdownMCP().then(() => finished.push('second'));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(finished).toEqual([]);
+
+    lease.release();
+    await Promise.all([first, second]);
+
+    expect(finished.sort()).toEqual(['first', 'second']);
+    // The next caller gets a fresh bridge
+    expect(await getMCP()).not.toBe(lease.bridge);
+  });
+});
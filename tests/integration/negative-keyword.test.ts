@@ -0,0 +1,72 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/sdk', () => import('../helpers/anthropic.js'));
+
+import { anthropicRequests, replayAnthropic, toolResults, unusedResponses } from '../helpers/anthropic.js';
+import { addNegativeKeywords, runNegativeKeywordAnalysis } from '../../src/agents/negative-keyword-agent.js';
+import { queryAccount } from '../../src/tools/google-ads.js';
+import { shutdownMCP } from '../../src/tools/mcp-bridge.js';
+
+afterAll(() => shutdownMCP());
+
+async function campaignNegatives(campaignId: string): Promise<string[]> {
+  const rows = await queryAccount(`
+    SELECT campaign_criterion.keyword.text
+    FROM campaign_criterion
+    WHERE campaign.id = ${campaignId}
+      AND campaign_criterion.negative = TRUE
+  `);
+  return rows.map((row: any) => row.campaign_criterion.keyword.text).sort();
+}
+
+describe('negative keyword agent', () => {
+  it('analyzes the search terms report', async () => {
+    replayAnthropic('negative-keyword');
+
+    const result = await runNegativeKeywordAnalysis();
+
+    expect(result.summary).toContain('## Negative Keyword Recommendations');
+    expect(unusedResponses()).toBe(0);
+
+    const [, followUp] = anthropicRequests();
+    const [searchTerms] = toolResults(followUp);
+    expect(searchTerms.tool_use_id).toBe('toolu_01NegSearchTerms');
+    expect(searchTerms.is_error).toBeUndefined();
+    const terms = JSON.parse(searchTerms.content as string);
+    expect(terms).toHaveLength(6);
+    expect(terms[0]).toMatchObject({ search_term: 'landscape design dublin ohio', campaign: 'Landscape Design - Dublin' });
+    expect(terms.map((t: any) => t.search_term)).toContain('how to build a paver patio');
+  });
+
+  it('adds negatives to a campaign', async () => {
+    const result = await addNegativeKeywords('1002', [
+      { keyword: 'how to', matchType: 'PHRASE' },
+      { keyword: 'free landscape design', matchType: 'EXACT' },
+    ], false);
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.results).toHaveLength(2);
+    expect(await campaignNegatives('1002')).toEqual(['free landscape design', 'how to']);
+  });
+
+  it('leaves out negatives that would block the campaign\'s own keywords', async () => {
+    const result = await addNegativeKeywords('1001', [
+      { keyword: 'landscape design', matchType: 'PHRASE' },
+      { keyword: 'software', matchType: 'PHRASE' },
+    ], false);
+
+    expect(result.success).toBe(true);
+    expect(result.blocked).toHaveLength(1);
+    expect(result.blocked[0].message).toContain('would block "landscape design dublin"');
+    expect(await campaignNegatives('1001')).toEqual(['jobs', 'software']);
+  });
+
+  it('is stopped by the broad match negative guardrail', async () => {
+    const result = await addNegativeKeywords('1002', [{ keyword: 'kits', matchType: 'BROAD' }], false);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no-broad-negatives');
+    expect(await campaignNegatives('1002')).not.toContain('kits');
+  });
+});
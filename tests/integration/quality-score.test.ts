@@ -0,0 +1,47 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/sdk', () => import('../helpers/anthropic.js'));
+
+import { anthropicRequests, replayAnthropic, unusedResponses } from '../helpers/anthropic.js';
+import { loadKeywordQuality, runQualityScoreDiagnostics } from '../../src/agents/quality-score-agent.js';
+import { shutdownMCP } from '../../src/tools/mcp-bridge.js';
+
+afterAll(() => shutdownMCP());
+
+describe('quality score diagnostics', () => {
+  it('loads Quality Score components for enabled keywords', async () => {
+    const rows = await loadKeywordQuality();
+
+    expect(rows).toHaveLength(4);
+    expect(rows.find(row => row.keyword === 'paver patio')).toMatchObject({
+      criterionId: '4004',
+      matchType: 'PHRASE',
+      adGroupId: '3002',
+      adGroupName: 'Patios',
+      campaignName: 'Hardscaping - Powell',
+      qualityScore: 4,
+      expectedCtr: 'BELOW_AVERAGE',
+      adRelevance: 'AVERAGE',
+      landingPage: 'BELOW_AVERAGE',
+      spend: 287.6,
+    });
+  });
+
+  it('ranks keywords by Quality Score deficit and has the model summarize them', async () => {
+    replayAnthropic('quality-score');
+
+    const result = await runQualityScoreDiagnostics();
+
+    expect(result.keywordsAnalyzed).toBe(4);
+    expect(result.keywordsWithoutScore).toBe(0);
+    expect(result.averageQualityScore).toBeGreaterThan(5);
+    expect(result.averageQualityScore).toBeLessThan(7);
+    expect(result.diagnoses.map(d => d.keyword).slice(0, 2)).toEqual(['landscaping company', 'paver patio']);
+    expect(result.totalEstimatedSavings).toBeGreaterThan(0);
+    expect(result.summary).toContain('## Quality Score Summary');
+
+    const [request] = anthropicRequests();
+    expect(request.messages[0].content).toContain('Keywords analyzed: 4 (0 without a Quality Score)');
+    expect(unusedResponses()).toBe(0);
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * Runs before each test file: sessions and the change journal go to a
+ * throwaway directory instead of .ppc-agent-offline
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll } from 'vitest';
+
+const dataDir = mkdtempSync(join(tmpdir(), 'ppc-agent-test-'));
+process.env.PPC_AGENT_DATA_DIR = dataDir;
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseInsertions,
+  scoreAdStrength,
+  validateAdText,
+  type AdStrength,
+  type AdStrengthContext,
+  type DescriptionSpec,
+  type HeadlineSpec,
+} from '../../src/tools/ad-strength.js';
+
+// 14 distinct headlines without a call to action; three contain the keyword, one the location
+const HEADLINES = [
+  'Patio Installation Experts',
+  'Custom Patio Installation',
+  'Patio Installation Done Right',
+  'Serving Dublin Since 1998',
+  'Licensed & Insured Crews',
+  'Natural Stone Walkways',
+  'Retaining Walls Built to Last',
+  'Outdoor Kitchens & Fire Pits',
+  'Family Owned Landscapers',
+  '5-Star Rated on Google',
+  'Paver Driveways & Walkways',
+  'Drainage Solutions That Work',
+  'Seasonal Lawn Care Plans',
+  'Landscape Lighting Design',
+];
+const CTA_HEADLINE = 'Call for a Free Estimate';
+
+const DESCRIPTIONS = [
+  'Free estimates on patio, walkway and retaining wall projects of any size.',
+  'Our licensed crews have built over 500 outdoor living spaces across central Ohio.',
+  'We handle design, permits and cleanup so your project stays on time.',
+  'Natural stone, pavers and concrete in styles to suit any home.',
+];
+const CTA_DESCRIPTION = 'Get a free estimate for your patio, walkway or retaining wall project today.';
+
+const CONTEXT: AdStrengthContext = { keywords: ['patio installation'], locations: ['Dublin'] };
+
+function score(
+  headlines: HeadlineSpec[] = [...HEADLINES, CTA_HEADLINE],
+  descriptions: DescriptionSpec[] = [CTA_DESCRIPTION, ...DESCRIPTIONS.slice(1)],
+  context: AdStrengthContext = CONTEXT
+): AdStrength {
+  return scoreAdStrength({ headlines, descriptions }, context);
+}
+
+const check = (result: AdStrength, name: string) => result.checks.find(c => c.name === name)!;
+
+describe('scoreAdStrength', () => {
+  it('rates an ad that meets every check as excellent', () => {
+    const result = score();
+
+    expect(result).toMatchObject({ level: 'EXCELLENT', score: 100, suggestions: [] });
+    expect(check(result, 'Keywords in headlines').detail).toBe('3 headlines contain an ad group keyword');
+  });
+
+  it('maps the score to a level at the 85 and 70 thresholds', () => {
+    const noCta = { headlines: HEADLINES, descriptions: DESCRIPTIONS };
+    const powell = { ...CONTEXT, locations: ['Powell'] };
+    const level = (result: AdStrength) => [result.score, result.level];
+
+    expect(level(score([...noCta.headlines, 'Free Estimates on Every Job'], noCta.descriptions, powell)))
+      .toEqual([85, 'EXCELLENT']);
+    expect(level(score(
+      [...noCta.headlines, { text: 'Free Estimates on Every Job', pinnedTo: 1 }, { text: 'Upfront Pricing', pinnedTo: 1 }],
+      noCta.descriptions,
+      powell
+    ))).toEqual([84, 'GOOD']);
+
+    const noKeyword = { ...powell, keywords: ['sod repair'] };
+    expect(level(score([...noCta.headlines, CTA_HEADLINE], noCta.descriptions, noKeyword))).toEqual([70, 'GOOD']);
+    expect(level(score([...noCta.headlines, 'Free Estimates on Every Job'], noCta.descriptions, noKeyword)))
+      .toEqual([65, 'AVERAGE']);
+  });
+
+  it('caps the level by the number of distinct headlines, whatever the score', () => {
+    const ten = score([...HEADLINES.slice(0, 9), CTA_HEADLINE]);
+    expect(ten.score).toBeGreaterThanOrEqual(85);
+    expect(ten.level).toBe('GOOD');
+
+    // Near-copies don't count toward the cap
+    const padded = score([...HEADLINES.slice(0, 9), CTA_HEADLINE, 'Patio Installation Expert', 'Expert Patio Installation']);
+    expect(check(padded, 'Headline count').detail).toBe('10 distinct of 12 headlines');
+    expect(padded.level).toBe('GOOD');
+
+    const seven = score([...HEADLINES.slice(0, 6), CTA_HEADLINE]);
+    expect(seven.score).toBeGreaterThanOrEqual(85);
+    expect(seven.level).toBe('AVERAGE');
+
+    const four = score([...HEADLINES.slice(0, 3), CTA_HEADLINE], undefined, { keywords: CONTEXT.keywords });
+    expect(four.score).toBeGreaterThanOrEqual(70);
+    expect(four.level).toBe('POOR');
+  });
+
+  it('credits keyword and location insertion whatever the default text', () => {
+    const context = { keywords: ['sod installation'], locations: ['Powell'] };
+    const without = score(undefined, undefined, context);
+    const withInsertions = score(
+      [...HEADLINES.slice(0, 13), '{KeyWord:Landscaping Pros}', '{LOCATION(City):Central Ohio} Patios', CTA_HEADLINE],
+      undefined,
+      context
+    );
+
+    expect(check(without, 'Keywords in headlines').detail).toBe('0 headlines contain an ad group keyword');
+    expect(check(without, 'Location mention').score).toBe(0);
+    expect(check(withInsertions, 'Keywords in headlines').detail).toBe('1 headlines contain an ad group keyword');
+    expect(check(withInsertions, 'Location mention')).toMatchObject({
+      score: 1,
+      detail: '1 headlines mention a targeted location',
+    });
+  });
+
+  it('penalizes a position pinned to a single asset more than one with alternatives', () => {
+    const pinned = (headlines: HeadlineSpec[], descriptions?: DescriptionSpec[]) =>
+      check(score([...HEADLINES, ...headlines], descriptions), 'Pinning');
+
+    expect(pinned([CTA_HEADLINE])).toMatchObject({ score: 1, detail: 'Nothing pinned' });
+    expect(pinned([{ text: CTA_HEADLINE, pinnedTo: 1 }]).score).toBe(0.3);
+    expect(pinned([{ text: CTA_HEADLINE, pinnedTo: 1 }, { text: 'Upfront Pricing', pinnedTo: 1 }])).toMatchObject({
+      score: 0.7,
+      detail: 'Pinned: 2 headline(s), 0 description(s)',
+    });
+    expect(pinned(
+      [{ text: CTA_HEADLINE, pinnedTo: 1 }, { text: 'Upfront Pricing', pinnedTo: 1 }],
+      [{ text: CTA_DESCRIPTION, pinnedTo: 1 }, ...DESCRIPTIONS.slice(1)]
+    ).score).toBe(0.3);
+
+    expect(score([...HEADLINES, { text: CTA_HEADLINE, pinnedTo: 1 }]).suggestions)
+      .toEqual(['Pin only what must show, and pin 2-3 alternatives to each pinned position']);
+  });
+});
+
+describe('parseInsertions', () => {
+  it('finds keyword and location insertions', () => {
+    const { insertions, errors } = parseInsertions('{KeyWord:Patios} in {LOCATION(City):Dublin}');
+
+    expect(errors).toEqual([]);
+    expect(insertions).toEqual([
+      { raw: '{KeyWord:Patios}', kind: 'keyword', defaultText: 'Patios' },
+      { raw: '{LOCATION(City):Dublin}', kind: 'location', defaultText: 'Dublin' },
+    ]);
+  });
+
+  it('reports missing defaults, unsupported tokens and unbalanced braces', () => {
+    expect(parseInsertions('{KeyWord} Patios').errors).toEqual(['{KeyWord} needs default text, e.g. {KeyWord:Landscaping}']);
+    expect(parseInsertions('{LOCATION(City): } Patios').errors)
+      .toEqual(['{LOCATION(City): } needs default text, e.g. {LOCATION(City):Landscaping}']);
+    expect(parseInsertions('{Brand:Acme} Patios').errors)
+      .toEqual(['unsupported insertion {Brand:Acme} (use {KeyWord:Default} or {LOCATION(City):Default})']);
+    expect(parseInsertions('{KeyWord:Patios Near You').errors).toEqual(['unbalanced { } - insertion syntax is {KeyWord:Default Text}']);
+    expect(parseInsertions('Patios} {KeyWord:Pavers}').errors).toEqual(['unbalanced { } - insertion syntax is {KeyWord:Default Text}']);
+  });
+});
+
+describe('validateAdText', () => {
+  it('measures length on the default text', () => {
+    // 36 characters as written, 26 as shown
+    expect(() => validateAdText('{KeyWord:Patio Installation} Experts', 30, 'Headline')).not.toThrow();
+    expect(() => validateAdText('{KeyWord:Professional Patio Installation}', 30, 'Headline'))
+      .toThrow('Headline too long (31 chars, max 30): "{KeyWord:Professional Patio Installation}"');
+  });
+
+  it('throws on bad insertion syntax', () => {
+    expect(() => validateAdText('{KeyWord} Experts', 30, 'Headline'))
+      .toThrow('Headline "{KeyWord} Experts": {KeyWord} needs default text, e.g. {KeyWord:Landscaping}');
+    expect(() => validateAdText('{KeyWord:Patios Experts', 30, 'Headline'))
+      .toThrow('Headline "{KeyWord:Patios Experts": unbalanced { } - insertion syntax is {KeyWord:Default Text}');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  campaignSpecsToEditorCsv,
+  editorCsvToCampaignSpecs,
+  operationsToEditorCsv,
+} from '../../src/agents/ads-editor-csv.js';
+import { buildCampaignOperations, type CampaignSpec } from '../../src/agents/campaign-builder-agent.js';
+import type { GeoResolution } from '../../src/tools/geo-targets.js';
+import { FAKE_CUSTOMER_ID } from '../../src/tools/fake-google-ads-seed.js';
+
+const SPEC: CampaignSpec = {
+  name: 'Hardscaping, "Premium" - Dublin',
+  dailyBudget: 42.5,
+  biddingStrategy: 'TARGET_CPA',
+  targetCpa: 45,
+  networks: 'SEARCH_AND_PARTNERS',
+  locations: [
+    'Dublin, OH',
+    { name: 'Powell, OH', bidModifier: 1.2 },
+    { radius: 10, units: 'MILES', address: '123 Main St, Dublin, OH', bidModifier: 0.85 },
+    { radius: 5, units: 'KILOMETERS', latitude: 40.0992, longitude: -83.1141 },
+  ],
+  negativeKeywords: [
+    { text: 'diy', matchType: 'BROAD' },
+    { text: 'patio furniture', matchType: 'PHRASE' },
+    { text: 'jobs', matchType: 'EXACT' },
+  ],
+  adGroups: [
+    {
+      name: 'Patios',
+      status: 'ENABLED',
+      keywords: [
+        { text: 'paver patio installation', matchType: 'EXACT' },
+        { text: 'patio builders', matchType: 'PHRASE' },
+      ],
+      ads: [
+        {
+          status: 'ENABLED',
+          headlines: [
+            { text: '{KeyWord:Paver Patios}', pinnedTo: 1 },
+            '{LOCATION(City):Dublin} Patio Pros',
+            'Patios, Walks & "More"',
+          ],
+          descriptions: [
+            'Award-winning patios, walkways and outdoor living spaces in Central Ohio.',
+            { text: 'Get a free "no pressure" design consultation today.', pinnedTo: 2 },
+          ],
+          finalUrl: 'https://stiltnerlandscapes.com/hardscaping?utm_source=google,ads',
+          path1: 'hardscaping',
+          path2: 'patios',
+        },
+        {
+          status: 'PAUSED',
+          headlines: ['Custom Stone Patios', 'Free Patio Estimates', 'Licensed & Insured'],
+          descriptions: [
+            'Natural stone, pavers and concrete in styles to suit any home.',
+            'We handle design, permits and cleanup.',
+          ],
+          finalUrl: 'https://stiltnerlandscapes.com/patios',
+        },
+      ],
+    },
+    {
+      name: 'Walls, "Retaining"',
+      status: 'PAUSED',
+      keywords: [{ text: 'retaining wall contractor', matchType: 'BROAD' }],
+      ads: [{
+        status: 'PAUSED',
+        headlines: ['Retaining Walls Built to Last', 'Stone & Block Walls', 'Free Wall Estimates'],
+        descriptions: ['Engineered retaining walls for slopes and drainage.', 'Call today for a free estimate.'],
+        finalUrl: 'https://stiltnerlandscapes.com/walls',
+      }],
+    },
+  ],
+};
+
+// What the builder resolves SPEC.locations to
+const LOCATIONS: GeoResolution[] = [
+  {
+    input: SPEC.locations[0],
+    label: 'Dublin, OH',
+    status: 'resolved',
+    geoTarget: { id: '1023693', name: 'Dublin', canonicalName: 'Dublin,Ohio,United States', countryCode: 'US', targetType: 'City' },
+  },
+  {
+    input: SPEC.locations[1],
+    label: 'Powell, OH',
+    status: 'resolved',
+    geoTarget: { id: '1023785', name: 'Powell', canonicalName: 'Powell,Ohio,United States', countryCode: 'US', targetType: 'City' },
+  },
+  {
+    input: SPEC.locations[2],
+    label: '10 mi around 123 Main St, Dublin, OH',
+    status: 'resolved',
+    proximity: {
+      radius: 10,
+      radius_units: 2,
+      address: { street_address: '123 Main St', city_name: 'Dublin', province_code: 'OH', country_code: 'US' },
+    },
+  },
+  {
+    input: SPEC.locations[3],
+    label: '5 km around (40.0992, -83.1141)',
+    status: 'resolved',
+    proximity: {
+      radius: 5,
+      radius_units: 3,
+      geo_point: { latitude_in_micro_degrees: 40_099_200, longitude_in_micro_degrees: -83_114_100 },
+    },
+  },
+];
+
+describe('Google Ads Editor CSV', () => {
+  it('quotes fields with commas and quotes', () => {
+    const csv = campaignSpecsToEditorCsv(SPEC);
+
+    expect(csv).toContain('"Hardscaping, ""Premium"" - Dublin"');
+    expect(csv).toContain('"Walls, ""Retaining"""');
+    expect(csv).toContain('"Patios, Walks & ""More"""');
+    expect(csv).toContain('"123 Main St, Dublin, OH",,10,mi,-15%');
+  });
+
+  it('imports its own export back into the same spec', () => {
+    expect(editorCsvToCampaignSpecs(campaignSpecsToEditorCsv(SPEC))).toEqual({ specs: [SPEC], skipped: [] });
+  });
+
+  it('imports paused ad groups and ads as paused', () => {
+    const [spec] = editorCsvToCampaignSpecs(campaignSpecsToEditorCsv(SPEC)).specs;
+
+    expect(spec.adGroups.map(adGroup => [adGroup.status, adGroup.ads.map(ad => ad.status)])).toEqual([
+      ['ENABLED', ['ENABLED', 'PAUSED']],
+      ['PAUSED', ['PAUSED']],
+    ]);
+  });
+
+  it('imports the export of built operations back into the spec', () => {
+    const operations = buildCampaignOperations(FAKE_CUSTOMER_ID, SPEC, LOCATIONS);
+    const { specs, skipped } = editorCsvToCampaignSpecs(operationsToEditorCsv(operations, LOCATIONS));
+
+    expect(skipped).toEqual([]);
+    expect(specs).toEqual([{
+      ...SPEC,
+      // Named by the resolved geo targets, radius addresses as written on the row
+      locations: [
+        'Dublin,Ohio,United States',
+        { name: 'Powell,Ohio,United States', bidModifier: 1.2 },
+        ...SPEC.locations.slice(2),
+      ],
+      // New ad groups and ads are always created enabled
+      adGroups: SPEC.adGroups.map(adGroup => ({
+        ...adGroup,
+        status: 'ENABLED',
+        ads: adGroup.ads.map(ad => ({ ...ad, status: 'ENABLED' })),
+      })),
+    }]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateAuctionInsights } from '../../src/tools/google-ads.js';
+
+// Two campaigns meet the same competitor: Dublin with 3000 of our impressions, Powell with 1000
+const IMPRESSIONS = [
+  { campaign: { id: 1001 }, segments: { week: '2026-09-28' }, metrics: { impressions: 2000 } },
+  { campaign: { id: 1001 }, segments: { week: '2026-10-05' }, metrics: { impressions: 1000 } },
+  { campaign: { id: 1002 }, segments: { week: '2026-09-28' }, metrics: { impressions: 500 } },
+  { campaign: { id: 1002 }, segments: { week: '2026-10-05' }, metrics: { impressions: 500 } },
+];
+
+const insight = (campaignId: number, overlap: number, outranking: number, week?: string) => ({
+  campaign: { id: campaignId },
+  segments: { auction_insight_domain: 'dublinlandscaping.com', ...(week && { week }) },
+  metrics: {
+    auction_insight_search_impression_share: 0.5,
+    auction_insight_search_overlap_rate: overlap,
+    auction_insight_search_outranking_share: outranking,
+  },
+});
+
+const TOTALS = [insight(1001, 0.6, 0.2), insight(1002, 0.2, 0.6)];
+const WEEKS = [
+  insight(1001, 0.6, 0.1, '2026-09-28'),
+  insight(1002, 0.2, 0.4, '2026-09-28'),
+  insight(1001, 0.6, 0.3, '2026-10-05'),
+  insight(1002, 0.2, 0.7, '2026-10-05'),
+];
+
+describe('aggregateAuctionInsights', () => {
+  it('weights a domain seen in two campaigns by our impressions and merges its trend per week', () => {
+    const [competitor, ...others] = aggregateAuctionInsights(TOTALS, WEEKS, IMPRESSIONS, 'week');
+
+    expect(others).toEqual([]);
+    expect(competitor).toMatchObject({
+      domain: 'dublinlandscaping.com',
+      impression_share: 0.5,
+      overlap_rate: 0.5,
+      outranking_share: 0.3,
+      top_of_page_rate: null,
+    });
+    expect(competitor.trend.map(({ period, outranking_share }) => ({ period, outranking_share }))).toEqual([
+      { period: '2026-09-28', outranking_share: 0.16 },
+      { period: '2026-10-05', outranking_share: 0.4333 },
+    ]);
+    expect(competitor.outranking_share_change).toBe(0.2733);
+  });
+});
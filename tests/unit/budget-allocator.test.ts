@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { allocateBudgets, type CampaignBudgetStats } from '../../src/tools/budget-allocator.js';
+
+const JULY = new Date('2026-07-15T12:00:00Z');
+const JANUARY = new Date('2026-01-15T12:00:00Z');
+
+function stats(overrides: Partial<CampaignBudgetStats> & Pick<CampaignBudgetStats, 'campaignId'>): CampaignBudgetStats {
+  return {
+    campaignName: `Campaign ${overrides.campaignId}`,
+    budgetId: `2${overrides.campaignId}`,
+    dailyBudget: 30,
+    cost: 900,
+    conversions: 15,
+    lostImpressionShareBudget: 0,
+    days: 30,
+    ...overrides,
+  };
+}
+
+// $100/day: a budget-limited campaign, one that underspends and one with no conversions
+const ACCOUNT = [
+  stats({ campaignId: '1', dailyBudget: 50, cost: 1500, conversions: 30, lostImpressionShareBudget: 0.4 }),
+  stats({ campaignId: '2', dailyBudget: 30, cost: 600, conversions: 6 }),
+  stats({ campaignId: '3', dailyBudget: 20, cost: 300, conversions: 0 }),
+];
+
+const budgets = (result: ReturnType<typeof allocateBudgets>) =>
+  Object.fromEntries(result.campaigns.map(c => [c.campaignId, c.recommendedBudget]));
+
+describe('allocateBudgets', () => {
+  it('holds the current total and does not drift when run on its own output', () => {
+    const first = allocateBudgets(ACCOUNT, { date: JANUARY });
+
+    expect(first).toMatchObject({ currentTotalBudget: 100, targetTotalBudget: 100, targetBasis: 'current-total', recommendedTotalBudget: 100 });
+
+    const again = allocateBudgets(
+      ACCOUNT.map(c => ({ ...c, dailyBudget: budgets(first)[c.campaignId] })),
+      { date: JANUARY }
+    );
+    expect(again.recommendedTotalBudget).toBe(100);
+    expect(budgets(again)).toEqual(budgets(first));
+  });
+
+  it('moves budget toward the campaign losing impression share to budget', () => {
+    const result = allocateBudgets(ACCOUNT, { date: JULY });
+    const [limited, underspending] = result.campaigns;
+
+    expect(limited.change).toBeGreaterThan(0);
+    expect(limited.recommendedBudget).toBeLessThanOrEqual(limited.maxDailySpend);
+    expect(underspending.change).toBeLessThan(0);
+  });
+
+  it('gives campaigns with no conversions the $10 minimum', () => {
+    const [, , unconverting] = allocateBudgets(ACCOUNT, { date: JULY }).campaigns;
+
+    expect(unconverting).toMatchObject({
+      recommendedBudget: 10,
+      currentCpa: null,
+      marginalCpa: null,
+      reason: 'No conversions in 30 days - held at the $10 minimum',
+    });
+  });
+
+  it('never goes below the minimum, even when the total is smaller than the minimums', () => {
+    const result = allocateBudgets(ACCOUNT, { date: JULY, totalBudget: 25 });
+
+    expect(result.campaigns.every(c => c.recommendedBudget >= 10)).toBe(true);
+    expect(result.warnings).toContain('Minimum budgets add up to $30/day, above the $25/day target');
+  });
+
+  it('keeps every budget within the per-campaign change limit', () => {
+    const result = allocateBudgets(ACCOUNT, { date: JULY, maxChangePercent: 20 });
+    const [limited, underspending, unconverting] = result.campaigns;
+
+    for (const campaign of result.campaigns) {
+      expect(Math.abs(campaign.changePercent)).toBeLessThanOrEqual(20);
+    }
+    expect(limited.recommendedBudget).toBe(60);
+    expect(underspending.recommendedBudget).toBeGreaterThanOrEqual(24);
+    expect(unconverting).toMatchObject({
+      recommendedBudget: 16,
+      reason: 'No conversions in 30 days - reduced as far as the change limit allows',
+    });
+  });
+
+  it('allocates a fixed seasonal total by the season of the date', () => {
+    const seasonalBudget = { peak: 120, off: 60, mode: 'target' as const };
+
+    expect(allocateBudgets(ACCOUNT, { date: JULY, seasonalBudget })).toMatchObject({
+      season: 'peak',
+      targetTotalBudget: 120,
+      targetBasis: 'seasonal-target',
+    });
+    expect(allocateBudgets(ACCOUNT, { date: JANUARY, seasonalBudget })).toMatchObject({
+      season: 'off',
+      targetTotalBudget: 60,
+      targetBasis: 'seasonal-target',
+      recommendedTotalBudget: 60,
+    });
+  });
+
+  it('applies a seasonal cap only when the current total is above it', () => {
+    const seasonalBudget = { peak: 150, off: 70, mode: 'cap' as const };
+
+    expect(allocateBudgets(ACCOUNT, { date: JULY, seasonalBudget })).toMatchObject({
+      season: 'peak',
+      targetTotalBudget: 100,
+      targetBasis: 'current-total',
+    });
+    expect(allocateBudgets(ACCOUNT, { date: JANUARY, seasonalBudget })).toMatchObject({
+      season: 'off',
+      targetTotalBudget: 70,
+      targetBasis: 'seasonal-cap',
+    });
+  });
+
+  it('lets an explicit total win over the season, within the guardrail cap', () => {
+    const result = allocateBudgets(ACCOUNT, {
+      date: JANUARY,
+      totalBudget: 140,
+      maxTotalBudget: 110,
+      seasonalBudget: { peak: 120, off: 60, mode: 'target' },
+    });
+
+    expect(result).toMatchObject({ targetTotalBudget: 110, targetBasis: 'total-budget' });
+    expect(result.warnings).toContain('Total budget capped at $110/day (target was $140/day)');
+  });
+});
@@ -0,0 +1,532 @@
+import { describe, expect, it } from 'vitest';
+import { enums } from 'google-ads-api';
+import {
+  buildCampaignOperations,
+  sanitizeSpec,
+  validateCampaignSpec,
+  type AdSpec,
+  type CampaignSpec,
+} from '../../src/agents/campaign-builder-agent.js';
+import type { GeoResolution } from '../../src/tools/geo-targets.js';
+import { FakeGoogleAdsAccount } from '../../src/tools/fake-google-ads.js';
+import { FAKE_CUSTOMER_ID, seedAccount } from '../../src/tools/fake-google-ads-seed.js';
+import { STANDARD_NEGATIVE_LIST_NAME, standardNegativeKeywords } from '../../src/tools/negative-keywords.js';
+
+const CUSTOMER_ID = FAKE_CUSTOMER_ID;
+
+function ad(overrides: Partial<AdSpec> = {}): AdSpec {
+  return {
+    headlines: ['Patio Builders Dublin OH', 'Custom Stone Patios', 'Free Patio Estimates'],
+    descriptions: [
+      'Award-winning patios and outdoor living spaces. 20+ years in Central Ohio.',
+      'Get a free design consultation from our hardscape team today.',
+    ],
+    finalUrl: 'https://stiltnerlandscapes.com/hardscaping',
+    path1: 'hardscaping',
+    path2: 'patios',
+    ...overrides,
+  };
+}
+
+function spec(overrides: Partial<CampaignSpec> = {}): CampaignSpec {
+  return {
+    name: 'Hardscaping - Dublin',
+    dailyBudget: 35,
+    biddingStrategy: 'MAXIMIZE_CONVERSIONS',
+    networks: 'SEARCH_ONLY',
+    locations: ['Dublin, OH'],
+    adGroups: [
+      {
+        name: 'Patios',
+        keywords: [
+          { text: 'patio builders dublin', matchType: 'PHRASE' },
+          { text: 'paver patio installation', matchType: 'EXACT' },
+        ],
+        ads: [ad()],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+const DUBLIN: GeoResolution = {
+  input: 'Dublin, OH',
+  label: 'Dublin, OH',
+  status: 'resolved',
+  geoTarget: {
+    id: '1023693',
+    name: 'Dublin',
+    canonicalName: 'Dublin,Ohio,United States',
+    countryCode: 'US',
+    targetType: 'City',
+  },
+};
+
+function byEntity(operations: any[], entity: string): any[] {
+  return operations.filter(op => op.entity === entity);
+}
+
+// ============================================================
+// buildCampaignOperations
+// ============================================================
+
+describe('buildCampaignOperations', () => {
+  it('builds budget, campaign, targeting, negatives, ad groups, keywords and ads in dependency order', () => {
+    const operations = buildCampaignOperations(CUSTOMER_ID, spec(), [DUBLIN]);
+
+    expect(operations.map(op => op.entity)).toEqual([
+      'campaign_budget',
+      'campaign',
+      'campaign_criterion',
+      'shared_set',
+      ...standardNegativeKeywords().map(() => 'shared_criterion'),
+      'campaign_shared_set',
+      'ad_group',
+      'ad_group_criterion',
+      'ad_group_criterion',
+      'ad_group_ad',
+    ]);
+    expect(operations.every(op => op.operation === 'create')).toBe(true);
+  });
+
+  it('gives every created resource a unique negative temp id and references it afterwards', () => {
+    const operations = buildCampaignOperations(CUSTOMER_ID, spec(), [DUBLIN]);
+    const [budget] = byEntity(operations, 'campaign_budget');
+    const [campaign] = byEntity(operations, 'campaign');
+    const [adGroup] = byEntity(operations, 'ad_group');
+
+    const names = operations.map(op => op.resource.resource_name).filter(Boolean);
+    expect(new Set(names).size).toBe(names.length);
+    for (const name of names) {
+      expect(name).toMatch(new RegExp(`^customers/${CUSTOMER_ID}/\\w+/(-\\d+~)?-\\d+$`));
+    }
+
+    expect(campaign.resource.campaign_budget).toBe(budget.resource.resource_name);
+    expect(adGroup.resource.campaign).toBe(campaign.resource.resource_name);
+    for (const op of byEntity(operations, 'campaign_criterion')) {
+      expect(op.resource.campaign).toBe(campaign.resource.resource_name);
+    }
+    for (const op of [...byEntity(operations, 'ad_group_criterion'), ...byEntity(operations, 'ad_group_ad')]) {
+      expect(op.resource.ad_group).toBe(adGroup.resource.resource_name);
+    }
+  });
+
+  it('creates the campaign paused with the budget in micros', () => {
+    const operations = buildCampaignOperations(CUSTOMER_ID, spec({ dailyBudget: 42.5 }), [DUBLIN]);
+
+    expect(byEntity(operations, 'campaign_budget')[0].resource).toMatchObject({
+      name: 'Hardscaping - Dublin Budget',
+      amount_micros: 42_500_000,
+    });
+    expect(byEntity(operations, 'campaign')[0].resource).toMatchObject({
+      name: 'Hardscaping - Dublin',
+      status: 3, // PAUSED
+      advertising_channel_type: 2, // SEARCH
+      maximize_conversions: { cpc_bid_ceiling_micros: 0 },
+      network_settings: { target_google_search: true, target_search_network: false },
+    });
+  });
+
+  it('sets the bidding scheme for the strategy', () => {
+    const campaign = (overrides: Partial<CampaignSpec>) =>
+      byEntity(buildCampaignOperations(CUSTOMER_ID, spec(overrides), [DUBLIN]), 'campaign')[0].resource;
+
+    expect(campaign({ biddingStrategy: 'TARGET_CPA', targetCpa: 45 }).target_cpa).toEqual({ target_cpa_micros: 45_000_000 });
+    expect(campaign({ biddingStrategy: 'TARGET_ROAS', targetRoas: 4 }).target_roas).toEqual({ target_roas: 4 });
+    expect(campaign({ biddingStrategy: 'MANUAL_CPC' }).manual_cpc).toEqual({ enhanced_cpc_enabled: false });
+    expect(campaign({
+      biddingStrategy: 'TARGET_IMPRESSION_SHARE',
+      targetImpressionShare: { location: 'TOP_OF_PAGE', share: 0.7, maxCpcBid: 8 },
+    }).target_impression_share).toEqual({
+      location: 3,
+      location_fraction_micros: 700_000,
+      cpc_bid_ceiling_micros: 8_000_000,
+    });
+  });
+
+  it('creates a portfolio strategy and points the campaign at it', () => {
+    const operations = buildCampaignOperations(
+      CUSTOMER_ID,
+      spec({ biddingStrategy: 'TARGET_CPA', targetCpa: 50, portfolio: { name: 'Lead Gen CPA' } }),
+      [DUBLIN]
+    );
+    const [strategy] = byEntity(operations, 'bidding_strategy');
+    const [campaign] = byEntity(operations, 'campaign');
+
+    expect(strategy.resource).toMatchObject({ name: 'Lead Gen CPA' });
+    expect(campaign.resource.bidding_strategy).toBe(strategy.resource.resource_name);
+    expect(campaign.resource.target_cpa).toBeUndefined();
+  });
+
+  it('targets resolved locations and radius targets with their bid modifiers', () => {
+    const radius: GeoResolution = {
+      input: { radius: 10, address: '123 Main St, Dublin, OH' },
+      label: '10 mi around 123 Main St, Dublin, OH',
+      status: 'resolved',
+      proximity: { radius: 10, radius_units: 2, address: { street_address: '123 Main St', city_name: 'Dublin' } } as any,
+    };
+    const operations = buildCampaignOperations(
+      CUSTOMER_ID,
+      spec({ locations: [{ name: 'Dublin, OH', bidModifier: 1.2 }, { radius: 10, address: '123 Main St, Dublin, OH' }] }),
+      [{ ...DUBLIN, input: { name: 'Dublin, OH', bidModifier: 1.2 } }, radius]
+    );
+    const [location, proximity] = byEntity(operations, 'campaign_criterion');
+
+    expect(location.resource).toMatchObject({
+      location: { geo_target_constant: 'geoTargetConstants/1023693' },
+      negative: false,
+      bid_modifier: 1.2,
+    });
+    expect(proximity.resource.proximity).toEqual(radius.proximity);
+  });
+
+  it('refuses to build a campaign for a location that did not resolve', () => {
+    const ambiguous: GeoResolution = {
+      input: 'Dublin',
+      label: 'Dublin',
+      status: 'ambiguous',
+      message: 'matches Dublin, OH; Dublin, CA; Dublin, Ireland',
+    };
+
+    expect(() => buildCampaignOperations(CUSTOMER_ID, spec(), [ambiguous]))
+      .toThrow('Location "Dublin" is ambiguous: matches Dublin, OH; Dublin, CA; Dublin, Ireland');
+  });
+
+  it('creates one schedule criterion per day and a device criterion per modifier', () => {
+    const operations = buildCampaignOperations(
+      CUSTOMER_ID,
+      spec({
+        adSchedule: [{ days: 'WEEKDAYS', startHour: 7, endHour: 19, bidModifier: 1.1 }],
+        deviceBidModifiers: { mobile: 1.25, tablet: 0 },
+      }),
+      [DUBLIN]
+    );
+    const criteria = byEntity(operations, 'campaign_criterion');
+    const schedules = criteria.filter(op => op.resource.ad_schedule);
+    const devices = criteria.filter(op => op.resource.device);
+
+    expect(schedules.map(op => op.resource.ad_schedule.day_of_week)).toEqual([2, 3, 4, 5, 6]);
+    expect(schedules[0].resource).toMatchObject({
+      ad_schedule: { start_hour: 7, end_hour: 19, start_minute: 2, end_minute: 2 },
+      bid_modifier: 1.1,
+    });
+    expect(devices.map(op => [op.resource.device.type, op.resource.bid_modifier])).toEqual([[2, 1.25], [3, 0]]);
+  });
+
+  it('adds campaign negatives as negative keyword criteria', () => {
+    const operations = buildCampaignOperations(
+      CUSTOMER_ID,
+      spec({ negativeKeywords: [{ text: 'retaining wall blocks', matchType: 'EXACT' }] }),
+      [DUBLIN]
+    );
+    const negatives = byEntity(operations, 'campaign_criterion').filter(op => op.resource.negative);
+
+    expect(negatives).toHaveLength(1);
+    expect(negatives[0].resource.keyword).toEqual({ text: 'retaining wall blocks', match_type: 2 });
+    expect(negatives[0].resource.type).toBe(enums.CriterionType.KEYWORD);
+  });
+
+  it('reuses existing negative keyword lists instead of creating the standard list again', () => {
+    const standardList = `customers/${CUSTOMER_ID}/sharedSets/777`;
+    const brandList = `customers/${CUSTOMER_ID}/sharedSets/888`;
+    const operations = buildCampaignOperations(
+      CUSTOMER_ID,
+      spec({ sharedNegativeLists: ['Brand Protection'] }),
+      [DUBLIN],
+      { [STANDARD_NEGATIVE_LIST_NAME]: standardList, 'Brand Protection': brandList }
+    );
+
+    expect(byEntity(operations, 'shared_set')).toHaveLength(0);
+    expect(byEntity(operations, 'campaign_shared_set').map(op => op.resource.shared_set)).toEqual([brandList, standardList]);
+  });
+
+  it('fails on a negative keyword list the account does not have', () => {
+    expect(() => buildCampaignOperations(CUSTOMER_ID, spec({ sharedNegativeLists: ['Missing List'] }), [DUBLIN]))
+      .toThrow('Negative keyword list "Missing List" not found');
+  });
+
+  it('skips the standard negative list when standardNegatives is false', () => {
+    const operations = buildCampaignOperations(CUSTOMER_ID, spec({ standardNegatives: false }), [DUBLIN]);
+
+    expect(byEntity(operations, 'shared_set')).toHaveLength(0);
+    expect(byEntity(operations, 'campaign_shared_set')).toHaveLength(0);
+  });
+
+  it('builds keywords with numeric match types and ads with pinned assets', () => {
+    const operations = buildCampaignOperations(
+      CUSTOMER_ID,
+      spec({
+        adGroups: [{
+          name: 'Patios',
+          keywords: [{ text: 'patio builders dublin', matchType: 'BROAD' }],
+          ads: [ad({ headlines: [{ text: 'Patio Builders Dublin OH', pinnedTo: 1 }, 'Custom Stone Patios', 'Free Patio Estimates'] })],
+        }],
+      }),
+      [DUBLIN]
+    );
+    const [keyword] = byEntity(operations, 'ad_group_criterion');
+    const [adOp] = byEntity(operations, 'ad_group_ad');
+
+    expect(keyword.resource.keyword).toEqual({ text: 'patio builders dublin', match_type: 4 });
+    expect(adOp.resource.ad.final_urls).toEqual(['https://stiltnerlandscapes.com/hardscaping']);
+    expect(adOp.resource.ad.responsive_search_ad.headlines).toEqual([
+      { text: 'Patio Builders Dublin OH', pinned_field: 2 },
+      { text: 'Custom Stone Patios' },
+      { text: 'Free Patio Estimates' },
+    ]);
+  });
+
+  it('links campaign assets to the campaign', () => {
+    const operations = buildCampaignOperations(
+      CUSTOMER_ID,
+      spec({ assets: { callouts: ['Free Estimates', 'Licensed & Insured'] } }),
+      [DUBLIN]
+    );
+    const [campaign] = byEntity(operations, 'campaign');
+    const links = byEntity(operations, 'campaign_asset');
+
+    expect(byEntity(operations, 'asset')).toHaveLength(2);
+    expect(links).toHaveLength(2);
+    expect(links.every(op => op.resource.campaign === campaign.resource.resource_name)).toBe(true);
+  });
+
+  it('produces operations the Google Ads API accepts', () => {
+    const account = new FakeGoogleAdsAccount({ customerId: CUSTOMER_ID, resources: seedAccount(CUSTOMER_ID) });
+    const operations = buildCampaignOperations(
+      CUSTOMER_ID,
+      spec({
+        biddingStrategy: 'TARGET_CPA',
+        targetCpa: 60,
+        adSchedule: [{ days: 'EVERY_DAY', startHour: 6, endHour: 22 }],
+        deviceBidModifiers: { mobile: 1.2 },
+        negativeKeywords: [{ text: 'retaining wall blocks', matchType: 'PHRASE' }],
+        assets: {
+          sitelinks: [{ linkText: 'Patio Gallery', finalUrl: 'https://stiltnerlandscapes.com/gallery' }],
+          callouts: ['Free Estimates'],
+          structuredSnippets: [{ header: 'Service catalog', values: ['Patios', 'Walkways', 'Fire Pits'] }],
+        },
+      }),
+      [DUBLIN]
+    );
+
+    const result = account.mutate(operations, { customerId: CUSTOMER_ID, dryRun: true });
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.metadata.failure_count).toBe(0);
+  });
+
+  it('sends criterion types the Google Ads API agrees with', () => {
+    const account = new FakeGoogleAdsAccount({ customerId: CUSTOMER_ID, resources: seedAccount(CUSTOMER_ID) });
+    const operations = buildCampaignOperations(
+      CUSTOMER_ID,
+      spec({
+        adSchedule: [{ days: 'MONDAY', startHour: 6, endHour: 22 }],
+        deviceBidModifiers: { mobile: 1.2 },
+        negativeKeywords: [{ text: 'retaining wall blocks', matchType: 'PHRASE' }],
+      }),
+      [DUBLIN]
+    );
+    const negative = operations.find(op => op.entity === 'campaign_criterion' && op.resource.negative)!;
+    const wrongType = { ...negative, resource: { ...negative.resource, type: enums.CriterionType.MOBILE_APP_CATEGORY } };
+
+    expect(account.mutate(operations, { customerId: CUSTOMER_ID, dryRun: true }).success).toBe(true);
+    expect(account.mutate([...operations, wrongType], { customerId: CUSTOMER_ID, dryRun: true }).error)
+      .toContain('CRITERION_TYPE_MISMATCH');
+  });
+});
+
+// ============================================================
+// sanitizeSpec
+// ============================================================
+
+describe('sanitizeSpec', () => {
+  it('truncates long headlines, descriptions and paths', () => {
+    const long = spec({
+      adGroups: [{
+        name: 'Patios',
+        keywords: [{ text: 'patio builders dublin', matchType: 'PHRASE' }],
+        ads: [ad({
+          headlines: ['Award Winning Patio Builders In Dublin Ohio', 'Custom Stone Patios', 'Free Patio Estimates'],
+          descriptions: [
+            'We design and build award-winning paver patios, fire pits and outdoor kitchens for homeowners across Central Ohio.',
+            'Get a free design consultation from our hardscape team today.',
+          ],
+          path1: 'hardscaping-services',
+          path2: 'paver-patios-ohio',
+        })],
+      }],
+    });
+
+    const [sanitized] = sanitizeSpec(long).adGroups[0].ads;
+
+    expect(sanitized.headlines[0]).toBe('Award Winning Patio Builders I');
+    expect((sanitized.descriptions[0] as string).length).toBeLessThanOrEqual(90);
+    expect(sanitized.descriptions[0]).toBe('We design and build award-winning paver patios, fire pits and outdoor kitchens for...');
+    expect(sanitized.path1).toBe('hardscaping-ser');
+    expect(sanitized.path2).toBe('paver-patios-oh');
+    expect(() => validateCampaignSpec(sanitizeSpec(long))).not.toThrow();
+  });
+
+  it('keeps pins and leaves insertion syntax for validation to report', () => {
+    const headline = '{KeyWord:Patio Builders} in Dublin Ohio Area';
+    const [sanitized] = sanitizeSpec(spec({
+      adGroups: [{
+        name: 'Patios',
+        keywords: [{ text: 'patio builders dublin', matchType: 'PHRASE' }],
+        ads: [ad({ headlines: [{ text: 'Patio Builders In Dublin Ohio Today', pinnedTo: 1 }, headline, 'Free Patio Estimates'] })],
+      }],
+    })).adGroups[0].ads;
+
+    expect(sanitized.headlines[0]).toEqual({ text: 'Patio Builders In Dublin Ohio', pinnedTo: 1 });
+    expect(sanitized.headlines[1]).toBe(headline);
+  });
+
+  it('replaces phone numbers in headlines', () => {
+    const [sanitized] = sanitizeSpec(spec({
+      adGroups: [{
+        name: 'Patios',
+        keywords: [{ text: 'patio builders dublin', matchType: 'PHRASE' }],
+        ads: [ad({ headlines: ['Call (614) 555-0199', 'Custom Stone Patios', 'Call 614.555.0199 Now'] })],
+      }],
+    })).adGroups[0].ads;
+
+    expect(sanitized.headlines).toEqual(['Call Call Today', 'Custom Stone Patios', 'Call Call Today Now']);
+  });
+
+  it('drops keywords repeated within an ad group', () => {
+    const sanitized = sanitizeSpec(spec({
+      adGroups: [{
+        name: 'Patios',
+        keywords: [
+          { text: 'patio builders dublin', matchType: 'PHRASE' },
+          { text: ' Patio Builders Dublin', matchType: 'PHRASE' },
+          { text: 'patio builders dublin', matchType: 'EXACT' },
+        ],
+        ads: [ad()],
+      }],
+    }));
+
+    expect(sanitized.adGroups[0].keywords).toEqual([
+      { text: 'patio builders dublin', matchType: 'PHRASE' },
+      { text: 'patio builders dublin', matchType: 'EXACT' },
+    ]);
+  });
+});
+
+// ============================================================
+// validateCampaignSpec
+// ============================================================
+
+describe('validateCampaignSpec', () => {
+  const withAd = (overrides: Partial<AdSpec>) => spec({
+    adGroups: [{
+      name: 'Patios',
+      keywords: [{ text: 'patio builders dublin', matchType: 'PHRASE' }],
+      ads: [ad(overrides)],
+    }],
+  });
+
+  it('accepts a valid spec', () => {
+    expect(() => validateCampaignSpec(spec())).not.toThrow();
+  });
+
+  it.each<[string, CampaignSpec, string]>([
+    ['a budget under $1', spec({ dailyBudget: 0.5 }), 'Daily budget must be at least $1'],
+    ['no ad groups', spec({ adGroups: [] }), 'Campaign must have at least one ad group'],
+    [
+      'an ad group without keywords',
+      spec({ adGroups: [{ name: 'Patios', keywords: [], ads: [ad()] }] }),
+      'Ad group "Patios" must have at least one keyword',
+    ],
+    [
+      'an ad group without ads',
+      spec({ adGroups: [{ name: 'Patios', keywords: [{ text: 'patio builders dublin', matchType: 'PHRASE' }], ads: [] }] }),
+      'Ad group "Patios" must have at least one ad',
+    ],
+    ['too few headlines', withAd({ headlines: ['Patio Builders', 'Stone Patios'] }), 'Ads must have 3-15 headlines'],
+    ['too few descriptions', withAd({ descriptions: ['Award-winning patios.'] }), 'Ads must have 2-4 descriptions'],
+    [
+      'a phone number in a headline',
+      withAd({ headlines: ['Call 614-555-0199', 'Custom Stone Patios', 'Free Patio Estimates'] }),
+      'Phone numbers not allowed in headlines',
+    ],
+    [
+      'excessive punctuation',
+      withAd({ headlines: ['Best Patios!!', 'Custom Stone Patios', 'Free Patio Estimates'] }),
+      'Excessive punctuation not allowed in headlines',
+    ],
+    [
+      'a headline pinned to position 4',
+      withAd({ headlines: [{ text: 'Patio Builders', pinnedTo: 4 as any }, 'Custom Stone Patios', 'Free Patio Estimates'] }),
+      'pinned to position 4',
+    ],
+    [
+      'every headline pinned to position 1',
+      withAd({ headlines: [1, 1, 1].map(pin => ({ text: `Patio Builders ${pin}`, pinnedTo: 1 as const })) }),
+      'nothing can show in position 2',
+    ],
+    ['a long path', withAd({ path1: 'hardscaping-services' }), 'path1 too long'],
+    [
+      'a keyword repeated in an ad group',
+      spec({
+        adGroups: [{
+          name: 'Patios',
+          keywords: [{ text: 'patio builders', matchType: 'PHRASE' }, { text: 'Patio Builders', matchType: 'PHRASE' }],
+          ads: [ad()],
+        }],
+      }),
+      'appears twice in ad group "Patios"',
+    ],
+    ['TARGET_CPA without a target', spec({ biddingStrategy: 'TARGET_CPA' }), 'TARGET_CPA bidding needs targetCpa'],
+    ['TARGET_ROAS out of range', spec({ biddingStrategy: 'TARGET_ROAS', targetRoas: 5000 }), 'targetRoas must be between 0.01 and 1000'],
+    [
+      'a portfolio of a non-portfolio strategy',
+      spec({ biddingStrategy: 'MANUAL_CPC', portfolio: { name: 'Shared' } }),
+      'MANUAL_CPC cannot be used as a portfolio bidding strategy',
+    ],
+    [
+      'overlapping ad schedule windows',
+      spec({ adSchedule: [{ days: 'MONDAY', startHour: 8, endHour: 12 }, { days: 'WEEKDAYS', startHour: 10, endHour: 18 }] }),
+      'Ad schedule windows overlap on MONDAY',
+    ],
+    [
+      'every device excluded',
+      spec({ deviceBidModifiers: { mobile: 0, desktop: 0, tablet: 0 } }),
+      'exclude every device',
+    ],
+    [
+      'a negative that blocks its own keywords',
+      spec({ negativeKeywords: [{ text: 'patio', matchType: 'BROAD' }] }),
+      'would block the campaign\'s own keywords',
+    ],
+    [
+      'a keyword the standard negatives block',
+      spec({
+        adGroups: [{ name: 'Patios', keywords: [{ text: 'diy patio kits', matchType: 'PHRASE' }], ads: [ad()] }],
+      }),
+      'Standard negative "diy" would block',
+    ],
+    [
+      'a sitelink with one description',
+      spec({ assets: { sitelinks: [{ linkText: 'Gallery', finalUrl: 'https://stiltnerlandscapes.com/gallery', description1: 'See our work' }] } }),
+      'needs both descriptions or neither',
+    ],
+    [
+      'an unknown structured snippet header',
+      spec({ assets: { structuredSnippets: [{ header: 'Patios' as any, values: ['Stone', 'Paver', 'Brick'] }] } }),
+      'unknown structured snippet header "Patios"',
+    ],
+  ])('rejects %s', (_case, invalid, message) => {
+    expect(() => validateCampaignSpec(invalid)).toThrow(message);
+  });
+
+  it('allows the standard negatives to be turned off', () => {
+    const diy = spec({
+      standardNegatives: false,
+      adGroups: [{ name: 'Patios', keywords: [{ text: 'diy patio kits', matchType: 'PHRASE' }], ads: [ad()] }],
+    });
+
+    expect(() => validateCampaignSpec(diy)).not.toThrow();
+  });
+});
@@ -0,0 +1,113 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cassetteMode, throughCassette, unusedCassetteEntries, useCassette, type Cassette } from '../../src/tools/cassette.js';
+
+const path = join(process.env.PPC_AGENT_DATA_DIR!, 'unit.cassette.json');
+
+function readCassette(): Cassette {
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+/**
+ * Record a model call, two queries and a failed DataForSEO call
+ */
+async function recordRun(): Promise<void> {
+  useCassette('record', path);
+  await throughCassette('anthropic', { messages: [{ role: 'user', content: 'audit' }] }, async () => ({ id: 'msg_1' }));
+  await throughCassette('google_ads_query', { customerId: '1', query: 'SELECT campaign.id FROM campaign' }, async () => [{ campaign: { id: 1 } }]);
+  await throughCassette('google_ads_query', { customerId: '1', query: 'SELECT ad_group.id FROM ad_group' }, async () => [{ ad_group: { id: 2 } }]);
+  await throughCassette('dataforseo', { endpoint: '/serp', body: {} }, async () => {
+    throw new Error('DataForSEO API error: 500');
+  }).catch(() => {});
+  useCassette('off');
+}
+
+afterEach(() => {
+  useCassette('off');
+  vi.restoreAllMocks();
+});
+
+describe('recording', () => {
+  it('writes requests, responses and errors in call order', async () => {
+    await recordRun();
+
+    const cassette = readCassette();
+    expect(cassette.version).toBe(1);
+    expect(cassette.entries.map(e => e.kind)).toEqual(['anthropic', 'google_ads_query', 'google_ads_query', 'dataforseo']);
+    expect(cassette.entries[1]).toEqual({
+      kind: 'google_ads_query',
+      request: { customerId: '1', query: 'SELECT campaign.id FROM campaign' },
+      response: [{ campaign: { id: 1 } }],
+    });
+    expect(cassette.entries[3]).toEqual({
+      kind: 'dataforseo',
+      request: { endpoint: '/serp', body: {} },
+      error: 'DataForSEO API error: 500',
+    });
+  });
+
+  it('snapshots requests the caller keeps changing', async () => {
+    useCassette('record', path);
+    const messages = [{ role: 'user', content: 'audit' }];
+    await throughCassette('anthropic', { messages }, async () => ({ id: 'msg_1' }));
+    messages.push({ role: 'assistant', content: 'done' });
+
+    expect(readCassette().entries[0].request.messages).toHaveLength(1);
+  });
+
+  it('passes calls straight through when off', async () => {
+    expect(cassetteMode()).toBe('off');
+    expect(await throughCassette('dataforseo', { endpoint: '/serp', body: {} }, async () => 'live')).toBe('live');
+  });
+});
+
+describe('replay', () => {
+  it('matches reads by request, whatever order they come in', async () => {
+    await recordRun();
+    useCassette('replay', path);
+    const call = vi.fn();
+
+    expect(await throughCassette('google_ads_query', { customerId: '1', query: 'SELECT ad_group.id FROM ad_group' }, call))
+      .toEqual([{ ad_group: { id: 2 } }]);
+    expect(await throughCassette('google_ads_query', { customerId: '1', query: 'SELECT campaign.id FROM campaign' }, call))
+      .toEqual([{ campaign: { id: 1 } }]);
+    expect(call).not.toHaveBeenCalled();
+    expect(unusedCassetteEntries().map(e => e.kind)).toEqual(['anthropic', 'dataforseo']);
+  });
+
+  it('serves model calls in recorded order and warns when the request changed', async () => {
+    await recordRun();
+    useCassette('replay', path);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await throughCassette('anthropic', { messages: [{ role: 'user', content: 'audit again' }] }, vi.fn());
+
+    expect(response).toEqual({ id: 'msg_1' });
+    expect(warn).toHaveBeenCalledWith('⚠️  Replayed anthropic request #1 differs from the recording');
+  });
+
+  it('throws recorded errors again', async () => {
+    await recordRun();
+    useCassette('replay', path);
+
+    await expect(throughCassette('dataforseo', { endpoint: '/serp', body: {} }, vi.fn()))
+      .rejects.toThrow('DataForSEO API error: 500');
+  });
+
+  it('fails a call it has no recording for instead of making it', async () => {
+    await recordRun();
+    useCassette('replay', path);
+    const call = vi.fn();
+    const query = { customerId: '1', query: 'SELECT campaign.id FROM campaign' };
+
+    await throughCassette('google_ads_query', query, call);
+    await expect(throughCassette('google_ads_query', query, call)).rejects.toThrow('has no recorded google_ads_query call left');
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('needs an existing cassette file', () => {
+    expect(() => useCassette('replay')).toThrow('PPC_AGENT_CASSETTE must name the cassette to replay');
+    expect(() => useCassette('replay', join(process.env.PPC_AGENT_DATA_DIR!, 'missing.json'))).toThrow('Cassette not found');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildRollbackPlan, extractOperationResourceNames, type JournalEntry } from '../../src/tools/change-journal.js';
+
+const operations = [
+  { entity: 'campaign_criterion', operation: 'create', resource: { campaign: 'customers/1/campaigns/10', negative: true, keyword: { text: 'jobs', match_type: 3 } } },
+  { entity: 'campaign_criterion', operation: 'create', resource: { campaign: 'customers/1/campaigns/10', negative: true, keyword: { text: 'free', match_type: 3 } } },
+];
+
+function entry(result: any): JournalEntry {
+  return {
+    changeId: 'abc12345',
+    timestamp: '2026-10-19T00:00:00.000Z',
+    customerId: '1',
+    operations,
+    priorValues: [],
+    resourceNames: [],
+    operationResourceNames: extractOperationResourceNames(operations, result),
+    success: true,
+  };
+}
+
+describe('extractOperationResourceNames', () => {
+  it('takes one result per operation, by index', () => {
+    expect(extractOperationResourceNames(operations, {
+      data: [
+        { campaign_criterion_result: { resource_name: 'customers/1/campaignCriteria/10~1' } },
+        { campaign_criterion_result: { resource_name: 'customers/1/campaignCriteria/10~2' } },
+      ],
+    })).toEqual(['customers/1/campaignCriteria/10~1', 'customers/1/campaignCriteria/10~2']);
+  });
+
+  it('leaves a failed operation without a name', () => {
+    expect(extractOperationResourceNames(operations, {
+      data: [{}, { campaign_criterion_result: { resource_name: 'customers/1/campaignCriteria/10~2' } }],
+    })).toEqual([null, 'customers/1/campaignCriteria/10~2']);
+  });
+
+  it('trusts nothing when results cannot be lined up with operations', () => {
+    expect(extractOperationResourceNames(operations, {
+      data: [{ campaign_criterion_result: { resource_name: 'customers/1/campaignCriteria/10~2' } }],
+    })).toEqual([null, null]);
+    expect(extractOperationResourceNames(operations, {
+      data: [
+        { campaign_result: { resource_name: 'customers/1/campaigns/10' } },
+        { campaign_criterion_result: { resource_name: 'customers/1/campaignCriteria/10~2' } },
+      ],
+    })).toEqual([null, 'customers/1/campaignCriteria/10~2']);
+  });
+});
+
+describe('buildRollbackPlan', () => {
+  it('removes each created resource by its own result', () => {
+    const plan = buildRollbackPlan(entry({
+      data: [{}, { campaign_criterion_result: { resource_name: 'customers/1/campaignCriteria/10~2' } }],
+    }));
+
+    expect(plan.operations).toEqual([
+      { entity: 'campaign_criterion', operation: 'remove', resource: 'customers/1/campaignCriteria/10~2' },
+    ]);
+    expect(plan.irreversible).toEqual([
+      '#0 create campaign_criterion: the API did not return a resource name for this operation to remove',
+    ]);
+  });
+
+  it('removes nothing for entries journaled without per-operation names', () => {
+    const old = { ...entry({}), operationResourceNames: undefined, resourceNames: ['customers/1/campaignCriteria/10~2'] };
+
+    expect(buildRollbackPlan(old).operations).toEqual([]);
+    expect(buildRollbackPlan(old).irreversible).toHaveLength(2);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { FakeGoogleAdsAccount, type FakeOperation } from '../../src/tools/fake-google-ads.js';
+import { FAKE_CUSTOMER_ID } from '../../src/tools/fake-google-ads-seed.js';
+
+const budget = (resourceName: string, name: string): FakeOperation => ({
+  entity: 'campaign_budget',
+  operation: 'create',
+  resource: { resource_name: resourceName, name, amount_micros: 20_000_000, delivery_method: 'STANDARD' },
+});
+
+describe('FakeGoogleAdsAccount.mutate', () => {
+  it('creates nothing for a create that fails under partial failure', () => {
+    const account = new FakeGoogleAdsAccount();
+    const before = account.snapshot('campaign_budget').length;
+
+    const result = account.mutate([
+      budget(`customers/${FAKE_CUSTOMER_ID}/campaignBudgets/-1`, 'Budget A'),
+      budget(`customers/${FAKE_CUSTOMER_ID}/campaignBudgets/55`, 'Budget B'),
+      budget(`customers/${FAKE_CUSTOMER_ID}/campaignBudgets/-1`, 'Budget C'),
+      budget('customers/999/campaignBudgets/-2', 'Budget D'),
+    ], { partialFailure: true });
+
+    expect(result.partial_failure_errors?.map(e => [e.operation_index, e.error_code])).toEqual([
+      [1, 'INVALID_RESOURCE_NAME'],
+      [2, 'DUPLICATE_TEMP_ID'],
+      [3, 'INVALID_CUSTOMER_ID'],
+    ]);
+    expect(result.metadata.success_count).toBe(1);
+    const names = account.snapshot('campaign_budget').map(entry => entry.resource.name);
+    expect(names).toHaveLength(before + 1);
+    expect(names).toContain('Budget A');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateGuardrails, type AccountReader, type GuardrailPolicy } from '../../src/tools/guardrails.js';
+
+const CAP: GuardrailPolicy = {
+  rules: [{ id: 'account-cap', type: 'max_total_daily_budget', amount: 100 }],
+};
+
+const campaign = (id: string, status: number, budgetId: string, dollars: number) => ({
+  campaign: { resource_name: `customers/1/campaigns/${id}`, status },
+  campaign_budget: { resource_name: `customers/1/campaignBudgets/${budgetId}`, amount_micros: dollars * 1_000_000 },
+});
+
+// $60 enabled, $50 paused, and a $30 budget shared by an enabled and a paused campaign
+const readAccount: AccountReader = async () => [
+  campaign('1', 2, '11', 60),
+  campaign('2', 3, '12', 50),
+  campaign('3', 2, '13', 30),
+  campaign('4', 3, '13', 30),
+];
+
+const enable = (id: string) => ({
+  entity: 'campaign',
+  operation: 'update',
+  resource: { resource_name: `customers/1/campaigns/${id}`, status: 2 },
+  update_mask: ['status'],
+});
+
+const setBudget = (id: string, dollars: number) => ({
+  entity: 'campaign_budget',
+  operation: 'update',
+  resource: { resource_name: `customers/1/campaignBudgets/${id}`, amount_micros: dollars * 1_000_000 },
+  update_mask: ['amount_micros'],
+});
+
+describe('max_total_daily_budget', () => {
+  it('counts the budget of a paused campaign the batch enables', async () => {
+    const violations = await evaluateGuardrails([enable('2')], '1', CAP, readAccount);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe('Total daily budget would be $140.00 (currently $90.00); account-cap caps the account at $100/day');
+  });
+
+  it('counts a raised budget on a paused campaign once it is enabled', async () => {
+    expect(await evaluateGuardrails([setBudget('12', 5)], '1', CAP, readAccount)).toEqual([]);
+    expect(await evaluateGuardrails([setBudget('12', 5), enable('2')], '1', CAP, readAccount)).toEqual([]);
+    expect(await evaluateGuardrails([setBudget('12', 20), enable('2')], '1', CAP, readAccount)).toHaveLength(1);
+  });
+
+  it('counts a shared budget once', async () => {
+    expect(await evaluateGuardrails([enable('4')], '1', CAP, readAccount)).toEqual([]);
+  });
+
+  it('lets a batch pause one campaign to make room for another', async () => {
+    const pause1 = { ...enable('1'), resource: { resource_name: 'customers/1/campaigns/1', status: 3 } };
+
+    expect(await evaluateGuardrails([pause1, enable('2')], '1', CAP, readAccount)).toEqual([]);
+  });
+});
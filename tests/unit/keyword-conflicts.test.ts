@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeKeywordConflicts, type CampaignSpec } from '../../src/agents/campaign-builder-agent.js';
+import {
+  findBlockedKeywords,
+  findKeywordConflicts,
+  normalizeKeyword,
+  type KeywordRef,
+  type MatchType,
+} from '../../src/tools/keyword-conflicts.js';
+
+function keyword(text: string, matchType: MatchType, adGroup = 'Patios', source: KeywordRef['source'] = 'spec'): KeywordRef {
+  return { text, matchType, campaign: 'Hardscaping', adGroup, source };
+}
+
+function spec(overrides: Partial<CampaignSpec> = {}): CampaignSpec {
+  return {
+    name: 'Hardscaping - Powell',
+    dailyBudget: 30,
+    biddingStrategy: 'MAXIMIZE_CONVERSIONS',
+    networks: 'SEARCH_ONLY',
+    locations: ['Powell, OH'],
+    standardNegatives: false,
+    adGroups: [{
+      name: 'Patios',
+      keywords: [
+        { text: 'patio installation', matchType: 'PHRASE' },
+        { text: 'paver patio', matchType: 'EXACT' },
+      ],
+      ads: [],
+    }],
+    ...overrides,
+  };
+}
+
+const accountKeyword = (text: string, matchType: MatchType, campaignId: string, campaign: string): KeywordRef => ({
+  text,
+  matchType,
+  campaign,
+  campaignId,
+  adGroup: 'Patios',
+  source: 'account',
+});
+
+describe('normalizeKeyword', () => {
+  it('singularizes plurals', () => {
+    expect(normalizeKeyword('Landscapers')).toBe('landscaper');
+    expect(normalizeKeyword('bushes')).toBe('bush');
+    expect(normalizeKeyword('landscaping companies')).toBe('company landscaping');
+    expect(normalizeKeyword('artificial grass')).toBe('artificial grass');
+  });
+
+  it('ignores word order, stop words, case and punctuation', () => {
+    expect(normalizeKeyword('Patio Pavers')).toBe('patio paver');
+    expect(normalizeKeyword('pavers for a patio')).toBe('patio paver');
+    expect(normalizeKeyword("landscaper's cost of the patio")).toBe('cost landscaper patio');
+  });
+});
+
+describe('findKeywordConflicts', () => {
+  it('flags the same keyword and match type in two ad groups as a duplicate', () => {
+    const [conflict, ...others] = findKeywordConflicts([
+      keyword('patio pavers', 'EXACT', 'Patios'),
+      keyword('paver for patio', 'EXACT', 'Pavers'),
+    ]);
+
+    expect(others).toEqual([]);
+    expect(conflict).toMatchObject({ type: 'duplicate', severity: 'high' });
+    expect(conflict.message).toBe('[patio pavers] (Hardscaping › Patios) duplicates [paver for patio] (Hardscaping › Pavers) in another ad group');
+  });
+
+  it('flags close variants under different match types in two ad groups as an overlap', () => {
+    const conflicts = findKeywordConflicts([
+      keyword('patio pavers', 'EXACT', 'Patios'),
+      keyword('paver patio', 'PHRASE', 'Pavers'),
+    ]);
+
+    expect(conflicts.map(c => [c.type, c.severity])).toEqual([['overlap', 'medium']]);
+  });
+
+  it('flags a phrase or broad keyword that covers another ad group\'s keyword', () => {
+    const conflicts = findKeywordConflicts([
+      keyword('patio installation', 'PHRASE', 'Patios'),
+      keyword('patio installation powell', 'EXACT', 'Powell'),
+      keyword('builders patio', 'BROAD', 'Builders'),
+      keyword('patio builders near me', 'EXACT', 'Near Me'),
+    ]);
+
+    expect(conflicts.map(c => [c.type, c.severity, c.message])).toEqual([
+      ['contains', 'low', '"patio installation" (Hardscaping › Patios) also matches searches for [patio installation powell] (Hardscaping › Powell)'],
+      ['contains', 'low', 'builders patio (Hardscaping › Builders) also matches searches for [patio builders near me] (Hardscaping › Near Me)'],
+    ]);
+  });
+
+  it('leaves match-type layering within one ad group alone', () => {
+    expect(findKeywordConflicts([
+      keyword('paver patio', 'EXACT'),
+      keyword('paver patio', 'PHRASE'),
+      keyword('paver patios', 'BROAD'),
+      keyword('paver patio installation', 'EXACT'),
+    ])).toEqual([]);
+  });
+
+  it('compares with account keywords but not account keywords with each other', () => {
+    const conflicts = findKeywordConflicts(
+      [keyword('paver patio', 'EXACT')],
+      [
+        keyword('paver patio', 'EXACT', 'Live', 'account'),
+        keyword('paver patios', 'EXACT', 'Other', 'account'),
+      ]
+    );
+
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts[0].message).toBe('[paver patio] (Hardscaping › Patios) duplicates [paver patio] (Hardscaping › Live) in the live account');
+  });
+});
+
+describe('analyzeKeywordConflicts', () => {
+  it('compares the spec with account keywords from other campaigns only', () => {
+    const account = [
+      accountKeyword('paver patio', 'EXACT', '1002', 'Hardscaping - Powell'),
+      accountKeyword('patio installation', 'PHRASE', '1001', 'Landscape Design - Dublin'),
+    ];
+
+    expect(analyzeKeywordConflicts(spec({ id: '1002' }), account).map(c => c.other.campaignId)).toEqual(['1001']);
+    // A new spec is matched to its campaign by name
+    expect(analyzeKeywordConflicts(spec(), account).map(c => c.other.campaignId)).toEqual(['1001']);
+    expect(analyzeKeywordConflicts(spec({ name: 'Patios - Powell' }), account).map(c => c.other.campaignId))
+      .toEqual(['1001', '1002']);
+  });
+
+  it('flags spec negatives that block the spec\'s own keywords', () => {
+    const conflicts = analyzeKeywordConflicts(spec({
+      negativeKeywords: [{ text: 'installation', matchType: 'PHRASE' }, { text: 'diy', matchType: 'BROAD' }],
+    }));
+
+    expect(conflicts.map(c => [c.type, c.severity, c.message])).toEqual([
+      ['blocked', 'high', 'Negative "installation" would block "patio installation" (Hardscaping - Powell › Patios)'],
+    ]);
+  });
+});
+
+describe('findBlockedKeywords', () => {
+  it('blocks by the negative\'s match type', () => {
+    const keywords = [keyword('patio installation', 'PHRASE'), keyword('paver patio', 'EXACT')];
+
+    expect(findBlockedKeywords([{ text: 'patio', matchType: 'EXACT' }], keywords)).toEqual([]);
+    expect(findBlockedKeywords([{ text: 'patio paver', matchType: 'PHRASE' }], keywords)).toEqual([]);
+    expect(findBlockedKeywords([{ text: 'patio paver', matchType: 'BROAD' }], keywords).map(c => c.keyword.text))
+      .toEqual(['paver patio']);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { AgentSession } from '../../src/agents/session.js';
+
+/**
+ * A session with one finished turn that made a tool call
+ */
+function sessionWithToolTurn(): AgentSession {
+  const session = AgentSession.create();
+  session.beginTurn('Run a health check');
+  session.messages.push(
+    { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'run_health_check', input: {} }] },
+    { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'x'.repeat(4000) }] },
+    { role: 'assistant', content: 'Done' },
+  );
+  session.recordUsage({ input_tokens: 1000, output_tokens: 100 } as any);
+  return session;
+}
+
+describe('AgentSession.abortTurn', () => {
+  it('restores messages, tool calls and usage from before the turn', () => {
+    const session = sessionWithToolTurn();
+    const messages = structuredClone(session.messages);
+
+    session.beginTurn('Now optimize budgets');
+    session.recordToolCall('run_budget_optimizer', {}, { ok: true });
+    session.recordUsage({ input_tokens: 2000, output_tokens: 50 } as any);
+    session.abortTurn();
+
+    expect(session.messages).toEqual(messages);
+    expect(session.toolCalls).toEqual([]);
+    expect(session.turns).toBe(1);
+    expect(session.usage).toEqual({ inputTokens: 1000, outputTokens: 100 });
+    expect(session.contextTokens).toBe(1000);
+  });
+
+  it('undoes compaction the aborted turn triggered', () => {
+    const session = sessionWithToolTurn();
+    session.beginTurn('Any wasted spend?');
+    session.messages.push({ role: 'assistant', content: 'Yes - "paver patio".' });
+    const messages = structuredClone(session.messages);
+
+    session.beginTurn('Pause it');
+    expect(session.compact({ maxContextTokens: 10, keepRecentTurns: 1 })).toBe(1);
+    expect(session.contextTokens).toBe(0);
+    session.abortTurn();
+
+    expect(session.messages).toEqual(messages);
+    expect(session.contextTokens).toBe(1000);
+  });
+});
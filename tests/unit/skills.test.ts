@@ -0,0 +1,80 @@
+import { readdirSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { getSkill, loadAllSkills, parseFrontmatter } from '../../src/skills/index.js';
+
+describe('parseFrontmatter', () => {
+  it('reads name and quoted description and strips the frontmatter from the body', () => {
+    const parsed = parseFrontmatter([
+      '---',
+      'name: brand-voice',
+      'description: "Define a consistent brand voice. Use when copy sounds generic."',
+      '---',
+      '',
+      '# Brand Voice',
+      '',
+      'Body text.',
+      '',
+    ].join('\n'));
+
+    expect(parsed).toEqual({
+      name: 'brand-voice',
+      description: 'Define a consistent brand voice. Use when copy sounds generic.',
+      body: '# Brand Voice\n\nBody text.',
+    });
+  });
+
+  it('reads an unquoted description', () => {
+    const parsed = parseFrontmatter('---\nname: newsletter\ndescription: Weekly email issues\n---\nBody');
+
+    expect(parsed.name).toBe('newsletter');
+    expect(parsed.description).toBe('Weekly email issues');
+    expect(parsed.body).toBe('Body');
+  });
+
+  it('keeps apostrophes and colons inside a quoted description', () => {
+    const parsed = parseFrontmatter(
+      '---\nname: brand-voice\ndescription: "Triggers on: what\'s my voice, make this sound like me."\n---\nBody'
+    );
+
+    expect(parsed.description).toBe('Triggers on: what\'s my voice, make this sound like me.');
+  });
+
+  it('falls back to "unknown" and the whole content without frontmatter', () => {
+    const content = '# Just Markdown\n\nNo frontmatter here.';
+
+    expect(parseFrontmatter(content)).toEqual({ name: 'unknown', description: '', body: content });
+  });
+
+  it('falls back to "unknown" when the frontmatter has no name', () => {
+    const parsed = parseFrontmatter('---\ndescription: "Nameless"\n---\nBody');
+
+    expect(parsed.name).toBe('unknown');
+    expect(parsed.description).toBe('Nameless');
+  });
+});
+
+describe('loadAllSkills', () => {
+  const skillsDir = join(import.meta.dirname, '..', '..', 'src', 'skills');
+  const directories = readdirSync(skillsDir, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory())
+    .map(dirent => dirent.name);
+
+  it('loads every SKILL.md with the name of its directory and a description', () => {
+    const skills = loadAllSkills();
+
+    expect(skills.map(skill => skill.name).sort()).toEqual(directories.filter(dir =>
+      readdirSync(join(skillsDir, dir)).includes('SKILL.md')
+    ).sort());
+    for (const skill of skills) {
+      expect(skill.description, skill.name).not.toBe('');
+      expect(skill.content, skill.name).not.toMatch(/^---/);
+    }
+  });
+
+  it('attaches reference files', () => {
+    const strategist = getSkill('ai-creative-strategist');
+
+    expect(strategist?.references?.[0]).toMatch(/^### Reference: VISUAL_INTELLIGENCE\.md\n/);
+  });
+});
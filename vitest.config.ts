@@ -0,0 +1,37 @@
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Unit tests (tests/unit) run pure functions. Integration tests
+ * (tests/integration) run each sub-agent offline: Google Ads calls go to
+ * the fake MCP server (src/fake-mcp-server.ts), Anthropic calls replay
+ * recorded responses from tests/fixtures.
+ *
+ * The env below keeps a developer's .env from pointing tests at a live
+ * account - dotenv never overrides variables that are already set.
+ */
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    pool: 'forks',
+    testTimeout: 30_000,
+    hookTimeout: 30_000,
+    silent: 'passed-only',
+    env: {
+      PPC_AGENT_OFFLINE: 'true',
+      GOOGLE_ADS_MCP_PATH: 'src/fake-mcp-server.ts',
+      PPC_AGENT_GUARDRAILS_FILE: 'guardrails.json',
+      ANTHROPIC_API_KEY: 'test-anthropic-key',
+      AGENT_MODEL: 'claude-sonnet-4-5-20250929',
+      GOOGLE_ADS_DEVELOPER_TOKEN: 'test-developer-token',
+      GOOGLE_ADS_CLIENT_ID: 'test-client-id',
+      GOOGLE_ADS_CLIENT_SECRET: 'test-client-secret',
+      GOOGLE_ADS_REFRESH_TOKEN: 'test-refresh-token',
+      GOOGLE_ADS_LOGIN_CUSTOMER_ID: '1234567890',
+      GOOGLE_ADS_DEFAULT_CUSTOMER_ID: '1234567890',
+      DATAFORSEO_LOGIN: 'test-login',
+      DATAFORSEO_PASSWORD: 'test-password',
+      MCP_PING_INTERVAL_MS: '0',
+    },
+  },
+});